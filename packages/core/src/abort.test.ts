@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { abortable } from './abort';
+
+describe('abortable', () => {
+  it('should settle with the promise when nothing aborts', async () => {
+    const controller = new AbortController();
+
+    await expect(abortable(Promise.resolve('done'), controller.signal)).resolves.toBe('done');
+    await expect(abortable(Promise.reject(new Error('Failed')), undefined)).rejects.toThrow(
+      'Failed',
+    );
+  });
+
+  it('should reject with the reason and tear down when the signal aborts', async () => {
+    const controller = new AbortController();
+    const onAbort = vi.fn();
+    let fail!: (error: Error) => void;
+    const pending = new Promise<string>((_, reject) => {
+      fail = reject;
+    });
+
+    const result = abortable(pending, controller.signal, onAbort);
+    controller.abort(new Error('Timed out'));
+    fail(new Error('Socket closed'));
+
+    await expect(result).rejects.toThrow('Timed out');
+    expect(onAbort).toHaveBeenCalledOnce();
+  });
+
+  it('should reject right away when the signal has already aborted', async () => {
+    const onAbort = vi.fn();
+
+    await expect(
+      abortable(new Promise(() => {}), AbortSignal.abort(new Error('Cancelled')), onAbort),
+    ).rejects.toThrow('Cancelled');
+    expect(onAbort).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Settle with `promise`, or reject with the signal's reason once it aborts
+ *
+ * `onAbort` runs first, to tear down whatever the promise is waiting on, e.g.
+ * a socket whose session is left halfway through a command. A rejection of
+ * `promise` after the abort is ignored.
+ */
+export async function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort?: () => void,
+): Promise<T> {
+  if (!signal) return promise;
+
+  // The caller only hears about the abort
+  promise.catch(() => undefined);
+
+  let listener = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    listener = () => {
+      onAbort?.();
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      listener();
+    } else {
+      signal.addEventListener('abort', listener, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', listener);
+  }
+}
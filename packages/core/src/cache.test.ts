@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCache, jsonSerializer } from './cache';
+import type { CacheStore } from './cache';
+import { MailClient } from './client';
+import { memory } from './memory';
+import type { EmailId, ThreadId } from './types';
+
+function createClient(store: CacheStore = createMemoryCache()) {
+  const provider = memory({
+    emails: [
+      { id: 'm1' as EmailId, threadId: 't1' as ThreadId, subject: 'Hello' },
+      { id: 'm2' as EmailId, threadId: 't1' as ThreadId, subject: 'Re: Hello' },
+    ],
+  });
+  const client = new MailClient({ provider, retry: false, cache: { store } });
+  return { provider, client };
+}
+
+describe('jsonSerializer', () => {
+  it('should keep dates and maps', () => {
+    const email = {
+      date: new Date('2024-01-01T10:00:00Z'),
+      headers: new Map([['x-tenant', 'acme']]),
+      labels: [{ id: 'work', name: 'Work' }],
+    };
+
+    expect(jsonSerializer.deserialize(jsonSerializer.serialize(email))).toEqual(email);
+  });
+});
+
+describe('createMemoryCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after their ttl', () => {
+    const cache = createMemoryCache();
+    cache.set('a', '1', 1000);
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe('1');
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect([cache.get('a'), cache.get('b'), cache.get('c')]).toEqual(['1', undefined, '3']);
+  });
+});
+
+describe('MailClient cache', () => {
+  it('should answer repeated gets by id and format from the cache', async () => {
+    const { provider, client } = createClient();
+
+    const first = await client.get('m1');
+    const second = await client.get('m1');
+    await client.get('m1', { format: 'metadata' });
+
+    expect(second).toEqual(first);
+    expect(second.headers).toBeInstanceOf(Map);
+    expect(second.date).toBeInstanceOf(Date);
+    expect(provider.calls).toEqual(['get', 'get']);
+  });
+
+  it('should always fetch raw messages from the provider', async () => {
+    const { provider, client } = createClient();
+
+    await client.get('m1', { includeRaw: true });
+    await client.get('m1', { includeRaw: true });
+
+    expect(provider.calls).toEqual(['get', 'get']);
+  });
+
+  it('should drop an email and the folders when the email changes', async () => {
+    const { provider, client } = createClient();
+    await client.get('m1');
+    await client.get('m2');
+    const inbox = (await client.listFolders()).find((folder) => folder.type === 'inbox');
+
+    await client.markAsRead('m1');
+
+    expect((await client.get('m1')).isRead).toBe(true);
+    await client.get('m2');
+    const folders = await client.listFolders();
+    expect(folders.find((folder) => folder.type === 'inbox')?.unreadCount).toBe(
+      (inbox?.unreadCount ?? 0) - 1,
+    );
+    expect(provider.calls).toEqual([
+      'get',
+      'get',
+      'listFolders',
+      'markAsRead',
+      'get',
+      'listFolders',
+    ]);
+  });
+
+  it('should not write back an email read before it changed', async () => {
+    const { provider, client } = createClient();
+    const get = provider.get.bind(provider);
+    let release = () => {};
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    vi.spyOn(provider, 'get').mockImplementationOnce(async (...args) => {
+      const email = await get(...args);
+      await released;
+      return email;
+    });
+
+    const slow = client.get('m1');
+    await vi.waitFor(() => expect(provider.get).toHaveBeenCalled());
+    await client.markAsRead('m1');
+    release();
+
+    expect((await slow).isRead).toBe(false);
+    expect((await client.get('m1')).isRead).toBe(true);
+    expect(provider.calls).toEqual(['get', 'markAsRead', 'get']);
+  });
+
+  it('should cache folders until a folder changes', async () => {
+    const { provider, client } = createClient();
+
+    await client.getFolder('inbox');
+    await client.getFolder('inbox');
+    await client.createFolder('Projects');
+    await client.getFolder('inbox');
+
+    expect(provider.calls).toEqual(['getFolder', 'createFolder', 'getFolder']);
+  });
+
+  it('should drop every email when a thread changes', async () => {
+    const { provider, client } = createClient();
+    await client.get('m1');
+
+    await client.markThreadAsRead('t1');
+    await client.get('m1');
+
+    expect(provider.calls).toEqual(['get', 'markThreadAsRead', 'get']);
+  });
+
+  it('should fall back to the provider when the store fails', async () => {
+    const { provider, client } = createClient({
+      get: () => Promise.reject(new Error('Connection refused')),
+      set: () => Promise.reject(new Error('Connection refused')),
+      delete: () => Promise.reject(new Error('Connection refused')),
+    });
+
+    await client.get('m1');
+    await client.markAsRead('m1');
+
+    expect(provider.calls).toEqual(['get', 'markAsRead']);
+  });
+});
@@ -0,0 +1,235 @@
+import type { Middleware } from './middleware';
+import type { GetOptions } from './provider';
+
+/**
+ * Key-value store holding cached entries as strings, e.g. an in-memory LRU or Redis
+ */
+export interface CacheStore {
+  get(key: string): string | null | undefined | Promise<string | null | undefined>;
+  /** Store a value, expiring it after `ttl` ms when given */
+  set(key: string, value: string, ttl?: number): unknown;
+  delete(key: string): unknown;
+}
+
+/**
+ * Turns cached values into strings and back
+ */
+export interface CacheSerializer {
+  serialize(value: unknown): string;
+  deserialize(text: string): unknown;
+}
+
+/**
+ * Options for caching `get()`, `listFolders()` and `getFolder()`
+ */
+export interface CacheOptions {
+  /** Where entries are kept (default: `createMemoryCache()`) */
+  store?: CacheStore;
+  /** Prefix of every key; set it per account when accounts share a store (default: provider name) */
+  namespace?: string;
+  /** Milliseconds an email stays cached (default: 5 minutes) */
+  ttl?: number;
+  /** Milliseconds folder metadata stays cached (default: 30 seconds) */
+  folderTtl?: number;
+  /** Default: JSON keeping `Date` and `Map` values, such as `Email.headers` */
+  serializer?: CacheSerializer;
+}
+
+const DEFAULT_TTL = 5 * 60_000;
+const DEFAULT_FOLDER_TTL = 30_000;
+const FORMATS: NonNullable<GetOptions['format']>[] = ['full', 'metadata', 'minimal'];
+
+// Mutations that change an email, and with it the unread counts of folders
+const EMAIL_MUTATIONS = new Set([
+  'markAsRead',
+  'markAsUnread',
+  'star',
+  'unstar',
+  'move',
+  'delete',
+  'addLabel',
+  'removeLabel',
+]);
+const FOLDER_MUTATIONS = new Set(['createFolder', 'deleteFolder', 'send', 'sendDraft']);
+// Thread mutations change emails whose ids are unknown here
+const THREAD_MUTATIONS = new Set([
+  'markThreadAsRead',
+  'markThreadAsUnread',
+  'archiveThread',
+  'trashThread',
+  'addThreadLabel',
+  'removeThreadLabel',
+]);
+const MUTATIONS = [EMAIL_MUTATIONS, FOLDER_MUTATIONS, THREAD_MUTATIONS];
+
+/**
+ * JSON serializer that keeps `Date` and `Map` values
+ */
+export const jsonSerializer: CacheSerializer = {
+  serialize(value) {
+    return JSON.stringify(value, function (this: Record<string, unknown>, key, json) {
+      // `json` is the result of `toJSON()`, so look at the original value
+      const original = this[key];
+      if (original instanceof Date) return { $date: original.getTime() };
+      if (original instanceof Map) return { $map: [...original] };
+      return json;
+    });
+  },
+
+  deserialize(text) {
+    return JSON.parse(text, (_key, value) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if ('$date' in value) return new Date(value.$date);
+        if ('$map' in value) return new Map(value.$map);
+      }
+      return value;
+    });
+  },
+};
+
+/**
+ * Create an in-memory store that evicts the least recently used entry when full
+ */
+export function createMemoryCache(options: { maxEntries?: number } = {}): CacheStore {
+  const maxEntries = options.maxEntries ?? 1000;
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      // Move to the end, as the most recently used
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, ttl) {
+      entries.delete(key);
+      entries.set(key, {
+        value,
+        expiresAt: ttl === undefined ? Number.POSITIVE_INFINITY : Date.now() + ttl,
+      });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Middleware answering `get()`, `listFolders()` and `getFolder()` from a cache,
+ * as `MailConfig.cache` does
+ *
+ * Emails are cached by id and `format`; `get()` calls with `includeRaw` or
+ * `includeAttachments` always reach the provider. Mutations made through the
+ * client remove what they change, even when they fail, since a failed call
+ * may still have gone through. Changes made elsewhere show once entries expire.
+ *
+ * A store that fails is treated as empty.
+ */
+export function cacheMiddleware(options: CacheOptions = {}): Middleware {
+  const store = options.store ?? createMemoryCache();
+  const serializer = options.serializer ?? jsonSerializer;
+  const ttl = options.ttl ?? DEFAULT_TTL;
+  const folderTtl = options.folderTtl ?? DEFAULT_FOLDER_TTL;
+
+  const read = async (key: string): Promise<unknown> => {
+    try {
+      const text = await store.get(key);
+      return text == null ? undefined : serializer.deserialize(text);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const ignoreFailure = async (fn: () => unknown): Promise<void> => {
+    try {
+      await fn();
+    } catch {
+      // The entry expires on its own
+    }
+  };
+
+  // Entries are keyed by a generation, so a whole group is dropped by starting
+  // a new one; a generation missing from the store starts a new one as well
+  const generation = async (group: string): Promise<string> => {
+    const current = await read(group);
+    if (typeof current === 'string') return current;
+    return renew(group);
+  };
+
+  const renew = async (group: string): Promise<string> => {
+    const next = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    await ignoreFailure(() => store.set(group, serializer.serialize(next)));
+    return next;
+  };
+
+  // Loads in flight by key; removing an entry marks its loads stale, so a value
+  // read before a mutation isn't written back once the mutation is done
+  const loading = new Map<string, Set<{ stale: boolean }>>();
+
+  const cached = async (key: string, entryTtl: number, load: () => Promise<unknown>) => {
+    const hit = await read(key);
+    if (hit !== undefined) return hit;
+
+    const pending = { stale: false };
+    const loads = loading.get(key) ?? new Set();
+    loading.set(key, loads.add(pending));
+    try {
+      const value = await load();
+      if (!pending.stale) {
+        await ignoreFailure(() => store.set(key, serializer.serialize(value), entryTtl));
+      }
+      return value;
+    } finally {
+      loads.delete(pending);
+      if (loads.size === 0) loading.delete(key);
+    }
+  };
+
+  return async (context, next) => {
+    const namespace = options.namespace ?? context.provider.name;
+    const emails = `${namespace}:emails`;
+    const folders = `${namespace}:folders`;
+    const [first] = context.args;
+
+    switch (context.operation) {
+      case 'get': {
+        const get = context.args[1] as GetOptions | undefined;
+        if (get?.includeRaw || get?.includeAttachments) return next();
+        const key = `${emails}:${await generation(emails)}:${first}:${get?.format ?? 'full'}`;
+        return cached(key, ttl, () => next());
+      }
+      case 'listFolders':
+        return cached(`${folders}:${await generation(folders)}`, folderTtl, () => next());
+      case 'getFolder':
+        return cached(`${folders}:${await generation(folders)}:${first}`, folderTtl, () => next());
+    }
+
+    try {
+      return await next();
+    } finally {
+      if (EMAIL_MUTATIONS.has(context.operation)) {
+        const current = await generation(emails);
+        for (const format of FORMATS) {
+          const key = `${emails}:${current}:${first}:${format}`;
+          for (const pending of loading.get(key) ?? []) pending.stale = true;
+          await ignoreFailure(() => store.delete(key));
+        }
+      }
+      if (THREAD_MUTATIONS.has(context.operation)) {
+        await renew(emails);
+      }
+      if (MUTATIONS.some((mutations) => mutations.has(context.operation))) {
+        await renew(folders);
+      }
+    }
+  };
+}
@@ -1,8 +1,28 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { MailClient, createMail } from './client';
-import type { MailProvider } from './provider';
-import type { Email, Folder, SendResult, EmailId, FolderName } from './types';
-import { FaktoorError, NetworkError, AuthenticationError } from './errors';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MailClient, createMail, retryMiddleware } from './client';
+import type { Middleware } from './middleware';
+import type { ListOptions, MailProvider } from './provider';
+import type {
+  Draft,
+  DraftId,
+  Email,
+  Folder,
+  SendResult,
+  EmailId,
+  FolderName,
+  Thread,
+  ThreadId,
+} from './types';
+import {
+  FaktoorError,
+  NetworkError,
+  AuthenticationError,
+  RateLimitError,
+  TimeoutError,
+  UnsupportedOperationError,
+} from './errors';
+import { memory } from './memory';
+import { createEventEmitter } from './events';
 
 // Mock email for testing
 const mockEmail: Email = {
@@ -174,6 +194,24 @@ describe('MailClient', () => {
     });
   });
 
+  describe('listPage', () => {
+    it('should call provider listPage when available', async () => {
+      const page = { emails: [mockEmail], nextCursor: 'next', totalEstimate: 120 };
+      const provider = createMockProvider({ listPage: vi.fn().mockResolvedValue(page) });
+      const client = new MailClient({ provider });
+
+      expect(await client.listPage({ limit: 1, cursor: 'abc' })).toBe(page);
+      expect(provider.listPage).toHaveBeenCalledWith({ limit: 1, cursor: 'abc' });
+    });
+
+    it('should fall back to list without a next cursor', async () => {
+      const page = await client.listPage({ limit: 10 });
+
+      expect(page).toEqual({ emails: [mockEmail] });
+      expect(mockProvider.list).toHaveBeenCalledWith({ limit: 10 });
+    });
+  });
+
   describe('get', () => {
     it('should call provider get with id and options', async () => {
       const options = { includeAttachments: true };
@@ -225,6 +263,31 @@ describe('MailClient', () => {
       expect(mockProvider.send).toHaveBeenCalledWith(options);
       expect(result).toEqual(mockSendResult);
     });
+
+    it('should send through the transport when configured', async () => {
+      const transport = { name: 'smtp', send: vi.fn().mockResolvedValue(mockSendResult) };
+      const client = new MailClient({ provider: mockProvider, transport });
+      const options = { to: 'test@example.com', subject: 'Test' };
+
+      await client.send(options);
+
+      expect(transport.send).toHaveBeenCalledWith(options);
+      expect(mockProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should close the transport on disconnect', async () => {
+      const transport = {
+        name: 'smtp',
+        send: vi.fn(),
+        close: vi.fn().mockResolvedValue(undefined),
+      };
+      const client = new MailClient({ provider: mockProvider, transport });
+
+      await client.disconnect();
+
+      expect(transport.close).toHaveBeenCalledTimes(1);
+      expect(mockProvider.disconnect).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('folder operations', () => {
@@ -322,10 +385,191 @@ describe('MailClient', () => {
       const client = new MailClient({ provider });
 
       expect(() => client.watch()).toThrow('Provider mock does not support watch');
+      expect(() => client.watch()).toThrow(UnsupportedOperationError);
+    });
+  });
+
+  describe('capabilities', () => {
+    it('should infer capabilities from optional methods when the provider has none', () => {
+      const provider = createMockProvider({ watch: vi.fn() });
+
+      expect(new MailClient({ provider }).capabilities).toMatchObject({
+        watch: true,
+        threads: false,
+        drafts: false,
+        send: true,
+      });
+    });
+
+    it('should return the capabilities the provider declares', () => {
+      const provider = memory({ capabilities: { labels: false, move: 'none' } });
+
+      expect(createMail({ provider }).capabilities).toMatchObject({
+        labels: false,
+        move: 'none',
+        threads: true,
+      });
+    });
+
+    it('should report send support through a transport', () => {
+      const provider = memory({ capabilities: { send: false } });
+      const transport = { name: 'smtp', send: vi.fn() };
+
+      expect(createMail({ provider }).capabilities.send).toBe(false);
+      expect(createMail({ provider, transport }).capabilities.send).toBe(true);
     });
   });
 });
 
+describe('MailClient threads', () => {
+  const mockThread: Thread = {
+    id: 'thread-1' as ThreadId,
+    subject: 'Test Email',
+    participants: [{ email: 'sender@example.com' }, { email: 'recipient@example.com' }],
+    messageCount: 1,
+    messages: [mockEmail],
+    lastDate: mockEmail.date,
+    hasUnread: true,
+  };
+
+  function createThreadProvider(): MailProvider {
+    return createMockProvider({
+      getThread: vi.fn().mockResolvedValue(mockThread),
+      listThreads: vi.fn().mockResolvedValue([mockThread]),
+      markThreadAsRead: vi.fn().mockResolvedValue(undefined),
+      markThreadAsUnread: vi.fn().mockResolvedValue(undefined),
+      archiveThread: vi.fn().mockResolvedValue(undefined),
+      trashThread: vi.fn().mockResolvedValue(undefined),
+      addThreadLabel: vi.fn().mockResolvedValue(undefined),
+      removeThreadLabel: vi.fn().mockResolvedValue(undefined),
+    });
+  }
+
+  it('should get a thread', async () => {
+    const provider = createThreadProvider();
+    const client = new MailClient({ provider });
+
+    expect(await client.getThread('thread-1')).toBe(mockThread);
+    expect(provider.getThread).toHaveBeenCalledWith('thread-1');
+  });
+
+  it('should list threads with options', async () => {
+    const provider = createThreadProvider();
+    const client = new MailClient({ provider });
+
+    expect(await client.listThreads({ folder: 'INBOX', limit: 10 })).toEqual([mockThread]);
+    expect(provider.listThreads).toHaveBeenCalledWith({ folder: 'INBOX', limit: 10 });
+  });
+
+  it('should forward thread mutations', async () => {
+    const provider = createThreadProvider();
+    const client = new MailClient({ provider });
+
+    await client.markThreadAsRead('thread-1');
+    await client.markThreadAsUnread('thread-1');
+    await client.archiveThread('thread-1');
+    await client.trashThread('thread-1');
+    await client.addThreadLabel('thread-1', 'support');
+    await client.removeThreadLabel('thread-1', 'support');
+
+    expect(provider.markThreadAsRead).toHaveBeenCalledWith('thread-1');
+    expect(provider.markThreadAsUnread).toHaveBeenCalledWith('thread-1');
+    expect(provider.archiveThread).toHaveBeenCalledWith('thread-1');
+    expect(provider.trashThread).toHaveBeenCalledWith('thread-1');
+    expect(provider.addThreadLabel).toHaveBeenCalledWith('thread-1', 'support');
+    expect(provider.removeThreadLabel).toHaveBeenCalledWith('thread-1', 'support');
+  });
+
+  it('should retry thread calls on failure', async () => {
+    const getThread = vi
+      .fn()
+      .mockRejectedValueOnce(new NetworkError('Connection failed'))
+      .mockResolvedValueOnce(mockThread);
+    const provider = createMockProvider({ getThread });
+    const client = new MailClient({
+      provider,
+      retry: { attempts: 2, initialDelay: 1, backoff: 'fixed' },
+    });
+
+    expect(await client.getThread('thread-1')).toBe(mockThread);
+    expect(getThread).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw when provider does not support threads', async () => {
+    const client = new MailClient({ provider: createMockProvider() });
+
+    await expect(client.getThread('thread-1')).rejects.toThrow(
+      'Provider mock does not support threads',
+    );
+    await expect(client.archiveThread('thread-1')).rejects.toThrow(
+      'Provider mock does not support threads',
+    );
+    await expect(client.listThreads()).rejects.toMatchObject({
+      name: 'UnsupportedOperationError',
+      provider: 'mock',
+      operation: 'listThreads',
+    });
+  });
+});
+
+describe('MailClient drafts', () => {
+  const mockDraft: Draft = {
+    id: 'draft-1' as DraftId,
+    message: { ...mockEmail, isDraft: true },
+  };
+  const draftOptions = { to: 'recipient@example.com', subject: 'Re: Test', text: 'Thanks!' };
+
+  function createDraftProvider(): MailProvider {
+    return createMockProvider({
+      createDraft: vi.fn().mockResolvedValue(mockDraft),
+      updateDraft: vi.fn().mockResolvedValue(mockDraft),
+      listDrafts: vi.fn().mockResolvedValue([mockDraft]),
+      getDraft: vi.fn().mockResolvedValue(mockDraft),
+      deleteDraft: vi.fn().mockResolvedValue(undefined),
+      sendDraft: vi.fn().mockResolvedValue(mockSendResult),
+    });
+  }
+
+  it('should create and update drafts', async () => {
+    const provider = createDraftProvider();
+    const client = new MailClient({ provider });
+
+    expect(await client.createDraft(draftOptions)).toBe(mockDraft);
+    expect(await client.updateDraft('draft-1', draftOptions)).toBe(mockDraft);
+    expect(provider.createDraft).toHaveBeenCalledWith(draftOptions);
+    expect(provider.updateDraft).toHaveBeenCalledWith('draft-1', draftOptions);
+  });
+
+  it('should list, get and delete drafts', async () => {
+    const provider = createDraftProvider();
+    const client = new MailClient({ provider });
+
+    expect(await client.listDrafts({ limit: 5 })).toEqual([mockDraft]);
+    expect(await client.getDraft('draft-1')).toBe(mockDraft);
+    await client.deleteDraft('draft-1');
+
+    expect(provider.listDrafts).toHaveBeenCalledWith({ limit: 5 });
+    expect(provider.getDraft).toHaveBeenCalledWith('draft-1');
+    expect(provider.deleteDraft).toHaveBeenCalledWith('draft-1');
+  });
+
+  it('should send a draft', async () => {
+    const provider = createDraftProvider();
+    const client = new MailClient({ provider });
+
+    expect(await client.sendDraft('draft-1')).toBe(mockSendResult);
+    expect(provider.sendDraft).toHaveBeenCalledWith('draft-1');
+  });
+
+  it('should throw when provider does not support drafts', async () => {
+    const client = new MailClient({ provider: createMockProvider() });
+
+    await expect(client.createDraft(draftOptions)).rejects.toThrow(
+      'Provider mock does not support drafts',
+    );
+  });
+});
+
 describe('Retry logic', () => {
   it('should not retry when retry is disabled', async () => {
     const provider = createMockProvider({
@@ -544,6 +788,311 @@ describe('Retry logic', () => {
   });
 });
 
+describe('Retry logic against the memory provider', () => {
+  const retry = { attempts: 3, backoff: 'none', initialDelay: 0, maxDelay: 0 } as const;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should recover from rate limiting, waiting as long as the server asks', async () => {
+    const provider = memory({ emails: [{ subject: 'Hello' }] });
+    provider.injectFailure({ times: 2, methods: ['list'] });
+    const client = new MailClient({ provider, retry });
+    const start = Date.now();
+
+    const result = client.list();
+    await vi.runAllTimersAsync();
+
+    expect((await result).map((email) => email.subject)).toEqual(['Hello']);
+    expect(provider.calls).toEqual(['list', 'list', 'list']);
+    // The injected RateLimitError asks for 1 second
+    expect(Date.now() - start).toBe(2000);
+  });
+
+  it('should give up when rate limiting outlasts the attempts', async () => {
+    const provider = memory();
+    provider.injectFailure({ after: 1 });
+    const client = new MailClient({ provider, retry });
+
+    await client.listFolders();
+    const result = expect(client.markAsRead('missing')).rejects.toBeInstanceOf(RateLimitError);
+    await vi.runAllTimersAsync();
+
+    await result;
+    expect(provider.calls).toEqual(['listFolders', 'markAsRead', 'markAsRead', 'markAsRead']);
+  });
+
+  it('should give up when the next wait would overrun maxElapsed', async () => {
+    const provider = memory();
+    provider.injectFailure({ error: () => new RateLimitError('Slow down', 5000) });
+    const client = new MailClient({ provider, retry: { ...retry, maxElapsed: 3000 } });
+
+    await expect(client.listFolders()).rejects.toThrow('Slow down');
+    expect(provider.calls).toEqual(['listFolders']);
+  });
+});
+
+describe('Retry policies', () => {
+  const retry = { attempts: 3, backoff: 'none', initialDelay: 0, maxDelay: 0 } as const;
+
+  it('should ask shouldRetry and report each retry to onRetry', async () => {
+    const provider = createMockProvider({
+      list: vi.fn().mockRejectedValue(new AuthenticationError('expired')),
+    });
+    const shouldRetry = vi.fn((_error: unknown, attempt: number) => attempt < 2);
+    const onRetry = vi.fn();
+    const client = new MailClient({ provider, retry: { ...retry, shouldRetry, onRetry } });
+
+    await expect(client.list()).rejects.toThrow('expired');
+
+    expect(provider.list).toHaveBeenCalledTimes(2);
+    expect(shouldRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+    expect(onRetry).toHaveBeenCalledOnce();
+    expect(onRetry).toHaveBeenCalledWith(expect.any(AuthenticationError), 1, 0);
+  });
+
+  it('should not retry sending unless non-idempotent retries are enabled', async () => {
+    const send = vi.fn().mockRejectedValue(new NetworkError('connection reset'));
+    const provider = createMockProvider({ send });
+
+    await expect(
+      new MailClient({ provider, retry }).send({ to: 'a@example.com', subject: 'Hi' }),
+    ).rejects.toThrow('connection reset');
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await expect(
+      new MailClient({ provider, retry: { ...retry, retryNonIdempotent: true } }).send({
+        to: 'a@example.com',
+        subject: 'Hi',
+      }),
+    ).rejects.toThrow('connection reset');
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('Timeouts and cancellation', () => {
+  const retry = { attempts: 3, backoff: 'none', initialDelay: 0, maxDelay: 0 } as const;
+
+  it('should abort a call that outlasts the timeout', async () => {
+    const provider = memory({ latency: 1000 });
+    const client = new MailClient({ provider, retry: false, timeout: 10 });
+
+    const error = await client.listFolders().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ timeout: 10, retryable: true });
+  });
+
+  it('should give each retry its own timeout', async () => {
+    const provider = memory({ emails: [{ subject: 'Hello' }] });
+    provider.setLatency(() => (provider.calls.length === 1 ? 1000 : 0));
+    const client = new MailClient({ provider, retry, timeout: 10 });
+
+    const result = await client.list();
+
+    expect(result.map((email) => email.subject)).toEqual(['Hello']);
+    expect(provider.calls).toEqual(['list', 'list']);
+  });
+
+  it('should pass a signal to the provider', async () => {
+    const provider = createMockProvider();
+    const client = new MailClient({ provider, timeout: 1000 });
+
+    await client.list({ limit: 5 });
+    await client.markAsRead('email-1');
+
+    expect(vi.mocked(provider.list).mock.calls[0]?.[0]).toMatchObject({
+      limit: 5,
+      signal: expect.any(AbortSignal),
+    });
+    expect(vi.mocked(provider.markAsRead).mock.calls[0]?.[1]).toEqual({
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should give up when the caller aborts, without retrying', async () => {
+    const provider = memory({ latency: 1000 });
+    const client = new MailClient({ provider, retry });
+    const controller = new AbortController();
+
+    const result = client.star('missing', { signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+
+    await expect(result).rejects.toThrow('Cancelled');
+    expect(provider.calls).toEqual(['star']);
+    await expect(client.list({ signal: controller.signal })).rejects.toThrow('Cancelled');
+  });
+});
+
+describe('Middleware', () => {
+  const retry = { attempts: 3, backoff: 'none', initialDelay: 0, maxDelay: 0 } as const;
+
+  it('should run middleware in order around the provider call', async () => {
+    const provider = createMockProvider();
+    const log: string[] = [];
+    const layer =
+      (name: string): Middleware =>
+      async (context, next) => {
+        log.push(`${name}:${context.operation}:${context.args.join(',')}`);
+        const result = await next();
+        log.push(`${name}:done`);
+        return result;
+      };
+    const client = new MailClient({ provider, middleware: [layer('outer')] }).use(layer('inner'));
+
+    await client.move('email-1', 'archive');
+
+    expect(log).toEqual([
+      'outer:move:email-1,archive',
+      'inner:move:email-1,archive',
+      'inner:done',
+      'outer:done',
+    ]);
+    expect(provider.move).toHaveBeenCalledWith('email-1', 'archive');
+  });
+
+  it('should share meta between layers and see the provider', async () => {
+    const audit = vi.fn();
+    const tenant: Middleware = (context, next) => {
+      context.meta.tenant = 'acme';
+      return next();
+    };
+    const logger: Middleware = async (context, next) => {
+      const result = await next();
+      audit(context.provider.name, context.operation, context.meta.tenant, context.idempotent);
+      return result;
+    };
+    const client = new MailClient({ provider: createMockProvider(), middleware: [tenant, logger] });
+
+    await client.send({ to: 'a@example.com', subject: 'Hi' });
+
+    expect(audit).toHaveBeenCalledWith('mock', 'send', 'acme', false);
+  });
+
+  it('should call the provider with arguments rewritten by middleware', async () => {
+    const provider = createMockProvider();
+    const capped: Middleware = (context, next) =>
+      context.operation === 'list'
+        ? next({ ...context, args: [{ ...(context.args[0] as ListOptions), limit: 10 }] })
+        : next();
+    const renamed: Middleware = (context, next) =>
+      context.operation === 'move' ? next({ ...context, args: [context.args[0], 'trash'] }) : next();
+    const client = new MailClient({ provider, middleware: [capped, renamed] });
+
+    await client.list({ folder: 'inbox', limit: 500 });
+    await client.move('email-1', 'archive');
+
+    expect(provider.list).toHaveBeenCalledWith({ folder: 'inbox', limit: 10 });
+    expect(provider.move).toHaveBeenCalledWith('email-1', 'trash');
+  });
+
+  it('should let middleware answer without calling the provider', async () => {
+    const provider = createMockProvider();
+    const cached: Middleware = async (context, next) =>
+      context.operation === 'listFolders' ? [mockFolder] : next();
+    const client = new MailClient({ provider, middleware: [cached] });
+
+    await expect(client.listFolders()).resolves.toEqual([mockFolder]);
+    expect(provider.listFolders).not.toHaveBeenCalled();
+  });
+
+  it('should run outside of retries unless retries are placed in the chain', async () => {
+    const list = vi
+      .fn()
+      .mockRejectedValueOnce(new NetworkError('connection reset'))
+      .mockResolvedValue([mockEmail]);
+    const calls = vi.fn();
+    const counter: Middleware = (_context, next) => {
+      calls();
+      return next();
+    };
+
+    await new MailClient({
+      provider: createMockProvider({ list }),
+      retry,
+      middleware: [counter],
+    }).list();
+    expect(calls).toHaveBeenCalledTimes(1);
+
+    list.mockRejectedValueOnce(new NetworkError('connection reset'));
+    await new MailClient({
+      provider: createMockProvider({ list }),
+      retry: false,
+      middleware: [retryMiddleware(retry), counter],
+    }).list();
+    expect(calls).toHaveBeenCalledTimes(3);
+  });
+
+  it('should abort the provider call with a signal replaced by middleware', async () => {
+    const provider = createMockProvider({ star: vi.fn(() => new Promise<void>(() => {})) });
+    const controller = new AbortController();
+    const client = new MailClient({
+      provider,
+      middleware: [(context, next) => next({ ...context, signal: controller.signal })],
+    });
+
+    const result = client.star('email-1');
+    controller.abort(new Error('Cancelled'));
+
+    await expect(result).rejects.toThrow('Cancelled');
+    expect(vi.mocked(provider.star).mock.calls[0]?.[1]?.signal?.aborted).toBe(true);
+  });
+});
+
+describe('Events', () => {
+  const retry = { attempts: 3, backoff: 'none', initialDelay: 0, maxDelay: 0 } as const;
+
+  it('should report each attempt, retry and rate limit', async () => {
+    const list = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('Slow down', 0))
+      .mockResolvedValue([mockEmail]);
+    const client = new MailClient({ provider: createMockProvider({ list }), retry });
+    const log: string[] = [];
+    client.on('request:start', (event) => log.push(`start ${event.operation} #${event.attempt}`));
+    client.on('request:end', (event) =>
+      log.push(`end #${event.attempt} ${event.error ? 'failed' : 'ok'}`),
+    );
+    client.on('rateLimited', (event) => log.push(`rateLimited ${event.retryAfter}`));
+    client.on('retry', (event) => log.push(`retry #${event.attempt}`));
+    client.on('error', (event) => log.push(`error ${(event.error as Error).message}`));
+
+    await client.list();
+
+    expect(log).toEqual([
+      'start list #1',
+      'rateLimited 0',
+      'end #1 failed',
+      'error Slow down',
+      'retry #1',
+      'start list #2',
+      'end #2 ok',
+    ]);
+  });
+
+  it('should report to a shared emitter with the provider name and duration', async () => {
+    const events = createEventEmitter();
+    const end = vi.fn();
+    events.on('request:end', end);
+    const client = new MailClient({ provider: createMockProvider(), events });
+
+    await client.getFolder('inbox');
+
+    expect(end).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'mock',
+        operation: 'getFolder',
+        duration: expect.any(Number),
+      }),
+    );
+  });
+});
+
 describe('createMail', () => {
   it('should create a MailClient instance', () => {
     const provider = createMockProvider();
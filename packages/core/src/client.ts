@@ -1,8 +1,26 @@
-import type { MailProvider } from './provider';
-import type { Email, EmailId, Folder, FolderName, SendResult } from './types';
+import { cacheMiddleware } from './cache';
+import type { CacheOptions } from './cache';
+import { RateLimitError, TimeoutError, UnsupportedOperationError } from './errors';
+import { createEventEmitter, trackRequest } from './events';
+import type { MailEventEmitter, MailEventListener, MailEventName } from './events';
+import { composeMiddleware } from './middleware';
+import type { Middleware, MiddlewareContext } from './middleware';
+import type { CallOptions, MailProvider, MailTransport, ProviderCapabilities } from './provider';
+import type {
+  Draft,
+  DraftId,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  SendResult,
+  Thread,
+  ThreadId,
+} from './types';
 import type {
   GetOptions,
   ListOptions,
+  ListPage,
   SendOptions,
   StreamOptions,
   WatchHandle,
@@ -17,6 +35,17 @@ export interface RetryConfig {
   backoff: 'exponential' | 'fixed' | 'none';
   initialDelay: number;
   maxDelay: number;
+  /** Give up rather than wait past this many milliseconds since the first attempt */
+  maxElapsed?: number;
+  /** Whether to retry after a failed attempt (from 1); by default when the error is retryable */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting `delay` milliseconds to retry after a failed attempt */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  /**
+   * Also retry `send()`, `sendDraft()` and `createDraft()`; an attempt whose
+   * response was lost may have gone through, so this can send an email twice
+   */
+  retryNonIdempotent?: boolean;
 }
 
 /**
@@ -24,8 +53,28 @@ export interface RetryConfig {
  */
 export interface MailConfig {
   provider: MailProvider;
+  /** Sends email instead of `provider.send`, e.g. SMTP next to an IMAP provider */
+  transport?: MailTransport;
   retry?: Partial<RetryConfig> | false;
+  /** Abort a call after this many milliseconds with a `TimeoutError`; applies to each retry */
   timeout?: number;
+  /**
+   * Layers around every call, the first being the outermost
+   *
+   * They run once per call, outside of `cache`, `retry` and `timeout`. Set `retry: false`
+   * and add `retryMiddleware()` to place retries elsewhere in the chain.
+   */
+  middleware?: Middleware[];
+  /**
+   * Receives `request:start`, `request:end`, `retry`, `rateLimited` and `error`
+   * events for every attempt; pass the same emitter to the provider to see its requests too
+   */
+  events?: MailEventEmitter;
+  /**
+   * Answer `get()`, `listFolders()` and `getFolder()` from a cache, cleared by
+   * mutations made through the client; `{}` caches in memory with default TTLs
+   */
+  cache?: CacheOptions;
 }
 
 const DEFAULT_RETRY: RetryConfig = {
@@ -36,10 +85,20 @@ const DEFAULT_RETRY: RetryConfig = {
 };
 
 /**
- * Sleep helper
+ * Sleep helper, cut short when the signal aborts
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -56,26 +115,50 @@ function getDelay(attempt: number, config: RetryConfig): number {
 }
 
 /**
- * Wrap function with retry logic
+ * Retry unless the error says it is permanent
  */
-async function withRetry<T>(fn: () => Promise<T>, config: RetryConfig | false): Promise<T> {
-  if (config === false) return fn();
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof Error && 'retryable' in error && !error.retryable);
+}
 
+/**
+ * Wrap function with retry logic
+ */
+async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  config: RetryConfig,
+  signal?: AbortSignal,
+  idempotent = true,
+): Promise<T> {
+  const attempts = idempotent || config.retryNonIdempotent ? config.attempts : 1;
+  const shouldRetry = config.shouldRetry ?? isRetryable;
+  const start = Date.now();
   let lastError: Error | undefined;
 
-  for (let attempt = 0; attempt < config.attempts; attempt++) {
+  for (let attempt = 0; attempt < attempts; attempt++) {
     try {
-      return await fn();
+      return await fn(attempt + 1);
     } catch (error) {
       lastError = error as Error;
 
+      // Don't retry once the caller has given up
+      if (signal?.aborted) throw error;
+
       // Don't retry on non-retryable errors
-      if (error instanceof Error && 'retryable' in error && !error.retryable) {
+      if (!shouldRetry(error, attempt + 1)) {
         throw error;
       }
 
-      if (attempt < config.attempts - 1) {
-        await sleep(getDelay(attempt, config));
+      if (attempt < attempts - 1) {
+        // Wait at least as long as the server asked
+        const retryAfter = error instanceof RateLimitError ? (error.retryAfter ?? 0) : 0;
+        const delay = Math.max(getDelay(attempt, config), retryAfter);
+        if (config.maxElapsed !== undefined && Date.now() - start + delay > config.maxElapsed) {
+          throw error;
+        }
+
+        config.onRetry?.(error, attempt + 1, delay);
+        await sleep(delay, signal);
       }
     }
   }
@@ -83,30 +166,233 @@ async function withRetry<T>(fn: () => Promise<T>, config: RetryConfig | false):
   throw lastError;
 }
 
+/**
+ * Run one attempt of a call, aborting it after `timeout` ms or when `signal` aborts
+ *
+ * The call is given a signal of its own, and is abandoned when it aborts even
+ * if the provider ignores the signal.
+ */
+async function withTimeout<T>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  timeout: number | undefined,
+  signal: AbortSignal | undefined,
+): Promise<T> {
+  signal?.throwIfAborted();
+  if (!timeout && !signal) return fn();
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    const abort = (reason: unknown) => {
+      controller.abort(reason);
+      reject(reason);
+    };
+    onAbort = () => abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (timeout) {
+      timer = setTimeout(
+        () => abort(new TimeoutError(`Operation timed out after ${timeout}ms`, timeout)),
+        timeout,
+      );
+    }
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Middleware retrying the rest of the chain, as `MailConfig.retry` does
+ *
+ * Each run of the chain sees its `attempt` in the context, and each retry is
+ * reported as a `retry` event.
+ */
+export function retryMiddleware(config: Partial<RetryConfig> = {}): Middleware {
+  const retry = { ...DEFAULT_RETRY, ...config };
+  return (context, next) =>
+    withRetry(
+      (attempt) => next({ ...context, attempt }),
+      {
+        ...retry,
+        onRetry: (error, attempt, delay) => {
+          retry.onRetry?.(error, attempt, delay);
+          context.events.emit('retry', {
+            provider: context.provider.name,
+            operation: context.operation,
+            attempt,
+            delay,
+            error,
+          });
+        },
+      },
+      context.signal,
+      context.idempotent,
+    );
+}
+
+/**
+ * Middleware giving each run of the rest of the chain its own signal, aborted
+ * after `timeout` ms as `MailConfig.timeout` does
+ */
+export function timeoutMiddleware(timeout?: number): Middleware {
+  return (context, next) =>
+    withTimeout((signal) => next({ ...context, signal }), timeout, context.signal);
+}
+
+/**
+ * Report each attempt as `request:start` and `request:end` events, and rate
+ * limit errors as `rateLimited`
+ */
+const trackAttempts: Middleware = (context, next) =>
+  trackRequest(
+    context.events,
+    {
+      provider: context.provider.name,
+      operation: context.operation,
+      attempt: context.attempt ?? 1,
+    },
+    async () => {
+      try {
+        return await next();
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          context.events.emit('rateLimited', {
+            provider: context.provider.name,
+            operation: context.operation,
+            retryAfter: error.retryAfter,
+          });
+        }
+        throw error;
+      }
+    },
+  );
+
+/**
+ * Trailing call options for a provider method, left out when there is no signal
+ */
+function callArgs(call: CallOptions | undefined, signal: AbortSignal | undefined): [CallOptions?] {
+  const options = withSignal(call, signal);
+  return options ? [options] : [];
+}
+
+/**
+ * Add a signal to call options, leaving them untouched when there is none
+ */
+function withSignal<T extends CallOptions>(
+  options: T | undefined,
+  signal: AbortSignal | undefined,
+): T | undefined {
+  return signal ? ({ ...options, signal } as T) : options;
+}
+
+/**
+ * Get an optional provider method, bound to the provider
+ */
+function requireMethod<K extends keyof MailProvider>(
+  provider: MailProvider,
+  method: K,
+  feature: string,
+): NonNullable<MailProvider[K]> {
+  const fn = provider[method];
+  if (typeof fn !== 'function') {
+    throw new UnsupportedOperationError(
+      provider.name,
+      method,
+      `Provider ${provider.name} does not support ${feature}`,
+    );
+  }
+  return fn.bind(provider) as NonNullable<MailProvider[K]>;
+}
+
+/**
+ * Describe a provider that does not declare its capabilities
+ *
+ * Optional methods are checked; everything else is assumed to work, except
+ * for what can only be known from the provider itself.
+ */
+function inferCapabilities(provider: MailProvider): ProviderCapabilities {
+  return {
+    watch: typeof provider.watch === 'function',
+    threads: typeof provider.getThread === 'function',
+    drafts: typeof provider.createDraft === 'function',
+    send: true,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'folders',
+    move: 'new-id',
+    serverSearch: false,
+    batch: false,
+  };
+}
+
 /**
  * Mail client - wrapper around provider with retry logic
  */
 export class MailClient {
   private readonly provider: MailProvider;
-  private readonly retryConfig: RetryConfig | false;
+  private readonly transport?: MailTransport;
+  private readonly middleware: Middleware[];
+  private readonly builtins: Middleware[];
+  private readonly events: MailEventEmitter;
 
   constructor(config: MailConfig) {
     this.provider = config.provider;
-    this.retryConfig =
-      config.retry === false ? false : { ...DEFAULT_RETRY, ...(config.retry ?? {}) };
+    this.transport = config.transport;
+    this.middleware = [...(config.middleware ?? [])];
+    this.builtins = [trackAttempts, timeoutMiddleware(config.timeout)];
+    if (config.retry !== false) this.builtins.unshift(retryMiddleware(config.retry));
+    if (config.cache) this.builtins.unshift(cacheMiddleware(config.cache));
+    this.events = config.events ?? createEventEmitter();
+  }
+
+  /**
+   * Subscribe to events about calls, e.g. `request:end` for metrics; returns a
+   * function that unsubscribes
+   */
+  on<K extends MailEventName>(name: K, listener: MailEventListener<K>): () => void {
+    return this.events.on(name, listener);
+  }
+
+  /**
+   * Add middleware after the configured ones, still outside of retries and timeouts
+   */
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
   }
 
   get providerName(): string {
     return this.provider.name;
   }
 
+  /**
+   * What the provider supports, e.g. to hide actions it cannot perform
+   *
+   * `send` is also true when a transport is configured.
+   */
+  get capabilities(): ProviderCapabilities {
+    const capabilities = this.provider.capabilities ?? inferCapabilities(this.provider);
+    return this.transport ? { ...capabilities, send: true } : capabilities;
+  }
+
   // Connection
-  async connect(): Promise<void> {
-    return withRetry(() => this.provider.connect(), this.retryConfig);
+  async connect(call?: CallOptions): Promise<void> {
+    return this.run(
+      'connect',
+      [],
+      (_, signal) => this.provider.connect(...callArgs(call, signal)),
+      call,
+    );
   }
 
   async disconnect(): Promise<void> {
-    return this.provider.disconnect();
+    await Promise.all([this.provider.disconnect(), this.transport?.close?.()]);
   }
 
   isConnected(): boolean {
@@ -115,78 +401,349 @@ export class MailClient {
 
   // Reading
   async list(options?: ListOptions): Promise<Email[]> {
-    return withRetry(() => this.provider.list(options), this.retryConfig);
+    return this.run(
+      'list',
+      [options],
+      ([options], signal) => this.provider.list(withSignal(options, signal)),
+      options,
+    );
+  }
+
+  /**
+   * List one page of emails
+   *
+   * Providers without cursor support return a single page with no `nextCursor`.
+   */
+  async listPage(options?: ListOptions): Promise<ListPage> {
+    const listPage = this.provider.listPage?.bind(this.provider);
+    if (!listPage) {
+      return { emails: await this.list(options) };
+    }
+    return this.run(
+      'listPage',
+      [options],
+      ([options], signal) => listPage(withSignal(options, signal)),
+      options,
+    );
   }
 
   async get(id: EmailId | string, options?: GetOptions): Promise<Email> {
-    return withRetry(() => this.provider.get(id, options), this.retryConfig);
+    return this.run(
+      'get',
+      [id, options],
+      ([id, options], signal) => this.provider.get(id, withSignal(options, signal)),
+      options,
+    );
   }
 
+  /**
+   * Stream emails straight from the provider, without middleware, retries or timeouts
+   */
   async *stream(options?: StreamOptions): AsyncIterable<Email> {
     yield* this.provider.stream(options);
   }
 
   // Sending
-  async send(options: SendOptions): Promise<SendResult> {
-    return withRetry(() => this.provider.send(options), this.retryConfig);
+  /**
+   * Send an email through the transport, or the provider when none is configured
+   *
+   * Not retried unless `retry.retryNonIdempotent` is set.
+   */
+  async send(options: SendOptions, call?: CallOptions): Promise<SendResult> {
+    const sender = this.transport ?? this.provider;
+    return this.run(
+      'send',
+      [options],
+      ([options], signal) => sender.send(options, ...callArgs(call, signal)),
+      call,
+      false,
+    );
   }
 
   // Folders
-  async listFolders(): Promise<Folder[]> {
-    return withRetry(() => this.provider.listFolders(), this.retryConfig);
+  async listFolders(call?: CallOptions): Promise<Folder[]> {
+    return this.run(
+      'listFolders',
+      [],
+      (_, signal) => this.provider.listFolders(...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async getFolder(name: FolderName | string): Promise<Folder> {
-    return withRetry(() => this.provider.getFolder(name), this.retryConfig);
+  async getFolder(name: FolderName | string, call?: CallOptions): Promise<Folder> {
+    return this.run(
+      'getFolder',
+      [name],
+      ([name], signal) => this.provider.getFolder(name, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async createFolder(name: string): Promise<Folder> {
-    return withRetry(() => this.provider.createFolder(name), this.retryConfig);
+  async createFolder(name: string, call?: CallOptions): Promise<Folder> {
+    return this.run(
+      'createFolder',
+      [name],
+      ([name], signal) => this.provider.createFolder(name, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async deleteFolder(name: FolderName | string): Promise<void> {
-    return withRetry(() => this.provider.deleteFolder(name), this.retryConfig);
+  async deleteFolder(name: FolderName | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'deleteFolder',
+      [name],
+      ([name], signal) => this.provider.deleteFolder(name, ...callArgs(call, signal)),
+      call,
+    );
   }
 
   // Mutations
-  async markAsRead(id: EmailId | string): Promise<void> {
-    return withRetry(() => this.provider.markAsRead(id), this.retryConfig);
+  async markAsRead(id: EmailId | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'markAsRead',
+      [id],
+      ([id], signal) => this.provider.markAsRead(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async markAsUnread(id: EmailId | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'markAsUnread',
+      [id],
+      ([id], signal) => this.provider.markAsUnread(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async star(id: EmailId | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'star',
+      [id],
+      ([id], signal) => this.provider.star(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async unstar(id: EmailId | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'unstar',
+      [id],
+      ([id], signal) => this.provider.unstar(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async move(id: EmailId | string, folder: FolderName | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'move',
+      [id, folder],
+      ([id, folder], signal) => this.provider.move(id, folder, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async delete(id: EmailId | string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'delete',
+      [id],
+      ([id], signal) => this.provider.delete(id, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async markAsUnread(id: EmailId | string): Promise<void> {
-    return withRetry(() => this.provider.markAsUnread(id), this.retryConfig);
+  async addLabel(id: EmailId | string, label: string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'addLabel',
+      [id, label],
+      ([id, label], signal) => this.provider.addLabel(id, label, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async star(id: EmailId | string): Promise<void> {
-    return withRetry(() => this.provider.star(id), this.retryConfig);
+  async removeLabel(id: EmailId | string, label: string, call?: CallOptions): Promise<void> {
+    return this.run(
+      'removeLabel',
+      [id, label],
+      ([id, label], signal) => this.provider.removeLabel(id, label, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async unstar(id: EmailId | string): Promise<void> {
-    return withRetry(() => this.provider.unstar(id), this.retryConfig);
+  // Threads
+  async getThread(id: ThreadId | string, call?: CallOptions): Promise<Thread> {
+    const getThread = requireMethod(this.provider, 'getThread', 'threads');
+    return this.run(
+      'getThread',
+      [id],
+      ([id], signal) => getThread(id, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async move(id: EmailId | string, folder: FolderName | string): Promise<void> {
-    return withRetry(() => this.provider.move(id, folder), this.retryConfig);
+  async listThreads(options?: ListOptions): Promise<Thread[]> {
+    const listThreads = requireMethod(this.provider, 'listThreads', 'threads');
+    return this.run(
+      'listThreads',
+      [options],
+      ([options], signal) => listThreads(withSignal(options, signal)),
+      options,
+    );
   }
 
-  async delete(id: EmailId | string): Promise<void> {
-    return withRetry(() => this.provider.delete(id), this.retryConfig);
+  async markThreadAsRead(id: ThreadId | string, call?: CallOptions): Promise<void> {
+    const markThreadAsRead = requireMethod(this.provider, 'markThreadAsRead', 'threads');
+    return this.run(
+      'markThreadAsRead',
+      [id],
+      ([id], signal) => markThreadAsRead(id, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async addLabel(id: EmailId | string, label: string): Promise<void> {
-    return withRetry(() => this.provider.addLabel(id, label), this.retryConfig);
+  async markThreadAsUnread(id: ThreadId | string, call?: CallOptions): Promise<void> {
+    const markThreadAsUnread = requireMethod(this.provider, 'markThreadAsUnread', 'threads');
+    return this.run(
+      'markThreadAsUnread',
+      [id],
+      ([id], signal) => markThreadAsUnread(id, ...callArgs(call, signal)),
+      call,
+    );
   }
 
-  async removeLabel(id: EmailId | string, label: string): Promise<void> {
-    return withRetry(() => this.provider.removeLabel(id, label), this.retryConfig);
+  async archiveThread(id: ThreadId | string, call?: CallOptions): Promise<void> {
+    const archiveThread = requireMethod(this.provider, 'archiveThread', 'threads');
+    return this.run(
+      'archiveThread',
+      [id],
+      ([id], signal) => archiveThread(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async trashThread(id: ThreadId | string, call?: CallOptions): Promise<void> {
+    const trashThread = requireMethod(this.provider, 'trashThread', 'threads');
+    return this.run(
+      'trashThread',
+      [id],
+      ([id], signal) => trashThread(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async addThreadLabel(id: ThreadId | string, label: string, call?: CallOptions): Promise<void> {
+    const addThreadLabel = requireMethod(this.provider, 'addThreadLabel', 'threads');
+    return this.run(
+      'addThreadLabel',
+      [id, label],
+      ([id, label], signal) => addThreadLabel(id, label, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async removeThreadLabel(id: ThreadId | string, label: string, call?: CallOptions): Promise<void> {
+    const removeThreadLabel = requireMethod(this.provider, 'removeThreadLabel', 'threads');
+    return this.run(
+      'removeThreadLabel',
+      [id, label],
+      ([id, label], signal) => removeThreadLabel(id, label, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  // Drafts
+  async createDraft(options: SendOptions, call?: CallOptions): Promise<Draft> {
+    const createDraft = requireMethod(this.provider, 'createDraft', 'drafts');
+    return this.run(
+      'createDraft',
+      [options],
+      ([options], signal) => createDraft(options, ...callArgs(call, signal)),
+      call,
+      false,
+    );
+  }
+
+  async updateDraft(
+    id: DraftId | string,
+    options: SendOptions,
+    call?: CallOptions,
+  ): Promise<Draft> {
+    const updateDraft = requireMethod(this.provider, 'updateDraft', 'drafts');
+    return this.run(
+      'updateDraft',
+      [id, options],
+      ([id, options], signal) => updateDraft(id, options, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async listDrafts(options?: ListOptions): Promise<Draft[]> {
+    const listDrafts = requireMethod(this.provider, 'listDrafts', 'drafts');
+    return this.run(
+      'listDrafts',
+      [options],
+      ([options], signal) => listDrafts(withSignal(options, signal)),
+      options,
+    );
+  }
+
+  async getDraft(id: DraftId | string, call?: CallOptions): Promise<Draft> {
+    const getDraft = requireMethod(this.provider, 'getDraft', 'drafts');
+    return this.run(
+      'getDraft',
+      [id],
+      ([id], signal) => getDraft(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async deleteDraft(id: DraftId | string, call?: CallOptions): Promise<void> {
+    const deleteDraft = requireMethod(this.provider, 'deleteDraft', 'drafts');
+    return this.run(
+      'deleteDraft',
+      [id],
+      ([id], signal) => deleteDraft(id, ...callArgs(call, signal)),
+      call,
+    );
+  }
+
+  async sendDraft(id: DraftId | string, call?: CallOptions): Promise<SendResult> {
+    const sendDraft = requireMethod(this.provider, 'sendDraft', 'drafts');
+    return this.run(
+      'sendDraft',
+      [id],
+      ([id], signal) => sendDraft(id, ...callArgs(call, signal)),
+      call,
+      false,
+    );
+  }
+
+  /**
+   * Call the provider through the middleware, then retries and timeouts
+   */
+  private run<const A extends readonly unknown[], T>(
+    operation: string,
+    args: A,
+    fn: (args: A, signal?: AbortSignal) => Promise<T>,
+    call: CallOptions | undefined,
+    idempotent = true,
+  ): Promise<T> {
+    const context: MiddlewareContext = {
+      operation,
+      args,
+      provider: this.provider,
+      idempotent,
+      signal: call?.signal,
+      meta: {},
+      events: this.events,
+    };
+    const chain = composeMiddleware([...this.middleware, ...this.builtins]);
+    return chain(context, (last = context) => fn(last.args as A, last.signal)) as Promise<T>;
   }
 
   // Watch
   watch(options?: WatchOptions): WatchHandle {
-    if (!this.provider.watch) {
-      throw new Error(`Provider ${this.provider.name} does not support watch`);
-    }
-    return this.provider.watch(options);
+    return requireMethod(this.provider, 'watch', 'watch')(options);
   }
 }
 
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { decodeCursor, encodeCursor, paginateStream } from './cursor';
+import { ValidationError } from './errors';
+
+describe('cursor', () => {
+  it('should round-trip paging state', () => {
+    const state = { pageToken: '0123/abc+def', offset: 50, query: 'café' };
+    expect(decodeCursor(encodeCursor(state))).toEqual(state);
+  });
+
+  it('should produce URL-safe cursors', () => {
+    const cursor = encodeCursor({ pageToken: '???>>>~~~' });
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not a cursor!')).toThrow(ValidationError);
+    expect(() => decodeCursor(encodeCursor({}).concat('x'))).toThrow(ValidationError);
+    expect(() => decodeCursor(btoa('[1,2]'))).toThrow(ValidationError);
+  });
+});
+
+describe('paginateStream', () => {
+  const pages: Record<string, { emails: string[]; nextCursor?: string }> = {
+    first: { emails: ['a', 'b'], nextCursor: '2' },
+    '2': { emails: ['c'], nextCursor: '3' },
+    '3': { emails: ['d'] },
+  };
+  const page = async (cursor?: string) => pages[cursor ?? 'first'] ?? { emails: [] };
+
+  it('should yield every page in order', async () => {
+    const fetchPage = vi.fn(page);
+
+    const emails: string[] = [];
+    for await (const email of paginateStream(fetchPage)) {
+      emails.push(email);
+    }
+
+    expect(emails).toEqual(['a', 'b', 'c', 'd']);
+    expect(fetchPage.mock.calls).toEqual([[], ['2'], ['3']]);
+  });
+
+  it('should request the next page before the current one is consumed', async () => {
+    const fetchPage = vi.fn(page);
+    const iterator = paginateStream(fetchPage)[Symbol.asyncIterator]();
+
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledWith('2');
+    await iterator.return?.();
+  });
+
+  it('should wait for the consumer without prefetch', async () => {
+    const fetchPage = vi.fn(page);
+    const iterator = paginateStream(fetchPage, { prefetch: false })[Symbol.asyncIterator]();
+
+    await iterator.next();
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    await iterator.next();
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not leave a failed prefetch unhandled when the consumer stops', async () => {
+    const fetchPage = vi.fn(async (cursor?: string) => {
+      if (cursor) throw new Error('Failed');
+      return page();
+    });
+
+    for await (const email of paginateStream(fetchPage)) {
+      expect(email).toBe('a');
+      break;
+    }
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { ValidationError } from './errors';
+
+/**
+ * Encode provider paging state as an opaque, URL-safe cursor
+ */
+export function encodeCursor(state: Record<string, unknown>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor created by `encodeCursor`
+ *
+ * Throws ValidationError when the cursor is malformed.
+ */
+export function decodeCursor<T extends Record<string, unknown>>(cursor: string): T {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const state = JSON.parse(new TextDecoder().decode(bytes));
+    if (state && typeof state === 'object' && !Array.isArray(state)) {
+      return state as T;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ValidationError('Invalid cursor', 'cursor');
+}
+
+/**
+ * Yield the emails of one page after another, until a page has no `nextCursor`
+ *
+ * With `prefetch` (the default), the next page is requested while the
+ * consumer works through the current one.
+ */
+export async function* paginateStream<T>(
+  fetchPage: (cursor?: string) => Promise<{ emails: T[]; nextCursor?: string }>,
+  options: { prefetch?: boolean } = {},
+): AsyncIterable<T> {
+  const prefetch = options.prefetch ?? true;
+  let page = await fetchPage();
+
+  while (true) {
+    const cursor = page.nextCursor;
+    const next = cursor && prefetch ? fetchPage(cursor) : undefined;
+    // Avoid an unhandled rejection if the consumer stops early
+    next?.catch(() => undefined);
+
+    yield* page.emails;
+
+    if (!cursor) return;
+    page = await (next ?? fetchPage(cursor));
+  }
+}
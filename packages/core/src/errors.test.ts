@@ -1,12 +1,15 @@
-import { describe, it, expect } from 'vitest';
+import { describe, expect, it } from 'vitest';
 import {
-  FaktoorError,
   AuthenticationError,
-  RateLimitError,
-  NotFoundError,
+  FaktoorError,
   NetworkError,
-  ValidationError,
+  NotFoundError,
   ProviderError,
+  RateLimitError,
+  TimeoutError,
+  UnsupportedOperationError,
+  ValidationError,
+  parseRetryAfter,
 } from './errors';
 
 describe('FaktoorError', () => {
@@ -170,6 +173,25 @@ describe('NetworkError', () => {
   });
 });
 
+describe('TimeoutError', () => {
+  it('should create with message and timeout', () => {
+    const error = new TimeoutError('Operation timed out after 5000ms', 5000);
+
+    expect(error.message).toBe('Operation timed out after 5000ms');
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.name).toBe('TimeoutError');
+    expect(error.timeout).toBe(5000);
+    expect(error.cause).toBeUndefined();
+  });
+
+  it('should be retryable by default', () => {
+    const error = new TimeoutError('test');
+
+    expect(error.retryable).toBe(true);
+    expect(error).toBeInstanceOf(FaktoorError);
+  });
+});
+
 describe('ValidationError', () => {
   it('should create with message only', () => {
     const error = new ValidationError('invalid email format');
@@ -244,6 +266,26 @@ describe('ProviderError', () => {
   });
 });
 
+describe('UnsupportedOperationError', () => {
+  it('should name the provider and operation', () => {
+    const error = new UnsupportedOperationError('pop3', 'star');
+
+    expect(error.message).toBe('Provider pop3 does not support star');
+    expect(error.code).toBe('UNSUPPORTED_OPERATION');
+    expect(error.name).toBe('UnsupportedOperationError');
+    expect(error.provider).toBe('pop3');
+    expect(error.operation).toBe('star');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should accept a custom message', () => {
+    const error = new UnsupportedOperationError('imap', 'send', 'IMAP cannot send email');
+
+    expect(error.message).toBe('IMAP cannot send email');
+    expect(error).toBeInstanceOf(FaktoorError);
+  });
+});
+
 describe('Error hierarchy', () => {
   it('all errors should be instanceof Error', () => {
     const errors = [
@@ -252,8 +294,10 @@ describe('Error hierarchy', () => {
       new RateLimitError('test'),
       new NotFoundError('Email', 'id'),
       new NetworkError('test'),
+      new TimeoutError('test'),
       new ValidationError('test'),
       new ProviderError('provider', 'test'),
+      new UnsupportedOperationError('provider', 'test'),
     ];
 
     errors.forEach((error) => {
@@ -267,8 +311,10 @@ describe('Error hierarchy', () => {
       new RateLimitError('test'),
       new NotFoundError('Email', 'id'),
       new NetworkError('test'),
+      new TimeoutError('test'),
       new ValidationError('test'),
       new ProviderError('provider', 'test'),
+      new UnsupportedOperationError('provider', 'test'),
     ];
 
     errors.forEach((error) => {
@@ -276,3 +322,23 @@ describe('Error hierarchy', () => {
     });
   });
 });
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+  it('should read delta-seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+  });
+
+  it('should read an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing and malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
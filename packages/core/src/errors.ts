@@ -39,6 +39,7 @@ export class AuthenticationError extends FaktoorError {
  * Rate limit error
  */
 export class RateLimitError extends FaktoorError {
+  /** Milliseconds to wait before retrying, e.g. from a `Retry-After` header */
   readonly retryAfter?: number;
 
   constructor(message: string, retryAfter?: number, cause?: Error) {
@@ -48,6 +49,23 @@ export class RateLimitError extends FaktoorError {
   }
 }
 
+/**
+ * Read a `Retry-After` header, in delta-seconds or HTTP-date form, as milliseconds
+ *
+ * A malformed value gives undefined and a date in the past gives 0.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  if (/^\d+$/.test(text)) return Number(text) * 1000;
+
+  const date = Date.parse(text);
+  return Number.isFinite(date) ? Math.max(0, date - now) : undefined;
+}
+
 /**
  * Not found error
  */
@@ -76,6 +94,20 @@ export class NetworkError extends FaktoorError {
   }
 }
 
+/**
+ * Timeout error, when a call takes longer than `MailConfig.timeout`
+ */
+export class TimeoutError extends FaktoorError {
+  /** Limit that was exceeded, in milliseconds */
+  readonly timeout?: number;
+
+  constructor(message: string, timeout?: number, cause?: Error) {
+    super(message, { code: 'TIMEOUT', retryable: true, cause });
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
 /**
  * Validation error
  */
@@ -105,3 +137,24 @@ export class ProviderError extends FaktoorError {
     this.provider = provider;
   }
 }
+
+/**
+ * The provider cannot perform an operation, e.g. `send()` on IMAP or `star()` on POP3
+ *
+ * Check `MailClient.capabilities` to avoid offering such operations.
+ */
+export class UnsupportedOperationError extends FaktoorError {
+  readonly provider: string;
+  /** Name of the method that was called, e.g. `watch`, `getThread` */
+  readonly operation: string;
+
+  constructor(provider: string, operation: string, message?: string) {
+    super(message ?? `Provider ${provider} does not support ${operation}`, {
+      code: 'UNSUPPORTED_OPERATION',
+      retryable: false,
+    });
+    this.name = 'UnsupportedOperationError';
+    this.provider = provider;
+    this.operation = operation;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEventEmitter, trackRequest } from './events';
+
+describe('createEventEmitter', () => {
+  it('should call listeners until they unsubscribe', () => {
+    const events = createEventEmitter();
+    const listener = vi.fn();
+
+    const off = events.on('tokenRefreshed', listener);
+    events.emit('tokenRefreshed', { provider: 'gmail' });
+    off();
+    events.emit('tokenRefreshed', { provider: 'gmail' });
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith({ provider: 'gmail' });
+  });
+
+  it('should ignore listeners that throw', () => {
+    const events = createEventEmitter();
+    const listener = vi.fn();
+    events.on('retry', () => {
+      throw new Error('broken listener');
+    });
+    events.on('retry', listener);
+
+    const event = { provider: 'mock', operation: 'list', attempt: 1, delay: 0, error: null };
+    expect(() => events.emit('retry', event)).not.toThrow();
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+});
+
+describe('trackRequest', () => {
+  it('should report the start and end of a request with its status', async () => {
+    const events = createEventEmitter();
+    const start = vi.fn();
+    const end = vi.fn();
+    events.on('request:start', start);
+    events.on('request:end', end);
+
+    const result = await trackRequest(
+      events,
+      { provider: 'gmail', operation: 'messages.get' },
+      async (response) => {
+        response.status = 200;
+        return 'done';
+      },
+    );
+
+    expect(result).toBe('done');
+    expect(start).toHaveBeenCalledWith({
+      id: expect.any(Number),
+      provider: 'gmail',
+      operation: 'messages.get',
+    });
+    expect(end).toHaveBeenCalledWith({
+      ...start.mock.calls[0]?.[0],
+      duration: expect.any(Number),
+      status: 200,
+    });
+  });
+
+  it('should report failures as errors and rethrow them', async () => {
+    const events = createEventEmitter();
+    const onError = vi.fn();
+    events.on('error', onError);
+    const failure = new Error('Not found');
+
+    await expect(
+      trackRequest(events, { provider: 'gmail', operation: 'messages.get' }, async (response) => {
+        response.status = 404;
+        throw failure;
+      }),
+    ).rejects.toBe(failure);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 404, error: failure }));
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * A call to a provider, or an HTTP request made by one
+ */
+export interface RequestEvent {
+  /** Pairs `request:start` with its `request:end` */
+  id: number;
+  provider: string;
+  /** Client method such as `get`, or the API method such as `messages.get` */
+  operation: string;
+  /** Attempt from 1, when the request is retried */
+  attempt?: number;
+}
+
+/**
+ * A finished request
+ */
+export interface RequestEndEvent extends RequestEvent {
+  /** Milliseconds since `request:start` */
+  duration: number;
+  /** HTTP status of the response */
+  status?: number;
+  /** Why the request failed */
+  error?: unknown;
+}
+
+/**
+ * Events and their payloads
+ */
+export interface MailEvents {
+  'request:start': RequestEvent;
+  'request:end': RequestEndEvent;
+  /** A failed attempt is about to be retried after `delay` ms */
+  retry: {
+    provider: string;
+    operation: string;
+    attempt: number;
+    delay: number;
+    error: unknown;
+  };
+  /**
+   * The server rejected a request with a `RateLimitError`, or the request waits
+   * for a client-side rate limiter (`queued`)
+   */
+  rateLimited: {
+    provider: string;
+    operation: string;
+    retryAfter?: number;
+    queued?: boolean;
+  };
+  tokenRefreshed: { provider: string; expiresAt?: Date };
+  /** A request failed; also reported as `request:end` */
+  error: RequestEndEvent & { error: unknown };
+}
+
+export type MailEventName = keyof MailEvents;
+
+export type MailEventListener<K extends MailEventName> = (event: MailEvents[K]) => void;
+
+/**
+ * Publishes what a client and its provider are doing, e.g. for logs and metrics
+ */
+export interface MailEventEmitter {
+  /** Subscribe to an event; returns a function that unsubscribes */
+  on<K extends MailEventName>(name: K, listener: MailEventListener<K>): () => void;
+  off<K extends MailEventName>(name: K, listener: MailEventListener<K>): void;
+  emit<K extends MailEventName>(name: K, event: MailEvents[K]): void;
+}
+
+/**
+ * Create an event emitter to share between a `MailClient` and its provider
+ *
+ * Listeners run synchronously. An exception thrown by a listener is ignored,
+ * so instrumentation cannot break mail calls.
+ */
+export function createEventEmitter(): MailEventEmitter {
+  const listeners = new Map<MailEventName, Set<(event: never) => void>>();
+
+  const emitter: MailEventEmitter = {
+    on(name, listener) {
+      let set = listeners.get(name);
+      if (!set) {
+        set = new Set();
+        listeners.set(name, set);
+      }
+      set.add(listener);
+      return () => emitter.off(name, listener);
+    },
+
+    off(name, listener) {
+      listeners.get(name)?.delete(listener);
+    },
+
+    emit(name, event) {
+      for (const listener of listeners.get(name) ?? []) {
+        try {
+          (listener as MailEventListener<typeof name>)(event);
+        } catch {
+          // Listeners must not affect the request
+        }
+      }
+    },
+  };
+  return emitter;
+}
+
+let lastRequestId = 0;
+
+/**
+ * Run a request between `request:start` and `request:end` events
+ *
+ * `fn` receives an object to record the HTTP status on. Failures are also
+ * reported as `error` and rethrown.
+ */
+export async function trackRequest<T>(
+  events: MailEventEmitter | undefined,
+  request: Omit<RequestEvent, 'id'>,
+  fn: (result: { status?: number }) => Promise<T>,
+): Promise<T> {
+  const result: { status?: number } = {};
+  if (!events) return fn(result);
+
+  const start: RequestEvent = { id: ++lastRequestId, ...request };
+  const startedAt = Date.now();
+  events.emit('request:start', start);
+
+  try {
+    const value = await fn(result);
+    events.emit('request:end', { ...start, duration: Date.now() - startedAt, ...result });
+    return value;
+  } catch (error) {
+    const end = { ...start, duration: Date.now() - startedAt, ...result, error };
+    events.emit('request:end', end);
+    events.emit('error', end);
+    throw error;
+  }
+}
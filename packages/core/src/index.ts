@@ -3,6 +3,8 @@ export type {
   Address,
   Attachment,
   AttachmentMeta,
+  Draft,
+  DraftId,
   Email,
   EmailBody,
   EmailId,
@@ -10,15 +12,20 @@ export type {
   FolderName,
   Label,
   SendResult,
+  Thread,
   ThreadId,
 } from './types';
 
 // Provider
 export type {
   AttachmentInput,
+  CallOptions,
   GetOptions,
   ListOptions,
+  ListPage,
   MailProvider,
+  MailTransport,
+  ProviderCapabilities,
   SendOptions,
   StreamOptions,
   WatchEvent,
@@ -26,10 +33,49 @@ export type {
   WatchOptions,
 } from './provider';
 
+// Pagination
+export { decodeCursor, encodeCursor, paginateStream } from './cursor';
+
+// Watch
+export { createWatchHandle } from './watch';
+export type { WatchEmitter } from './watch';
+
+// Cancellation
+export { abortable } from './abort';
+
+// Rate limiting
+export { createRateLimiter } from './rate-limit';
+export type { RateLimiter, RateLimiterOptions, RateLimiterUsage } from './rate-limit';
+
+// Events and tracing
+export { createEventEmitter, trackRequest } from './events';
+export type {
+  MailEventEmitter,
+  MailEventListener,
+  MailEventName,
+  MailEvents,
+  RequestEndEvent,
+  RequestEvent,
+} from './events';
+export { traceEvents } from './tracing';
+export type { Span, SpanAttributes, Tracer } from './tracing';
+
+// Cache
+export { cacheMiddleware, createMemoryCache, jsonSerializer } from './cache';
+export type { CacheOptions, CacheSerializer, CacheStore } from './cache';
+
+// Memory provider
+export { MemoryProvider, memory } from './memory';
+export type { FailureRule, MemoryEmailInput, MemoryOptions } from './memory';
+
 // Client
-export { createMail, MailClient } from './client';
+export { createMail, MailClient, retryMiddleware, timeoutMiddleware } from './client';
 export type { MailConfig, RetryConfig } from './client';
 
+// Middleware
+export { composeMiddleware } from './middleware';
+export type { Middleware, MiddlewareContext } from './middleware';
+
 // Errors
 export {
   AuthenticationError,
@@ -38,5 +84,8 @@ export {
   NotFoundError,
   ProviderError,
   RateLimitError,
+  TimeoutError,
+  UnsupportedOperationError,
   ValidationError,
+  parseRetryAfter,
 } from './errors';
@@ -0,0 +1,354 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  NotFoundError,
+  ProviderError,
+  RateLimitError,
+  UnsupportedOperationError,
+  ValidationError,
+} from './errors';
+import { MemoryProvider, memory } from './memory';
+import type { WatchEvent, WatchHandle } from './provider';
+import type { EmailId } from './types';
+
+const ids = (emails: Array<{ id: string }>) => emails.map((email) => email.id);
+
+describe('MemoryProvider', () => {
+  let provider: MemoryProvider;
+
+  beforeEach(() => {
+    provider = memory({
+      folders: ['Projects/Faktoor'],
+      emails: [
+        {
+          id: 'm1' as EmailId,
+          from: { email: 'alice@example.com', name: 'Alice' },
+          subject: 'Quarterly report',
+          body: { html: null, text: 'Numbers are up' },
+          receivedAt: new Date('2024-01-01T10:00:00Z'),
+          labels: ['work'],
+        },
+        {
+          id: 'm2' as EmailId,
+          from: { email: 'bob@example.com' },
+          cc: [{ email: 'carol@example.com' }],
+          subject: 'Lunch?',
+          receivedAt: new Date('2024-01-02T10:00:00Z'),
+          isRead: true,
+          attachments: [{ id: '1', filename: 'menu.pdf', mimeType: 'application/pdf', size: 10 }],
+        },
+        {
+          id: 'm3' as EmailId,
+          from: { email: 'alice@example.com' },
+          subject: 'Re: Quarterly report',
+          threadId: 'm1' as never,
+          folder: 'Projects/Faktoor',
+          receivedAt: new Date('2024-01-03T10:00:00Z'),
+          labels: ['work', 'urgent'],
+        },
+      ],
+    });
+  });
+
+  describe('seeding', () => {
+    it('should fill in defaults and create folders and labels', async () => {
+      const [email] = provider.seed([{ subject: 'Hello', headers: { 'x-test': '1' } }]);
+
+      expect(email).toMatchObject({
+        id: 'mem-1',
+        threadId: 'mem-1',
+        folder: 'inbox',
+        to: [{ email: 'me@example.com' }],
+        isRead: false,
+        labels: [],
+      });
+      expect(email?.headers.get('x-test')).toBe('1');
+
+      const folder = await provider.getFolder('Projects/Faktoor');
+      expect(folder).toMatchObject({ type: 'custom', totalCount: 1, unreadCount: 1 });
+    });
+
+    it('should nest folders by path', async () => {
+      const folders = await provider.listFolders();
+
+      expect(folders.map((folder) => folder.name)).toEqual([
+        'archive',
+        'drafts',
+        'inbox',
+        'Projects',
+        'sent',
+        'spam',
+        'trash',
+      ]);
+      expect(folders[3]?.children?.map((folder) => folder.path)).toEqual(['Projects/Faktoor']);
+    });
+
+    it('should return copies that do not change the stored emails', async () => {
+      const [email] = await provider.list({ folder: 'inbox' });
+      if (email) email.subject = 'Changed';
+
+      expect((await provider.get('m2')).subject).toBe('Lunch?');
+    });
+  });
+
+  describe('list', () => {
+    it('should list a folder, most recent first', async () => {
+      expect(ids(await provider.list())).toEqual(['m3', 'm2', 'm1']);
+      expect(ids(await provider.list({ folder: 'inbox' }))).toEqual(['m2', 'm1']);
+    });
+
+    it('should honor every filter', async () => {
+      expect(ids(await provider.list({ unreadOnly: true }))).toEqual(['m3', 'm1']);
+      expect(ids(await provider.list({ from: 'alice' }))).toEqual(['m3', 'm1']);
+      expect(ids(await provider.list({ to: 'carol@' }))).toEqual(['m2']);
+      expect(ids(await provider.list({ subject: 'quarterly' }))).toEqual(['m3', 'm1']);
+      expect(ids(await provider.list({ after: new Date('2024-01-02T00:00:00Z') }))).toEqual([
+        'm3',
+        'm2',
+      ]);
+      expect(ids(await provider.list({ before: new Date('2024-01-02T10:00:00Z') }))).toEqual([
+        'm1',
+      ]);
+      expect(ids(await provider.list({ hasAttachment: true }))).toEqual(['m2']);
+      expect(ids(await provider.list({ labels: ['work', 'urgent'] }))).toEqual(['m3']);
+      expect(ids(await provider.list({ query: 'numbers' }))).toEqual(['m1']);
+    });
+
+    it('should page with cursors', async () => {
+      const first = await provider.listPage({ limit: 2 });
+      expect(ids(first.emails)).toEqual(['m3', 'm2']);
+      expect(first.totalEstimate).toBe(3);
+
+      const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+      expect(ids(second.emails)).toEqual(['m1']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should stream every matching email in batches', async () => {
+      const streamed = [];
+      for await (const email of provider.stream({ batchSize: 1 })) streamed.push(email.id);
+
+      expect(streamed).toEqual(['m3', 'm2', 'm1']);
+    });
+
+    it('should throw NotFoundError for unknown emails and folders', async () => {
+      await expect(provider.get('missing')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(provider.list({ folder: 'Nope' })).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+
+  describe('send', () => {
+    it('should put sent emails in the sent folder', async () => {
+      const result = await provider.send({
+        to: ['Dana <dana@example.com>', 'eve@example.com'],
+        subject: 'Hi',
+        text: 'Hello there',
+      });
+
+      const [sent] = await provider.list({ folder: 'sent' });
+      expect(sent).toMatchObject({
+        id: result.id,
+        from: { email: 'me@example.com' },
+        to: [{ email: 'dana@example.com', name: 'Dana' }, { email: 'eve@example.com' }],
+        isRead: true,
+      });
+      expect(result.timestamp).toEqual(sent?.date);
+    });
+
+    it('should thread replies with the email they answer', async () => {
+      const result = await provider.send({
+        to: 'alice@example.com',
+        subject: 'Re',
+        inReplyTo: 'm1',
+      });
+
+      expect(result.threadId).toBe('m1');
+      expect((await provider.getThread('m1')).messageCount).toBe(3);
+    });
+
+    it('should send drafts', async () => {
+      const draft = await provider.createDraft({ to: 'bob@example.com', subject: 'Draft' });
+      await provider.updateDraft(draft.id, { to: 'bob@example.com', subject: 'Final' });
+      await provider.sendDraft(draft.id);
+
+      expect(await provider.listDrafts()).toEqual([]);
+      const [sent] = await provider.list({ folder: 'sent' });
+      expect(sent).toMatchObject({ subject: 'Final', isDraft: false });
+    });
+  });
+
+  describe('mutations', () => {
+    it('should update flags, labels and folders', async () => {
+      await provider.markAsRead('m1');
+      await provider.star('m1');
+      await provider.addLabel('m1', 'later');
+      await provider.removeLabel('m1', 'work');
+      await provider.move('m1', 'archive');
+
+      expect(await provider.get('m1')).toMatchObject({
+        isRead: true,
+        isStarred: true,
+        labels: [{ id: 'later', name: 'later' }],
+        folder: 'archive',
+      });
+    });
+
+    it('should trash emails, then remove them from the trash', async () => {
+      await provider.delete('m1');
+      expect((await provider.get('m1')).folder).toBe('trash');
+
+      await provider.delete('m1');
+      await expect(provider.get('m1')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should manage folders', async () => {
+      await provider.createFolder('Receipts');
+      await expect(provider.createFolder('Receipts')).rejects.toBeInstanceOf(ValidationError);
+      await expect(provider.deleteFolder('inbox')).rejects.toBeInstanceOf(ValidationError);
+
+      await provider.deleteFolder('Projects');
+      await expect(provider.getFolder('Projects/Faktoor')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(provider.get('m3')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should apply thread operations to every message', async () => {
+      await provider.markThreadAsRead('m1');
+      await provider.archiveThread('m1');
+
+      const thread = await provider.getThread('m1');
+      expect(thread.hasUnread).toBe(false);
+      expect(thread.messages.map((email) => email.folder)).toEqual(['archive', 'archive']);
+    });
+  });
+
+  describe('watch', () => {
+    let handle: WatchHandle | undefined;
+    let events: WatchEvent[];
+
+    const collect = (watch: WatchHandle) => {
+      handle = watch;
+      void (async () => {
+        for await (const event of watch) events.push(event);
+      })();
+    };
+
+    const summarize = () =>
+      events.map((event) => {
+        if (event.type === 'deleted') return [event.type, event.id];
+        if (event.type === 'error') return [event.type, event.error.message];
+        return [event.type, event.email.id];
+      });
+
+    beforeEach(() => {
+      events = [];
+    });
+
+    afterEach(() => {
+      handle?.stop();
+    });
+
+    it('should emit events as the watched folder changes', async () => {
+      collect(provider.watch());
+
+      const delivered = provider.deliver({ subject: 'Breaking news' });
+      await provider.markAsRead('m1');
+      await provider.move('m2', 'archive');
+      await provider.move('m3', 'inbox');
+
+      await vi.waitFor(() =>
+        expect(summarize()).toEqual([
+          ['new', delivered.id],
+          ['updated', 'm1'],
+          ['deleted', 'm2'],
+          ['new', 'm3'],
+        ]),
+      );
+    });
+
+    it('should emit existing emails and watch other folders', async () => {
+      collect(provider.watch({ folder: 'sent', includeExisting: true }));
+      await provider.send({ to: 'bob@example.com', subject: 'Hi' });
+
+      await vi.waitFor(() => expect(summarize()).toEqual([['new', 'mem-1']]));
+    });
+
+    it('should stop emitting once stopped', async () => {
+      collect(provider.watch());
+      handle?.stop();
+      provider.deliver({ subject: 'Too late' });
+
+      await Promise.resolve();
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('failure injection', () => {
+    it('should throw RateLimitError after the given number of calls', async () => {
+      provider.injectFailure({ after: 1, times: 2, methods: ['list'] });
+
+      await expect(provider.list()).resolves.toHaveLength(3);
+      await expect(provider.list()).rejects.toBeInstanceOf(RateLimitError);
+      await expect(provider.getFolder('inbox')).resolves.toBeDefined();
+      await expect(provider.list()).rejects.toBeInstanceOf(RateLimitError);
+      await expect(provider.list()).resolves.toHaveLength(3);
+      expect(provider.calls).toEqual(['list', 'list', 'getFolder', 'list', 'list']);
+    });
+
+    it('should throw custom errors until cleared', async () => {
+      provider.injectFailure({ error: () => new ProviderError('memory', 'Down') });
+
+      await expect(provider.connect()).rejects.toThrow('Down');
+      expect(provider.isConnected()).toBe(false);
+
+      provider.clearFailures();
+      await provider.connect();
+      expect(provider.isConnected()).toBe(true);
+    });
+
+    it('should delay calls by the configured latency', async () => {
+      vi.useFakeTimers();
+      try {
+        provider.setLatency((method) => (method === 'get' ? 500 : 0));
+        let done = false;
+        const pending = provider.get('m1').then(() => {
+          done = true;
+        });
+
+        await vi.advanceTimersByTimeAsync(499);
+        expect(done).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+        await pending;
+        expect(done).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('capabilities', () => {
+    it('should support everything by default', () => {
+      expect(provider.capabilities).toMatchObject({ watch: true, threads: true, move: 'same-id' });
+    });
+
+    it('should reject operations whose capability was turned off', async () => {
+      const limited = memory({
+        name: 'limited',
+        capabilities: { watch: false, threads: false, flags: false, move: 'none' },
+        emails: [{ id: 'm1' as EmailId }],
+      });
+
+      expect(() => limited.watch()).toThrow(UnsupportedOperationError);
+      await expect(limited.star('m1')).rejects.toMatchObject({
+        provider: 'limited',
+        operation: 'star',
+      });
+      await expect(limited.listThreads()).rejects.toBeInstanceOf(UnsupportedOperationError);
+      await expect(limited.move('m1', 'archive')).rejects.toBeInstanceOf(UnsupportedOperationError);
+      await expect(limited.addLabel('m1', 'work')).resolves.toBeUndefined();
+    });
+  });
+
+  it('should create a provider with the factory', () => {
+    expect(memory({ name: 'demo' })).toBeInstanceOf(MemoryProvider);
+    expect(memory({ name: 'demo' }).name).toBe('demo');
+  });
+});
@@ -0,0 +1,915 @@
+import { decodeCursor, encodeCursor } from './cursor';
+import {
+  NotFoundError,
+  RateLimitError,
+  UnsupportedOperationError,
+  ValidationError,
+} from './errors';
+import type {
+  CallOptions,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from './provider';
+import type {
+  Address,
+  AttachmentMeta,
+  Draft,
+  DraftId,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  Label,
+  SendResult,
+  Thread,
+  ThreadId,
+} from './types';
+import type { WatchEmitter } from './watch';
+import { createWatchHandle } from './watch';
+
+const DEFAULT_LIMIT = 50;
+
+type FolderType = Folder['type'];
+
+// Folders every memory mailbox starts with
+const SPECIAL_FOLDERS: FolderType[] = ['inbox', 'sent', 'drafts', 'trash', 'spam', 'archive'];
+
+const THREAD_METHODS = [
+  'getThread',
+  'listThreads',
+  'markThreadAsRead',
+  'markThreadAsUnread',
+  'archiveThread',
+  'trashThread',
+  'addThreadLabel',
+  'removeThreadLabel',
+] as const;
+
+const DRAFT_METHODS = [
+  'createDraft',
+  'updateDraft',
+  'listDrafts',
+  'getDraft',
+  'deleteDraft',
+  'sendDraft',
+] as const;
+
+// Capability each method depends on
+const REQUIRED_CAPABILITY: Partial<Record<keyof MailProvider, keyof ProviderCapabilities>> = {
+  watch: 'watch',
+  send: 'send',
+  createFolder: 'folders',
+  deleteFolder: 'folders',
+  addLabel: 'labels',
+  removeLabel: 'labels',
+  markAsRead: 'flags',
+  markAsUnread: 'flags',
+  star: 'flags',
+  unstar: 'flags',
+  move: 'move',
+  ...Object.fromEntries(THREAD_METHODS.map((method) => [method, 'threads'])),
+  ...Object.fromEntries(DRAFT_METHODS.map((method) => [method, 'drafts'])),
+};
+
+/**
+ * Email to seed a memory provider with; everything but the fields you care
+ * about gets a default
+ */
+export type MemoryEmailInput = Partial<Omit<Email, 'folder' | 'labels' | 'headers'>> & {
+  /** Folder name or path, created when missing (default: `inbox`) */
+  folder?: string;
+  labels?: Array<string | Label>;
+  headers?: Map<string, string> | Record<string, string>;
+};
+
+/**
+ * Failure injected into provider calls
+ */
+export interface FailureRule {
+  /** Error to throw (default: a fresh `RateLimitError` per call) */
+  error?: Error | (() => Error);
+  /** Matching calls that succeed before failures start (default: 0) */
+  after?: number;
+  /** Number of calls that fail, then the rule is spent (default: unlimited) */
+  times?: number;
+  /** Provider methods the rule applies to (default: all) */
+  methods?: Array<keyof MailProvider>;
+}
+
+/**
+ * Memory provider options
+ */
+export interface MemoryOptions {
+  /** Provider name (default: `memory`) */
+  name?: string;
+  /** Address sent emails come from (default: `me@example.com`) */
+  address?: string;
+  /** Extra folders to create, `/` separating nested folders */
+  folders?: string[];
+  /** Emails to start with */
+  emails?: MemoryEmailInput[];
+  /** Delay in milliseconds before every call completes */
+  latency?: number | ((method: keyof MailProvider) => number);
+  /** Failures to inject from the start */
+  failures?: FailureRule[];
+  /**
+   * Capabilities to stand in for a more limited provider; operations turned
+   * off throw `UnsupportedOperationError` (default: everything supported)
+   */
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+interface StoredFolder {
+  name: string;
+  path: string;
+  type: FolderType;
+}
+
+interface Watcher {
+  folder: string;
+  emitter: WatchEmitter;
+}
+
+/**
+ * Parse `Name <email>` or a bare address
+ */
+function parseAddress(value: string): Address {
+  const match = value.trim().match(/^(?:"?([^"<]*?)"?\s*)?<([^>]+)>$/);
+  if (!match) return { email: value.trim() };
+  return { email: (match[2] as string).trim(), name: match[1]?.trim() || undefined };
+}
+
+function parseAddresses(value: string | string[] | undefined): Address[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : value.split(','))
+    .filter((item) => item.trim())
+    .map(parseAddress);
+}
+
+function contentSize(content: ArrayBuffer | Uint8Array | string | undefined): number {
+  if (content === undefined) return 0;
+  if (typeof content === 'string') return new TextEncoder().encode(content).length;
+  return content.byteLength;
+}
+
+function includes(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchesAddress(addresses: Address[], needle: string): boolean {
+  return addresses.some(
+    (address) => includes(address.email, needle) || includes(address.name, needle),
+  );
+}
+
+/**
+ * In-memory mail provider for tests and demos
+ *
+ * Stores emails, folders and labels in memory, honors every `ListOptions`
+ * filter and emits watch events as soon as it is changed. Failures and
+ * latency can be injected to exercise retry and timeout handling.
+ */
+export class MemoryProvider implements MailProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  /** Methods called so far, in order, including ones that failed */
+  readonly calls: Array<keyof MailProvider> = [];
+
+  private readonly address: Address;
+  private readonly emails = new Map<string, Email>();
+  private readonly folders = new Map<string, StoredFolder>();
+  private readonly labels = new Map<string, Label>();
+  private readonly watchers = new Set<Watcher>();
+  private failures: Array<FailureRule & { seen: number; failed: number }> = [];
+  private latency: MemoryOptions['latency'];
+  private connected = false;
+  private nextId = 1;
+
+  constructor(options: MemoryOptions = {}) {
+    this.name = options.name ?? 'memory';
+    this.address = parseAddress(options.address ?? 'me@example.com');
+    this.latency = options.latency;
+    this.capabilities = {
+      watch: true,
+      threads: true,
+      drafts: true,
+      send: true,
+      folders: true,
+      labels: true,
+      flags: true,
+      organization: 'folders',
+      move: 'same-id',
+      serverSearch: false,
+      batch: false,
+      ...options.capabilities,
+    };
+
+    for (const type of SPECIAL_FOLDERS) {
+      this.folders.set(type, { name: type, path: type, type });
+    }
+    for (const path of options.folders ?? []) this.ensureFolder(path);
+    this.seed(options.emails ?? []);
+    for (const rule of options.failures ?? []) this.injectFailure(rule);
+  }
+
+  /**
+   * Add emails, creating their folders and labels as needed
+   *
+   * Seeding does not emit watch events.
+   */
+  seed(emails: MemoryEmailInput[]): Email[] {
+    return emails.map((input) => {
+      const email = this.createEmail(input);
+      this.emails.set(email.id, email);
+      return structuredClone(email);
+    });
+  }
+
+  /**
+   * Deliver an email as if it had just arrived, emitting `new` to watchers
+   */
+  deliver(input: MemoryEmailInput): Email {
+    const email = this.createEmail(input);
+    this.store(email);
+    return structuredClone(email);
+  }
+
+  /**
+   * Fail matching calls until the rule is spent or cleared
+   */
+  injectFailure(rule: FailureRule = {}): void {
+    this.failures.push({ ...rule, seen: 0, failed: 0 });
+  }
+
+  clearFailures(): void {
+    this.failures = [];
+  }
+
+  /**
+   * Delay every call by `latency` milliseconds, or by what it returns per method
+   */
+  setLatency(latency: MemoryOptions['latency']): void {
+    this.latency = latency;
+  }
+
+  // Connection
+  async connect(call: CallOptions = {}): Promise<void> {
+    await this.call('connect', call.signal);
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.call('disconnect');
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Reading
+  async list(options: ListOptions = {}): Promise<Email[]> {
+    await this.call('list', options.signal);
+    return this.page(options).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage> {
+    await this.call('listPage', options.signal);
+    return this.page(options);
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<Email> {
+    await this.call('get', options.signal);
+    const email = this.find(id);
+
+    if ((options.format ?? 'full') !== 'full') {
+      email.body = { html: null, text: '' };
+    }
+    if (!options.includeRaw) {
+      email.raw = undefined;
+    }
+    return email;
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<Email> {
+    await this.call('stream', options.signal);
+    const limit = options.batchSize ?? DEFAULT_LIMIT;
+    let cursor: string | undefined;
+
+    do {
+      const page = this.page({ ...options, limit, cursor });
+      cursor = page.nextCursor;
+      yield* page.emails;
+    } while (cursor);
+  }
+
+  // Sending
+  /**
+   * Store the email in `sent`; replies join the thread of the email they answer
+   */
+  async send(options: SendOptions, call: CallOptions = {}): Promise<SendResult> {
+    await this.call('send', call.signal);
+    const email = this.fromSendOptions(options, 'sent');
+    this.store(email);
+    return { id: email.id, threadId: email.threadId, timestamp: email.date };
+  }
+
+  // Folders
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    await this.call('listFolders', call.signal);
+
+    const byPath = new Map<string, Folder>();
+    const roots: Folder[] = [];
+    const stored = [...this.folders.values()].sort((a, b) => a.path.localeCompare(b.path));
+    for (const folder of stored) {
+      const entry = this.toFolder(folder);
+      byPath.set(folder.path, entry);
+
+      const slash = folder.path.lastIndexOf('/');
+      const parent = slash === -1 ? undefined : byPath.get(folder.path.slice(0, slash));
+      if (parent) {
+        parent.children = [...(parent.children ?? []), entry];
+      } else {
+        roots.push(entry);
+      }
+    }
+    return roots;
+  }
+
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
+    await this.call('getFolder', call.signal);
+    return this.toFolder(this.resolveFolder(name));
+  }
+
+  /**
+   * Create a folder; `Parent/Child` creates missing parents too
+   */
+  async createFolder(name: string, call: CallOptions = {}): Promise<Folder> {
+    await this.call('createFolder', call.signal);
+    if (this.folders.has(name.toLowerCase())) {
+      throw new ValidationError(`Folder already exists: ${name}`, 'name');
+    }
+    return this.toFolder(this.ensureFolder(name));
+  }
+
+  /**
+   * Delete a custom folder, its subfolders and the emails in them
+   */
+  async deleteFolder(name: FolderName | string, call: CallOptions = {}): Promise<void> {
+    await this.call('deleteFolder', call.signal);
+    const folder = this.resolveFolder(name);
+    if (folder.type !== 'custom') {
+      throw new ValidationError(`Cannot delete the ${folder.type} folder`, 'name');
+    }
+
+    for (const [key, stored] of this.folders) {
+      if (stored.path === folder.path || stored.path.startsWith(`${folder.path}/`)) {
+        for (const email of this.emails.values()) {
+          if (email.folder === stored.name) this.remove(email.id);
+        }
+        this.folders.delete(key);
+      }
+    }
+  }
+
+  // Mutations
+  async markAsRead(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('markAsRead', call.signal);
+    this.update(id, (email) => {
+      email.isRead = true;
+    });
+  }
+
+  async markAsUnread(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('markAsUnread', call.signal);
+    this.update(id, (email) => {
+      email.isRead = false;
+    });
+  }
+
+  async star(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('star', call.signal);
+    this.update(id, (email) => {
+      email.isStarred = true;
+    });
+  }
+
+  async unstar(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('unstar', call.signal);
+    this.update(id, (email) => {
+      email.isStarred = false;
+    });
+  }
+
+  async move(
+    id: EmailId | string,
+    folder: FolderName | string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.call('move', call.signal);
+    const target = this.resolveFolder(folder);
+    this.update(id, (email) => {
+      email.folder = target.name as FolderName;
+    });
+  }
+
+  /**
+   * Move an email to the trash, or remove it for good when it is already there
+   */
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('delete', call.signal);
+    const email = this.find(id);
+    if (email.folder === 'trash') {
+      this.remove(email.id);
+      return;
+    }
+    this.update(id, (stored) => {
+      stored.folder = 'trash' as FolderName;
+    });
+  }
+
+  async addLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.call('addLabel', call.signal);
+    const stored = this.ensureLabel(label);
+    this.update(id, (email) => {
+      if (!email.labels.some((existing) => existing.id === stored.id)) {
+        email.labels.push({ ...stored });
+      }
+    });
+  }
+
+  async removeLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.call('removeLabel', call.signal);
+    this.update(id, (email) => {
+      email.labels = email.labels.filter(
+        (existing) => existing.id !== label && existing.name !== label,
+      );
+    });
+  }
+
+  // Threads
+  async getThread(id: ThreadId | string, call: CallOptions = {}): Promise<Thread> {
+    await this.call('getThread', call.signal);
+    const messages = this.all().filter((email) => email.threadId === id);
+    if (!messages.length) {
+      throw new NotFoundError('Thread', id);
+    }
+    return this.toThread(messages);
+  }
+
+  /**
+   * List threads with an email matching the options, most recent first
+   */
+  async listThreads(options: ListOptions = {}): Promise<Thread[]> {
+    await this.call('listThreads', options.signal);
+    const threadIds = [...new Set(this.matching(options).map((email) => email.threadId))];
+    const offset = options.offset ?? 0;
+
+    return threadIds
+      .slice(offset, offset + (options.limit ?? DEFAULT_LIMIT))
+      .map((threadId) => this.toThread(this.all().filter((email) => email.threadId === threadId)));
+  }
+
+  async markThreadAsRead(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('markThreadAsRead', call.signal);
+    this.updateThread(id, (email) => {
+      email.isRead = true;
+    });
+  }
+
+  async markThreadAsUnread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('markThreadAsUnread', call.signal);
+    this.updateThread(id, (email) => {
+      email.isRead = false;
+    });
+  }
+
+  async archiveThread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('archiveThread', call.signal);
+    this.updateThread(id, (email) => {
+      email.folder = 'archive' as FolderName;
+    });
+  }
+
+  async trashThread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('trashThread', call.signal);
+    this.updateThread(id, (email) => {
+      email.folder = 'trash' as FolderName;
+    });
+  }
+
+  async addThreadLabel(
+    id: ThreadId | string,
+    label: string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.call('addThreadLabel', call.signal);
+    const stored = this.ensureLabel(label);
+    this.updateThread(id, (email) => {
+      if (!email.labels.some((existing) => existing.id === stored.id)) {
+        email.labels.push({ ...stored });
+      }
+    });
+  }
+
+  async removeThreadLabel(
+    id: ThreadId | string,
+    label: string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.call('removeThreadLabel', call.signal);
+    this.updateThread(id, (email) => {
+      email.labels = email.labels.filter(
+        (existing) => existing.id !== label && existing.name !== label,
+      );
+    });
+  }
+
+  // Drafts
+  async createDraft(options: SendOptions, call: CallOptions = {}): Promise<Draft> {
+    await this.call('createDraft', call.signal);
+    const email = this.fromSendOptions(options, 'drafts');
+    this.store(email);
+    return { id: email.id as string as DraftId, message: structuredClone(email) };
+  }
+
+  async updateDraft(
+    id: DraftId | string,
+    options: SendOptions,
+    call: CallOptions = {},
+  ): Promise<Draft> {
+    await this.call('updateDraft', call.signal);
+    const existing = this.findDraft(id);
+    const email = { ...this.fromSendOptions(options, 'drafts'), id: existing.id };
+    this.emails.set(email.id, email);
+    this.notify(email, existing);
+    return { id: email.id as string as DraftId, message: structuredClone(email) };
+  }
+
+  async listDrafts(options: ListOptions = {}): Promise<Draft[]> {
+    await this.call('listDrafts', options.signal);
+    return this.page({ ...options, folder: 'drafts' }).emails.map((email) => ({
+      id: email.id as string as DraftId,
+      message: email,
+    }));
+  }
+
+  async getDraft(id: DraftId | string, call: CallOptions = {}): Promise<Draft> {
+    await this.call('getDraft', call.signal);
+    const email = this.findDraft(id);
+    return { id: email.id as string as DraftId, message: structuredClone(email) };
+  }
+
+  async deleteDraft(id: DraftId | string, call: CallOptions = {}): Promise<void> {
+    await this.call('deleteDraft', call.signal);
+    this.remove(this.findDraft(id).id);
+  }
+
+  async sendDraft(id: DraftId | string, call: CallOptions = {}): Promise<SendResult> {
+    await this.call('sendDraft', call.signal);
+    const draft = this.findDraft(id);
+    const date = new Date();
+    const email = this.update(draft.id, (stored) => {
+      stored.folder = 'sent' as FolderName;
+      stored.isDraft = false;
+      stored.date = date;
+      stored.receivedAt = date;
+    });
+    return { id: email.id, threadId: email.threadId, timestamp: date };
+  }
+
+  // Sync
+  /**
+   * Watch a folder (default: inbox); events are emitted as soon as the
+   * provider changes, so `interval` is ignored
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    this.calls.push('watch');
+    this.assertSupported('watch');
+    const folder = this.resolveFolder(options.folder ?? 'inbox').name;
+
+    return createWatchHandle((emitter) => {
+      if (options.includeExisting) {
+        for (const email of this.all().filter((stored) => stored.folder === folder)) {
+          emitter.emit({ type: 'new', email });
+        }
+      }
+
+      const watcher = { folder, emitter };
+      this.watchers.add(watcher);
+      return () => {
+        this.watchers.delete(watcher);
+      };
+    });
+  }
+
+  /**
+   * Record a call, wait out the latency and throw an injected failure, if any
+   *
+   * An aborted signal ends the wait early with its reason.
+   */
+  private async call(method: keyof MailProvider, signal?: AbortSignal): Promise<void> {
+    this.calls.push(method);
+    this.assertSupported(method);
+    signal?.throwIfAborted();
+
+    const latency = typeof this.latency === 'function' ? this.latency(method) : this.latency;
+    if (latency) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, latency);
+        signal?.addEventListener(
+          'abort',
+          () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+          },
+          { once: true },
+        );
+      });
+    }
+
+    for (const rule of this.failures) {
+      if (rule.methods && !rule.methods.includes(method)) continue;
+      rule.seen += 1;
+      if (rule.seen <= (rule.after ?? 0)) continue;
+      if (rule.times !== undefined && rule.failed >= rule.times) continue;
+
+      rule.failed += 1;
+      if (rule.error instanceof Error) throw rule.error;
+      throw rule.error?.() ?? new RateLimitError('Rate limit exceeded', 1000);
+    }
+  }
+
+  /**
+   * Throw when the method depends on a capability that was turned off
+   */
+  private assertSupported(method: keyof MailProvider): void {
+    const capability = REQUIRED_CAPABILITY[method];
+    const value = capability && this.capabilities[capability];
+    if (value === false || value === 'none') {
+      throw new UnsupportedOperationError(this.name, method);
+    }
+  }
+
+  /**
+   * Emails matching the options, most recent first
+   */
+  private matching(options: ListOptions): Email[] {
+    const folder = options.folder ? this.resolveFolder(options.folder).name : undefined;
+
+    return [...this.emails.values()]
+      .filter((email) => {
+        if (folder && email.folder !== folder) return false;
+        if (options.unreadOnly && email.isRead) return false;
+        if (options.from && !matchesAddress([email.from], options.from)) return false;
+        if (options.to && !matchesAddress([...email.to, ...email.cc, ...email.bcc], options.to)) {
+          return false;
+        }
+        if (options.subject && !includes(email.subject, options.subject)) return false;
+        if (options.after && email.receivedAt < options.after) return false;
+        if (options.before && email.receivedAt >= options.before) return false;
+        if (options.hasAttachment && !email.attachments.length) return false;
+        if (
+          options.labels?.some(
+            (label) => !email.labels.some((stored) => stored.id === label || stored.name === label),
+          )
+        ) {
+          return false;
+        }
+        if (
+          options.query &&
+          !includes(email.subject, options.query) &&
+          !includes(email.body.text, options.query) &&
+          !matchesAddress([email.from, ...email.to], options.query)
+        ) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())
+      .map((email) => structuredClone(email));
+  }
+
+  private page(options: ListOptions): ListPage {
+    const matching = this.matching(options);
+    const offset = options.cursor
+      ? decodeCursor<{ offset: number }>(options.cursor).offset
+      : (options.offset ?? 0);
+    const end = offset + (options.limit ?? DEFAULT_LIMIT);
+
+    return {
+      emails: matching.slice(offset, end),
+      nextCursor: end < matching.length ? encodeCursor({ offset: end }) : undefined,
+      totalEstimate: matching.length,
+    };
+  }
+
+  private all(): Email[] {
+    return [...this.emails.values()].map((email) => structuredClone(email));
+  }
+
+  private find(id: string): Email {
+    const email = this.emails.get(id);
+    if (!email) {
+      throw new NotFoundError('Email', id);
+    }
+    return structuredClone(email);
+  }
+
+  private findDraft(id: string): Email {
+    const email = this.emails.get(id);
+    if (!email?.isDraft) {
+      throw new NotFoundError('Draft', id);
+    }
+    return structuredClone(email);
+  }
+
+  private store(email: Email): void {
+    this.emails.set(email.id, email);
+    this.notify(email);
+  }
+
+  /**
+   * Change a stored email and notify watchers
+   */
+  private update(id: string, change: (email: Email) => void): Email {
+    const before = this.find(id);
+    const email = structuredClone(before);
+    change(email);
+    this.emails.set(email.id, email);
+    this.notify(email, before);
+    return structuredClone(email);
+  }
+
+  private updateThread(id: string, change: (email: Email) => void): void {
+    const emails = this.all().filter((email) => email.threadId === id);
+    if (!emails.length) {
+      throw new NotFoundError('Thread', id);
+    }
+    for (const email of emails) this.update(email.id, change);
+  }
+
+  private remove(id: string): void {
+    const email = this.emails.get(id);
+    if (!email) return;
+    this.emails.delete(id);
+    this.notify(undefined, email);
+  }
+
+  /**
+   * Tell watchers what changed in their folder: emails entering it are new,
+   * emails leaving it are deleted
+   */
+  private notify(after: Email | undefined, before?: Email): void {
+    for (const { folder, emitter } of this.watchers) {
+      const was = before?.folder === folder;
+      const is = after?.folder === folder;
+      if (is && after) {
+        emitter.emit({ type: was ? 'updated' : 'new', email: structuredClone(after) });
+      } else if (was && before) {
+        emitter.emit({ type: 'deleted', id: before.id });
+      }
+    }
+  }
+
+  private resolveFolder(name: string): StoredFolder {
+    const folder = this.folders.get(name.toLowerCase());
+    if (!folder) {
+      throw new NotFoundError('Folder', name);
+    }
+    return folder;
+  }
+
+  private ensureFolder(path: string): StoredFolder {
+    const existing = this.folders.get(path.toLowerCase());
+    if (existing) return existing;
+
+    const slash = path.lastIndexOf('/');
+    if (slash !== -1) this.ensureFolder(path.slice(0, slash));
+
+    const folder: StoredFolder = { name: path, path, type: 'custom' };
+    this.folders.set(path.toLowerCase(), folder);
+    return folder;
+  }
+
+  private ensureLabel(label: string | Label): Label {
+    const name = typeof label === 'string' ? label : label.name;
+    const existing = this.labels.get(name) ?? [...this.labels.values()].find((l) => l.id === name);
+    if (existing) return existing;
+
+    const stored = typeof label === 'string' ? { id: label, name: label } : { ...label };
+    this.labels.set(stored.name, stored);
+    return stored;
+  }
+
+  private toFolder(folder: StoredFolder): Folder {
+    const emails = [...this.emails.values()].filter((email) => email.folder === folder.name);
+    return {
+      name: folder.name as FolderName,
+      path: folder.path,
+      type: folder.type,
+      unreadCount: emails.filter((email) => !email.isRead).length,
+      totalCount: emails.length,
+    };
+  }
+
+  private toThread(emails: Email[]): Thread {
+    const messages = [...emails].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const participants = new Map<string, Address>();
+    for (const email of messages) {
+      for (const address of [email.from, ...email.to, ...email.cc]) {
+        if (!participants.has(address.email)) participants.set(address.email, address);
+      }
+    }
+    const last = messages[messages.length - 1] as Email;
+
+    return {
+      id: last.threadId,
+      subject: messages[0]?.subject ?? '',
+      participants: [...participants.values()],
+      messageCount: messages.length,
+      messages,
+      lastDate: last.date,
+      hasUnread: messages.some((email) => !email.isRead),
+    };
+  }
+
+  private createEmail(input: MemoryEmailInput): Email {
+    const id = (input.id ?? `mem-${this.nextId++}`) as EmailId;
+    const date = input.date ?? input.receivedAt ?? new Date();
+    const headers =
+      input.headers instanceof Map
+        ? new Map(input.headers)
+        : new Map(Object.entries(input.headers ?? {}));
+
+    return {
+      from: { email: 'sender@example.com' },
+      to: [{ ...this.address }],
+      cc: [],
+      bcc: [],
+      subject: '',
+      body: { html: null, text: '' },
+      isRead: false,
+      isStarred: false,
+      isDraft: false,
+      attachments: [],
+      ...structuredClone({ ...input, labels: undefined, headers: undefined }),
+      id,
+      threadId: input.threadId ?? (id as string as ThreadId),
+      folder: this.ensureFolder(input.folder ?? 'inbox').name as FolderName,
+      date,
+      receivedAt: input.receivedAt ?? date,
+      labels: (input.labels ?? []).map((label) => ({ ...this.ensureLabel(label) })),
+      headers,
+    };
+  }
+
+  private fromSendOptions(options: SendOptions, folder: 'sent' | 'drafts'): Email {
+    const replyTo = options.inReplyTo
+      ? [...this.emails.values()].find(
+          (email) =>
+            email.id === options.inReplyTo ||
+            email.headers.get('message-id')?.replace(/^<|>$/g, '') ===
+              options.inReplyTo?.replace(/^<|>$/g, ''),
+        )
+      : undefined;
+    const attachments: AttachmentMeta[] = (options.attachments ?? []).map((attachment, index) => ({
+      id: `${index + 1}`,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType ?? 'application/octet-stream',
+      size: contentSize(attachment.content),
+    }));
+
+    return this.createEmail({
+      folder,
+      threadId: replyTo?.threadId,
+      from: { ...this.address },
+      to: parseAddresses(options.to),
+      cc: parseAddresses(options.cc),
+      bcc: parseAddresses(options.bcc),
+      replyTo: options.replyTo ? parseAddress(options.replyTo) : undefined,
+      subject: options.subject,
+      body: { html: options.html ?? null, text: options.text ?? '' },
+      isRead: true,
+      isDraft: folder === 'drafts',
+      attachments,
+      headers: options.headers,
+      inReplyTo: options.inReplyTo as EmailId | undefined,
+      references: options.references as EmailId[] | undefined,
+    });
+  }
+}
+
+/**
+ * Create an in-memory provider
+ */
+export function memory(options?: MemoryOptions): MemoryProvider {
+  return new MemoryProvider(options);
+}
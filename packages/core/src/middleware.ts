@@ -0,0 +1,52 @@
+import type { MailEventEmitter } from './events';
+import type { MailProvider } from './provider';
+
+/**
+ * A `MailClient` call as seen by middleware
+ */
+export interface MiddlewareContext {
+  /** Client method, e.g. `get` or `markAsRead` */
+  readonly operation: string;
+  /** Arguments the method was called with; pass a context with others to `next` to replace them */
+  readonly args: readonly unknown[];
+  readonly provider: MailProvider;
+  /** Whether running the call twice is harmless; false for `send()`, `sendDraft()` and `createDraft()` */
+  readonly idempotent: boolean;
+  /** Signal the provider receives; pass a context with another one to `next` to replace it */
+  readonly signal?: AbortSignal;
+  /** Attempt from 1, set by the retry layer for the layers inside it */
+  readonly attempt?: number;
+  /** Shared by every layer of one call, e.g. for a tenant id or a start time */
+  readonly meta: Record<string, unknown>;
+  /** The client's event emitter, which the built-in layers report to */
+  readonly events: MailEventEmitter;
+}
+
+/**
+ * A layer around every `MailClient` call
+ *
+ * `next` runs the rest of the chain and resolves with the provider's result.
+ * It may be called again to retry, or not at all to answer from elsewhere.
+ *
+ * `stream()` and `watch()` are not calls the chain can wrap, and so do not
+ * reach it: page through `listPage()` instead to have each page go through
+ * middleware, retries and timeouts.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: (context?: MiddlewareContext) => Promise<unknown>,
+) => Promise<unknown>;
+
+/**
+ * Combine middleware into one, the first being the outermost layer
+ */
+export function composeMiddleware(middleware: readonly Middleware[]): Middleware {
+  return (context, next) => {
+    const dispatch = (index: number, current: MiddlewareContext): Promise<unknown> => {
+      const layer = middleware[index];
+      if (!layer) return next(current);
+      return layer(current, (replacement = current) => dispatch(index + 1, replacement));
+    };
+    return dispatch(0, context);
+  };
+}
@@ -1,9 +1,27 @@
-import type { Email, EmailId, Folder, FolderName, SendResult } from './types';
+import type {
+  Draft,
+  DraftId,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  SendResult,
+  Thread,
+  ThreadId,
+} from './types';
+
+/**
+ * Options every provider call accepts
+ */
+export interface CallOptions {
+  /** Aborts the call; `MailClient` passes one when `MailConfig.timeout` is set */
+  signal?: AbortSignal;
+}
 
 /**
  * Options for listing emails
  */
-export interface ListOptions {
+export interface ListOptions extends CallOptions {
   folder?: FolderName | string;
   limit?: number;
   offset?: number;
@@ -16,12 +34,25 @@ export interface ListOptions {
   hasAttachment?: boolean;
   labels?: string[];
   query?: string;
+  /** Opaque cursor from a previous `ListPage`, takes precedence over `offset` */
+  cursor?: string;
+}
+
+/**
+ * One page of emails
+ */
+export interface ListPage<T extends Email = Email> {
+  emails: T[];
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string;
+  /** Provider estimate of the total number of matching emails */
+  totalEstimate?: number;
 }
 
 /**
  * Options for getting a single email
  */
-export interface GetOptions {
+export interface GetOptions extends CallOptions {
   includeAttachments?: boolean;
   includeRaw?: boolean;
   format?: 'full' | 'metadata' | 'minimal';
@@ -88,15 +119,52 @@ export interface WatchHandle {
   [Symbol.asyncIterator](): AsyncIterableIterator<WatchEvent>;
 }
 
+/**
+ * What a provider supports
+ *
+ * Operations a provider lacks throw `UnsupportedOperationError`.
+ */
+export interface ProviderCapabilities {
+  /** `watch()` reports changes */
+  watch: boolean;
+  /** Thread methods such as `getThread()` and `listThreads()` */
+  threads: boolean;
+  /** Draft methods such as `createDraft()` and `sendDraft()` */
+  drafts: boolean;
+  /** `send()` works without a separate transport */
+  send: boolean;
+  /** Folders besides the inbox, with `createFolder()` and `deleteFolder()` */
+  folders: boolean;
+  /** `addLabel()` and `removeLabel()`: Gmail labels, IMAP and JMAP keywords, Outlook categories */
+  labels: boolean;
+  /** `markAsRead()`, `star()` and their opposites */
+  flags: boolean;
+  /**
+   * `folders` when an email lives in exactly one folder, `labels` when folders
+   * are labels and an email can be in several at once (Gmail)
+   */
+  organization: 'folders' | 'labels';
+  /** Whether an email keeps its id when moved, or `none` when `move()` is unsupported */
+  move: 'same-id' | 'new-id' | 'none';
+  /** `ListOptions` filters run on the server instead of reading every message */
+  serverSearch: boolean;
+  /** Several calls are combined into one request, e.g. Gmail batches and JMAP method calls */
+  batch: boolean;
+  /** Largest attachment `send()` accepts in bytes, when the provider knows it */
+  maxAttachmentSize?: number;
+}
+
 /**
  * Mail provider interface
  * All providers must implement this interface
  */
 export interface MailProvider {
   readonly name: string;
+  /** What the provider supports; inferred from its optional methods when absent */
+  readonly capabilities?: ProviderCapabilities;
 
   // Connection
-  connect(): Promise<void>;
+  connect(call?: CallOptions): Promise<void>;
   disconnect(): Promise<void>;
   isConnected(): boolean;
 
@@ -104,26 +172,55 @@ export interface MailProvider {
   list(options?: ListOptions): Promise<Email[]>;
   get(id: EmailId | string, options?: GetOptions): Promise<Email>;
   stream(options?: StreamOptions): AsyncIterable<Email>;
+  listPage?(options?: ListOptions): Promise<ListPage>;
 
   // Sending
-  send(options: SendOptions): Promise<SendResult>;
+  send(options: SendOptions, call?: CallOptions): Promise<SendResult>;
 
   // Folders
-  listFolders(): Promise<Folder[]>;
-  getFolder(name: FolderName | string): Promise<Folder>;
-  createFolder(name: string): Promise<Folder>;
-  deleteFolder(name: FolderName | string): Promise<void>;
+  listFolders(call?: CallOptions): Promise<Folder[]>;
+  getFolder(name: FolderName | string, call?: CallOptions): Promise<Folder>;
+  createFolder(name: string, call?: CallOptions): Promise<Folder>;
+  deleteFolder(name: FolderName | string, call?: CallOptions): Promise<void>;
 
   // Mutations
-  markAsRead(id: EmailId | string): Promise<void>;
-  markAsUnread(id: EmailId | string): Promise<void>;
-  star(id: EmailId | string): Promise<void>;
-  unstar(id: EmailId | string): Promise<void>;
-  move(id: EmailId | string, folder: FolderName | string): Promise<void>;
-  delete(id: EmailId | string): Promise<void>;
-  addLabel(id: EmailId | string, label: string): Promise<void>;
-  removeLabel(id: EmailId | string, label: string): Promise<void>;
+  markAsRead(id: EmailId | string, call?: CallOptions): Promise<void>;
+  markAsUnread(id: EmailId | string, call?: CallOptions): Promise<void>;
+  star(id: EmailId | string, call?: CallOptions): Promise<void>;
+  unstar(id: EmailId | string, call?: CallOptions): Promise<void>;
+  move(id: EmailId | string, folder: FolderName | string, call?: CallOptions): Promise<void>;
+  delete(id: EmailId | string, call?: CallOptions): Promise<void>;
+  addLabel(id: EmailId | string, label: string, call?: CallOptions): Promise<void>;
+  removeLabel(id: EmailId | string, label: string, call?: CallOptions): Promise<void>;
+
+  // Threads (optional)
+  getThread?(id: ThreadId | string, call?: CallOptions): Promise<Thread>;
+  listThreads?(options?: ListOptions): Promise<Thread[]>;
+  markThreadAsRead?(id: ThreadId | string, call?: CallOptions): Promise<void>;
+  markThreadAsUnread?(id: ThreadId | string, call?: CallOptions): Promise<void>;
+  archiveThread?(id: ThreadId | string, call?: CallOptions): Promise<void>;
+  trashThread?(id: ThreadId | string, call?: CallOptions): Promise<void>;
+  addThreadLabel?(id: ThreadId | string, label: string, call?: CallOptions): Promise<void>;
+  removeThreadLabel?(id: ThreadId | string, label: string, call?: CallOptions): Promise<void>;
+
+  // Drafts (optional)
+  createDraft?(options: SendOptions, call?: CallOptions): Promise<Draft>;
+  updateDraft?(id: DraftId | string, options: SendOptions, call?: CallOptions): Promise<Draft>;
+  listDrafts?(options?: ListOptions): Promise<Draft[]>;
+  getDraft?(id: DraftId | string, call?: CallOptions): Promise<Draft>;
+  deleteDraft?(id: DraftId | string, call?: CallOptions): Promise<void>;
+  sendDraft?(id: DraftId | string, call?: CallOptions): Promise<SendResult>;
 
   // Sync (optional)
   watch?(options?: WatchOptions): WatchHandle;
 }
+
+/**
+ * Sends email independently of the provider that reads it, e.g. an SMTP relay
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(options: SendOptions, call?: CallOptions): Promise<SendResult>;
+  /** Release connections; called by `MailClient.disconnect()` */
+  close?(): Promise<void>;
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError } from './errors';
+import { createRateLimiter } from './rate-limit';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let calls through while the bucket has units', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 10, costs: { get: 5 } });
+
+    await limiter.acquire('get');
+    await limiter.acquire('get');
+
+    expect(limiter.usage()).toEqual({
+      available: 0,
+      queued: 0,
+      consumed: 10,
+      byOperation: { get: 10 },
+    });
+  });
+
+  it('should queue calls in order until the bucket refills', async () => {
+    const onQueue = vi.fn();
+    const limiter = createRateLimiter({ unitsPerSecond: 10, costs: { send: 10 }, onQueue });
+    const order: string[] = [];
+
+    await limiter.acquire('send');
+    const first = limiter.acquire('send').then(() => order.push('first'));
+    const second = limiter.acquire('list').then(() => order.push('second'));
+    expect(limiter.usage().queued).toBe(2);
+    expect(onQueue.mock.calls).toEqual([
+      ['send', 10],
+      ['list', 1],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(order).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(order).toEqual(['first']);
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([first, second]);
+
+    expect(order).toEqual(['first', 'second']);
+    expect(limiter.usage().byOperation).toEqual({ send: 20, list: 1 });
+  });
+
+  it('should charge the full cost of a batch larger than the bucket', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 10, burst: 20, costs: { get: 5 } });
+    let done = false;
+
+    const batch = limiter.acquire('get', { count: 10 }).then(() => {
+      done = true;
+    });
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await batch;
+
+    expect(limiter.cost('get')).toBe(5);
+    expect(limiter.usage()).toMatchObject({ available: 0, consumed: 50 });
+  });
+
+  it('should hand back units taken by an aborted call', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 10 });
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire('list', { count: 15, signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+
+    await expect(waiting).rejects.toThrow('Cancelled');
+    expect(limiter.usage()).toMatchObject({ available: 10, consumed: 0 });
+  });
+
+  it('should remove aborted calls from the queue', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 1 });
+    const controller = new AbortController();
+
+    await limiter.acquire('list');
+    const waiting = limiter.acquire('list', { signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+
+    await expect(waiting).rejects.toThrow('Cancelled');
+    expect(limiter.usage()).toMatchObject({ queued: 0, consumed: 1 });
+  });
+
+  it('should reject a rate that is not positive', () => {
+    expect(() => createRateLimiter({ unitsPerSecond: 0 })).toThrow(ValidationError);
+  });
+
+  it('should charge an operation costing more than the bucket holds in full', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 50, costs: { send: 100 } });
+    let done = false;
+
+    const send = limiter.acquire('send').then(() => {
+      done = true;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await send;
+
+    expect(limiter.usage()).toMatchObject({ available: 0, consumed: 100 });
+  });
+
+  it('should return a rejected promise when the signal has already aborted', async () => {
+    const limiter = createRateLimiter({ unitsPerSecond: 10 });
+
+    const acquired = limiter.acquire('list', { signal: AbortSignal.abort(new Error('Cancelled')) });
+
+    await expect(acquired).rejects.toThrow('Cancelled');
+    expect(limiter.usage()).toMatchObject({ available: 10, consumed: 0 });
+  });
+});
@@ -0,0 +1,165 @@
+import { ValidationError } from './errors';
+
+/**
+ * Options for a token-bucket rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Units added to the bucket per second */
+  unitsPerSecond: number;
+  /** Units the bucket holds when full, i.e. the largest burst (default: `unitsPerSecond`) */
+  burst?: number;
+  /** Cost of each operation in units, e.g. `{ 'messages.send': 100 }` */
+  costs?: Record<string, number>;
+  /** Cost of operations missing from `costs` (default: 1) */
+  defaultCost?: number;
+  /** Called when a call has to wait for units */
+  onQueue?: (operation: string, units: number) => void;
+}
+
+/**
+ * Snapshot of a limiter's state, e.g. for metrics
+ */
+export interface RateLimiterUsage {
+  /** Units that can be spent right now */
+  available: number;
+  /** Calls waiting for units */
+  queued: number;
+  /** Units spent since the limiter was created */
+  consumed: number;
+  /** Units spent per operation */
+  byOperation: Record<string, number>;
+}
+
+/**
+ * Queues calls so they never spend more units than the bucket allows
+ */
+export interface RateLimiter {
+  /**
+   * Wait until `count` calls of `operation` can run, then spend their units
+   *
+   * Waiting calls are served in order. A call or batch costing more than the
+   * bucket holds waits for as many refills as it needs. An aborted signal
+   * removes the call from the queue and rejects with the signal's reason.
+   */
+  acquire(operation: string, options?: { count?: number; signal?: AbortSignal }): Promise<void>;
+  /** Cost of one call of `operation` in units */
+  cost(operation: string): number;
+  usage(): RateLimiterUsage;
+}
+
+interface Waiter {
+  operation: string;
+  units: number;
+  /** Units already taken from the bucket while waiting */
+  paid: number;
+  resolve(): void;
+  reject(reason: unknown): void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Create a token-bucket rate limiter
+ *
+ * The bucket starts full. The first waiting call takes units as they come in
+ * until it has its whole cost, so calls costing more than the bucket holds are
+ * still charged in full.
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  if (!(options.unitsPerSecond > 0)) {
+    throw new ValidationError('unitsPerSecond must be positive', 'unitsPerSecond');
+  }
+
+  const capacity = options.burst ?? options.unitsPerSecond;
+  const queue: Waiter[] = [];
+  const byOperation: Record<string, number> = {};
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  let consumed = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const cost = (operation: string): number =>
+    options.costs?.[operation] ?? options.defaultCost ?? 1;
+
+  const refill = (): void => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * options.unitsPerSecond);
+    updatedAt = now;
+  };
+
+  const record = (operation: string, units: number): void => {
+    consumed += units;
+    byOperation[operation] = (byOperation[operation] ?? 0) + units;
+  };
+
+  // Serve waiters in order, then wake up when the next one can be paid for
+  const drain = (): void => {
+    clearTimeout(timer);
+    timer = undefined;
+    refill();
+
+    let next = queue[0];
+    while (next) {
+      const payment = Math.min(tokens, next.units - next.paid);
+      tokens -= payment;
+      next.paid += payment;
+      if (next.paid < next.units) break;
+
+      queue.shift();
+      next.signal?.removeEventListener('abort', next.onAbort as () => void);
+      record(next.operation, next.units);
+      next.resolve();
+      next = queue[0];
+    }
+
+    if (next) {
+      // The bucket stops filling when full, so large costs are paid in several refills
+      const missing = Math.min(next.units - next.paid, capacity);
+      const wait = (missing / options.unitsPerSecond) * 1000;
+      timer = setTimeout(drain, Math.ceil(wait));
+    }
+  };
+
+  return {
+    acquire(operation, { count = 1, signal } = {}) {
+      if (signal?.aborted) return Promise.reject(signal.reason);
+      const units = cost(operation) * count;
+
+      refill();
+      if (!queue.length && tokens >= units) {
+        tokens -= units;
+        record(operation, units);
+        return Promise.resolve();
+      }
+
+      options.onQueue?.(operation, units);
+      return new Promise<void>((resolve, reject) => {
+        const waiter: Waiter = { operation, units, paid: 0, resolve, reject, signal };
+        if (signal) {
+          waiter.onAbort = () => {
+            queue.splice(queue.indexOf(waiter), 1);
+            // Hand back what the call took while waiting
+            tokens = Math.min(capacity, tokens + waiter.paid);
+            reject(signal.reason);
+            drain();
+          };
+          signal.addEventListener('abort', waiter.onAbort, { once: true });
+        }
+        queue.push(waiter);
+        if (queue.length === 1) drain();
+      });
+    },
+
+    cost,
+
+    usage() {
+      refill();
+      return {
+        available: Math.floor(tokens),
+        queued: queue.length,
+        consumed,
+        byOperation: { ...byOperation },
+      };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createEventEmitter, trackRequest } from './events';
+import type { Span, SpanAttributes, Tracer } from './tracing';
+import { traceEvents } from './tracing';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: SpanAttributes;
+  status?: { code: number; message?: string };
+  exceptions: (Error | string)[];
+  ended: boolean;
+}
+
+function createMemoryTracer(): Tracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  return {
+    spans,
+    startSpan(name, options) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options?.kind,
+        attributes: { ...options?.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const span: Span = {
+        setAttribute(key, value) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setStatus(status) {
+          recorded.status = status;
+          return span;
+        },
+        recordException(exception) {
+          recorded.exceptions.push(exception);
+        },
+        end() {
+          recorded.ended = true;
+        },
+      };
+      return span;
+    },
+  };
+}
+
+describe('traceEvents', () => {
+  it('should create a client span for each request', async () => {
+    const events = createEventEmitter();
+    const tracer = createMemoryTracer();
+    traceEvents(events, tracer);
+
+    await trackRequest(
+      events,
+      { provider: 'gmail', operation: 'messages.get', attempt: 1 },
+      async (response) => {
+        response.status = 200;
+      },
+    );
+
+    expect(tracer.spans).toEqual([
+      {
+        name: 'gmail messages.get',
+        kind: 2,
+        attributes: {
+          'mail.provider': 'gmail',
+          'mail.operation': 'messages.get',
+          'mail.attempt': 1,
+          'http.response.status_code': 200,
+        },
+        exceptions: [],
+        ended: true,
+      },
+    ]);
+  });
+
+  it('should record failures on the span', async () => {
+    const events = createEventEmitter();
+    const tracer = createMemoryTracer();
+    traceEvents(events, tracer);
+    const failure = new Error('Rate limit exceeded');
+
+    await trackRequest(events, { provider: 'mock', operation: 'list' }, async () => {
+      throw failure;
+    }).catch(() => {});
+
+    expect(tracer.spans[0]).toMatchObject({
+      status: { code: 2, message: 'Rate limit exceeded' },
+      exceptions: [failure],
+      ended: true,
+    });
+  });
+
+  it('should stop creating spans once stopped', async () => {
+    const events = createEventEmitter();
+    const tracer = createMemoryTracer();
+    const stop = traceEvents(events, tracer);
+
+    stop();
+    await trackRequest(events, { provider: 'mock', operation: 'list' }, async () => {});
+
+    expect(tracer.spans).toEqual([]);
+  });
+});
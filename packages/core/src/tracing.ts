@@ -0,0 +1,80 @@
+import type { MailEventEmitter } from './events';
+
+/**
+ * Span attributes, as in `@opentelemetry/api`
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The part of an `@opentelemetry/api` span used for tracing
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(endTime?: number): void;
+}
+
+/**
+ * The part of an `@opentelemetry/api` tracer used for tracing, e.g.
+ * `trace.getTracer('faktoor')`
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes }): Span;
+}
+
+// Values of the `SpanKind` and `SpanStatusCode` enums in `@opentelemetry/api`
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Create a span for every request reported to `events`
+ *
+ * Spans are named after the provider and operation, e.g. `gmail messages.get`,
+ * and started in the tracer's active context. Returns a function that stops
+ * tracing.
+ */
+export function traceEvents(events: MailEventEmitter, tracer: Tracer): () => void {
+  const spans = new Map<number, Span>();
+
+  const unsubscribe = [
+    events.on('request:start', (request) => {
+      const attributes: SpanAttributes = {
+        'mail.provider': request.provider,
+        'mail.operation': request.operation,
+      };
+      if (request.attempt !== undefined) attributes['mail.attempt'] = request.attempt;
+
+      spans.set(
+        request.id,
+        tracer.startSpan(`${request.provider} ${request.operation}`, {
+          kind: SPAN_KIND_CLIENT,
+          attributes,
+        }),
+      );
+    }),
+
+    events.on('request:end', (request) => {
+      const span = spans.get(request.id);
+      if (!span) return;
+      spans.delete(request.id);
+
+      if (request.status !== undefined) {
+        span.setAttribute('http.response.status_code', request.status);
+      }
+      if (request.error !== undefined) {
+        const error = request.error instanceof Error ? request.error : String(request.error);
+        span.recordException(error);
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: typeof error === 'string' ? error : error.message,
+        });
+      }
+      span.end();
+    }),
+  ];
+
+  return () => {
+    for (const off of unsubscribe) off();
+  };
+}
@@ -8,6 +8,11 @@ export type EmailId = string & { readonly __brand: 'EmailId' };
  */
 export type ThreadId = string & { readonly __brand: 'ThreadId' };
 
+/**
+ * Branded type for Draft IDs
+ */
+export type DraftId = string & { readonly __brand: 'DraftId' };
+
 /**
  * Branded type for Folder names
  */
@@ -83,6 +88,27 @@ export interface Email {
   raw?: string;
 }
 
+/**
+ * Conversation: a group of related emails
+ */
+export interface Thread {
+  id: ThreadId;
+  subject: string;
+  participants: Address[];
+  messageCount: number;
+  messages: Email[];
+  lastDate: Date;
+  hasUnread: boolean;
+}
+
+/**
+ * Unsent email saved for later
+ */
+export interface Draft {
+  id: DraftId;
+  message: Email;
+}
+
 /**
  * Folder/Mailbox info
  */
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { WatchEvent } from './provider';
+import type { EmailId } from './types';
+import { createWatchHandle } from './watch';
+
+const deleted = (id: string): WatchEvent => ({ type: 'deleted', id: id as EmailId });
+
+describe('createWatchHandle', () => {
+  it('should yield events emitted before iteration starts', async () => {
+    const handle = createWatchHandle((emitter) => {
+      emitter.emit(deleted('1'));
+      emitter.emit(deleted('2'));
+      return undefined;
+    });
+
+    const iterator = handle[Symbol.asyncIterator]();
+    expect(await iterator.next()).toEqual({ value: deleted('1'), done: false });
+    expect(await iterator.next()).toEqual({ value: deleted('2'), done: false });
+    handle.stop();
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  it('should resolve pending reads when events arrive', async () => {
+    let emit: ((event: WatchEvent) => void) | undefined;
+    const handle = createWatchHandle((emitter) => {
+      emit = (event) => emitter.emit(event);
+      return undefined;
+    });
+
+    const iterator = handle[Symbol.asyncIterator]();
+    const pending = iterator.next();
+    emit?.(deleted('1'));
+
+    expect(await pending).toEqual({ value: deleted('1'), done: false });
+  });
+
+  it('should end pending reads and run cleanup on stop', async () => {
+    const cleanup = vi.fn();
+    const handle = createWatchHandle(() => cleanup);
+
+    const pending = handle[Symbol.asyncIterator]().next();
+    handle.stop();
+    handle.stop();
+
+    expect(await pending).toEqual({ value: undefined, done: true });
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when a for-await loop exits early', async () => {
+    const cleanup = vi.fn();
+    const handle = createWatchHandle((emitter) => {
+      emitter.emit(deleted('1'));
+      emitter.emit(deleted('2'));
+      return cleanup;
+    });
+
+    for await (const event of handle) {
+      expect(event).toEqual(deleted('1'));
+      break;
+    }
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore events emitted after stop', async () => {
+    let stoppedFlag = false;
+    const handle = createWatchHandle((emitter) => {
+      return () => {
+        emitter.emit(deleted('late'));
+        stoppedFlag = emitter.stopped;
+      };
+    });
+
+    handle.stop();
+
+    expect(stoppedFlag).toBe(true);
+    expect(await handle[Symbol.asyncIterator]().next()).toEqual({ value: undefined, done: true });
+  });
+});
@@ -0,0 +1,74 @@
+import type { WatchEvent, WatchHandle } from './provider';
+
+/**
+ * Producer side of a watch handle
+ */
+export interface WatchEmitter {
+  emit(event: WatchEvent): void;
+  readonly stopped: boolean;
+}
+
+/**
+ * Create a watch handle backed by an event queue
+ *
+ * `start` is called once with an emitter and may return a cleanup function,
+ * which runs when the handle is stopped or the iteration is ended early.
+ */
+export function createWatchHandle(
+  start: (emitter: WatchEmitter) => (() => void) | undefined,
+): WatchHandle {
+  const queue: WatchEvent[] = [];
+  const waiting: Array<(result: IteratorResult<WatchEvent>) => void> = [];
+  let stopped = false;
+  let cleanup: (() => void) | undefined;
+
+  const emitter: WatchEmitter = {
+    emit(event) {
+      if (stopped) return;
+      const next = waiting.shift();
+      if (next) {
+        next({ value: event, done: false });
+      } else {
+        queue.push(event);
+      }
+    },
+    get stopped() {
+      return stopped;
+    },
+  };
+
+  const stop = (): void => {
+    if (stopped) return;
+    stopped = true;
+    const dispose = cleanup;
+    cleanup = undefined;
+    dispose?.();
+    for (const resolve of waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  };
+
+  const iterator: AsyncIterableIterator<WatchEvent> = {
+    next() {
+      const event = queue.shift();
+      if (event) return Promise.resolve({ value: event, done: false });
+      if (stopped) return Promise.resolve({ value: undefined, done: true });
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    return() {
+      stop();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+
+  cleanup = start(emitter);
+  if (stopped) cleanup?.();
+
+  return {
+    stop,
+    [Symbol.asyncIterator]: () => iterator,
+  };
+}
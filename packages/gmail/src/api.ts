@@ -1,8 +1,63 @@
-import { AuthenticationError, NetworkError, RateLimitError, ProviderError } from '@faktoor/core';
-import type { GmailOptions, GmailOAuthOptions, GmailServiceAccountOptions, GmailMessagePart } from './types';
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  ProviderError,
+  RateLimitError,
+  createRateLimiter,
+  parseRetryAfter,
+  trackRequest,
+} from '@faktoor/core';
+import type { RateLimiter, RateLimiterUsage } from '@faktoor/core';
+import { GOOGLE_TOKEN_URL, requestToken, signJwt, tokenExpiry } from './auth';
+import type { BatchRequest, BatchResponse } from './batch';
+import { buildBatchRequest, parseBatchResponse } from './batch';
+import { GMAIL_QUOTA_COSTS, GMAIL_QUOTA_PER_SECOND, gmailOperation } from './quota';
+import type {
+  GmailDraft,
+  GmailHistoryRecord,
+  GmailMessage,
+  GmailMessagePart,
+  GmailOAuthOptions,
+  GmailOptions,
+  GmailServiceAccountOptions,
+  GmailThread,
+} from './types';
 import { isOAuthOptions, isServiceAccountOptions } from './types';
 
 const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1';
+const GMAIL_BATCH_URL = 'https://gmail.googleapis.com/batch/gmail/v1';
+
+// Refresh tokens slightly before they expire to absorb clock skew
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+// Maximum lifetime Google accepts for a service account assertion
+const SERVICE_ACCOUNT_TOKEN_LIFETIME = 3600;
+
+const DEFAULT_SCOPES = ['https://mail.google.com/'];
+
+/**
+ * Build a Gmail API URL with query parameters
+ */
+function buildUrl(
+  path: string,
+  params?: Record<string, string | string[] | number | boolean | undefined>,
+): URL {
+  const url = new URL(`${GMAIL_API_BASE}${path}`);
+  if (params) {
+    for (const [key, value] of Object.entries(params)) {
+      if (Array.isArray(value)) {
+        // Repeated parameters, e.g. labelIds=INBOX&labelIds=UNREAD
+        for (const item of value) {
+          url.searchParams.append(key, item);
+        }
+      } else if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+  }
+  return url;
+}
 
 /**
  * Gmail API client
@@ -12,16 +67,28 @@ export class GmailApi {
   private refreshToken?: string;
   private expiresAt?: Date;
   private onTokenRefresh?: GmailOAuthOptions['onTokenRefresh'];
+  private refreshing?: Promise<void>;
   private userId = 'me';
+  private readonly limiter?: RateLimiter;
 
   constructor(private readonly options: GmailOptions) {
+    if (options.rateLimit !== false) {
+      this.limiter = createRateLimiter({
+        unitsPerSecond: options.rateLimit?.unitsPerSecond ?? GMAIL_QUOTA_PER_SECOND,
+        burst: options.rateLimit?.burst,
+        costs: GMAIL_QUOTA_COSTS,
+        onQueue: (operation) =>
+          options.events?.emit('rateLimited', { provider: 'gmail', operation, queued: true }),
+      });
+    }
+
     if (isOAuthOptions(options)) {
       this.accessToken = options.accessToken;
       this.refreshToken = options.refreshToken;
       this.expiresAt = options.expiresAt;
       this.onTokenRefresh = options.onTokenRefresh;
     } else if (isServiceAccountOptions(options)) {
-      // Service account tokens will be fetched on connect
+      // Service account tokens are minted on connect or first request
       this.accessToken = '';
     } else {
       throw new Error('Invalid Gmail options');
@@ -33,7 +100,7 @@ export class GmailApi {
    */
   async init(): Promise<void> {
     if (isServiceAccountOptions(this.options)) {
-      await this.fetchServiceAccountToken();
+      await this.refreshAccessToken();
     }
   }
 
@@ -43,25 +110,26 @@ export class GmailApi {
   private async fetchServiceAccountToken(): Promise<void> {
     const options = this.options as GmailServiceAccountOptions;
     const now = Math.floor(Date.now() / 1000);
-    const exp = now + 3600;
-
-    // Create JWT header and claims
-    const header = { alg: 'RS256', typ: 'JWT' };
-    const claims = {
-      iss: options.serviceAccount.client_email,
-      sub: options.delegateEmail,
-      scope: 'https://mail.google.com/',
-      aud: 'https://oauth2.googleapis.com/token',
-      iat: now,
-      exp,
-    };
+    const exp = now + SERVICE_ACCOUNT_TOKEN_LIFETIME;
 
-    // Note: In a real implementation, we'd sign this JWT with the private key
-    // For now, we'll throw an error indicating this needs the crypto implementation
-    throw new ProviderError(
-      'gmail',
-      'Service account authentication requires additional crypto setup. Use OAuth tokens for now.',
+    const assertion = await signJwt(
+      {
+        iss: options.serviceAccount.client_email,
+        sub: options.delegateEmail,
+        scope: (options.scopes ?? DEFAULT_SCOPES).join(' '),
+        aud: GOOGLE_TOKEN_URL,
+        iat: now,
+        exp,
+      },
+      options.serviceAccount.private_key,
     );
+
+    const token = await requestToken({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    });
+    this.accessToken = token.access_token;
+    this.expiresAt = tokenExpiry(token) ?? new Date(exp * 1000);
   }
 
   /**
@@ -72,59 +140,259 @@ export class GmailApi {
     path: string,
     options?: {
       body?: unknown;
-      params?: Record<string, string | number | boolean | undefined>;
+      params?: Record<string, string | string[] | number | boolean | undefined>;
+      signal?: AbortSignal;
     },
   ): Promise<T> {
-    // Check if token is expired
-    if (this.expiresAt && this.expiresAt < new Date()) {
-      if (this.refreshToken) {
-        // Token refresh would happen here
-        throw new AuthenticationError('Token expired. Refresh token flow not yet implemented.');
+    const operation = gmailOperation(method, path);
+    await this.limiter?.acquire(operation, { signal: options?.signal });
+
+    return trackRequest(this.options.events, { provider: 'gmail', operation }, async (result) => {
+      const url = buildUrl(path, options?.params);
+      const body = options?.body === undefined ? undefined : JSON.stringify(options.body);
+      const response = await this.authorizedFetch(
+        method,
+        url.toString(),
+        body,
+        'application/json',
+        options?.signal,
+      );
+      result.status = response.status;
+
+      if (!response.ok) {
+        await this.handleError(response, path);
+      }
+
+      // Handle empty responses
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
+      try {
+        return (await response.json()) as T;
+      } catch (error) {
+        throw new NetworkError('Invalid response from Gmail API', error as Error);
       }
-      throw new AuthenticationError('Token expired');
+    });
+  }
+
+  /**
+   * Send several requests in one HTTP call through the batch endpoint
+   *
+   * Responses are returned in request order. Failed parts are returned as is;
+   * use `batchError` to turn them into errors.
+   */
+  async batch(requests: BatchRequest[], signal?: AbortSignal): Promise<BatchResponse[]> {
+    if (!requests.length) return [];
+
+    // Every part counts against the quota as if it were sent on its own, so a
+    // large batch waits for as many refills as its parts cost
+    const counts = new Map<string, number>();
+    for (const request of requests) {
+      const operation = gmailOperation(request.method, request.path);
+      counts.set(operation, (counts.get(operation) ?? 0) + 1);
     }
+    for (const [operation, count] of counts) {
+      await this.limiter?.acquire(operation, { count, signal });
+    }
+
+    const event = { provider: 'gmail', operation: 'batch' };
+    return trackRequest(this.options.events, event, async (result) => {
+      const boundary = `batch_faktoor_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+      const response = await this.authorizedFetch(
+        'POST',
+        GMAIL_BATCH_URL,
+        buildBatchRequest(requests, boundary),
+        `multipart/mixed; boundary=${boundary}`,
+        signal,
+      );
+      result.status = response.status;
 
-    const url = new URL(`${GMAIL_API_BASE}${path}`);
-    if (options?.params) {
-      for (const [key, value] of Object.entries(options.params)) {
-        if (value !== undefined) {
-          url.searchParams.set(key, String(value));
+      if (!response.ok) {
+        await this.handleError(response, '/batch');
+      }
+
+      let parts: BatchResponse[];
+      try {
+        parts = parseBatchResponse(
+          await response.text(),
+          response.headers.get('Content-Type') ?? '',
+        );
+      } catch (error) {
+        throw new NetworkError('Invalid batch response from Gmail API', error as Error);
+      }
+
+      const byId = new Map(parts.map((part) => [part.id, part]));
+      return requests.map((request, index) => {
+        const part = byId.get(`item-${index}`);
+        if (!part) {
+          throw new ProviderError('gmail', `Batch response is missing ${request.path}`, {
+            retryable: true,
+          });
         }
+        return part;
+      });
+    });
+  }
+
+  /**
+   * Quota units spent and queued so far, or `undefined` when rate limiting is off
+   */
+  quotaUsage(): RateLimiterUsage | undefined {
+    return this.limiter?.usage();
+  }
+
+  /**
+   * Convert a failed batch part into the error a direct request would throw
+   */
+  async batchError(part: BatchResponse, path: string): Promise<never> {
+    const headers = new Headers();
+    for (const [name, value] of part.headers) {
+      headers.set(name, value);
+    }
+    const body = typeof part.body === 'string' ? part.body : JSON.stringify(part.body ?? {});
+    return this.handleError(new Response(body, { status: part.status, headers }), path);
+  }
+
+  /**
+   * Send a request with the current access token, refreshing it once on 401
+   */
+  private async authorizedFetch(
+    method: string,
+    url: string,
+    body: string | undefined,
+    contentType: string,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    await this.ensureValidToken();
+
+    const usedToken = this.accessToken;
+    let response = await this.send(method, url, body, contentType, signal);
+
+    // Access token revoked or expired early: refresh once and retry
+    if (response.status === 401 && this.canRefresh()) {
+      if (this.accessToken === usedToken) {
+        await this.refreshAccessToken();
       }
+      response = await this.send(method, url, body, contentType, signal);
     }
 
+    return response;
+  }
+
+  /**
+   * Send a single HTTP request with the current access token
+   */
+  private async send(
+    method: string,
+    url: string,
+    body: string | undefined,
+    contentType: string,
+    signal?: AbortSignal,
+  ): Promise<Response> {
     try {
-      const response = await fetch(url.toString(), {
+      return await fetch(url, {
         method,
         headers: {
           Authorization: `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json',
+          'Content-Type': contentType,
         },
-        body: options?.body ? JSON.stringify(options.body) : undefined,
+        body,
+        signal,
       });
+    } catch (error) {
+      // Aborted by the caller, e.g. on timeout: not a network failure
+      if (signal?.aborted) throw signal.reason;
+      throw new NetworkError('Failed to connect to Gmail API', error as Error);
+    }
+  }
 
-      if (!response.ok) {
-        await this.handleError(response);
-      }
+  /**
+   * Whether a new access token can be obtained without user interaction
+   */
+  private canRefresh(): boolean {
+    if (isServiceAccountOptions(this.options)) return true;
+    return !!this.refreshToken && isOAuthOptions(this.options) && !!this.options.clientId;
+  }
 
-      // Handle empty responses
-      if (response.status === 204) {
-        return undefined as T;
+  /**
+   * Refresh the access token ahead of a request if it is missing or has expired
+   */
+  private async ensureValidToken(): Promise<void> {
+    if (this.canRefresh()) {
+      const expired =
+        !!this.expiresAt && this.expiresAt.getTime() - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
+      if (!this.accessToken || expired) {
+        await this.refreshAccessToken();
       }
+      return;
+    }
 
-      return (await response.json()) as T;
-    } catch (error) {
-      if (error instanceof FaktoorApiError) {
-        throw error;
-      }
-      throw new NetworkError('Failed to connect to Gmail API', error as Error);
+    if (this.expiresAt && this.expiresAt < new Date()) {
+      throw new AuthenticationError(
+        this.refreshToken
+          ? 'Token expired. Provide clientId and clientSecret to enable token refresh.'
+          : 'Token expired',
+      );
+    }
+  }
+
+  /**
+   * Refresh the access token, sharing a single in-flight refresh between callers
+   */
+  private refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.performTokenRefresh()
+        .then(() => {
+          this.options.events?.emit('tokenRefreshed', {
+            provider: 'gmail',
+            expiresAt: this.expiresAt,
+          });
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Obtain a new access token from the refresh token or service account
+   */
+  private async performTokenRefresh(): Promise<void> {
+    if (isServiceAccountOptions(this.options)) {
+      await this.fetchServiceAccountToken();
+      return;
+    }
+
+    const options = this.options as GmailOAuthOptions;
+    const params: Record<string, string> = {
+      grant_type: 'refresh_token',
+      refresh_token: this.refreshToken as string,
+      client_id: options.clientId as string,
+    };
+    if (options.clientSecret) {
+      params.client_secret = options.clientSecret;
+    }
+
+    const token = await requestToken(params);
+    this.accessToken = token.access_token;
+    this.expiresAt = tokenExpiry(token);
+    if (token.refresh_token) {
+      this.refreshToken = token.refresh_token;
     }
+
+    await this.onTokenRefresh?.({
+      accessToken: this.accessToken,
+      expiresAt: this.expiresAt,
+      refreshToken: this.refreshToken,
+    });
   }
 
   /**
    * Handle API errors
    */
-  private async handleError(response: Response): Promise<never> {
+  private async handleError(response: Response, path: string): Promise<never> {
     let errorData: { error?: { message?: string; code?: number } } = {};
     try {
       errorData = await response.json();
@@ -138,15 +406,11 @@ export class GmailApi {
       case 401:
         throw new AuthenticationError(message);
       case 429:
-        const retryAfter = response.headers.get('Retry-After');
-        throw new RateLimitError(
-          message,
-          retryAfter ? Number.parseInt(retryAfter, 10) * 1000 : undefined,
-        );
+        throw new RateLimitError(message, parseRetryAfter(response.headers.get('Retry-After')));
       case 403:
         throw new AuthenticationError(`Access denied: ${message}`);
       case 404:
-        throw new ProviderError('gmail', `Not found: ${message}`);
+        throw new NotFoundError('Gmail resource', path);
       default:
         throw new ProviderError('gmail', message, { retryable: response.status >= 500 });
     }
@@ -154,25 +418,30 @@ export class GmailApi {
 
   // Messages API
   messages = {
-    list: (params: {
-      labelIds?: string[];
-      q?: string;
-      maxResults?: number;
-      pageToken?: string;
-      includeSpamTrash?: boolean;
-    }) =>
+    list: (
+      params: {
+        labelIds?: string[];
+        q?: string;
+        maxResults?: number;
+        pageToken?: string;
+        includeSpamTrash?: boolean;
+      },
+      signal?: AbortSignal,
+    ) =>
       this.request<{
         messages?: Array<{ id: string; threadId: string }>;
         nextPageToken?: string;
         resultSizeEstimate?: number;
       }>('GET', `/users/${this.userId}/messages`, {
-        params: {
-          ...params,
-          labelIds: params.labelIds?.join(','),
-        },
+        params,
+        signal,
       }),
 
-    get: (id: string, format: 'full' | 'metadata' | 'minimal' | 'raw' = 'full') =>
+    get: (
+      id: string,
+      format: 'full' | 'metadata' | 'minimal' | 'raw' = 'full',
+      signal?: AbortSignal,
+    ) =>
       this.request<{
         id: string;
         threadId: string;
@@ -183,44 +452,207 @@ export class GmailApi {
         sizeEstimate?: number;
         payload?: GmailMessagePart;
         raw?: string;
-      }>('GET', `/users/${this.userId}/messages/${id}`, { params: { format } }),
+      }>('GET', `/users/${this.userId}/messages/${id}`, { params: { format }, signal }),
+
+    /**
+     * Fetch several messages with one batch request, skipping deleted ones
+     */
+    batchGet: async (
+      ids: string[],
+      format: 'full' | 'metadata' | 'minimal' | 'raw' = 'full',
+      signal?: AbortSignal,
+    ) => {
+      const paths = ids.map((id) => `/users/${this.userId}/messages/${id}`);
+      const parts = await this.batch(
+        paths.map((path) => {
+          const url = buildUrl(path, { format });
+          return { method: 'GET', path: `${url.pathname}${url.search}` };
+        }),
+        signal,
+      );
+
+      const messages: GmailMessage[] = [];
+      for (const [index, part] of parts.entries()) {
+        if (part.status === 404) continue;
+        if (part.status >= 400) await this.batchError(part, paths[index] as string);
+        messages.push(part.body as GmailMessage);
+      }
+      return messages;
+    },
 
-    send: (raw: string) =>
+    send: (raw: string, signal?: AbortSignal) =>
       this.request<{ id: string; threadId: string; labelIds?: string[] }>(
         'POST',
         `/users/${this.userId}/messages/send`,
-        { body: { raw } },
+        { body: { raw }, signal },
       ),
 
-    trash: (id: string) =>
+    trash: (id: string, signal?: AbortSignal) =>
       this.request<{ id: string; threadId: string }>(
         'POST',
         `/users/${this.userId}/messages/${id}/trash`,
+        { signal },
       ),
 
-    untrash: (id: string) =>
+    untrash: (id: string, signal?: AbortSignal) =>
       this.request<{ id: string; threadId: string }>(
         'POST',
         `/users/${this.userId}/messages/${id}/untrash`,
+        { signal },
       ),
 
     modify: (
       id: string,
       modifications: { addLabelIds?: string[]; removeLabelIds?: string[] },
+      signal?: AbortSignal,
     ) =>
       this.request<{ id: string; threadId: string; labelIds?: string[] }>(
         'POST',
         `/users/${this.userId}/messages/${id}/modify`,
-        { body: modifications },
+        { body: modifications, signal },
+      ),
+
+    delete: (id: string, signal?: AbortSignal) =>
+      this.request<void>('DELETE', `/users/${this.userId}/messages/${id}`, { signal }),
+  };
+
+  // Drafts API
+  drafts = {
+    list: (params: { q?: string; maxResults?: number; pageToken?: string }, signal?: AbortSignal) =>
+      this.request<{
+        drafts?: Array<{ id: string; message: { id: string; threadId: string } }>;
+        nextPageToken?: string;
+        resultSizeEstimate?: number;
+      }>('GET', `/users/${this.userId}/drafts`, {
+        params,
+        signal,
+      }),
+
+    get: (
+      id: string,
+      format: 'full' | 'metadata' | 'minimal' | 'raw' = 'full',
+      signal?: AbortSignal,
+    ) =>
+      this.request<GmailDraft>('GET', `/users/${this.userId}/drafts/${id}`, {
+        params: { format },
+        signal,
+      }),
+
+    create: (raw: string, signal?: AbortSignal) =>
+      this.request<GmailDraft>('POST', `/users/${this.userId}/drafts`, {
+        body: { message: { raw } },
+        signal,
+      }),
+
+    update: (id: string, raw: string, signal?: AbortSignal) =>
+      this.request<GmailDraft>('PUT', `/users/${this.userId}/drafts/${id}`, {
+        body: { id, message: { raw } },
+        signal,
+      }),
+
+    delete: (id: string, signal?: AbortSignal) =>
+      this.request<void>('DELETE', `/users/${this.userId}/drafts/${id}`, { signal }),
+
+    send: (id: string, signal?: AbortSignal) =>
+      this.request<{ id: string; threadId: string; labelIds?: string[] }>(
+        'POST',
+        `/users/${this.userId}/drafts/send`,
+        { body: { id }, signal },
       ),
+  };
+
+  // Threads API
+  threads = {
+    list: (
+      params: {
+        labelIds?: string[];
+        q?: string;
+        maxResults?: number;
+        pageToken?: string;
+        includeSpamTrash?: boolean;
+      },
+      signal?: AbortSignal,
+    ) =>
+      this.request<{
+        threads?: Array<{ id: string; snippet?: string; historyId?: string }>;
+        nextPageToken?: string;
+        resultSizeEstimate?: number;
+      }>('GET', `/users/${this.userId}/threads`, {
+        params,
+        signal,
+      }),
 
-    delete: (id: string) =>
-      this.request<void>('DELETE', `/users/${this.userId}/messages/${id}`),
+    get: (id: string, format: 'full' | 'metadata' | 'minimal' = 'full', signal?: AbortSignal) =>
+      this.request<GmailThread>('GET', `/users/${this.userId}/threads/${id}`, {
+        params: { format },
+        signal,
+      }),
+
+    modify: (
+      id: string,
+      modifications: { addLabelIds?: string[]; removeLabelIds?: string[] },
+      signal?: AbortSignal,
+    ) =>
+      this.request<GmailThread>('POST', `/users/${this.userId}/threads/${id}/modify`, {
+        body: modifications,
+        signal,
+      }),
+
+    trash: (id: string, signal?: AbortSignal) =>
+      this.request<GmailThread>('POST', `/users/${this.userId}/threads/${id}/trash`, { signal }),
+
+    untrash: (id: string, signal?: AbortSignal) =>
+      this.request<GmailThread>('POST', `/users/${this.userId}/threads/${id}/untrash`, { signal }),
+  };
+
+  // Profile API
+  getProfile = (signal?: AbortSignal) =>
+    this.request<{
+      emailAddress: string;
+      messagesTotal: number;
+      threadsTotal: number;
+      historyId: string;
+    }>('GET', `/users/${this.userId}/profile`, { signal });
+
+  // Push notifications API
+  watch = (
+    body: {
+      topicName: string;
+      labelIds?: string[];
+      labelFilterBehavior?: 'include' | 'exclude';
+    },
+    signal?: AbortSignal,
+  ) =>
+    this.request<{ historyId: string; expiration: string }>('POST', `/users/${this.userId}/watch`, {
+      body,
+      signal,
+    });
+
+  stop = (signal?: AbortSignal) =>
+    this.request<void>('POST', `/users/${this.userId}/stop`, { signal });
+
+  // History API
+  history = {
+    list: (
+      params: {
+        startHistoryId: string;
+        labelId?: string;
+        historyTypes?: Array<'messageAdded' | 'messageDeleted' | 'labelAdded' | 'labelRemoved'>;
+        maxResults?: number;
+        pageToken?: string;
+      },
+      signal?: AbortSignal,
+    ) =>
+      this.request<{
+        history?: GmailHistoryRecord[];
+        nextPageToken?: string;
+        historyId: string;
+      }>('GET', `/users/${this.userId}/history`, { params, signal }),
   };
 
   // Labels API
   labels = {
-    list: () =>
+    list: (signal?: AbortSignal) =>
       this.request<{
         labels?: Array<{
           id: string;
@@ -232,9 +664,9 @@ export class GmailApi {
           messagesUnread?: number;
           color?: { textColor?: string; backgroundColor?: string };
         }>;
-      }>('GET', `/users/${this.userId}/labels`),
+      }>('GET', `/users/${this.userId}/labels`, { signal }),
 
-    get: (id: string) =>
+    get: (id: string, signal?: AbortSignal) =>
       this.request<{
         id: string;
         name: string;
@@ -244,28 +676,26 @@ export class GmailApi {
         messagesTotal?: number;
         messagesUnread?: number;
         color?: { textColor?: string; backgroundColor?: string };
-      }>('GET', `/users/${this.userId}/labels/${id}`),
+      }>('GET', `/users/${this.userId}/labels/${id}`, { signal }),
 
-    create: (name: string) =>
+    create: (name: string, signal?: AbortSignal) =>
       this.request<{ id: string; name: string; type: string }>(
         'POST',
         `/users/${this.userId}/labels`,
-        { body: { name } },
+        { body: { name }, signal },
       ),
 
-    delete: (id: string) =>
-      this.request<void>('DELETE', `/users/${this.userId}/labels/${id}`),
+    delete: (id: string, signal?: AbortSignal) =>
+      this.request<void>('DELETE', `/users/${this.userId}/labels/${id}`, { signal }),
   };
 
   // Attachments API
   attachments = {
-    get: (messageId: string, attachmentId: string) =>
+    get: (messageId: string, attachmentId: string, signal?: AbortSignal) =>
       this.request<{ size: number; data: string }>(
         'GET',
         `/users/${this.userId}/messages/${messageId}/attachments/${attachmentId}`,
+        { signal },
       ),
   };
 }
-
-// Helper class for API errors
-class FaktoorApiError extends Error {}
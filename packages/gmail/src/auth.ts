@@ -0,0 +1,140 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  parseRetryAfter,
+} from '@faktoor/core';
+
+export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+/**
+ * Token endpoint response
+ */
+export interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  token_type?: string;
+  scope?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Exchange a grant at the Google OAuth2 token endpoint
+ *
+ * Rejected grants throw AuthenticationError. Throttling and server errors
+ * throw retryable errors instead, since the grant may still be good.
+ */
+export async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  let response: Response;
+  try {
+    response = await fetch(GOOGLE_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString(),
+    });
+  } catch (error) {
+    throw new NetworkError('Failed to connect to Google token endpoint', error as Error);
+  }
+
+  let data: Partial<TokenResponse> & { error?: string; error_description?: string } = {};
+  try {
+    data = await response.json();
+  } catch {
+    // Ignore JSON parse errors
+  }
+
+  if (!response.ok || !data.access_token) {
+    const message = `Token request failed: ${data.error_description || data.error || response.statusText}`;
+    if (response.status === 429) {
+      throw new RateLimitError(message, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    if (response.status >= 500) {
+      throw new ProviderError('gmail', message, { retryable: true });
+    }
+    throw new AuthenticationError(message);
+  }
+
+  return data as TokenResponse;
+}
+
+/**
+ * Compute the expiry date of a token response
+ */
+export function tokenExpiry(token: TokenResponse, now = Date.now()): Date | undefined {
+  return token.expires_in ? new Date(now + token.expires_in * 1000) : undefined;
+}
+
+/**
+ * Encode bytes or a UTF-8 string as unpadded base64url
+ */
+function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a PEM encoded PKCS#8 private key to DER bytes
+ */
+function pemToDer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----BEGIN [A-Z ]+-----/, '')
+    .replace(/-----END [A-Z ]+-----/, '')
+    .replace(/\\n/g, '')
+    .replace(/\s+/g, '');
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch (error) {
+    throw new AuthenticationError('Invalid service account private key', error as Error);
+  }
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    der[i] = binary.charCodeAt(i);
+  }
+  return der.buffer;
+}
+
+/**
+ * Get the WebCrypto implementation (global in browsers and Node 19+)
+ */
+async function getSubtleCrypto(): Promise<SubtleCrypto> {
+  if (globalThis.crypto?.subtle) {
+    return globalThis.crypto.subtle;
+  }
+  const { webcrypto } = await import('node:crypto');
+  return webcrypto.subtle as SubtleCrypto;
+}
+
+/**
+ * Sign a JWT with RS256 using a PEM encoded PKCS#8 private key
+ */
+export async function signJwt(
+  claims: Record<string, unknown>,
+  privateKey: string,
+): Promise<string> {
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const unsigned = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+
+  const subtle = await getSubtleCrypto();
+  const der = pemToDer(privateKey);
+  let key: CryptoKey;
+  try {
+    key = await subtle.importKey(
+      'pkcs8',
+      der,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+  } catch (error) {
+    throw new AuthenticationError('Invalid service account private key', error as Error);
+  }
+
+  const signature = await subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { buildBatchRequest, chunk, mapWithConcurrency, parseBatchResponse } from './batch';
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf-8');
+
+const CONTENT_TYPE = 'multipart/mixed; boundary=batch_7hQ2ZrCjDAzmPq3OIxYbLfEoWdQv1XkA';
+
+describe('buildBatchRequest', () => {
+  it('should build one application/http part per request', () => {
+    const body = buildBatchRequest(
+      [
+        { method: 'GET', path: '/gmail/v1/users/me/messages/a?format=full' },
+        { method: 'POST', path: '/gmail/v1/users/me/messages/b/modify', body: { x: 1 } },
+      ],
+      'b0',
+    );
+
+    expect(body).toBe(
+      [
+        '--b0',
+        'Content-Type: application/http',
+        'Content-ID: <item-0>',
+        '',
+        'GET /gmail/v1/users/me/messages/a?format=full',
+        '',
+        '--b0',
+        'Content-Type: application/http',
+        'Content-ID: <item-1>',
+        '',
+        'POST /gmail/v1/users/me/messages/b/modify',
+        'Content-Type: application/json',
+        '',
+        '{"x":1}',
+        '--b0--',
+        '',
+      ].join('\r\n'),
+    );
+  });
+});
+
+describe('parseBatchResponse', () => {
+  it('should parse a recorded batch of messages', () => {
+    const parts = parseBatchResponse(fixture('batch-messages.txt'), CONTENT_TYPE);
+
+    expect(parts.map((p) => [p.id, p.status])).toEqual([
+      ['item-1', 200],
+      ['item-0', 200],
+    ]);
+    expect(parts[0]?.headers.get('content-type')).toBe('application/json; charset=UTF-8');
+    expect(parts[0]?.headers.get('vary')).toBe('Origin, X-Origin, Referer');
+    expect(parts[0]?.body).toMatchObject({ id: '18fd1c2a9b3e4f02', labelIds: ['INBOX', 'UNREAD'] });
+  });
+
+  it('should keep per-part errors', () => {
+    const parts = parseBatchResponse(fixture('batch-errors.txt'), CONTENT_TYPE);
+
+    expect(parts.map((p) => p.status)).toEqual([200, 404, 429]);
+    expect(parts[2]?.body).toMatchObject({
+      error: { code: 429, message: 'Too many concurrent requests for user.' },
+    });
+  });
+
+  it('should accept LF line endings and quoted boundaries', () => {
+    const body = fixture('batch-messages.txt').replace(/\r\n/g, '\n');
+    const parts = parseBatchResponse(
+      body,
+      'multipart/mixed; boundary="batch_7hQ2ZrCjDAzmPq3OIxYbLfEoWdQv1XkA"',
+    );
+
+    expect(parts).toHaveLength(2);
+    expect(parts[1]?.body).toMatchObject({ id: '18fd1c0f7a2b3c01' });
+  });
+
+  it('should reject responses without a boundary', () => {
+    expect(() => parseBatchResponse('', 'application/json')).toThrow('no boundary');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep order and never exceed the limit', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (value) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, value));
+      active--;
+      return value * 10;
+    });
+
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+    expect(peak).toBe(2);
+  });
+
+  it('should handle empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('chunk', () => {
+  it('should split items into chunks of at most the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { ProviderError } from '@faktoor/core';
+
+/**
+ * One request inside a batch
+ */
+export interface BatchRequest {
+  method: string;
+  /** Absolute path including the query string, e.g. `/gmail/v1/users/me/messages/123?format=full` */
+  path: string;
+  body?: unknown;
+}
+
+/**
+ * One response inside a batch
+ */
+export interface BatchResponse {
+  /** Content-ID of the request this answers, without the `response-` prefix */
+  id: string;
+  status: number;
+  headers: Map<string, string>;
+  body: unknown;
+}
+
+/**
+ * Maximum number of requests Gmail accepts in one batch
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Build a `multipart/mixed` batch request body
+ *
+ * Each request gets the Content-ID `item-<index>`.
+ */
+export function buildBatchRequest(requests: BatchRequest[], boundary: string): string {
+  const lines: string[] = [];
+
+  requests.forEach((request, index) => {
+    lines.push(
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <item-${index}>`,
+      '',
+      `${request.method} ${request.path}`,
+    );
+    if (request.body !== undefined) {
+      lines.push('Content-Type: application/json', '', JSON.stringify(request.body));
+    } else {
+      lines.push('');
+    }
+  });
+  lines.push(`--${boundary}--`, '');
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Split a header block into a lower-cased map
+ */
+function parseHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+
+  // Unfold continuation lines first
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    // Repeated headers (e.g. Vary) are joined like HTTP does
+    headers.set(name, headers.has(name) ? `${headers.get(name)}, ${value}` : value);
+  }
+
+  return headers;
+}
+
+/**
+ * Split a block at its first blank line
+ */
+function splitAtBlankLine(block: string): [string, string] {
+  const match = /\r?\n\r?\n/.exec(block);
+  if (!match) return [block, ''];
+  return [block.slice(0, match.index), block.slice(match.index + match[0].length)];
+}
+
+/**
+ * Parse a `multipart/mixed` batch response
+ *
+ * Responses are returned in the order they appear in the body, which is not
+ * guaranteed to match the request order; use `id` to pair them up.
+ */
+export function parseBatchResponse(body: string, contentType: string): BatchResponse[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) {
+    throw new ProviderError('gmail', `Batch response has no boundary: ${contentType}`);
+  }
+
+  const responses: BatchResponse[] = [];
+  const delimiter = `--${boundary}`;
+
+  for (const rawPart of body.split(delimiter).slice(1)) {
+    // Closing delimiter
+    if (rawPart.startsWith('--')) break;
+
+    const part = rawPart.replace(/^\r?\n/, '');
+    const [outerHeaders, http] = splitAtBlankLine(part);
+    const contentId = parseHeaders(outerHeaders).get('content-id') ?? '';
+
+    const [head, payload] = splitAtBlankLine(http);
+    const [statusLine = '', ...headerLines] = head.split(/\r?\n/);
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(statusLine)?.[1]);
+    if (!status) {
+      throw new ProviderError('gmail', `Malformed batch response part: ${statusLine}`);
+    }
+
+    const headers = parseHeaders(headerLines.join('\r\n'));
+    const text = payload.trim();
+    let parsed: unknown = text || undefined;
+    if (text && headers.get('content-type')?.includes('json')) {
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Keep the raw text
+      }
+    }
+
+    responses.push({
+      id: contentId.replace(/^<|>$/g, '').replace(/^response-/, ''),
+      status,
+      headers,
+      body: parsed,
+    });
+  }
+
+  return responses;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, keeping the input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Split items into chunks of at most `size`
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
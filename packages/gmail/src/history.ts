@@ -0,0 +1,139 @@
+import type { EmailId, WatchEvent } from '@faktoor/core';
+import type { GmailApi } from './api';
+import type { GmailEmail } from './types';
+
+/**
+ * Kind of change a message went through
+ */
+export type HistoryChangeType = 'new' | 'updated' | 'deleted';
+
+/**
+ * Changes collected from the History API
+ */
+export interface HistoryChanges {
+  /** Latest change per message id, in order of first appearance */
+  changes: Map<string, HistoryChangeType>;
+  /** History id to resume from */
+  historyId: string;
+}
+
+/**
+ * Record a change, keeping the most significant state per message
+ */
+function recordChange(
+  changes: Map<string, HistoryChangeType>,
+  id: string,
+  type: HistoryChangeType,
+): void {
+  const previous = changes.get(id);
+
+  if (type === 'deleted') {
+    // Added and removed within the same window: nothing to report
+    if (previous === 'new') {
+      changes.delete(id);
+    } else {
+      changes.set(id, 'deleted');
+    }
+    return;
+  }
+
+  if (type === 'updated' && previous) return;
+  changes.set(id, type);
+}
+
+/**
+ * Read all history records since `startHistoryId`
+ *
+ * Throws NotFoundError when the start id is too old and a full resync is needed.
+ */
+export async function readHistory(
+  api: GmailApi,
+  startHistoryId: string,
+  labelId?: string,
+): Promise<HistoryChanges> {
+  const changes = new Map<string, HistoryChangeType>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await api.history.list({
+      startHistoryId,
+      labelId,
+      historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+      pageToken,
+    });
+
+    for (const record of response.history ?? []) {
+      for (const { message } of record.messagesAdded ?? []) {
+        recordChange(changes, message.id, 'new');
+      }
+      for (const { message } of record.labelsAdded ?? []) {
+        recordChange(changes, message.id, 'updated');
+      }
+      for (const { message } of record.labelsRemoved ?? []) {
+        recordChange(changes, message.id, 'updated');
+      }
+      for (const { message } of record.messagesDeleted ?? []) {
+        recordChange(changes, message.id, 'deleted');
+      }
+    }
+
+    historyId = response.historyId;
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return { changes, historyId };
+}
+
+/**
+ * Turn history changes into watch events, fetching the affected messages
+ *
+ * `fetchMessages` is called once with every id to fetch and may skip messages
+ * that no longer exist; those are reported as deleted.
+ */
+export async function changesToEvents(
+  changes: Map<string, HistoryChangeType>,
+  fetchMessages: (ids: string[]) => Promise<GmailEmail[]>,
+): Promise<WatchEvent[]> {
+  const ids = [...changes].filter(([, type]) => type !== 'deleted').map(([id]) => id);
+  const emails = new Map<string, GmailEmail>();
+  for (const email of await fetchMessages(ids)) {
+    emails.set(email.id, email);
+  }
+
+  const events: WatchEvent[] = [];
+  for (const [id, type] of changes) {
+    const email = emails.get(id);
+    if (type === 'deleted' || !email) {
+      // Missing from the fetch: deleted since the history was recorded
+      events.push({ type: 'deleted', id: id as EmailId });
+    } else {
+      events.push({ type, email });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * List the ids of all messages with the given label
+ */
+export async function listMessageIds(api: GmailApi, labelId?: string): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await api.messages.list({
+      labelIds: labelId ? [labelId] : undefined,
+      maxResults: 500,
+      pageToken,
+      includeSpamTrash: false,
+    });
+    for (const message of response.messages ?? []) {
+      ids.push(message.id);
+    }
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return ids;
+}
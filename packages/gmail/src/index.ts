@@ -1,23 +1,37 @@
 // Provider
 export { gmail, GmailProvider } from './provider';
 
+// Quota
+export { GMAIL_QUOTA_COSTS, GMAIL_QUOTA_PER_SECOND } from './quota';
+
+// Push notifications
+export { parsePushNotification } from './push';
+export type { GmailPushNotification, GmailPushOptions, GmailPushSubscription } from './push';
+
 // Types
 export type {
   GmailEmail,
   GmailLabel,
   GmailOAuthOptions,
   GmailOptions,
+  GmailRequestOptions,
   GmailServiceAccountOptions,
 } from './types';
 
 // Re-export core types for convenience
 export type {
+  Draft,
+  DraftId,
   Email,
   EmailId,
   Folder,
   FolderName,
   ListOptions,
+  ListPage,
   SendOptions,
   GetOptions,
   MailProvider,
+  RateLimiterUsage,
+  Thread,
+  ThreadId,
 } from '@faktoor/core';
@@ -1,14 +1,17 @@
 import type {
   Address,
   AttachmentMeta,
+  Draft,
+  DraftId,
   Email,
   EmailBody,
   EmailId,
   Folder,
   FolderName,
+  Thread,
   ThreadId,
 } from '@faktoor/core';
-import type { GmailEmail, GmailLabel, GmailMessagePart } from './types';
+import type { GmailDraft, GmailEmail, GmailLabel, GmailMessagePart, GmailThread } from './types';
 
 /**
  * Parse email address string into Address object
@@ -236,3 +239,46 @@ export function parseGmailMessage(message: {
     gmailLabels,
   };
 }
+
+/**
+ * Parse Gmail API thread to Thread
+ */
+export function parseGmailThread(thread: GmailThread): Thread {
+  const messages = (thread.messages ?? []).map(parseGmailMessage);
+
+  // Unique participants, in order of appearance
+  const participants = new Map<string, Address>();
+  for (const message of messages) {
+    for (const address of [message.from, ...message.to, ...message.cc]) {
+      const key = address.email.toLowerCase();
+      if (address.email && !participants.has(key)) {
+        participants.set(key, address);
+      }
+    }
+  }
+
+  const lastDate = messages.reduce(
+    (latest, message) => (message.date > latest ? message.date : latest),
+    new Date(0),
+  );
+
+  return {
+    id: thread.id as ThreadId,
+    subject: messages[0]?.subject ?? '',
+    participants: [...participants.values()],
+    messageCount: messages.length,
+    messages,
+    lastDate,
+    hasUnread: messages.some((message) => !message.isRead),
+  };
+}
+
+/**
+ * Parse Gmail API draft to Draft
+ */
+export function parseGmailDraft(draft: GmailDraft): Draft {
+  return {
+    id: draft.id as DraftId,
+    message: parseGmailMessage(draft.message),
+  };
+}
@@ -0,0 +1,760 @@
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { RateLimitError } from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GmailProvider } from './provider';
+import type { GmailHistoryRecord, GmailMessageRef } from './types';
+
+/**
+ * In-memory stand-in for the Gmail REST API
+ */
+function createGmailStub() {
+  const state = {
+    historyId: 100,
+    expired: false,
+    watches: 0,
+    messages: new Map<string, GmailMessageRef>(),
+    history: [] as GmailHistoryRecord[],
+  };
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const getMessage = (id: string) => {
+    const message = state.messages.get(id);
+    if (!message) return { status: 404, body: { error: { message: 'Not Found' } } };
+    return {
+      status: 200,
+      body: { ...message, payload: { headers: [{ name: 'Subject', value: `Subject ${id}` }] } },
+    };
+  };
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const path = url.pathname.replace('/gmail/v1/users/me', '');
+
+    if (path === '/batch/gmail/v1') {
+      return batchReply(init?.body as string, (inner) =>
+        getMessage(inner.split('/').pop()?.split('?')[0] as string),
+      );
+    }
+
+    if (path === '/profile') {
+      return json({ emailAddress: 'me@example.com', historyId: String(state.historyId) });
+    }
+
+    if (path === '/messages') {
+      const labelIds = url.searchParams.getAll('labelIds');
+      const messages = [...state.messages.values()].filter((m) =>
+        labelIds.every((l) => m.labelIds?.includes(l)),
+      );
+      return json({ messages, resultSizeEstimate: messages.length });
+    }
+
+    if (path.startsWith('/messages/')) {
+      const { status, body } = getMessage(path.slice('/messages/'.length));
+      return json(body, status);
+    }
+
+    if (path === '/watch') {
+      state.watches++;
+      return json({
+        historyId: String(state.historyId),
+        expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      });
+    }
+
+    if (path === '/stop') {
+      return new Response(null, { status: 204 });
+    }
+
+    if (path === '/history') {
+      if (state.expired) return json({ error: { message: 'Not Found' } }, 404);
+      const start = Number(url.searchParams.get('startHistoryId'));
+      return json({
+        history: state.history.filter((record) => Number(record.id) > start),
+        historyId: String(state.historyId),
+      });
+    }
+
+    return json({ error: { message: `Unexpected ${path}` } }, 500);
+  });
+
+  const record = (changes: Omit<GmailHistoryRecord, 'id'>) => {
+    state.historyId++;
+    state.history.push({ id: String(state.historyId), ...changes });
+  };
+
+  return {
+    state,
+    fetch,
+    addMessage(id: string, labelIds = ['INBOX', 'UNREAD']) {
+      const message = { id, threadId: `t-${id}`, labelIds };
+      state.messages.set(id, message);
+      record({ messagesAdded: [{ message }] });
+    },
+    markRead(id: string) {
+      const message = state.messages.get(id) as GmailMessageRef;
+      message.labelIds = message.labelIds?.filter((l) => l !== 'UNREAD');
+      record({ labelsRemoved: [{ message, labelIds: ['UNREAD'] }] });
+    },
+    deleteMessage(id: string) {
+      const message = state.messages.get(id) as GmailMessageRef;
+      state.messages.delete(id);
+      record({ messagesDeleted: [{ message }] });
+    },
+  };
+}
+
+/**
+ * Read the next `count` events from a watch handle
+ */
+async function take(handle: WatchHandle, count: number): Promise<WatchEvent[]> {
+  const events: WatchEvent[] = [];
+  const iterator = handle[Symbol.asyncIterator]();
+  while (events.length < count) {
+    const result = await iterator.next();
+    if (result.done) break;
+    events.push(result.value);
+  }
+  return events;
+}
+
+/**
+ * Wait until the watcher has its starting history id and polls history
+ */
+async function waitForHistoryPoll(stub: ReturnType<typeof createGmailStub>): Promise<void> {
+  await vi.waitFor(() => {
+    const polled = stub.fetch.mock.calls.some(([input]) => String(input).includes('/history'));
+    if (!polled) throw new Error('history not polled yet');
+  });
+}
+
+function describeEvent(event: WatchEvent): string {
+  switch (event.type) {
+    case 'deleted':
+      return `deleted:${event.id}`;
+    case 'error':
+      return `error:${event.error.message}`;
+    default:
+      return `${event.type}:${event.email.id}`;
+  }
+}
+
+/**
+ * Answer a Gmail batch request, calling `respond` for each inner request path
+ */
+function batchReply(
+  body: string,
+  respond: (path: string) => { status: number; body: unknown },
+): Response {
+  const requests = [...body.matchAll(/Content-ID: <(item-\d+)>\r\n\r\n\w+ (\S+)/g)];
+  const boundary = 'batch_response';
+  const parts = requests.map(([, id, path]) => {
+    const { status, body } = respond(path as string);
+    return [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <response-${id}>`,
+      '',
+      `HTTP/1.1 ${status} ${status === 200 ? 'OK' : 'Error'}`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      JSON.stringify(body),
+    ].join('\r\n');
+  });
+
+  return new Response([...parts.reverse(), `--${boundary}--`, ''].join('\r\n'), {
+    status: 200,
+    headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+  });
+}
+
+describe('GmailProvider.watch', () => {
+  let stub: ReturnType<typeof createGmailStub>;
+  let provider: GmailProvider;
+  let handle: WatchHandle | undefined;
+
+  beforeEach(() => {
+    stub = createGmailStub();
+    vi.stubGlobal('fetch', stub.fetch);
+    provider = new GmailProvider({ accessToken: 'token' });
+  });
+
+  afterEach(() => {
+    handle?.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('should emit existing messages when includeExisting is set', async () => {
+    stub.addMessage('m1');
+    stub.addMessage('m2');
+
+    handle = provider.watch({ interval: 5, includeExisting: true });
+
+    expect((await take(handle, 2)).map(describeEvent)).toEqual(['new:m1', 'new:m2']);
+  });
+
+  it('should emit new, updated and deleted events from history', async () => {
+    stub.addMessage('old');
+    handle = provider.watch({ interval: 5 });
+
+    await waitForHistoryPoll(stub);
+
+    stub.addMessage('m1');
+    stub.markRead('old');
+    stub.deleteMessage('old');
+    stub.addMessage('m2');
+    stub.markRead('m2');
+
+    const events = await take(handle, 3);
+    expect(events.map(describeEvent)).toEqual(['new:m1', 'deleted:old', 'new:m2']);
+    expect(events[2]?.type === 'new' && events[2].email.isRead).toBe(true);
+  });
+
+  it('should report label changes as updates', async () => {
+    stub.addMessage('m1');
+    handle = provider.watch({ interval: 5 });
+    await waitForHistoryPoll(stub);
+
+    stub.markRead('m1');
+
+    const [event] = await take(handle, 1);
+    expect(event?.type).toBe('updated');
+    expect(event?.type === 'updated' && event.email.isRead).toBe(true);
+  });
+
+  it('should filter history by folder label', async () => {
+    handle = provider.watch({ interval: 5, folder: 'inbox' });
+    await waitForHistoryPoll(stub);
+
+    const [input] = stub.fetch.mock.calls.find(([input]) => String(input).includes('/history')) as [
+      string,
+    ];
+    const url = new URL(input);
+    expect(url.searchParams.get('labelId')).toBe('INBOX');
+    expect(url.searchParams.getAll('historyTypes')).toContain('messageAdded');
+  });
+
+  it('should diff the mailbox when the history id has expired with includeExisting', async () => {
+    stub.addMessage('kept');
+    stub.addMessage('removed');
+    handle = provider.watch({ interval: 5, includeExisting: true });
+    expect((await take(handle, 2)).map(describeEvent)).toEqual(['new:kept', 'new:removed']);
+    await waitForHistoryPoll(stub);
+
+    stub.state.expired = true;
+    stub.state.messages.delete('removed');
+    stub.state.messages.set('fresh', { id: 'fresh', threadId: 't-fresh', labelIds: ['INBOX'] });
+
+    const events = await take(handle, 2);
+    expect(events.map(describeEvent).sort()).toEqual(['deleted:removed', 'new:fresh']);
+  });
+
+  it('should resume from the current history id without listing the mailbox', async () => {
+    stub.addMessage('m1');
+    handle = provider.watch({ interval: 5 });
+    await waitForHistoryPoll(stub);
+
+    stub.state.expired = true;
+    stub.addMessage('m2');
+
+    const [event] = await take(handle, 1);
+    expect(event && describeEvent(event)).toBe(
+      'error:History 101 has expired; changes up to 102 were not reported',
+    );
+    const listed = stub.fetch.mock.calls.some(([input]) => String(input).includes('/messages?'));
+    expect(listed).toBe(false);
+  });
+
+  it('should fetch the changed messages with one batch request', async () => {
+    handle = provider.watch({ interval: 5 });
+    await waitForHistoryPoll(stub);
+
+    stub.addMessage('m1');
+    stub.addMessage('m2');
+    stub.addMessage('m3');
+
+    expect((await take(handle, 3)).map(describeEvent)).toEqual(['new:m1', 'new:m2', 'new:m3']);
+    const calls = stub.fetch.mock.calls.map(([input]) => new URL(String(input)).pathname);
+    expect(calls.filter((path) => path === '/batch/gmail/v1')).toHaveLength(1);
+    expect(calls.filter((path) => path.includes('/messages/'))).toHaveLength(0);
+  });
+
+  it('should stop polling when stopped', async () => {
+    handle = provider.watch({ interval: 5 });
+    await waitForHistoryPoll(stub);
+
+    handle.stop();
+    const calls = stub.fetch.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(stub.fetch.mock.calls.length).toBeLessThanOrEqual(calls + 1);
+    expect(await handle[Symbol.asyncIterator]().next()).toEqual({ value: undefined, done: true });
+  });
+});
+
+/**
+ * Build a Pub/Sub push request body for a Gmail notification
+ */
+function pushBody(historyId: number, messageId = `pubsub-${historyId}`) {
+  const data = Buffer.from(JSON.stringify({ emailAddress: 'me@example.com', historyId })).toString(
+    'base64',
+  );
+  return { message: { data, messageId }, subscription: 'projects/p/subscriptions/gmail' };
+}
+
+describe('GmailProvider push notifications', () => {
+  let stub: ReturnType<typeof createGmailStub>;
+  let provider: GmailProvider;
+
+  beforeEach(() => {
+    stub = createGmailStub();
+    vi.stubGlobal('fetch', stub.fetch);
+    provider = new GmailProvider({ accessToken: 'token' });
+  });
+
+  afterEach(async () => {
+    await provider.disconnect();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should register the watch and track changes from its history id', async () => {
+    const subscription = await provider.startPushNotifications({
+      topicName: 'projects/p/topics/gmail',
+      labelIds: ['INBOX'],
+    });
+
+    const [input, init] = stub.fetch.mock.calls[0] as [string, RequestInit];
+    expect(input).toContain('/users/me/watch');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual({
+      topicName: 'projects/p/topics/gmail',
+      labelIds: ['INBOX'],
+    });
+    expect(subscription.historyId).toBe('100');
+    expect(subscription.expiration.getTime()).toBeGreaterThan(Date.now());
+    expect(provider.pushHistoryId).toBe('100');
+  });
+
+  it('should turn notifications into watch events', async () => {
+    const onHistoryId = vi.fn();
+    await provider.startPushNotifications({ topicName: 'projects/p/topics/gmail', onHistoryId });
+
+    stub.addMessage('m1');
+    stub.addMessage('m2');
+    stub.deleteMessage('m2');
+
+    const events = await provider.handlePushNotification(pushBody(stub.state.historyId));
+
+    expect(events.map(describeEvent)).toEqual(['new:m1']);
+    expect(provider.pushHistoryId).toBe('103');
+    expect(onHistoryId).toHaveBeenLastCalledWith('103');
+  });
+
+  it('should not report the same change twice for concurrent deliveries', async () => {
+    await provider.startPushNotifications({ topicName: 'projects/p/topics/gmail' });
+    stub.addMessage('m1');
+    const body = pushBody(stub.state.historyId);
+
+    const [first, second] = await Promise.all([
+      provider.handlePushNotification(body),
+      provider.handlePushNotification(body),
+    ]);
+
+    expect([...first, ...second].map(describeEvent)).toEqual(['new:m1']);
+  });
+
+  it('should resume from a persisted history id', async () => {
+    stub.addMessage('m1');
+    stub.addMessage('m2');
+
+    const events = await provider.handlePushNotification(pushBody(stub.state.historyId), '101');
+
+    expect(events.map(describeEvent)).toEqual(['new:m2']);
+    expect(provider.pushHistoryId).toBe('102');
+  });
+
+  it('should report an error when the history id has expired', async () => {
+    await provider.startPushNotifications({ topicName: 'projects/p/topics/gmail' });
+    stub.addMessage('m1');
+    stub.state.expired = true;
+
+    const events = await provider.handlePushNotification(pushBody(stub.state.historyId));
+
+    expect(events.map((event) => event.type)).toEqual(['error']);
+    expect(provider.pushHistoryId).toBe('101');
+  });
+
+  it('should renew the watch before it expires', async () => {
+    vi.useFakeTimers();
+    await provider.startPushNotifications({ topicName: 'projects/p/topics/gmail' });
+    expect(stub.state.watches).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(5 * 24 * 60 * 60 * 1000);
+    expect(stub.state.watches).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(stub.state.watches).toBe(2);
+  });
+
+  it('should stop renewing once stopped', async () => {
+    vi.useFakeTimers();
+    await provider.startPushNotifications({ topicName: 'projects/p/topics/gmail' });
+    await provider.stopPushNotifications();
+
+    expect(stub.fetch.mock.calls.some(([input]) => String(input).endsWith('/stop'))).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(8 * 24 * 60 * 60 * 1000);
+    expect(stub.state.watches).toBe(1);
+  });
+});
+
+describe('GmailProvider threads', () => {
+  const message = (id: string, from: string, to: string, date: string, labelIds: string[]) => ({
+    id,
+    threadId: 't1',
+    labelIds,
+    internalDate: String(Date.parse(date)),
+    payload: {
+      headers: [
+        { name: 'From', value: from },
+        { name: 'To', value: to },
+        { name: 'Subject', value: id === 'm1' ? 'Order #42' : 'Re: Order #42' },
+        { name: 'Date', value: date },
+      ],
+    },
+  });
+
+  const thread = {
+    id: 't1',
+    messages: [
+      message('m1', 'Alice <alice@example.com>', '<support@example.com>', '2024-01-01T10:00:00Z', [
+        'INBOX',
+      ]),
+      message(
+        'm2',
+        'Support <support@example.com>',
+        '<ALICE@example.com>',
+        '2024-01-01T11:00:00Z',
+        ['SENT'],
+      ),
+      message('m3', 'Alice <alice@example.com>', '<support@example.com>', '2024-01-02T09:00:00Z', [
+        'INBOX',
+        'UNREAD',
+      ]),
+    ],
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: GmailProvider;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+      const path = new URL(String(input)).pathname.replace('/gmail/v1/users/me', '');
+      const body = path === '/threads' ? { threads: [{ id: 't1' }] } : thread;
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new GmailProvider({ accessToken: 'token' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should build a thread from its messages', async () => {
+    const result = await provider.getThread('t1');
+
+    expect(result.id).toBe('t1');
+    expect(result.subject).toBe('Order #42');
+    expect(result.messageCount).toBe(3);
+    expect(result.messages.map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(result.participants.map((p) => p.email)).toEqual([
+      'alice@example.com',
+      'support@example.com',
+    ]);
+    expect(result.lastDate).toEqual(new Date('2024-01-02T09:00:00Z'));
+    expect(result.hasUnread).toBe(true);
+  });
+
+  it('should list threads for a folder', async () => {
+    const threads = await provider.listThreads({ folder: 'inbox', unreadOnly: true, limit: 10 });
+
+    const url = new URL(String(fetchMock.mock.calls[0]?.[0]));
+    expect(url.pathname).toBe('/gmail/v1/users/me/threads');
+    expect(url.searchParams.getAll('labelIds')).toEqual(['INBOX']);
+    expect(url.searchParams.get('q')).toBe('is:unread');
+    expect(url.searchParams.get('maxResults')).toBe('10');
+    expect(threads.map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('should apply thread mutations with threads.modify and threads.trash', async () => {
+    await provider.markThreadAsRead('t1');
+    await provider.markThreadAsUnread('t1');
+    await provider.archiveThread('t1');
+    await provider.addThreadLabel('t1', 'Label_1');
+    await provider.removeThreadLabel('t1', 'Label_1');
+    await provider.trashThread('t1');
+
+    const calls = fetchMock.mock.calls.map(([input, init]) => ({
+      path: new URL(String(input)).pathname.replace('/gmail/v1/users/me', ''),
+      body: init?.body ? JSON.parse(init.body as string) : undefined,
+    }));
+    expect(calls).toEqual([
+      { path: '/threads/t1/modify', body: { removeLabelIds: ['UNREAD'] } },
+      { path: '/threads/t1/modify', body: { addLabelIds: ['UNREAD'] } },
+      { path: '/threads/t1/modify', body: { removeLabelIds: ['INBOX'] } },
+      { path: '/threads/t1/modify', body: { addLabelIds: ['Label_1'] } },
+      { path: '/threads/t1/modify', body: { removeLabelIds: ['Label_1'] } },
+      { path: '/threads/t1/trash', body: undefined },
+    ]);
+  });
+});
+
+describe('GmailProvider drafts', () => {
+  const draft = {
+    id: 'd1',
+    message: {
+      id: 'm1',
+      threadId: 't1',
+      labelIds: ['DRAFT'],
+      payload: {
+        headers: [
+          { name: 'To', value: 'alice@example.com' },
+          { name: 'Subject', value: 'Re: Order #42' },
+        ],
+      },
+    },
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: GmailProvider;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const path = new URL(String(input)).pathname.replace('/gmail/v1/users/me', '');
+      let body: unknown = draft;
+      if (path === '/drafts' && init?.method === 'GET') {
+        body = { drafts: [{ id: 'd1', message: { id: 'm1', threadId: 't1' } }] };
+      } else if (path === '/drafts/send') {
+        body = { id: 'm1', threadId: 't1', labelIds: ['SENT'] };
+      } else if (init?.method === 'DELETE') {
+        return new Response(null, { status: 204 });
+      }
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new GmailProvider({ accessToken: 'token' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Decode the MIME message sent in a draft request body
+   */
+  function sentMessage(call: unknown[] | undefined): string {
+    const body = JSON.parse((call?.[1] as RequestInit).body as string);
+    return Buffer.from(body.message.raw, 'base64url').toString('utf-8');
+  }
+
+  it('should create a draft from send options', async () => {
+    const result = await provider.createDraft({
+      to: 'alice@example.com',
+      subject: 'Re: Order #42',
+      text: 'Your order has shipped.',
+    });
+
+    const [input, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(new URL(input).pathname).toBe('/gmail/v1/users/me/drafts');
+    expect(init.method).toBe('POST');
+    expect(sentMessage(fetchMock.mock.calls[0])).toContain('Subject: Re: Order #42');
+    expect(result.id).toBe('d1');
+    expect(result.message.isDraft).toBe(true);
+    expect(result.message.subject).toBe('Re: Order #42');
+  });
+
+  it('should replace the draft content on update', async () => {
+    await provider.updateDraft('d1', {
+      to: 'alice@example.com',
+      subject: 'Re: Order #42',
+      text: 'Updated reply',
+    });
+
+    const [input, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(new URL(input).pathname).toBe('/gmail/v1/users/me/drafts/d1');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body as string).id).toBe('d1');
+    expect(sentMessage(fetchMock.mock.calls[0])).toContain('Updated reply');
+  });
+
+  it('should list, delete and send drafts', async () => {
+    const drafts = await provider.listDrafts({ limit: 5 });
+    await provider.deleteDraft('d1');
+    const sent = await provider.sendDraft('d1');
+
+    expect(drafts.map((d) => d.id)).toEqual(['d1']);
+    expect(new URL(String(fetchMock.mock.calls[0]?.[0])).searchParams.get('maxResults')).toBe('5');
+    const deleteCall = fetchMock.mock.calls.find(([, init]) => init?.method === 'DELETE');
+    expect(String(deleteCall?.[0])).toContain('/drafts/d1');
+    const sendCall = fetchMock.mock.calls.at(-1) as [string, RequestInit];
+    expect(JSON.parse(sendCall[1].body as string)).toEqual({ id: 'd1' });
+    expect(sent.id).toBe('m1');
+    expect(sent.threadId).toBe('t1');
+  });
+});
+
+describe('GmailProvider.listPage', () => {
+  let ids: string[];
+  let failures: Map<string, number>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let provider: GmailProvider;
+
+  const json = (body: unknown) =>
+    new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  beforeEach(() => {
+    ids = ['m1', 'm2', 'm3', 'm4', 'm5'];
+    failures = new Map();
+
+    // Page tokens are the index of the first message on the page
+    fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/batch/gmail/v1') {
+        return batchReply(init?.body as string, (path) => {
+          const id = path.split('/').pop()?.split('?')[0] as string;
+          const status = failures.get(id) ?? 200;
+          return status === 200
+            ? { status, body: { id, threadId: `t-${id}`, labelIds: ['INBOX'] } }
+            : { status, body: { error: { code: status, message: `Failed ${id}` } } };
+        });
+      }
+
+      const start = Number(url.searchParams.get('pageToken') ?? 0);
+      const end = start + Number(url.searchParams.get('maxResults'));
+      return json({
+        messages: ids.slice(start, end).map((id) => ({ id, threadId: `t-${id}` })),
+        nextPageToken: end < ids.length ? String(end) : undefined,
+        resultSizeEstimate: ids.length,
+      });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    provider = new GmailProvider({ accessToken: 'token' });
+  });
+
+  const batchCalls = () =>
+    fetchMock.mock.calls.filter(([input]) => String(input).endsWith('/batch/gmail/v1'));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should page through messages with an opaque cursor', async () => {
+    const first = await provider.listPage({ limit: 2 });
+    expect(first.emails.map((e) => e.id)).toEqual(['m1', 'm2']);
+    expect(first.totalEstimate).toBe(5);
+    expect(first.nextCursor).toBeDefined();
+    expect(first.nextCursor).not.toBe('2');
+
+    const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+    expect(second.emails.map((e) => e.id)).toEqual(['m3', 'm4']);
+
+    const last = await provider.listPage({ limit: 2, cursor: second.nextCursor });
+    expect(last.emails.map((e) => e.id)).toEqual(['m5']);
+    expect(last.nextCursor).toBeUndefined();
+  });
+
+  it('should honor offset by skipping ahead', async () => {
+    const page = await provider.listPage({ limit: 2, offset: 3 });
+
+    expect(page.emails.map((e) => e.id)).toEqual(['m4', 'm5']);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should return an empty page when offset is past the end', async () => {
+    const page = await provider.listPage({ offset: 10 });
+
+    expect(page.emails).toEqual([]);
+    expect(page.totalEstimate).toBe(5);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(provider.listPage({ cursor: '%%%' })).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should return the first page from list', async () => {
+    expect((await provider.list({ limit: 3 })).map((e) => e.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should fetch a page with a single batch request', async () => {
+    await provider.list({ limit: 5 });
+
+    expect(batchCalls()).toHaveLength(1);
+    const [, init] = batchCalls()[0] as [string, RequestInit];
+    expect(init.method).toBe('POST');
+    expect(new Headers(init.headers).get('Content-Type')).toMatch(/^multipart\/mixed; boundary=/);
+    expect(init.body).toContain('GET /gmail/v1/users/me/messages/m5?format=full');
+  });
+
+  it('should split large pages into batches with bounded concurrency', async () => {
+    ids = Array.from({ length: 23 }, (_, i) => `m${i}`);
+    provider = new GmailProvider({ accessToken: 'token', batchSize: 5, concurrency: 2 });
+
+    let active = 0;
+    let peak = 0;
+    const respond = fetchMock.getMockImplementation() as (...args: unknown[]) => Promise<Response>;
+    fetchMock.mockImplementation(async (...args: unknown[]) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return respond(...args);
+    });
+
+    const emails = await provider.list({ limit: 23 });
+
+    expect(emails.map((e) => e.id)).toEqual(ids);
+    expect(batchCalls()).toHaveLength(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should skip messages deleted before they were fetched', async () => {
+    failures.set('m2', 404);
+
+    expect((await provider.list({ limit: 3 })).map((e) => e.id)).toEqual(['m1', 'm3']);
+  });
+
+  it('should surface rate limits from batch parts', async () => {
+    failures.set('m2', 429);
+
+    await expect(provider.list({ limit: 3 })).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('should prefetch the next page while streaming', async () => {
+    const iterator = provider.stream({ batchSize: 2 })[Symbol.asyncIterator]();
+
+    expect((await iterator.next()).value?.id).toBe('m1');
+    await vi.waitFor(() => expect(batchCalls()).toHaveLength(2));
+
+    const rest: string[] = [];
+    for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+      rest.push(result.value.id);
+    }
+    expect(rest).toEqual(['m2', 'm3', 'm4', 'm5']);
+    expect(batchCalls()).toHaveLength(3);
+  });
+});
@@ -1,22 +1,54 @@
 import type {
+  CallOptions,
+  Draft,
+  DraftId,
   Email,
   EmailId,
   Folder,
   FolderName,
   GetOptions,
   ListOptions,
+  ListPage,
   MailProvider,
+  ProviderCapabilities,
+  RateLimiterUsage,
   SendOptions,
   SendResult,
   StreamOptions,
+  Thread,
+  ThreadId,
+  WatchEvent,
   WatchHandle,
   WatchOptions,
 } from '@faktoor/core';
-import { NotFoundError } from '@faktoor/core';
+import {
+  NotFoundError,
+  ProviderError,
+  createWatchHandle,
+  decodeCursor,
+  encodeCursor,
+  paginateStream,
+} from '@faktoor/core';
+import { buildMimeMessage, encodeBase64Url } from '@faktoor/parser';
 import { GmailApi } from './api';
-import { labelToFolder, parseGmailMessage } from './parser';
+import { MAX_BATCH_SIZE, chunk, mapWithConcurrency } from './batch';
+import type { HistoryChangeType } from './history';
+import { changesToEvents, listMessageIds, readHistory } from './history';
+import { labelToFolder, parseGmailDraft, parseGmailMessage, parseGmailThread } from './parser';
+import type { GmailPushOptions, GmailPushSubscription } from './push';
+import { parsePushNotification } from './push';
 import type { GmailEmail, GmailOptions } from './types';
 
+const DEFAULT_WATCH_INTERVAL = 30_000;
+
+// Gmail counts each batched call against the per-user quota; 50 avoids bursts of 429s
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_CONCURRENCY = 4;
+
+// Gmail watches expire after 7 days; renew a day ahead to absorb failed attempts
+const PUSH_RENEW_MARGIN_MS = 24 * 60 * 60 * 1000;
+const PUSH_RENEW_RETRY_MS = 60_000;
+
 /**
  * Map folder name to Gmail label ID
  */
@@ -52,123 +84,42 @@ function buildQuery(options: ListOptions): string {
   return parts.join(' ');
 }
 
-/**
- * Encode email to RFC 2822 format
- */
-function encodeEmail(options: SendOptions): string {
-  const lines: string[] = [];
-
-  // To
-  const to = Array.isArray(options.to) ? options.to.join(', ') : options.to;
-  lines.push(`To: ${to}`);
-
-  // Cc
-  if (options.cc) {
-    const cc = Array.isArray(options.cc) ? options.cc.join(', ') : options.cc;
-    lines.push(`Cc: ${cc}`);
-  }
-
-  // Bcc
-  if (options.bcc) {
-    const bcc = Array.isArray(options.bcc) ? options.bcc.join(', ') : options.bcc;
-    lines.push(`Bcc: ${bcc}`);
-  }
-
-  // Reply-To
-  if (options.replyTo) {
-    lines.push(`Reply-To: ${options.replyTo}`);
-  }
-
-  // Subject
-  lines.push(`Subject: ${options.subject}`);
-
-  // In-Reply-To
-  if (options.inReplyTo) {
-    lines.push(`In-Reply-To: <${options.inReplyTo}>`);
-  }
-
-  // References
-  if (options.references?.length) {
-    lines.push(`References: ${options.references.map((r) => `<${r}>`).join(' ')}`);
-  }
-
-  // Custom headers
-  if (options.headers) {
-    for (const [name, value] of Object.entries(options.headers)) {
-      lines.push(`${name}: ${value}`);
-    }
-  }
-
-  // MIME type
-  const hasHtml = !!options.html;
-  const hasText = !!options.text;
-  const hasAttachments = !!options.attachments?.length;
-
-  if (hasAttachments || (hasHtml && hasText)) {
-    // Multipart message
-    const boundary = `----faktoor-${Date.now()}-${Math.random().toString(36).slice(2)}`;
-    lines.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
-    lines.push('MIME-Version: 1.0');
-    lines.push('');
-
-    // Text part
-    if (hasText) {
-      lines.push(`--${boundary}`);
-      lines.push('Content-Type: text/plain; charset=utf-8');
-      lines.push('');
-      lines.push(options.text!);
-    }
-
-    // HTML part
-    if (hasHtml) {
-      lines.push(`--${boundary}`);
-      lines.push('Content-Type: text/html; charset=utf-8');
-      lines.push('');
-      lines.push(options.html!);
-    }
-
-    // Note: Attachments would need additional handling
-    // This is a simplified implementation
-
-    lines.push(`--${boundary}--`);
-  } else if (hasHtml) {
-    lines.push('Content-Type: text/html; charset=utf-8');
-    lines.push('MIME-Version: 1.0');
-    lines.push('');
-    lines.push(options.html!);
-  } else {
-    lines.push('Content-Type: text/plain; charset=utf-8');
-    lines.push('MIME-Version: 1.0');
-    lines.push('');
-    lines.push(options.text ?? '');
-  }
-
-  const message = lines.join('\r\n');
-
-  // Base64url encode
-  if (typeof btoa !== 'undefined') {
-    return btoa(unescape(encodeURIComponent(message)))
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=+$/, '');
-  }
-  return Buffer.from(message)
-    .toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/, '');
-}
-
 /**
  * Gmail provider implementation
  */
 export class GmailProvider implements MailProvider {
   readonly name = 'gmail';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: true,
+    drafts: true,
+    send: true,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'labels',
+    move: 'same-id',
+    serverSearch: true,
+    batch: true,
+    // Gmail rejects larger messages; Drive links are the usual workaround
+    maxAttachmentSize: 25 * 1024 * 1024,
+  };
   private api: GmailApi;
   private connected = false;
+  private push?: {
+    options?: GmailPushOptions;
+    historyId?: string;
+    renewTimer?: ReturnType<typeof setTimeout>;
+    queue: Promise<unknown>;
+  };
+
+  private readonly concurrency: number;
+  private readonly batchSize: number;
 
   constructor(options: GmailOptions) {
     this.api = new GmailApi(options);
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.batchSize = Math.min(Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE), MAX_BATCH_SIZE);
   }
 
   async connect(): Promise<void> {
@@ -177,6 +128,7 @@ export class GmailProvider implements MailProvider {
   }
 
   async disconnect(): Promise<void> {
+    clearTimeout(this.push?.renewTimer);
     this.connected = false;
   }
 
@@ -184,35 +136,72 @@ export class GmailProvider implements MailProvider {
     return this.connected;
   }
 
+  /**
+   * Gmail quota units spent and queued by this provider, e.g. for metrics;
+   * `undefined` when `rateLimit` is `false`
+   */
+  quotaUsage(): RateLimiterUsage | undefined {
+    return this.api.quotaUsage();
+  }
+
   async list(options: ListOptions = {}): Promise<GmailEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage<GmailEmail>> {
     const labelIds = options.folder ? [folderToLabelId(options.folder)] : undefined;
     const query = buildQuery(options);
+    let pageToken = options.cursor
+      ? decodeCursor<{ pageToken?: string }>(options.cursor).pageToken
+      : undefined;
+
+    // Gmail has no offsets: skip ahead by listing ids only
+    let skip = options.cursor ? 0 : (options.offset ?? 0);
+    while (skip > 0) {
+      const response = await this.api.messages.list(
+        {
+          labelIds,
+          q: query || undefined,
+          maxResults: Math.min(skip, 500),
+          pageToken,
+          includeSpamTrash: false,
+        },
+        options.signal,
+      );
+      skip -= response.messages?.length ?? 0;
+      pageToken = response.nextPageToken;
 
-    const response = await this.api.messages.list({
-      labelIds,
-      q: query || undefined,
-      maxResults: options.limit ?? 50,
-      includeSpamTrash: false,
-    });
-
-    if (!response.messages?.length) {
-      return [];
+      if (!pageToken || !response.messages?.length) {
+        return { emails: [], totalEstimate: response.resultSizeEstimate };
+      }
     }
 
-    // Fetch full message details
-    const emails = await Promise.all(
-      response.messages.map(async (msg) => {
-        const full = await this.api.messages.get(msg.id, 'full');
-        return parseGmailMessage(full);
-      }),
+    const response = await this.api.messages.list(
+      {
+        labelIds,
+        q: query || undefined,
+        maxResults: options.limit ?? 50,
+        pageToken,
+        includeSpamTrash: false,
+      },
+      options.signal,
     );
 
-    return emails;
+    return {
+      emails: await this.fetchMessages(
+        (response.messages ?? []).map((msg) => msg.id),
+        options.signal,
+      ),
+      nextCursor: response.nextPageToken
+        ? encodeCursor({ pageToken: response.nextPageToken })
+        : undefined,
+      totalEstimate: response.resultSizeEstimate,
+    };
   }
 
   async get(id: EmailId | string, options: GetOptions = {}): Promise<Email> {
     const format = options.format ?? 'full';
-    const message = await this.api.messages.get(id, format);
+    const message = await this.api.messages.get(id, format, options.signal);
 
     if (!message) {
       throw new NotFoundError('Email', id);
@@ -226,33 +215,33 @@ export class GmailProvider implements MailProvider {
     const labelIds = options.folder ? [folderToLabelId(options.folder)] : undefined;
     const query = buildQuery(options);
 
-    let pageToken: string | undefined;
-
-    do {
-      const response = await this.api.messages.list({
-        labelIds,
-        q: query || undefined,
-        maxResults: batchSize,
-        pageToken,
-        includeSpamTrash: false,
-      });
-
-      if (!response.messages?.length) {
-        break;
-      }
-
-      for (const msg of response.messages) {
-        const full = await this.api.messages.get(msg.id, 'full');
-        yield parseGmailMessage(full);
-      }
+    const fetchPage = async (pageToken?: string) => {
+      const response = await this.api.messages.list(
+        {
+          labelIds,
+          q: query || undefined,
+          maxResults: batchSize,
+          pageToken,
+          includeSpamTrash: false,
+        },
+        options.signal,
+      );
+      const emails = await this.fetchMessages(
+        (response.messages ?? []).map((msg) => msg.id),
+        options.signal,
+      );
+      return {
+        emails,
+        nextCursor: response.messages?.length ? response.nextPageToken : undefined,
+      };
+    };
 
-      pageToken = response.nextPageToken;
-    } while (pageToken);
+    yield* paginateStream(fetchPage);
   }
 
-  async send(options: SendOptions): Promise<SendResult> {
-    const raw = encodeEmail(options);
-    const result = await this.api.messages.send(raw);
+  async send(options: SendOptions, call: CallOptions = {}): Promise<SendResult> {
+    const raw = encodeBase64Url(await buildMimeMessage(options));
+    const result = await this.api.messages.send(raw, call.signal);
 
     return {
       id: result.id as EmailId,
@@ -261,8 +250,8 @@ export class GmailProvider implements MailProvider {
     };
   }
 
-  async listFolders(): Promise<Folder[]> {
-    const response = await this.api.labels.list();
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    const response = await this.api.labels.list(call.signal);
     if (!response.labels?.length) {
       return [];
     }
@@ -270,9 +259,9 @@ export class GmailProvider implements MailProvider {
     return response.labels.map(labelToFolder);
   }
 
-  async getFolder(name: FolderName | string): Promise<Folder> {
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
     const labelId = folderToLabelId(name);
-    const label = await this.api.labels.get(labelId);
+    const label = await this.api.labels.get(labelId, call.signal);
 
     if (!label) {
       throw new NotFoundError('Folder', name);
@@ -281,57 +270,424 @@ export class GmailProvider implements MailProvider {
     return labelToFolder(label);
   }
 
-  async createFolder(name: string): Promise<Folder> {
-    const label = await this.api.labels.create(name);
+  async createFolder(name: string, call: CallOptions = {}): Promise<Folder> {
+    const label = await this.api.labels.create(name, call.signal);
     return labelToFolder(label);
   }
 
-  async deleteFolder(name: FolderName | string): Promise<void> {
+  async deleteFolder(name: FolderName | string, call: CallOptions = {}): Promise<void> {
     const labelId = folderToLabelId(name);
-    await this.api.labels.delete(labelId);
+    await this.api.labels.delete(labelId, call.signal);
   }
 
-  async markAsRead(id: EmailId | string): Promise<void> {
-    await this.api.messages.modify(id, { removeLabelIds: ['UNREAD'] });
+  async markAsRead(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { removeLabelIds: ['UNREAD'] }, call.signal);
   }
 
-  async markAsUnread(id: EmailId | string): Promise<void> {
-    await this.api.messages.modify(id, { addLabelIds: ['UNREAD'] });
+  async markAsUnread(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { addLabelIds: ['UNREAD'] }, call.signal);
   }
 
-  async star(id: EmailId | string): Promise<void> {
-    await this.api.messages.modify(id, { addLabelIds: ['STARRED'] });
+  async star(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { addLabelIds: ['STARRED'] }, call.signal);
   }
 
-  async unstar(id: EmailId | string): Promise<void> {
-    await this.api.messages.modify(id, { removeLabelIds: ['STARRED'] });
+  async unstar(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { removeLabelIds: ['STARRED'] }, call.signal);
   }
 
-  async move(id: EmailId | string, folder: FolderName | string): Promise<void> {
+  async move(
+    id: EmailId | string,
+    folder: FolderName | string,
+    call: CallOptions = {},
+  ): Promise<void> {
     const labelId = folderToLabelId(folder);
     // Remove from all folders and add to new one
-    await this.api.messages.modify(id, {
-      addLabelIds: [labelId],
-      removeLabelIds: ['INBOX', 'SPAM', 'TRASH'],
+    await this.api.messages.modify(
+      id,
+      {
+        addLabelIds: [labelId],
+        removeLabelIds: ['INBOX', 'SPAM', 'TRASH'],
+      },
+      call.signal,
+    );
+  }
+
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.trash(id, call.signal);
+  }
+
+  async addLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { addLabelIds: [label] }, call.signal);
+  }
+
+  async removeLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.modify(id, { removeLabelIds: [label] }, call.signal);
+  }
+
+  async createDraft(options: SendOptions, call: CallOptions = {}): Promise<Draft> {
+    const raw = encodeBase64Url(await buildMimeMessage(options));
+    const draft = await this.api.drafts.create(raw, call.signal);
+    return this.getDraft(draft.id, call);
+  }
+
+  async updateDraft(
+    id: DraftId | string,
+    options: SendOptions,
+    call: CallOptions = {},
+  ): Promise<Draft> {
+    const raw = encodeBase64Url(await buildMimeMessage(options));
+    const draft = await this.api.drafts.update(id, raw, call.signal);
+    return this.getDraft(draft.id, call);
+  }
+
+  async listDrafts(options: ListOptions = {}): Promise<Draft[]> {
+    const query = buildQuery(options);
+    const response = await this.api.drafts.list(
+      {
+        q: query || undefined,
+        maxResults: options.limit ?? 50,
+      },
+      options.signal,
+    );
+
+    if (!response.drafts?.length) {
+      return [];
+    }
+
+    return mapWithConcurrency(response.drafts, this.concurrency, (draft) =>
+      this.getDraft(draft.id, options),
+    );
+  }
+
+  async getDraft(id: DraftId | string, call: CallOptions = {}): Promise<Draft> {
+    return parseGmailDraft(await this.api.drafts.get(id, 'full', call.signal));
+  }
+
+  async deleteDraft(id: DraftId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.drafts.delete(id, call.signal);
+  }
+
+  async sendDraft(id: DraftId | string, call: CallOptions = {}): Promise<SendResult> {
+    const result = await this.api.drafts.send(id, call.signal);
+
+    return {
+      id: result.id as EmailId,
+      threadId: result.threadId as ThreadId,
+      timestamp: new Date(),
+    };
+  }
+
+  async getThread(id: ThreadId | string, call: CallOptions = {}): Promise<Thread> {
+    return parseGmailThread(await this.api.threads.get(id, 'full', call.signal));
+  }
+
+  async listThreads(options: ListOptions = {}): Promise<Thread[]> {
+    const labelIds = options.folder ? [folderToLabelId(options.folder)] : undefined;
+    const query = buildQuery(options);
+
+    const response = await this.api.threads.list(
+      {
+        labelIds,
+        q: query || undefined,
+        maxResults: options.limit ?? 50,
+        includeSpamTrash: false,
+      },
+      options.signal,
+    );
+
+    if (!response.threads?.length) {
+      return [];
+    }
+
+    return mapWithConcurrency(response.threads, this.concurrency, (thread) =>
+      this.getThread(thread.id, options),
+    );
+  }
+
+  async markThreadAsRead(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.threads.modify(id, { removeLabelIds: ['UNREAD'] }, call.signal);
+  }
+
+  async markThreadAsUnread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.threads.modify(id, { addLabelIds: ['UNREAD'] }, call.signal);
+  }
+
+  async archiveThread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.threads.modify(id, { removeLabelIds: ['INBOX'] }, call.signal);
+  }
+
+  async trashThread(id: ThreadId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.threads.trash(id, call.signal);
+  }
+
+  async addThreadLabel(
+    id: ThreadId | string,
+    label: string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.api.threads.modify(id, { addLabelIds: [label] }, call.signal);
+  }
+
+  async removeThreadLabel(
+    id: ThreadId | string,
+    label: string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.api.threads.modify(id, { removeLabelIds: [label] }, call.signal);
+  }
+
+  watch(options: WatchOptions = {}): WatchHandle {
+    const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+    const labelId = options.folder ? folderToLabelId(options.folder) : undefined;
+
+    return createWatchHandle((emitter) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let historyId: string | undefined;
+      // Only tracked with `includeExisting`, so a resync can diff the mailbox
+      let known: Set<string> | undefined;
+      const fetchMessages = (ids: string[]) => this.fetchMessages(ids);
+
+      // Start over from the current history id, listing the mailbox only when asked to
+      const resync = async (): Promise<void> => {
+        historyId = (await this.api.getProfile()).historyId;
+        if (!options.includeExisting) return;
+
+        const ids = new Set(await listMessageIds(this.api, labelId));
+        const changes = new Map<string, HistoryChangeType>();
+        for (const id of ids) {
+          if (!known?.has(id)) changes.set(id, 'new');
+        }
+        for (const id of known ?? []) {
+          if (!ids.has(id)) changes.set(id, 'deleted');
+        }
+        for (const event of await changesToEvents(changes, fetchMessages)) {
+          emitter.emit(event);
+        }
+        known = ids;
+      };
+
+      const poll = async (): Promise<void> => {
+        try {
+          if (historyId === undefined) {
+            await resync();
+          } else {
+            const history = await readHistory(this.api, historyId, labelId);
+            historyId = history.historyId;
+            for (const event of await changesToEvents(history.changes, fetchMessages)) {
+              if (event.type === 'deleted') {
+                known?.delete(event.id);
+              } else if (event.type === 'new' && known) {
+                // Already picked up by the last listing
+                if (known.has(event.email.id)) continue;
+                known.add(event.email.id);
+              }
+              emitter.emit(event);
+            }
+          }
+        } catch (error) {
+          if (error instanceof NotFoundError && historyId !== undefined) {
+            // History id expired: resume from the current one
+            const expiredId = historyId;
+            try {
+              await resync();
+              if (!known) {
+                emitter.emit({
+                  type: 'error',
+                  error: new ProviderError(
+                    'gmail',
+                    `History ${expiredId} has expired; changes up to ${historyId} were not reported`,
+                    { cause: error },
+                  ),
+                });
+              }
+            } catch (resyncError) {
+              emitter.emit({ type: 'error', error: resyncError as Error });
+            }
+          } else {
+            emitter.emit({ type: 'error', error: error as Error });
+          }
+        }
+
+        if (!emitter.stopped) {
+          timer = setTimeout(poll, interval);
+        }
+      };
+
+      void poll();
+
+      return () => clearTimeout(timer);
     });
   }
 
-  async delete(id: EmailId | string): Promise<void> {
-    await this.api.messages.trash(id);
+  /**
+   * History id push notifications are processed from
+   */
+  get pushHistoryId(): string | undefined {
+    return this.push?.historyId;
   }
 
-  async addLabel(id: EmailId | string, label: string): Promise<void> {
-    await this.api.messages.modify(id, { addLabelIds: [label] });
+  /**
+   * Ask Gmail to publish mailbox changes to a Pub/Sub topic
+   *
+   * The watch is renewed before it expires unless `autoRenew` is false.
+   */
+  async startPushNotifications(options: GmailPushOptions): Promise<GmailPushSubscription> {
+    clearTimeout(this.push?.renewTimer);
+    this.push = {
+      options,
+      historyId: options.historyId ?? this.push?.historyId,
+      queue: this.push?.queue ?? Promise.resolve(),
+    };
+    return this.renewPushNotifications();
   }
 
-  async removeLabel(id: EmailId | string, label: string): Promise<void> {
-    await this.api.messages.modify(id, { removeLabelIds: [label] });
+  /**
+   * Renew the Pub/Sub watch, extending its expiration
+   */
+  async renewPushNotifications(): Promise<GmailPushSubscription> {
+    const push = this.push;
+    if (!push?.options) {
+      throw new ProviderError('gmail', 'Push notifications have not been started');
+    }
+
+    clearTimeout(push.renewTimer);
+    const { topicName, labelIds, labelFilterBehavior, autoRenew } = push.options;
+    const response = await this.api.watch({ topicName, labelIds, labelFilterBehavior });
+    const subscription = {
+      historyId: response.historyId,
+      expiration: new Date(Number(response.expiration)),
+    };
+
+    // Without a stored id, changes are tracked from the moment the watch started
+    if (push.historyId === undefined) {
+      await this.setPushHistoryId(response.historyId);
+    }
+
+    // Stopped or restarted while the request was in flight
+    if (this.push !== push) return subscription;
+
+    if (autoRenew ?? true) {
+      const delay = Math.max(
+        subscription.expiration.getTime() - Date.now() - PUSH_RENEW_MARGIN_MS,
+        PUSH_RENEW_RETRY_MS,
+      );
+      this.schedulePushRenewal(delay);
+    }
+
+    return subscription;
   }
 
-  watch(_options?: WatchOptions): WatchHandle {
-    // Gmail watch uses push notifications via Pub/Sub
-    // This is a simplified polling implementation
-    throw new Error('Watch not yet implemented. Use polling with list() instead.');
+  /**
+   * Stop publishing mailbox changes to Pub/Sub
+   */
+  async stopPushNotifications(): Promise<void> {
+    const push = this.push;
+    if (push) {
+      clearTimeout(push.renewTimer);
+      // Detach pending renewals while keeping the processed history id
+      this.push = {
+        ...push,
+        options: push.options && { ...push.options, autoRenew: false },
+        renewTimer: undefined,
+      };
+    }
+    await this.api.stop();
+  }
+
+  /**
+   * Turn a Pub/Sub push request body into watch events
+   *
+   * Changes are read from the History API starting at the last processed
+   * history id, or `historyId` when given. Notifications are processed one at
+   * a time so concurrent deliveries never report the same change twice.
+   */
+  async handlePushNotification(body: unknown, historyId?: string): Promise<WatchEvent[]> {
+    const notification = parsePushNotification(body);
+    this.push ??= { queue: Promise.resolve() };
+    const push = this.push;
+
+    const result = push.queue.then(async (): Promise<WatchEvent[]> => {
+      const startHistoryId = historyId ?? push.historyId;
+      if (startHistoryId === undefined) {
+        // Nothing to diff against yet: start tracking from this notification
+        await this.setPushHistoryId(notification.historyId);
+        return [];
+      }
+
+      // Redelivered or out-of-order notification, already covered
+      if (BigInt(notification.historyId) <= BigInt(startHistoryId)) {
+        return [];
+      }
+
+      const { labelIds, labelFilterBehavior } = push.options ?? {};
+      const labelId =
+        labelIds?.length === 1 && labelFilterBehavior !== 'exclude' ? labelIds[0] : undefined;
+
+      try {
+        const history = await readHistory(this.api, startHistoryId, labelId);
+        const events = await changesToEvents(history.changes, (ids) => this.fetchMessages(ids));
+        await this.setPushHistoryId(history.historyId);
+        return events;
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+
+        // History id expired: resume from the notification and report the gap
+        await this.setPushHistoryId(notification.historyId);
+        return [
+          {
+            type: 'error',
+            error: new ProviderError(
+              'gmail',
+              `History ${startHistoryId} has expired; changes up to ${notification.historyId} were not reported`,
+              { cause: error },
+            ),
+          },
+        ];
+      }
+    });
+
+    push.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Fetch full messages in batches, keeping the order of `ids`
+   *
+   * Messages deleted in the meantime are skipped.
+   */
+  private async fetchMessages(ids: string[], signal?: AbortSignal): Promise<GmailEmail[]> {
+    const batches = await mapWithConcurrency(
+      chunk(ids, this.batchSize),
+      this.concurrency,
+      (batch) => this.api.messages.batchGet(batch, 'full', signal),
+    );
+    return batches.flat().map(parseGmailMessage);
+  }
+
+  /**
+   * Store the last processed history id and let the caller persist it
+   */
+  private async setPushHistoryId(historyId: string): Promise<void> {
+    if (!this.push) return;
+    this.push.historyId = historyId;
+    await this.push.options?.onHistoryId?.(historyId);
+  }
+
+  /**
+   * Renew the watch after `delay`, retrying on failure
+   */
+  private schedulePushRenewal(delay: number): void {
+    const push = this.push;
+    if (!push) return;
+
+    push.renewTimer = setTimeout(() => {
+      this.renewPushNotifications().catch(() => {
+        if (this.push === push) this.schedulePushRenewal(PUSH_RENEW_RETRY_MS);
+      });
+    }, delay);
+    // Don't keep the process alive just to renew the watch
+    (push.renewTimer as { unref?: () => void }).unref?.();
   }
 }
 
@@ -0,0 +1,39 @@
+import { ValidationError } from '@faktoor/core';
+import { describe, expect, it } from 'vitest';
+import { parsePushNotification } from './push';
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+describe('parsePushNotification', () => {
+  const body = {
+    message: {
+      data: encode({ emailAddress: 'me@example.com', historyId: 1234 }),
+      messageId: '42',
+    },
+    subscription: 'projects/p/subscriptions/gmail',
+  };
+
+  it('should decode the Gmail notification from the message data', () => {
+    expect(parsePushNotification(body)).toEqual({
+      emailAddress: 'me@example.com',
+      historyId: '1234',
+      messageId: '42',
+      subscription: 'projects/p/subscriptions/gmail',
+    });
+  });
+
+  it('should accept the raw JSON body', () => {
+    expect(parsePushNotification(JSON.stringify(body)).historyId).toBe('1234');
+  });
+
+  it('should reject bodies that are not Gmail notifications', () => {
+    expect(() => parsePushNotification('not json')).toThrow(ValidationError);
+    expect(() => parsePushNotification({})).toThrow(ValidationError);
+    expect(() => parsePushNotification({ message: { data: encode({ foo: 1 }) } })).toThrow(
+      ValidationError,
+    );
+    expect(() => parsePushNotification({ message: { data: '!!!' } })).toThrow(ValidationError);
+  });
+});
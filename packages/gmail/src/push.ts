@@ -0,0 +1,84 @@
+import { ValidationError } from '@faktoor/core';
+import { decodeBase64Url } from '@faktoor/parser';
+
+/**
+ * Gmail notification decoded from a Pub/Sub push request
+ */
+export interface GmailPushNotification {
+  /** Mailbox the notification is about */
+  emailAddress: string;
+  /** Mailbox history id at the time of the change */
+  historyId: string;
+  /** Pub/Sub message id, useful to drop redeliveries */
+  messageId?: string;
+  /** Pub/Sub subscription that delivered the message */
+  subscription?: string;
+}
+
+/**
+ * Options for Gmail push notifications
+ */
+export interface GmailPushOptions {
+  /** Pub/Sub topic, e.g. `projects/my-project/topics/gmail` */
+  topicName: string;
+  /** Only notify about changes to these labels */
+  labelIds?: string[];
+  /** Whether `labelIds` are included or excluded, defaults to `include` */
+  labelFilterBehavior?: 'include' | 'exclude';
+  /** History id to resume from, e.g. persisted from a previous run */
+  historyId?: string;
+  /** Renew the watch before it expires (default: true) */
+  autoRenew?: boolean;
+  /** Called whenever the stored history id moves, so it can be persisted */
+  onHistoryId?: (historyId: string) => void | Promise<void>;
+}
+
+/**
+ * Active Gmail push subscription
+ */
+export interface GmailPushSubscription {
+  historyId: string;
+  expiration: Date;
+}
+
+/**
+ * Decode a Pub/Sub push request body into a Gmail notification
+ *
+ * Accepts the raw JSON string or the already parsed body.
+ */
+export function parsePushNotification(body: unknown): GmailPushNotification {
+  let envelope = body;
+  if (typeof envelope === 'string') {
+    try {
+      envelope = JSON.parse(envelope);
+    } catch {
+      throw new ValidationError('Push body is not valid JSON', 'body');
+    }
+  }
+
+  const message = (envelope as { message?: { data?: unknown; messageId?: unknown } } | null)
+    ?.message;
+  if (!message || typeof message.data !== 'string') {
+    throw new ValidationError('Push body has no message data', 'message.data');
+  }
+
+  let data: { emailAddress?: unknown; historyId?: unknown };
+  try {
+    data = JSON.parse(decodeBase64Url(message.data));
+  } catch {
+    throw new ValidationError('Push message data is not base64 encoded JSON', 'message.data');
+  }
+
+  if (typeof data?.emailAddress !== 'string' || data.historyId === undefined) {
+    throw new ValidationError('Push message is not a Gmail notification', 'message.data');
+  }
+
+  const subscription = (envelope as { subscription?: unknown }).subscription;
+
+  return {
+    emailAddress: data.emailAddress,
+    historyId: String(data.historyId),
+    messageId: typeof message.messageId === 'string' ? message.messageId : undefined,
+    subscription: typeof subscription === 'string' ? subscription : undefined,
+  };
+}
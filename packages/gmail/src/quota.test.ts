@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { GMAIL_QUOTA_COSTS, gmailOperation } from './quota';
+
+describe('gmailOperation', () => {
+  it.each([
+    ['GET', '/users/me/messages', 'messages.list'],
+    ['GET', '/users/me/messages/abc?format=full', 'messages.get'],
+    ['POST', '/users/me/messages/send', 'messages.send'],
+    ['POST', '/users/me/messages/abc/modify', 'messages.modify'],
+    ['DELETE', '/users/me/messages/abc', 'messages.delete'],
+    ['GET', '/users/me/messages/abc/attachments/att', 'messages.attachments.get'],
+    ['POST', '/users/me/drafts', 'drafts.create'],
+    ['PUT', '/users/me/drafts/abc', 'drafts.update'],
+    ['POST', '/users/me/drafts/send', 'drafts.send'],
+    ['POST', '/users/me/threads/abc/untrash', 'threads.untrash'],
+    ['GET', '/users/me/profile', 'getProfile'],
+    ['GET', '/users/me/history', 'history.list'],
+    ['POST', '/users/me/watch', 'watch'],
+    ['GET', '/gmail/v1/users/me/labels/Label_1', 'labels.get'],
+  ])('should name %s %s as %s', (method, path, operation) => {
+    expect(gmailOperation(method, path)).toBe(operation);
+    expect(GMAIL_QUOTA_COSTS[operation]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Quota units Gmail allows per user per second (15,000 per minute)
+ */
+export const GMAIL_QUOTA_PER_SECOND = 250;
+
+/**
+ * Quota units of the Gmail API methods this package calls
+ *
+ * See https://developers.google.com/gmail/api/reference/quota
+ */
+export const GMAIL_QUOTA_COSTS: Record<string, number> = {
+  'messages.list': 5,
+  'messages.get': 5,
+  'messages.send': 100,
+  'messages.modify': 5,
+  'messages.trash': 5,
+  'messages.untrash': 5,
+  'messages.delete': 10,
+  'messages.attachments.get': 5,
+  'drafts.list': 5,
+  'drafts.get': 5,
+  'drafts.create': 10,
+  'drafts.update': 15,
+  'drafts.delete': 10,
+  'drafts.send': 100,
+  'threads.list': 10,
+  'threads.get': 10,
+  'threads.modify': 10,
+  'threads.trash': 10,
+  'threads.untrash': 10,
+  'labels.list': 1,
+  'labels.get': 1,
+  'labels.create': 5,
+  'labels.delete': 5,
+  'history.list': 2,
+  getProfile: 1,
+  watch: 100,
+  stop: 50,
+};
+
+const COLLECTION_METHODS: Record<string, string> = { GET: 'list', POST: 'create' };
+const RESOURCE_METHODS: Record<string, string> = { GET: 'get', PUT: 'update', DELETE: 'delete' };
+const USER_METHODS: Record<string, string> = {
+  profile: 'getProfile',
+  watch: 'watch',
+  stop: 'stop',
+  history: 'history.list',
+};
+
+/**
+ * Name of the Gmail API method behind a request, e.g. `POST /users/me/messages/1/modify`
+ * is `messages.modify`; used as the key of `GMAIL_QUOTA_COSTS`
+ */
+export function gmailOperation(method: string, path: string): string {
+  // Path below /users/{userId}, without the query string
+  const segments = (path.split('?')[0] ?? '').split('/');
+  const [resource = '', id, action, attachmentId] = segments.slice(segments.indexOf('users') + 2);
+
+  if (USER_METHODS[resource]) return USER_METHODS[resource];
+  if (attachmentId) return `${resource}.${action}.get`;
+  if (action) return `${resource}.${action}`;
+  if (id === 'send') return `${resource}.send`;
+  if (id) return `${resource}.${RESOURCE_METHODS[method] ?? method.toLowerCase()}`;
+  return `${resource}.${COLLECTION_METHODS[method] ?? method.toLowerCase()}`;
+}
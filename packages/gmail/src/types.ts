@@ -1,4 +1,4 @@
-import type { Email, Label } from '@faktoor/core';
+import type { Email, Label, MailEventEmitter } from '@faktoor/core';
 
 /**
  * Gmail-specific email extensions
@@ -20,26 +20,59 @@ export interface GmailLabel extends Label {
   messagesUnread?: number;
 }
 
+/**
+ * Request tuning shared by all Gmail authentication modes
+ */
+export interface GmailRequestOptions {
+  /** Maximum number of HTTP requests in flight when fetching messages (default: 4) */
+  concurrency?: number;
+  /** Messages fetched per batch request, at most 100 (default: 50) */
+  batchSize?: number;
+  /**
+   * Client-side limit on quota units per second, so calls queue instead of failing
+   * with 429; `false` turns it off (default: 250 units per second, Gmail's per-user limit)
+   *
+   * `burst` must be at least 100 units, what sending costs.
+   */
+  rateLimit?: { unitsPerSecond?: number; burst?: number } | false;
+  /**
+   * Receives `request:start`, `request:end` and `error` for every HTTP request,
+   * `rateLimited` when a call waits for quota and `tokenRefreshed`; share it with `MailClient`
+   */
+  events?: MailEventEmitter;
+}
+
 /**
  * Gmail authentication options - OAuth tokens
  */
-export interface GmailOAuthOptions {
+export interface GmailOAuthOptions extends GmailRequestOptions {
   accessToken: string;
   refreshToken?: string;
   expiresAt?: Date;
-  onTokenRefresh?: (tokens: { accessToken: string; expiresAt?: Date }) => void | Promise<void>;
+  /** OAuth client ID, required to refresh the access token */
+  clientId?: string;
+  /** OAuth client secret, sent along with the refresh token */
+  clientSecret?: string;
+  onTokenRefresh?: (tokens: {
+    accessToken: string;
+    expiresAt?: Date;
+    /** Refresh token to keep using, whether or not Google rotated it */
+    refreshToken?: string;
+  }) => void | Promise<void>;
 }
 
 /**
  * Gmail authentication options - Service Account
  */
-export interface GmailServiceAccountOptions {
+export interface GmailServiceAccountOptions extends GmailRequestOptions {
   serviceAccount: {
     client_email: string;
     private_key: string;
     project_id?: string;
   };
   delegateEmail: string;
+  /** OAuth scopes to request, defaults to `https://mail.google.com/` */
+  scopes?: string[];
 }
 
 /**
@@ -62,6 +95,45 @@ export interface GmailMessage {
   raw?: string;
 }
 
+/**
+ * Gmail API draft format
+ */
+export interface GmailDraft {
+  id: string;
+  message: GmailMessage;
+}
+
+/**
+ * Gmail API thread format
+ */
+export interface GmailThread {
+  id: string;
+  snippet?: string;
+  historyId?: string;
+  messages?: GmailMessage[];
+}
+
+/**
+ * Gmail API history record
+ */
+export interface GmailHistoryRecord {
+  id: string;
+  messages?: GmailMessageRef[];
+  messagesAdded?: Array<{ message: GmailMessageRef }>;
+  messagesDeleted?: Array<{ message: GmailMessageRef }>;
+  labelsAdded?: Array<{ message: GmailMessageRef; labelIds: string[] }>;
+  labelsRemoved?: Array<{ message: GmailMessageRef; labelIds: string[] }>;
+}
+
+/**
+ * Gmail API message reference, as returned in lists and history
+ */
+export interface GmailMessageRef {
+  id: string;
+  threadId: string;
+  labelIds?: string[];
+}
+
 /**
  * Gmail API message part
  */
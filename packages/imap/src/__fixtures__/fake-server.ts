@@ -0,0 +1,640 @@
+import { type AddressInfo, type Server, type Socket, createServer } from 'node:net';
+import type { MimeNode } from '@faktoor/parser';
+import { parseMimeMessage, parseMimeTree } from '@faktoor/parser';
+import type { ImapLine, ImapValue } from '../protocol';
+import { ImapReader, ImapTokenizer, parseSequenceSet, valueToString } from '../protocol';
+
+/**
+ * Message stored by the fake server
+ */
+export interface FakeMessage {
+  uid: number;
+  flags: Set<string>;
+  raw: string;
+  internalDate: Date;
+  modseq: number;
+}
+
+/**
+ * Mailbox stored by the fake server, keyed by its wire name
+ */
+export interface FakeMailbox {
+  flags: string[];
+  messages: FakeMessage[];
+  uidNext: number;
+  uidValidity: number;
+  highestModseq: number;
+  /** Expunged UIDs with the MODSEQ of their removal, for QRESYNC */
+  vanished: Array<{ uid: number; modseq: number }>;
+}
+
+/**
+ * Options for the fake server
+ */
+export interface FakeServerOptions {
+  capabilities?: string[];
+  user?: string;
+  pass?: string;
+  accessToken?: string;
+}
+
+interface Session {
+  socket: Socket;
+  authenticated: boolean;
+  selected?: string;
+  /** Tag of a running IDLE command */
+  idling?: string;
+  qresync?: boolean;
+  /** Pending AUTHENTICATE waiting for the client's response line */
+  sasl?: { tag: string; mechanism: string; failed?: boolean };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DEFAULT_CAPABILITIES = [
+  'IMAP4rev1',
+  'AUTH=PLAIN',
+  'AUTH=XOAUTH2',
+  'SASL-IR',
+  'MOVE',
+  'UIDPLUS',
+];
+
+function quoted(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function formatInternalDate(date: Date): string {
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const time = date.toISOString().slice(11, 19);
+  return `${day}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ${time} +0000`;
+}
+
+function parseSearchDate(value: string): Date {
+  const [day, month, year] = value.split('-');
+  return new Date(Date.UTC(Number(year), MONTHS.indexOf(month ?? ''), Number(day)));
+}
+
+function formatParams(params: Record<string, string>): string {
+  const entries = Object.entries(params);
+  if (!entries.length) return 'NIL';
+  return `(${entries.map(([key, value]) => `${quoted(key.toUpperCase())} ${quoted(value)}`).join(' ')})`;
+}
+
+/**
+ * Build a BODYSTRUCTURE the way real servers do
+ */
+function bodyStructure(node: MimeNode): string {
+  const disposition = node.disposition
+    ? `(${quoted(node.disposition.toUpperCase())} ${formatParams(node.dispositionParams)})`
+    : 'NIL';
+  const [type = 'text', subtype = 'plain'] = node.contentType.toUpperCase().split('/');
+
+  if (node.children.length) {
+    const { boundary, ...params } = node.params;
+    const children = node.children.map(bodyStructure).join('');
+    return `(${children} ${quoted(subtype)} ${formatParams({ boundary: boundary ?? '', ...params })} ${disposition} NIL NIL)`;
+  }
+
+  const contentId = node.headers.get('content-id');
+  const fields = [
+    quoted(type),
+    quoted(subtype),
+    formatParams(node.params),
+    contentId ? quoted(contentId) : 'NIL',
+    'NIL',
+    quoted(node.encoding.toUpperCase()),
+    String(node.size),
+  ];
+  if (type === 'TEXT') fields.push(String(node.lines));
+  fields.push('NIL', disposition, 'NIL', 'NIL');
+  return `(${fields.join(' ')})`;
+}
+
+/**
+ * Minimal in-process IMAP server for tests
+ *
+ * Speaks enough IMAP4rev1 for the provider: authentication, LIST/STATUS,
+ * SELECT, UID SEARCH/FETCH/STORE/COPY/MOVE/EXPUNGE and CREATE/DELETE, plus
+ * IDLE, CONDSTORE and QRESYNC when advertised. Changes are pushed only to
+ * clients that are idling in the mailbox.
+ */
+export class FakeImapServer {
+  readonly mailboxes = new Map<string, FakeMailbox>();
+  /** Commands received, without tags, e.g. `UID SEARCH UNSEEN` */
+  readonly commands: string[] = [];
+  readonly sessions = new Set<Session>();
+  /** Command left unanswered the next time it arrives, as by a hung server */
+  stall?: string;
+  private server?: Server;
+  private readonly capabilities: string[];
+
+  constructor(private readonly options: FakeServerOptions = {}) {
+    this.capabilities = options.capabilities ?? DEFAULT_CAPABILITIES;
+    this.addMailbox('INBOX');
+  }
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+    return (this.server?.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const session of this.sessions) session.socket.destroy();
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  addMailbox(name: string, flags: string[] = []): FakeMailbox {
+    const mailbox: FakeMailbox = {
+      flags,
+      messages: [],
+      uidNext: 1,
+      uidValidity: 1,
+      highestModseq: 1,
+      vanished: [],
+    };
+    this.mailboxes.set(name, mailbox);
+    return mailbox;
+  }
+
+  addMessage(
+    mailboxName: string,
+    raw: string,
+    options: { flags?: string[]; internalDate?: Date } = {},
+  ): number {
+    const mailbox = this.mailboxes.get(mailboxName) ?? this.addMailbox(mailboxName);
+    const uid = mailbox.uidNext++;
+    mailbox.messages.push({
+      uid,
+      flags: new Set(options.flags),
+      raw: raw.replace(/\r?\n/g, '\r\n'),
+      internalDate: options.internalDate ?? new Date(),
+      modseq: ++mailbox.highestModseq,
+    });
+    this.notify(mailboxName, () => `${mailbox.messages.length} EXISTS`);
+    return uid;
+  }
+
+  /**
+   * Replace a message's flags, as another client would
+   */
+  setFlags(mailboxName: string, uid: number, flags: string[]): void {
+    const mailbox = this.mailboxes.get(mailboxName);
+    const message = mailbox?.messages.find((candidate) => candidate.uid === uid);
+    if (!mailbox || !message) return;
+    message.flags = new Set(flags);
+    this.changed(mailboxName, mailbox, [message]);
+  }
+
+  /**
+   * Remove a message for good, as another client would
+   */
+  expunge(mailboxName: string, uid: number): void {
+    const mailbox = this.mailboxes.get(mailboxName);
+    const message = mailbox?.messages.find((candidate) => candidate.uid === uid);
+    if (!mailbox || !message) return;
+    this.remove(mailboxName, mailbox, [message]);
+  }
+
+  /**
+   * Drop every client connection while the server keeps running
+   */
+  disconnectAll(): void {
+    for (const session of this.sessions) session.socket.destroy();
+  }
+
+  /**
+   * Send a line to every connected client, e.g. an unsolicited `* 3 EXISTS`
+   */
+  broadcast(line: string): void {
+    for (const session of this.sessions) session.socket.write(`${line}\r\n`);
+  }
+
+  /**
+   * Send an update to the clients idling in a mailbox
+   */
+  private notify(mailboxName: string, line: (session: Session) => string): void {
+    for (const session of this.sessions) {
+      if (session.idling && session.selected === mailboxName) {
+        session.socket.write(`* ${line(session)}\r\n`);
+      }
+    }
+  }
+
+  private changed(mailboxName: string, mailbox: FakeMailbox, messages: FakeMessage[]): void {
+    for (const message of messages) {
+      message.modseq = ++mailbox.highestModseq;
+      const sequence = mailbox.messages.indexOf(message) + 1;
+      this.notify(
+        mailboxName,
+        () => `${sequence} FETCH (UID ${message.uid} FLAGS (${[...message.flags].join(' ')}))`,
+      );
+    }
+  }
+
+  private remove(mailboxName: string, mailbox: FakeMailbox, messages: FakeMessage[]): void {
+    for (const message of messages) {
+      const sequence = mailbox.messages.indexOf(message) + 1;
+      mailbox.messages.splice(sequence - 1, 1);
+      mailbox.vanished.push({ uid: message.uid, modseq: ++mailbox.highestModseq });
+      this.notify(mailboxName, (session) =>
+        session.qresync ? `VANISHED ${message.uid}` : `${sequence} EXPUNGE`,
+      );
+    }
+  }
+
+  private accept(socket: Socket): void {
+    const session: Session = { socket, authenticated: false };
+    this.sessions.add(session);
+    socket.on('close', () => this.sessions.delete(session));
+    socket.on('error', () => undefined);
+
+    const reader = new ImapReader(() => socket.write('+ Ready for literal\r\n'));
+    socket.on('data', (chunk: Uint8Array) => {
+      for (const line of reader.push(chunk)) this.handle(session, line);
+    });
+
+    socket.write(`* OK [CAPABILITY ${this.capabilities.join(' ')}] Fake IMAP ready\r\n`);
+  }
+
+  private handle(session: Session, line: ImapLine): void {
+    const { socket } = session;
+
+    if (session.sasl) {
+      this.finishSasl(session, line.segments[0] ?? '');
+      return;
+    }
+
+    if (session.idling) {
+      this.commands.push(line.segments[0] ?? '');
+      if (line.segments[0]?.toUpperCase() === 'DONE') {
+        socket.write(`${session.idling} OK IDLE terminated\r\n`);
+        session.idling = undefined;
+      }
+      return;
+    }
+
+    const tokenizer = new ImapTokenizer(line);
+    const tag = String(tokenizer.readValue());
+    let command = String(tokenizer.readValue()).toUpperCase();
+    if (command === 'UID') command += ` ${String(tokenizer.readValue()).toUpperCase()}`;
+    const args: ImapValue[] = [];
+    while (!tokenizer.atEnd()) args.push(tokenizer.readValue());
+
+    this.commands.push(line.segments.join('{literal}').slice(tag.length + 1));
+    if (command === this.stall) {
+      this.stall = undefined;
+      return;
+    }
+
+    const ok = (text = 'Completed'): void => {
+      socket.write(`${tag} OK ${text}\r\n`);
+    };
+    const no = (text: string): void => {
+      socket.write(`${tag} NO ${text}\r\n`);
+    };
+    const untagged = (text: string | Uint8Array): void => {
+      socket.write(typeof text === 'string' ? `* ${text}\r\n` : text);
+    };
+
+    if (
+      !session.authenticated &&
+      !['CAPABILITY', 'NOOP', 'LOGOUT', 'LOGIN', 'AUTHENTICATE'].includes(command)
+    ) {
+      socket.write(`${tag} BAD Not authenticated\r\n`);
+      return;
+    }
+
+    const mailboxName = (value: ImapValue | undefined) => {
+      const name = valueToString(value) ?? '';
+      return name.toUpperCase() === 'INBOX' ? 'INBOX' : name;
+    };
+    const selected = session.selected ? this.mailboxes.get(session.selected) : undefined;
+    const messagesIn = (mailbox: FakeMailbox, set: ImapValue | undefined) => {
+      const uids = new Set(parseSequenceSet(String(set), mailbox.uidNext - 1));
+      return mailbox.messages.filter((message) => uids.has(message.uid));
+    };
+
+    switch (command) {
+      case 'CAPABILITY':
+        untagged(`CAPABILITY ${this.capabilities.join(' ')}`);
+        {
+          ok();
+          return;
+        }
+      case 'NOOP': {
+        ok();
+        return;
+      }
+      case 'LOGOUT':
+        untagged('BYE Logging out');
+        ok();
+        socket.end();
+        return;
+      case 'LOGIN': {
+        const [user, pass] = args.map(valueToString);
+        if (user !== this.options.user || pass !== this.options.pass) {
+          no('[AUTHENTICATIONFAILED] Invalid credentials');
+          return;
+        }
+        session.authenticated = true;
+        ok(`[CAPABILITY ${this.capabilities.join(' ')}] Logged in`);
+        return;
+      }
+      case 'AUTHENTICATE': {
+        session.sasl = { tag, mechanism: String(args[0]).toUpperCase() };
+        if (args[1] !== undefined) {
+          this.finishSasl(session, String(args[1]));
+        } else {
+          socket.write('+ \r\n');
+        }
+        return;
+      }
+      case 'LIST':
+        for (const [name, mailbox] of this.mailboxes) {
+          untagged(`LIST (${mailbox.flags.join(' ')}) "/" ${quoted(name)}`);
+        }
+        {
+          ok();
+          return;
+        }
+      case 'ENABLE': {
+        const enabled = args.map(String).filter((name) => this.capabilities.includes(name));
+        if (enabled.includes('QRESYNC')) session.qresync = true;
+        untagged(`ENABLED${enabled.map((name) => ` ${name}`).join('')}`);
+        ok();
+        return;
+      }
+      case 'STATUS': {
+        const name = mailboxName(args[0]);
+        const mailbox = this.mailboxes.get(name);
+        if (!mailbox) {
+          no('[NONEXISTENT] No such mailbox');
+          return;
+        }
+        const unseen = mailbox.messages.filter((message) => !message.flags.has('\\Seen')).length;
+        untagged(`STATUS ${quoted(name)} (MESSAGES ${mailbox.messages.length} UNSEEN ${unseen})`);
+        ok();
+        return;
+      }
+      case 'SELECT':
+      case 'EXAMINE': {
+        const name = mailboxName(args[0]);
+        const mailbox = this.mailboxes.get(name);
+        session.selected = undefined;
+        if (!mailbox) {
+          no('[NONEXISTENT] No such mailbox');
+          return;
+        }
+        session.selected = name;
+        untagged(`${mailbox.messages.length} EXISTS`);
+        untagged(`OK [UIDVALIDITY ${mailbox.uidValidity}] UIDs valid`);
+        untagged(`OK [UIDNEXT ${mailbox.uidNext}] Predicted next UID`);
+        if (this.capabilities.includes('CONDSTORE') || this.capabilities.includes('QRESYNC')) {
+          untagged(`OK [HIGHESTMODSEQ ${mailbox.highestModseq}] Highest`);
+        }
+        ok('[READ-WRITE] Selected');
+        return;
+      }
+      case 'UNSELECT':
+      case 'CLOSE':
+        session.selected = undefined;
+        {
+          ok();
+          return;
+        }
+      case 'CREATE': {
+        const name = mailboxName(args[0]);
+        if (this.mailboxes.has(name)) {
+          no('[ALREADYEXISTS] Mailbox exists');
+          return;
+        }
+        this.addMailbox(name);
+        ok();
+        return;
+      }
+      case 'DELETE': {
+        const name = mailboxName(args[0]);
+        if (!this.mailboxes.delete(name)) {
+          no('[NONEXISTENT] No such mailbox');
+          return;
+        }
+        ok();
+        return;
+      }
+    }
+
+    if (!selected) {
+      socket.write(`${tag} BAD No mailbox selected\r\n`);
+      return;
+    }
+
+    switch (command) {
+      case 'IDLE': {
+        session.idling = tag;
+        socket.write('+ idling\r\n');
+        return;
+      }
+      case 'UID SEARCH': {
+        const uids = selected.messages
+          .filter((message) => this.matches(message, args))
+          .map((message) => message.uid);
+        untagged(`SEARCH${uids.map((uid) => ` ${uid}`).join('')}`);
+        ok();
+        return;
+      }
+      case 'UID FETCH': {
+        const items = Array.isArray(args[1]) ? args[1].map(String) : [String(args[1])];
+        // (CHANGEDSINCE <modseq> [VANISHED])
+        const modifiers = Array.isArray(args[2]) ? args[2].map(String) : [];
+        const changedSince =
+          modifiers[0]?.toUpperCase() === 'CHANGEDSINCE' ? Number(modifiers[1]) : undefined;
+        if (changedSince !== undefined && modifiers[2]?.toUpperCase() === 'VANISHED') {
+          const uids = selected.vanished
+            .filter((entry) => entry.modseq > changedSince)
+            .map((entry) => entry.uid);
+          if (uids.length) untagged(`VANISHED (EARLIER) ${uids.join(',')}`);
+        }
+        if (changedSince !== undefined && !items.includes('MODSEQ')) items.push('MODSEQ');
+        for (const message of messagesIn(selected, args[0])) {
+          if (changedSince !== undefined && message.modseq <= changedSince) continue;
+          untagged(this.fetchResponse(selected, message, items));
+        }
+        ok();
+        return;
+      }
+      case 'UID STORE': {
+        const action = String(args[1]).toUpperCase();
+        const flags = Array.isArray(args[2]) ? args[2].map(String) : [String(args[2])];
+        const messages = messagesIn(selected, args[0]);
+        for (const message of messages) {
+          if (action.startsWith('-')) for (const flag of flags) message.flags.delete(flag);
+          else if (action.startsWith('+')) for (const flag of flags) message.flags.add(flag);
+          else message.flags = new Set(flags);
+        }
+        this.changed(session.selected as string, selected, messages);
+        ok();
+        return;
+      }
+      case 'UID COPY':
+      case 'UID MOVE': {
+        const target = this.mailboxes.get(mailboxName(args[1]));
+        if (!target) {
+          no('[TRYCREATE] No such mailbox');
+          return;
+        }
+        const messages = messagesIn(selected, args[0]);
+        for (const message of messages) {
+          target.messages.push({
+            ...message,
+            flags: new Set(message.flags),
+            uid: target.uidNext++,
+            modseq: ++target.highestModseq,
+          });
+        }
+        if (command === 'UID MOVE') this.remove(session.selected as string, selected, messages);
+        ok();
+        return;
+      }
+      case 'UID EXPUNGE':
+      case 'EXPUNGE': {
+        const scope = command === 'UID EXPUNGE' ? messagesIn(selected, args[0]) : selected.messages;
+        const doomed = scope.filter((message) => message.flags.has('\\Deleted'));
+        this.remove(session.selected as string, selected, doomed);
+        ok();
+        return;
+      }
+      default:
+        socket.write(`${tag} BAD Unknown command ${command}\r\n`);
+    }
+  }
+
+  private finishSasl(session: Session, response: string): void {
+    const sasl = session.sasl as NonNullable<Session['sasl']>;
+    const { socket } = session;
+
+    // Client acknowledged the error challenge
+    if (sasl.failed) {
+      session.sasl = undefined;
+      socket.write(`${sasl.tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+      return;
+    }
+
+    const decoded = Buffer.from(response, 'base64').toString('utf-8');
+    const valid =
+      sasl.mechanism === 'PLAIN'
+        ? decoded === `\0${this.options.user}\0${this.options.pass}`
+        : decoded ===
+          `user=${this.options.user}\x01auth=Bearer ${this.options.accessToken}\x01\x01`;
+
+    if (valid) {
+      session.sasl = undefined;
+      session.authenticated = true;
+      socket.write(`${sasl.tag} OK [CAPABILITY ${this.capabilities.join(' ')}] Authenticated\r\n`);
+    } else if (sasl.mechanism === 'XOAUTH2') {
+      // XOAUTH2 reports errors as a challenge the client must answer
+      sasl.failed = true;
+      socket.write(`+ ${Buffer.from('{"status":"401"}').toString('base64')}\r\n`);
+    } else {
+      session.sasl = undefined;
+      socket.write(`${sasl.tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+    }
+  }
+
+  /**
+   * Evaluate the subset of SEARCH keys the provider sends
+   */
+  private matches(message: FakeMessage, criteria: ImapValue[]): boolean {
+    const parsed = parseMimeMessage(message.raw);
+    const contains = (haystack: string, needle: ImapValue | undefined) =>
+      haystack.toLowerCase().includes((valueToString(needle) ?? '').toLowerCase());
+    const addresses = (list: Array<{ email: string; name?: string }>) =>
+      list.map((address) => `${address.name ?? ''} <${address.email}>`).join(', ');
+
+    for (let i = 0; i < criteria.length; i++) {
+      const key = String(criteria[i]).toUpperCase();
+      const next = () => criteria[++i];
+
+      const ok = (() => {
+        switch (key) {
+          case 'ALL':
+            return true;
+          case 'CHARSET':
+            next();
+            return true;
+          case 'UNSEEN':
+            return !message.flags.has('\\Seen');
+          case 'FLAGGED':
+            return message.flags.has('\\Flagged');
+          case 'KEYWORD':
+            return message.flags.has(String(next()));
+          case 'FROM':
+            return contains(addresses(parsed.from ? [parsed.from] : []), next());
+          case 'TO':
+            return contains(addresses(parsed.to), next());
+          case 'SUBJECT':
+            return contains(parsed.subject, next());
+          case 'TEXT': {
+            const needle = next();
+            return contains(message.raw, needle) || contains(parsed.text, needle);
+          }
+          case 'HEADER': {
+            const name = String(next()).toLowerCase();
+            return contains(parsed.headers.get(name) ?? '', next());
+          }
+          case 'SINCE':
+            return message.internalDate >= parseSearchDate(String(next()));
+          case 'BEFORE':
+            return message.internalDate < parseSearchDate(String(next()));
+          default:
+            throw new Error(`Fake server does not support SEARCH ${key}`);
+        }
+      })();
+
+      if (!ok) return false;
+    }
+    return true;
+  }
+
+  private fetchResponse(mailbox: FakeMailbox, message: FakeMessage, items: string[]): Uint8Array {
+    const sequence = mailbox.messages.indexOf(message) + 1;
+    const raw = Buffer.from(message.raw);
+    const headerEnd = message.raw.indexOf('\r\n\r\n');
+    const header = Buffer.from(
+      headerEnd === -1 ? message.raw : message.raw.slice(0, headerEnd + 4),
+    );
+
+    const parts: Array<string | Uint8Array> = [];
+    const attributes: string[] = [];
+    const flush = () => {
+      if (attributes.length) parts.push(attributes.join(' '));
+      attributes.length = 0;
+    };
+
+    for (const item of items.map((value) => value.toUpperCase())) {
+      if (item === 'UID') attributes.push(`UID ${message.uid}`);
+      else if (item === 'FLAGS') attributes.push(`FLAGS (${[...message.flags].join(' ')})`);
+      else if (item === 'MODSEQ') attributes.push(`MODSEQ (${message.modseq})`);
+      else if (item === 'INTERNALDATE') {
+        attributes.push(`INTERNALDATE "${formatInternalDate(message.internalDate)}"`);
+      } else if (item === 'RFC822.SIZE') attributes.push(`RFC822.SIZE ${raw.length}`);
+      else if (item === 'BODYSTRUCTURE') {
+        attributes.push(`BODYSTRUCTURE ${bodyStructure(parseMimeTree(message.raw))}`);
+      } else if (item === 'BODY.PEEK[]' || item === 'BODY.PEEK[HEADER]') {
+        const isHeader = item.endsWith('[HEADER]');
+        const bytes = isHeader ? header : raw;
+        attributes.push(`${isHeader ? 'BODY[HEADER]' : 'BODY[]'} {${bytes.length}}\r\n`);
+        flush();
+        parts.push(bytes);
+      }
+    }
+    flush();
+
+    // Attributes after a literal need a separating space
+    const buffers = parts.map((part, index) =>
+      Buffer.from(typeof part === 'string' && index > 0 ? ` ${part}` : part),
+    );
+    return Buffer.concat([Buffer.from(`* ${sequence} FETCH (`), ...buffers, Buffer.from(')\r\n')]);
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { bodyStructureAttachments, parseBodyStructure } from './bodystructure';
+import { parseValues } from './protocol';
+
+/**
+ * Parse the BODYSTRUCTURE value from its wire form
+ */
+function structure(text: string) {
+  return parseBodyStructure(parseValues(text)[0] ?? null);
+}
+
+describe('parseBodyStructure', () => {
+  it('should parse a single-part message', () => {
+    const part = structure(
+      '("TEXT" "PLAIN" ("CHARSET" "utf-8") NIL NIL "7BIT" 42 3 NIL NIL NIL NIL)',
+    );
+
+    expect(part).toMatchObject({
+      partId: '',
+      type: 'text/plain',
+      params: { charset: 'utf-8' },
+      encoding: '7bit',
+      size: 42,
+      children: [],
+    });
+    expect(bodyStructureAttachments(part)).toEqual([]);
+  });
+
+  it('should number nested parts and find attachments', () => {
+    const part = structure(
+      '((("TEXT" "PLAIN" ("CHARSET" "utf-8") NIL NIL "7BIT" 10 1 NIL NIL NIL NIL)' +
+        '("TEXT" "HTML" ("CHARSET" "utf-8") NIL NIL "7BIT" 20 1 NIL NIL NIL NIL) "ALTERNATIVE" ("BOUNDARY" "b2") NIL NIL NIL)' +
+        '("APPLICATION" "PDF" ("NAME" "menu.pdf") NIL NIL "BASE64" 1000 NIL ("ATTACHMENT" ("FILENAME*" "utf-8\'\'men%C3%BC.pdf")) NIL NIL)' +
+        '("IMAGE" "PNG" NIL "<logo@example.com>" NIL "BASE64" 300 NIL ("INLINE" ("FILENAME" "logo.png")) NIL NIL)' +
+        ' "MIXED" ("BOUNDARY" "b1") NIL NIL NIL)',
+    );
+
+    expect(part.type).toBe('multipart/mixed');
+    expect(part.children.map((child) => child.partId)).toEqual(['1', '2', '3']);
+    expect(part.children[0]?.children.map((child) => child.partId)).toEqual(['1.1', '1.2']);
+    expect(part.children[2]?.contentId).toBe('logo@example.com');
+
+    expect(bodyStructureAttachments(part)).toEqual([
+      { id: '2', filename: 'menü.pdf', mimeType: 'application/pdf', size: 1000 },
+      { id: '3', filename: 'logo.png', mimeType: 'image/png', size: 300 },
+    ]);
+  });
+
+  it('should skip the envelope of attached messages', () => {
+    const part = structure(
+      '(("TEXT" "PLAIN" NIL NIL NIL "7BIT" 5 1 NIL NIL NIL NIL)' +
+        '("MESSAGE" "RFC822" NIL NIL NIL "7BIT" 500 (NIL "Hi" NIL NIL NIL NIL NIL NIL NIL NIL) ("TEXT" "PLAIN" NIL NIL NIL "7BIT" 2 1) 12 NIL ("ATTACHMENT" NIL) NIL NIL)' +
+        ' "MIXED" ("BOUNDARY" "b") NIL NIL NIL)',
+    );
+
+    expect(part.children[1]?.disposition).toBe('attachment');
+    expect(bodyStructureAttachments(part)).toEqual([
+      { id: '2', filename: 'message.eml', mimeType: 'message/rfc822', size: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import type { AttachmentMeta } from '@faktoor/core';
+import { decodeParameters } from '@faktoor/parser';
+import type { ImapValue } from './protocol';
+import { valueToString } from './protocol';
+
+/**
+ * One part of a parsed `BODYSTRUCTURE`
+ */
+export interface BodyPart {
+  /** IMAP part number, empty for the message itself */
+  partId: string;
+  /** Lower-cased `type/subtype` */
+  type: string;
+  params: Record<string, string>;
+  contentId?: string;
+  encoding?: string;
+  size: number;
+  disposition?: string;
+  dispositionParams: Record<string, string>;
+  children: BodyPart[];
+}
+
+/**
+ * Turn a `("name" "value" ...)` list into decoded parameters
+ */
+function toParams(value: ImapValue | undefined): Record<string, string> {
+  const raw: Record<string, string> = {};
+  if (Array.isArray(value)) {
+    for (let i = 0; i + 1 < value.length; i += 2) {
+      raw[valueToString(value[i]) ?? ''] = valueToString(value[i + 1]) ?? '';
+    }
+  }
+  return decodeParameters(raw);
+}
+
+/**
+ * Parse a disposition `("attachment" ("filename" "a.pdf"))`
+ */
+function toDisposition(
+  value: ImapValue | undefined,
+): Pick<BodyPart, 'disposition' | 'dispositionParams'> {
+  if (!Array.isArray(value)) return { dispositionParams: {} };
+  return {
+    disposition: valueToString(value[0])?.toLowerCase(),
+    dispositionParams: toParams(value[1]),
+  };
+}
+
+/**
+ * Parse a `BODYSTRUCTURE` value
+ */
+export function parseBodyStructure(value: ImapValue, partId = ''): BodyPart {
+  if (!Array.isArray(value)) {
+    return { partId, type: 'text/plain', params: {}, size: 0, dispositionParams: {}, children: [] };
+  }
+
+  // Multipart: child parts come first, then the subtype and extension data
+  if (Array.isArray(value[0])) {
+    const children: BodyPart[] = [];
+    let index = 0;
+    while (Array.isArray(value[index])) {
+      const childId = partId ? `${partId}.${index + 1}` : String(index + 1);
+      children.push(parseBodyStructure(value[index] as ImapValue, childId));
+      index++;
+    }
+    const subtype = valueToString(value[index])?.toLowerCase() ?? 'mixed';
+
+    return {
+      partId,
+      type: `multipart/${subtype}`,
+      params: toParams(value[index + 1]),
+      size: children.reduce((total, child) => total + child.size, 0),
+      ...toDisposition(value[index + 2]),
+      children,
+    };
+  }
+
+  const type =
+    `${valueToString(value[0]) ?? 'text'}/${valueToString(value[1]) ?? 'plain'}`.toLowerCase();
+  // Text parts carry a line count, message/rfc822 an envelope, body and line count
+  const extension = type.startsWith('text/') ? 8 : type === 'message/rfc822' ? 10 : 7;
+
+  return {
+    partId,
+    type,
+    params: toParams(value[2]),
+    contentId: valueToString(value[3])?.replace(/^<|>$/g, ''),
+    encoding: valueToString(value[5])?.toLowerCase(),
+    size: Number(valueToString(value[6]) ?? 0),
+    ...toDisposition(value[extension + 1]),
+    children: [],
+  };
+}
+
+/**
+ * List the attachments of a message from its body structure
+ *
+ * Uses the same rules as `parseMimeMessage`: the first plain text and HTML
+ * parts without a filename are the body, every other leaf is an attachment.
+ */
+export function bodyStructureAttachments(root: BodyPart): AttachmentMeta[] {
+  const attachments: AttachmentMeta[] = [];
+  let hasText = false;
+  let hasHtml = false;
+
+  const visit = (part: BodyPart): void => {
+    if (part.children.length) {
+      for (const child of part.children) visit(child);
+      return;
+    }
+
+    const filename = part.dispositionParams.filename ?? part.params.name;
+    const isBody = part.disposition !== 'attachment' && !filename;
+
+    if (isBody && part.type === 'text/plain' && !hasText) {
+      hasText = true;
+    } else if (isBody && part.type === 'text/html' && !hasHtml) {
+      hasHtml = true;
+    } else {
+      attachments.push({
+        id: part.partId || '1',
+        filename: filename ?? (part.type === 'message/rfc822' ? 'message.eml' : 'attachment'),
+        mimeType: part.type,
+        size: part.size,
+      });
+    }
+  };
+
+  visit(root);
+  return attachments;
+}
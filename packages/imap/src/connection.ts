@@ -0,0 +1,384 @@
+import { type Socket, connect as connectTcp } from 'node:net';
+import { type ConnectionOptions, connect as connectTls } from 'node:tls';
+import { NetworkError, ProviderError } from '@faktoor/core';
+import type { ImapArgument, ImapResponse, ImapValue } from './protocol';
+import { ImapReader, parseResponse } from './protocol';
+
+const DEFAULT_CONNECT_TIMEOUT = 30_000;
+
+// LITERAL- only allows non-synchronizing literals up to 4096 bytes
+const LITERAL_MINUS_MAX = 4096;
+
+/**
+ * Options for opening an IMAP connection
+ */
+export interface ImapConnectionOptions {
+  host: string;
+  port: number;
+  security: 'tls' | 'starttls' | 'none';
+  tls?: ConnectionOptions;
+  connectTimeout?: number;
+}
+
+/**
+ * Result of a successful command
+ */
+export interface ImapCommandResult {
+  /** Untagged responses received while the command ran */
+  responses: ImapResponse[];
+  code?: ImapValue[];
+  text: string;
+}
+
+/**
+ * Options for a single command
+ */
+export interface ImapCommandOptions {
+  /**
+   * Answer continuation requests, e.g. SASL challenges; the result is sent as
+   * a line, or nothing is sent when it is undefined
+   */
+  onContinuation?: (text: string) => string | undefined;
+}
+
+/**
+ * Server answered a command with NO or BAD
+ */
+export class ImapCommandError extends ProviderError {
+  readonly status: 'NO' | 'BAD';
+  /** Response code, e.g. `NONEXISTENT`, `AUTHENTICATIONFAILED` */
+  readonly responseCode?: string;
+
+  constructor(command: string, status: 'NO' | 'BAD', text: string, responseCode?: string) {
+    super('imap', `${command} failed: ${text || status}`, {
+      retryable: responseCode === 'UNAVAILABLE' || responseCode === 'INUSE',
+    });
+    this.name = 'ImapCommandError';
+    this.status = status;
+    this.responseCode = responseCode;
+  }
+}
+
+interface PendingCommand {
+  tag: string;
+  name: string;
+  responses: ImapResponse[];
+  options: ImapCommandOptions;
+  resolve: (result: ImapCommandResult) => void;
+  reject: (error: Error) => void;
+  continuation?: () => void;
+}
+
+/**
+ * A single IMAP connection running one command at a time
+ */
+export class ImapConnection {
+  readonly capabilities = new Set<string>();
+
+  /** Called for every untagged response, including ones outside a command */
+  onUntagged?: (response: ImapResponse) => void;
+  /** Called once when the connection closes */
+  onClose?: (error?: Error) => void;
+
+  private socket?: Socket;
+  private reader = new ImapReader();
+  private tagCounter = 0;
+  private current?: PendingCommand;
+  private queue: Promise<unknown> = Promise.resolve();
+  private greeting?: { resolve: (response: ImapResponse) => void; reject: (error: Error) => void };
+  private closed = true;
+
+  constructor(private readonly options: ImapConnectionOptions) {}
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Connect, read the greeting and upgrade with STARTTLS when configured
+   *
+   * Returns true when the server pre-authenticated the connection.
+   */
+  async open(): Promise<boolean> {
+    const { host, port, security } = this.options;
+    const timeout = this.options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+
+    const greeting = new Promise<ImapResponse>((resolve, reject) => {
+      this.greeting = { resolve, reject };
+    });
+
+    const socket =
+      security === 'tls'
+        ? connectTls({ host, port, servername: host, ...this.options.tls })
+        : connectTcp({ host, port });
+    this.attach(socket);
+    this.closed = false;
+
+    const timer = setTimeout(() => {
+      this.greeting?.reject(new NetworkError(`Timed out connecting to ${host}:${port}`));
+      this.greeting = undefined;
+      socket.destroy();
+    }, timeout);
+
+    let response: ImapResponse;
+    try {
+      response = await greeting;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.type === 'BYE') {
+      this.close();
+      throw new NetworkError(`IMAP server refused the connection: ${response.text}`);
+    }
+    this.updateCapabilities(response.code);
+
+    if (security === 'starttls') {
+      if (!this.capabilities.size) await this.command('CAPABILITY');
+      if (!this.capabilities.has('STARTTLS')) {
+        this.close();
+        throw new ProviderError('imap', `${host} does not support STARTTLS`);
+      }
+      await this.command('STARTTLS');
+      await this.upgrade();
+    }
+
+    if (!this.capabilities.size) await this.command('CAPABILITY');
+    return response.type === 'PREAUTH';
+  }
+
+  /**
+   * Run a command and wait for its tagged response
+   */
+  command(
+    name: string,
+    args: ImapArgument[] = [],
+    options: ImapCommandOptions = {},
+  ): Promise<ImapCommandResult> {
+    const run = this.queue.then(() => this.run(name, args, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run IDLE until `until` settles or the server ends it
+   *
+   * Updates arrive through `onUntagged` while idling.
+   */
+  async idle(until: Promise<unknown>): Promise<void> {
+    let entered!: () => void;
+    const idling = new Promise<void>((resolve) => {
+      entered = resolve;
+    });
+
+    let finished = false;
+    const result = this.command('IDLE', [], {
+      onContinuation: () => {
+        entered();
+        return undefined;
+      },
+    }).finally(() => {
+      finished = true;
+    });
+
+    // Rejects when the server refuses IDLE or the connection drops
+    await Promise.race([idling, result]);
+    await Promise.race([until, result]);
+    if (!finished) this.socket?.write('DONE\r\n');
+    await result;
+  }
+
+  /**
+   * Re-read capabilities from a response code or the CAPABILITY command
+   */
+  async refreshCapabilities(code?: ImapValue[]): Promise<void> {
+    if (!this.updateCapabilities(code)) {
+      await this.command('CAPABILITY');
+    }
+  }
+
+  /**
+   * Close the socket without logging out
+   */
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private run(
+    name: string,
+    args: ImapArgument[],
+    options: ImapCommandOptions,
+  ): Promise<ImapCommandResult> {
+    const socket = this.socket;
+    if (this.closed || !socket) {
+      return Promise.reject(new NetworkError('IMAP connection is closed'));
+    }
+
+    const tag = `A${++this.tagCounter}`;
+    const result = new Promise<ImapCommandResult>((resolve, reject) => {
+      this.current = { tag, name, responses: [], options, resolve, reject };
+    });
+
+    this.write(socket, tag, name, args).catch((error: Error) => {
+      this.current?.reject(error);
+    });
+    return result;
+  }
+
+  private async write(socket: Socket, tag: string, name: string, args: ImapArgument[]) {
+    let line = `${tag} ${name}`;
+
+    for (const arg of args) {
+      if (typeof arg === 'string') {
+        line += ` ${arg}`;
+        continue;
+      }
+
+      const size = arg.literal.length;
+      const synchronizing = !(
+        this.capabilities.has('LITERAL+') ||
+        (this.capabilities.has('LITERAL-') && size <= LITERAL_MINUS_MAX)
+      );
+      socket.write(`${line} {${size}${synchronizing ? '' : '+'}}\r\n`);
+      if (synchronizing) {
+        await new Promise<void>((resolve) => {
+          if (this.current) this.current.continuation = resolve;
+        });
+      }
+      socket.write(arg.literal);
+      line = '';
+    }
+
+    socket.write(`${line}\r\n`);
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    this.reader = new ImapReader();
+
+    socket.on('data', (chunk: Uint8Array) => {
+      // Ignore data from a socket replaced by STARTTLS
+      if (this.socket !== socket) return;
+      try {
+        for (const line of this.reader.push(chunk)) {
+          this.handle(parseResponse(line));
+        }
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+
+    let cause: Error | undefined;
+    socket.on('error', (error) => {
+      // Reported through 'close'
+      cause = error;
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.closed = true;
+      const error = new NetworkError(
+        cause ? `IMAP connection closed: ${cause.message}` : 'IMAP connection closed',
+        cause,
+      );
+      this.greeting?.reject(error);
+      this.greeting = undefined;
+      this.current?.reject(error);
+      this.current = undefined;
+      this.onClose?.(error);
+    });
+  }
+
+  private handle(response: ImapResponse): void {
+    if (this.greeting) {
+      this.greeting.resolve(response);
+      this.greeting = undefined;
+      return;
+    }
+
+    const current = this.current;
+
+    if (response.tag === '+') {
+      if (current?.continuation) {
+        const resume = current.continuation;
+        current.continuation = undefined;
+        resume();
+      } else if (current) {
+        const answer = current.options.onContinuation
+          ? current.options.onContinuation(response.text)
+          : '';
+        if (answer !== undefined) this.socket?.write(`${answer}\r\n`);
+      }
+      return;
+    }
+
+    if (response.tag === '*') {
+      if (response.type === 'CAPABILITY') {
+        this.capabilities.clear();
+        for (const value of response.values) this.capabilities.add(String(value).toUpperCase());
+      } else {
+        this.updateCapabilities(response.code);
+      }
+      current?.responses.push(response);
+      this.onUntagged?.(response);
+      return;
+    }
+
+    if (!current || response.tag !== current.tag) return;
+    this.current = undefined;
+
+    if (response.type === 'OK') {
+      current.resolve({ responses: current.responses, code: response.code, text: response.text });
+    } else {
+      const code =
+        typeof response.code?.[0] === 'string' ? response.code[0].toUpperCase() : undefined;
+      current.reject(
+        new ImapCommandError(
+          current.name,
+          response.type === 'NO' ? 'NO' : 'BAD',
+          response.text,
+          code,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Update capabilities from a `[CAPABILITY ...]` response code
+   */
+  private updateCapabilities(code?: ImapValue[]): boolean {
+    if (typeof code?.[0] !== 'string' || code[0].toUpperCase() !== 'CAPABILITY') return false;
+    this.capabilities.clear();
+    for (const value of code.slice(1)) this.capabilities.add(String(value).toUpperCase());
+    return true;
+  }
+
+  /**
+   * Wrap the plain socket in TLS after STARTTLS
+   */
+  private async upgrade(): Promise<void> {
+    const plain = this.socket as Socket;
+    const { host } = this.options;
+
+    // From here on the TLS socket reads from the plain one
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+
+    try {
+      const secure = await new Promise<Socket>((resolve, reject) => {
+        const socket = connectTls({ socket: plain, servername: host, ...this.options.tls }, () =>
+          resolve(socket),
+        );
+        socket.once('error', reject);
+      });
+
+      // Capabilities must be discarded after STARTTLS
+      this.capabilities.clear();
+      this.attach(secure);
+    } catch (error) {
+      this.closed = true;
+      plain.destroy();
+      throw new NetworkError(`STARTTLS negotiation with ${host} failed`, error as Error);
+    }
+  }
+}
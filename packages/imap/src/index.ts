@@ -0,0 +1,21 @@
+// Provider
+export { imap, ImapProvider } from './provider';
+
+// Connection
+export { ImapCommandError } from './connection';
+
+// Types
+export type { ImapEmail, ImapOAuthAuth, ImapOptions, ImapPasswordAuth } from './types';
+
+// Re-export core types for convenience
+export type {
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  ListOptions,
+  ListPage,
+  SendOptions,
+  GetOptions,
+  MailProvider,
+} from '@faktoor/core';
@@ -0,0 +1,44 @@
+import type { ImapConnection } from './connection';
+import { parseImapMessage } from './parser';
+import type { ImapArgument } from './protocol';
+import { formatSequenceSet, quote, toAttributeMap } from './protocol';
+import type { ImapEmail } from './types';
+import { encodeMailboxName } from './utf7';
+
+export const FULL_ITEMS = '(UID FLAGS INTERNALDATE RFC822.SIZE BODYSTRUCTURE BODY.PEEK[])';
+export const METADATA_ITEMS =
+  '(UID FLAGS INTERNALDATE RFC822.SIZE BODYSTRUCTURE BODY.PEEK[HEADER])';
+
+/**
+ * Quote a mailbox name for a command
+ */
+export function mailboxArgument(name: string): ImapArgument {
+  return quote(name.toUpperCase() === 'INBOX' ? 'INBOX' : encodeMailboxName(name));
+}
+
+/**
+ * Fetch messages from the selected mailbox, in the order of `uids`
+ */
+export async function fetchEmails(
+  connection: ImapConnection,
+  mailbox: string,
+  uids: number[],
+  items: string,
+  includeRaw = false,
+): Promise<ImapEmail[]> {
+  if (!uids.length) return [];
+
+  const result = await connection.command('UID FETCH', [formatSequenceSet(uids), items]);
+
+  const byUid = new Map<number, ImapEmail>();
+  for (const response of result.responses) {
+    if (response.type !== 'FETCH' || !Array.isArray(response.values[0])) continue;
+    const attributes = toAttributeMap(response.values[0]);
+    // Unsolicited FETCH responses (e.g. flag updates) carry no message
+    if (!attributes.has('BODY[]') && !attributes.has('BODY[HEADER]')) continue;
+    const email = parseImapMessage(mailbox, attributes, { includeRaw });
+    byUid.set(email.uid, email);
+  }
+
+  return uids.flatMap((uid) => byUid.get(uid) ?? []);
+}
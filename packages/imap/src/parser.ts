@@ -0,0 +1,180 @@
+import type { EmailId, Folder, FolderName, ThreadId } from '@faktoor/core';
+import { parseEmailDate, parseMimeMessage } from '@faktoor/parser';
+import { bodyStructureAttachments, parseBodyStructure } from './bodystructure';
+import type { ImapResponse, ImapValue } from './protocol';
+import { valueToString } from './protocol';
+import type { ImapEmail } from './types';
+import { decodeMailboxName } from './utf7';
+
+/**
+ * Mailbox from a LIST response
+ */
+export interface ImapMailbox {
+  /** Decoded mailbox name */
+  name: string;
+  delimiter?: string;
+  /** Mailbox attributes, e.g. `\HasNoChildren`, `\Sent` */
+  flags: string[];
+}
+
+type FolderType = Folder['type'];
+
+// RFC 6154 special-use attributes by folder type
+const SPECIAL_USE: Record<string, FolderType> = {
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\trash': 'trash',
+  '\\junk': 'spam',
+  '\\archive': 'archive',
+};
+
+// Names used by servers that don't advertise special-use attributes
+const COMMON_NAMES: Record<string, FolderType> = {
+  sent: 'sent',
+  'sent items': 'sent',
+  'sent messages': 'sent',
+  'sent mail': 'sent',
+  drafts: 'drafts',
+  trash: 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  junk: 'spam',
+  spam: 'spam',
+  'junk e-mail': 'spam',
+  archive: 'archive',
+};
+
+/**
+ * Parse a `LIST` response: `(attributes) delimiter name`
+ */
+export function parseListResponse(response: ImapResponse): ImapMailbox {
+  const [flags, delimiter, name] = response.values;
+  return {
+    name: decodeMailboxName(valueToString(name) ?? ''),
+    delimiter: valueToString(delimiter),
+    flags: Array.isArray(flags) ? flags.map(String) : [],
+  };
+}
+
+/**
+ * Work out the folder type from special-use attributes, falling back to common names
+ */
+export function mailboxType(mailbox: ImapMailbox): FolderType {
+  if (mailbox.name.toUpperCase() === 'INBOX') return 'inbox';
+
+  for (const flag of mailbox.flags) {
+    const type = SPECIAL_USE[flag.toLowerCase()];
+    if (type) return type;
+  }
+
+  const leaf = mailbox.delimiter ? mailbox.name.split(mailbox.delimiter).pop() : mailbox.name;
+  return COMMON_NAMES[(leaf ?? '').toLowerCase()] ?? 'custom';
+}
+
+/**
+ * Map a mailbox and its STATUS counts to a folder
+ */
+export function mailboxToFolder(
+  mailbox: ImapMailbox,
+  status: { messages?: number; unseen?: number } = {},
+): Folder {
+  return {
+    name: mailbox.name as FolderName,
+    path: mailbox.name,
+    type: mailboxType(mailbox),
+    totalCount: status.messages ?? 0,
+    unreadCount: status.unseen ?? 0,
+  };
+}
+
+/**
+ * Build the email id for a message: `<mailbox>:<uid>`
+ */
+export function toEmailId(mailbox: string, uid: number): EmailId {
+  return `${mailbox}:${uid}` as EmailId;
+}
+
+/**
+ * Split an email id into its mailbox and UID
+ */
+export function parseEmailId(id: string): { mailbox: string; uid: number } | undefined {
+  const separator = id.lastIndexOf(':');
+  const uid = Number(id.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(uid) || uid <= 0) return undefined;
+  return { mailbox: id.slice(0, separator), uid };
+}
+
+/**
+ * Parse an INTERNALDATE, e.g. `17-Jul-1996 02:44:25 -0700`
+ */
+export function parseInternalDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  return parseEmailDate(value.trim().replace(/^(\d{1,2})-(\w{3})-(\d{4})/, '$1 $2 $3'));
+}
+
+/**
+ * Convert the attributes of a `FETCH` response to an email
+ *
+ * Works with both the full message (`BODY[]`) and headers only (`BODY[HEADER]`).
+ */
+export function parseImapMessage(
+  mailbox: string,
+  attributes: Map<string, ImapValue>,
+  options: { includeRaw?: boolean } = {},
+): ImapEmail {
+  const uid = Number(valueToString(attributes.get('UID')));
+  const flagValues = attributes.get('FLAGS');
+  const flags = Array.isArray(flagValues) ? flagValues.map(String) : [];
+
+  const source = attributes.get('BODY[]') ?? attributes.get('BODY[HEADER]');
+  const raw =
+    source instanceof Uint8Array ? source : new TextEncoder().encode(valueToString(source) ?? '');
+  const message = parseMimeMessage(raw);
+  const hasBody = attributes.has('BODY[]');
+
+  const structure = attributes.get('BODYSTRUCTURE');
+  const attachments =
+    structure !== undefined
+      ? bodyStructureAttachments(parseBodyStructure(structure))
+      : message.attachments.map(({ partId, filename, mimeType, size }) => ({
+          id: partId,
+          filename,
+          mimeType,
+          size,
+        }));
+
+  const id = toEmailId(mailbox, uid);
+  const receivedAt = parseInternalDate(valueToString(attributes.get('INTERNALDATE')));
+  const date = message.date ?? receivedAt ?? new Date();
+
+  // IMAP has no thread ids: group by the first message of the reference chain
+  const threadId = message.references[0] ?? message.inReplyTo ?? message.messageId ?? id;
+
+  return {
+    id,
+    threadId: threadId as ThreadId,
+    folder: mailbox as FolderName,
+    from: message.from ?? { email: '' },
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    body: hasBody ? { text: message.text, html: message.html } : { text: '', html: null },
+    date,
+    receivedAt: receivedAt ?? date,
+    isRead: flags.includes('\\Seen'),
+    isStarred: flags.includes('\\Flagged'),
+    isDraft: flags.includes('\\Draft'),
+    labels: flags
+      .filter((flag) => !flag.startsWith('\\'))
+      .map((flag) => ({ id: flag, name: flag })),
+    attachments,
+    headers: message.headers,
+    raw: options.includeRaw && hasBody ? new TextDecoder().decode(raw) : undefined,
+    mailbox,
+    uid,
+    flags,
+    size: Number(valueToString(attributes.get('RFC822.SIZE')) ?? raw.length),
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ImapReader,
+  formatSequenceSet,
+  parseResponse,
+  parseSequenceSet,
+  parseValues,
+  quote,
+  toAttributeMap,
+} from './protocol';
+
+const encoder = new TextEncoder();
+
+/**
+ * Feed text to a reader and parse every complete line
+ */
+function read(text: string) {
+  return new ImapReader().push(encoder.encode(text)).map(parseResponse);
+}
+
+describe('ImapReader', () => {
+  it('should wait for complete lines', () => {
+    const reader = new ImapReader();
+
+    expect(reader.push(encoder.encode('* OK partial'))).toEqual([]);
+    expect(reader.push(encoder.encode(' line\r\n'))).toEqual([
+      { segments: ['* OK partial line'], literals: [] },
+    ]);
+  });
+
+  it('should collect literals split across chunks', () => {
+    const onLiteral = vi.fn();
+    const reader = new ImapReader(onLiteral);
+
+    expect(reader.push(encoder.encode('* 1 FETCH (BODY[] {5}\r\nhel'))).toEqual([]);
+    const [line] = reader.push(encoder.encode('lo)\r\n'));
+
+    expect(onLiteral).toHaveBeenCalledWith(5);
+    expect(line?.segments).toEqual(['* 1 FETCH (BODY[] ', ')']);
+    expect(new TextDecoder().decode(line?.literals[0])).toBe('hello');
+  });
+
+  it('should count literal sizes in bytes', () => {
+    const [response] = read('* 1 FETCH (BODY[] {2}\r\né)\r\n');
+    const attributes = toAttributeMap(response?.values[0] as never);
+
+    expect(new TextDecoder().decode(attributes.get('BODY[]') as Uint8Array)).toBe('é');
+  });
+});
+
+describe('parseResponse', () => {
+  it('should parse status responses with codes', () => {
+    const [response] = read('A1 OK [CAPABILITY IMAP4rev1 MOVE] Logged in\r\n');
+
+    expect(response).toMatchObject({
+      tag: 'A1',
+      type: 'OK',
+      code: ['CAPABILITY', 'IMAP4rev1', 'MOVE'],
+      text: 'Logged in',
+    });
+  });
+
+  it('should parse numbered responses', () => {
+    const [response] = read('* 23 EXISTS\r\n');
+
+    expect(response).toMatchObject({ tag: '*', type: 'EXISTS', number: 23 });
+  });
+
+  it('should parse continuation requests', () => {
+    const [response] = read('+ Ready\r\n');
+
+    expect(response).toMatchObject({ tag: '+', text: 'Ready' });
+  });
+
+  it('should parse nested lists, quoted strings and NIL', () => {
+    const [response] = read('* LIST (\\HasNoChildren \\Sent) "/" "Sent \\"Items\\""\r\n');
+
+    expect(response?.values).toEqual([['\\HasNoChildren', '\\Sent'], '/', 'Sent "Items"']);
+    expect(read('* LIST () NIL INBOX\r\n')[0]?.values).toEqual([[], null, 'INBOX']);
+  });
+
+  it('should keep section specifiers as one atom', () => {
+    const values = parseValues('(BODY[HEADER.FIELDS (FROM TO)] "x" UID 4)');
+
+    expect(toAttributeMap(values[0] as never)).toEqual(
+      new Map([
+        ['BODY[HEADER.FIELDS (FROM TO)]', 'x'],
+        ['UID', '4'],
+      ]),
+    );
+  });
+});
+
+describe('quote', () => {
+  it('should quote and escape ASCII text', () => {
+    expect(quote('say "hi" \\o/')).toBe('"say \\"hi\\" \\\\o/"');
+  });
+
+  it('should send 8-bit text as a literal', () => {
+    expect(quote('café')).toEqual({ literal: encoder.encode('café') });
+  });
+});
+
+describe('sequence sets', () => {
+  it('should compress UIDs into ranges', () => {
+    expect(formatSequenceSet([7, 1, 2, 3, 9, 10])).toBe('1:3,7,9:10');
+  });
+
+  it('should expand ranges', () => {
+    expect(parseSequenceSet('1:3,7,9:*', 10)).toEqual([1, 2, 3, 7, 9, 10]);
+  });
+});
@@ -0,0 +1,363 @@
+import { ProviderError } from '@faktoor/core';
+
+/**
+ * Value of an IMAP response: atom or string, literal bytes, NIL or a parenthesized list
+ */
+export type ImapValue = string | Uint8Array | null | ImapValue[];
+
+/**
+ * One line received from the server together with the literals it carries
+ *
+ * `literals[i]` directly follows `segments[i]`.
+ */
+export interface ImapLine {
+  segments: string[];
+  literals: Uint8Array[];
+}
+
+/**
+ * Parsed server response
+ */
+export interface ImapResponse {
+  /** `*` for untagged data, `+` for continuation requests, otherwise the command tag */
+  tag: string;
+  /** Upper-cased response type, e.g. `OK`, `CAPABILITY`, `FETCH`, `EXISTS` */
+  type: string;
+  /** Message number of `EXISTS`, `EXPUNGE` and `FETCH` responses */
+  number?: number;
+  /** Bracketed response code of status responses, e.g. `['UIDVALIDITY', '42']` */
+  code?: ImapValue[];
+  /** Human-readable text of status and continuation responses */
+  text: string;
+  /** Data of non-status responses */
+  values: ImapValue[];
+}
+
+/**
+ * Literal argument sent as raw bytes
+ */
+export interface ImapLiteral {
+  literal: Uint8Array;
+}
+
+/**
+ * Command argument: pre-formatted text or a literal
+ */
+export type ImapArgument = string | ImapLiteral;
+
+const STATUS_TYPES = new Set(['OK', 'NO', 'BAD', 'BYE', 'PREAUTH']);
+
+/**
+ * Splits the byte stream into lines, collecting literals along the way
+ */
+export class ImapReader {
+  private buffer = new Uint8Array(0);
+  private segments: string[] = [];
+  private literals: Uint8Array[] = [];
+  private pendingLiteral?: number;
+  private readonly decoder = new TextDecoder();
+
+  /**
+   * @param onLiteral Called when a synchronizing literal is announced, so a
+   *   server can send its continuation request
+   */
+  constructor(private readonly onLiteral?: (size: number) => void) {}
+
+  push(chunk: Uint8Array): ImapLine[] {
+    const buffer = new Uint8Array(this.buffer.length + chunk.length);
+    buffer.set(this.buffer);
+    buffer.set(chunk, this.buffer.length);
+    this.buffer = buffer;
+
+    const lines: ImapLine[] = [];
+    for (;;) {
+      if (this.pendingLiteral !== undefined) {
+        if (this.buffer.length < this.pendingLiteral) break;
+        this.literals.push(this.buffer.slice(0, this.pendingLiteral));
+        this.buffer = this.buffer.subarray(this.pendingLiteral);
+        this.pendingLiteral = undefined;
+        continue;
+      }
+
+      const newline = this.buffer.indexOf(0x0a);
+      if (newline === -1) break;
+      const end = this.buffer[newline - 1] === 0x0d ? newline - 1 : newline;
+      const text = this.decoder.decode(this.buffer.subarray(0, end));
+      this.buffer = this.buffer.subarray(newline + 1);
+
+      const literal = /\{(\d+)(\+)?\}$/.exec(text);
+      if (literal) {
+        this.segments.push(text.slice(0, -literal[0].length));
+        this.pendingLiteral = Number(literal[1]);
+        if (!literal[2]) this.onLiteral?.(this.pendingLiteral);
+        continue;
+      }
+
+      this.segments.push(text);
+      lines.push({ segments: this.segments, literals: this.literals });
+      this.segments = [];
+      this.literals = [];
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Reads values from a line
+ */
+export class ImapTokenizer {
+  private segment = 0;
+  private position = 0;
+
+  constructor(private readonly line: ImapLine) {}
+
+  private get text(): string {
+    return this.line.segments[this.segment] ?? '';
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.position] === ' ') this.position++;
+  }
+
+  private hasLiteral(): boolean {
+    return this.position >= this.text.length && this.segment < this.line.literals.length;
+  }
+
+  atEnd(): boolean {
+    this.skipSpaces();
+    return this.position >= this.text.length && !this.hasLiteral();
+  }
+
+  /**
+   * Peek at the next character of the current segment
+   */
+  peek(): string | undefined {
+    this.skipSpaces();
+    return this.text[this.position];
+  }
+
+  /**
+   * Return the rest of the current segment as free text
+   */
+  rest(): string {
+    this.skipSpaces();
+    const rest = this.text.slice(this.position);
+    this.position = this.text.length;
+    return rest;
+  }
+
+  /**
+   * Read a bracketed response code, without the brackets
+   */
+  readCode(): string {
+    const text = this.text;
+    let depth = 0;
+    let quoted = false;
+
+    for (let i = this.position; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '\\') i++;
+        else if (char === '"') quoted = false;
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']' && --depth === 0) {
+        const code = text.slice(this.position + 1, i);
+        this.position = i + 1;
+        return code;
+      }
+    }
+
+    throw this.error('Unterminated response code');
+  }
+
+  readValue(): ImapValue {
+    this.skipSpaces();
+
+    if (this.hasLiteral()) {
+      const literal = this.line.literals[this.segment] as Uint8Array;
+      this.segment++;
+      this.position = 0;
+      return literal;
+    }
+
+    const char = this.text[this.position];
+    if (char === undefined) throw this.error('Unexpected end of response');
+    if (char === '(') return this.readList();
+    if (char === '"') return this.readQuoted();
+    if (char === ')') throw this.error('Unexpected )');
+
+    const atom = this.readAtom();
+    return atom.toUpperCase() === 'NIL' ? null : atom;
+  }
+
+  private readList(): ImapValue[] {
+    const items: ImapValue[] = [];
+    this.position++;
+
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.position] === ')') {
+        this.position++;
+        return items;
+      }
+      if (this.atEnd()) throw this.error('Unterminated list');
+      items.push(this.readValue());
+    }
+  }
+
+  private readQuoted(): string {
+    const text = this.text;
+    let value = '';
+
+    for (let i = this.position + 1; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        value += text[++i] ?? '';
+      } else if (char === '"') {
+        this.position = i + 1;
+        return value;
+      } else {
+        value += char;
+      }
+    }
+
+    throw this.error('Unterminated quoted string');
+  }
+
+  /**
+   * Read an atom; brackets are kept as part of it, e.g. `BODY[HEADER.FIELDS (FROM)]`
+   */
+  private readAtom(): string {
+    const text = this.text;
+    const start = this.position;
+    let depth = 0;
+
+    while (this.position < text.length) {
+      const char = text[this.position] as string;
+      if (char === '[') depth++;
+      else if (char === ']') depth = Math.max(0, depth - 1);
+      else if (depth === 0 && (char === ' ' || char === '(' || char === ')')) break;
+      this.position++;
+    }
+
+    return text.slice(start, this.position);
+  }
+
+  private error(message: string): ProviderError {
+    return new ProviderError('imap', `${message}: ${this.line.segments.join('{…}')}`);
+  }
+}
+
+/**
+ * Parse a line received from the server
+ */
+export function parseResponse(line: ImapLine): ImapResponse {
+  const tokenizer = new ImapTokenizer(line);
+  const tag = String(tokenizer.readValue());
+
+  if (tag === '+') {
+    return { tag, type: '', text: tokenizer.rest(), values: [] };
+  }
+
+  let type = String(tokenizer.readValue()).toUpperCase();
+  let number: number | undefined;
+  if (/^\d+$/.test(type)) {
+    number = Number(type);
+    type = String(tokenizer.readValue()).toUpperCase();
+  }
+
+  if (STATUS_TYPES.has(type)) {
+    let code: ImapValue[] | undefined;
+    if (tokenizer.peek() === '[') {
+      code = parseValues(tokenizer.readCode());
+    }
+    return { tag, type, number, code, text: tokenizer.rest(), values: [] };
+  }
+
+  const values: ImapValue[] = [];
+  while (!tokenizer.atEnd()) {
+    values.push(tokenizer.readValue());
+  }
+  return { tag, type, number, text: '', values };
+}
+
+/**
+ * Parse a space-separated run of values, e.g. a command's arguments
+ */
+export function parseValues(text: string): ImapValue[] {
+  const tokenizer = new ImapTokenizer({ segments: [text], literals: [] });
+  const values: ImapValue[] = [];
+  while (!tokenizer.atEnd()) {
+    values.push(tokenizer.readValue());
+  }
+  return values;
+}
+
+/**
+ * Read a value as text, decoding literals as UTF-8
+ */
+export function valueToString(value: ImapValue | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  return undefined;
+}
+
+/**
+ * Turn a `FETCH` attribute list into a map keyed by upper-cased attribute name
+ */
+export function toAttributeMap(values: ImapValue[]): Map<string, ImapValue> {
+  const map = new Map<string, ImapValue>();
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    map.set(String(values[i]).toUpperCase(), values[i + 1] as ImapValue);
+  }
+  return map;
+}
+
+/**
+ * Quote a string argument, falling back to a literal for 8-bit or multi-line text
+ */
+export function quote(value: string): ImapArgument {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: quoted strings must be 7-bit text
+  if (/^[\x01-\x09\x0b\x0c\x0e-\x7f]*$/.test(value)) {
+    return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return { literal: new TextEncoder().encode(value) };
+}
+
+/**
+ * Format UIDs as a compact sequence set, e.g. `1:3,7`
+ */
+export function formatSequenceSet(uids: number[]): string {
+  const sorted = [...new Set(uids)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i] as number;
+    let end = start;
+    while (sorted[i + 1] === end + 1) {
+      end++;
+      i++;
+    }
+    ranges.push(start === end ? String(start) : `${start}:${end}`);
+  }
+
+  return ranges.join(',');
+}
+
+/**
+ * Expand a sequence set into numbers; `*` is replaced with `max`
+ */
+export function parseSequenceSet(set: string, max = 0): number[] {
+  const numbers: number[] = [];
+  for (const range of set.split(',')) {
+    const [first = '', last = first] = range.split(':');
+    const from = first === '*' ? max : Number(first);
+    const to = last === '*' ? max : Number(last);
+    for (let n = Math.min(from, to); n <= Math.max(from, to); n++) numbers.push(n);
+  }
+  return numbers;
+}
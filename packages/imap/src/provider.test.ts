@@ -0,0 +1,330 @@
+import {
+  AuthenticationError,
+  NotFoundError,
+  UnsupportedOperationError,
+  ValidationError,
+} from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeImapServer } from './__fixtures__/fake-server';
+import { ImapProvider } from './provider';
+import type { ImapOptions } from './types';
+
+/**
+ * Build a simple RFC 5322 message
+ */
+function message(subject: string, options: { from?: string; body?: string } = {}): string {
+  return [
+    `From: ${options.from ?? 'Alice <alice@example.com>'}`,
+    'To: bob@example.com',
+    `Subject: ${subject}`,
+    'Date: Tue, 02 Jan 2024 10:00:00 +0000',
+    `Message-ID: <${subject.replace(/\W/g, '')}@example.com>`,
+    '',
+    options.body ?? `Body of ${subject}`,
+  ].join('\r\n');
+}
+
+const withAttachment = [
+  'From: Alice <alice@example.com>',
+  'To: bob@example.com',
+  'Subject: Invoice',
+  'Message-ID: <invoice@example.com>',
+  'In-Reply-To: <order@example.com>',
+  'References: <order@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'See attached',
+  '--b1',
+  'Content-Type: application/pdf; name="invoice.pdf"',
+  'Content-Disposition: attachment; filename="invoice.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0=',
+  '--b1--',
+  '',
+].join('\r\n');
+
+describe('ImapProvider', () => {
+  let server: FakeImapServer;
+  let provider: ImapProvider;
+
+  const createProvider = async (
+    overrides: Partial<ImapOptions> = {},
+    serverOptions: ConstructorParameters<typeof FakeImapServer>[0] = {},
+  ) => {
+    server = new FakeImapServer({
+      user: 'bob',
+      pass: 'secret',
+      accessToken: 'token',
+      ...serverOptions,
+    });
+    const port = await server.start();
+    provider = new ImapProvider({
+      host: '127.0.0.1',
+      port,
+      security: 'none',
+      auth: { user: 'bob', pass: 'secret' },
+      ...overrides,
+    });
+    return provider;
+  };
+
+  afterEach(async () => {
+    await provider?.disconnect();
+    await server?.stop();
+  });
+
+  describe('authentication', () => {
+    it('should authenticate with AUTHENTICATE PLAIN and SASL-IR', async () => {
+      await createProvider();
+      await provider.connect();
+
+      expect(provider.isConnected()).toBe(true);
+      expect(server.commands).toContainEqual(expect.stringMatching(/^AUTHENTICATE PLAIN \S+$/));
+    });
+
+    it('should send the initial response after a continuation without SASL-IR', async () => {
+      await createProvider({}, { capabilities: ['IMAP4rev1', 'AUTH=PLAIN'] });
+      await provider.connect();
+
+      expect(server.commands).toContain('AUTHENTICATE PLAIN');
+    });
+
+    it('should fall back to LOGIN', async () => {
+      await createProvider({}, { capabilities: ['IMAP4rev1'] });
+      await provider.connect();
+
+      expect(server.commands).toContain('LOGIN "bob" "secret"');
+    });
+
+    it('should authenticate with XOAUTH2', async () => {
+      await createProvider({ auth: { user: 'bob', accessToken: 'token' } });
+      await provider.connect();
+
+      expect(server.commands).toContainEqual(expect.stringMatching(/^AUTHENTICATE XOAUTH2 \S+$/));
+    });
+
+    it('should throw AuthenticationError for rejected credentials', async () => {
+      await createProvider({ auth: { user: 'bob', pass: 'wrong', method: 'LOGIN' } });
+
+      await expect(provider.connect()).rejects.toThrow(AuthenticationError);
+      expect(provider.isConnected()).toBe(false);
+    });
+
+    it('should answer the XOAUTH2 error challenge and report the failure', async () => {
+      await createProvider({ auth: { user: 'bob', accessToken: 'expired' } });
+
+      await expect(provider.connect()).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should refuse STARTTLS when the server does not offer it', async () => {
+      await createProvider({ security: 'starttls' });
+
+      await expect(provider.connect()).rejects.toThrow(/does not support STARTTLS/);
+    });
+  });
+
+  describe('reading', () => {
+    beforeEach(async () => {
+      await createProvider();
+      server.addMessage('INBOX', message('First'), {
+        flags: ['\\Seen'],
+        internalDate: new Date('2024-01-02T10:00:05Z'),
+      });
+      server.addMessage('INBOX', message('Second'), { flags: ['\\Flagged', '$Work'] });
+      server.addMessage('INBOX', withAttachment);
+    });
+
+    it('should list newest messages first with flags mapped', async () => {
+      const emails = await provider.list();
+
+      expect(emails.map((email) => email.subject)).toEqual(['Invoice', 'Second', 'First']);
+      expect(emails.map((email) => email.id)).toEqual(['INBOX:3', 'INBOX:2', 'INBOX:1']);
+      expect(emails[2]).toMatchObject({ isRead: true, isStarred: false, folder: 'INBOX' });
+      expect(emails[1]).toMatchObject({
+        isRead: false,
+        isStarred: true,
+        labels: [{ id: '$Work', name: '$Work' }],
+      });
+      expect(emails[2]?.receivedAt.toISOString()).toBe('2024-01-02T10:00:05.000Z');
+    });
+
+    it('should fetch through BODYSTRUCTURE and BODY.PEEK[]', async () => {
+      const email = await provider.get('INBOX:3');
+
+      expect(server.commands).toContain(
+        'UID FETCH 3 (UID FLAGS INTERNALDATE RFC822.SIZE BODYSTRUCTURE BODY.PEEK[])',
+      );
+      expect(email.from).toEqual({ email: 'alice@example.com', name: 'Alice' });
+      expect(email.body.text).toBe('See attached');
+      expect(email.attachments).toEqual([
+        { id: '2', filename: 'invoice.pdf', mimeType: 'application/pdf', size: 8 },
+      ]);
+      expect(email.threadId).toBe('order@example.com');
+      expect(email.isRead).toBe(false);
+    });
+
+    it('should fetch only headers for the metadata format', async () => {
+      const email = await provider.get('INBOX:1', { format: 'metadata' });
+
+      expect(email.subject).toBe('First');
+      expect(email.body).toEqual({ text: '', html: null });
+    });
+
+    it('should map list options to UID SEARCH', async () => {
+      const emails = await provider.list({ unreadOnly: true, from: 'alice' });
+
+      expect(server.commands).toContain('UID SEARCH UNSEEN FROM "alice"');
+      expect(emails.map((email) => email.id)).toEqual(['INBOX:3', 'INBOX:2']);
+    });
+
+    it('should page with a cursor', async () => {
+      const first = await provider.listPage({ limit: 2 });
+      const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+
+      expect(first.emails.map((email) => email.id)).toEqual(['INBOX:3', 'INBOX:2']);
+      expect(first.totalEstimate).toBe(3);
+      expect(second.emails.map((email) => email.id)).toEqual(['INBOX:1']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should stream in batches', async () => {
+      const ids: string[] = [];
+      for await (const email of provider.stream({ batchSize: 2 })) ids.push(email.id);
+
+      expect(ids).toEqual(['INBOX:3', 'INBOX:2', 'INBOX:1']);
+      expect(server.commands.filter((command) => command.startsWith('UID FETCH'))).toHaveLength(2);
+    });
+
+    it('should throw NotFoundError for unknown messages and mailboxes', async () => {
+      await expect(provider.get('INBOX:99')).rejects.toThrow(NotFoundError);
+      await expect(provider.get('Missing:1')).rejects.toThrow(NotFoundError);
+      await expect(provider.get('not-an-id')).rejects.toThrow(ValidationError);
+    });
+
+    it('should drop the connection when a call is aborted', async () => {
+      server.stall = 'UID FETCH';
+      const controller = new AbortController();
+
+      const stuck = provider.get('INBOX:3', { signal: controller.signal });
+      await vi.waitFor(() => expect(server.stall).toBeUndefined());
+      controller.abort(new Error('Timed out'));
+
+      await expect(stuck).rejects.toThrow('Timed out');
+      expect((await provider.get('INBOX:3')).subject).toBe('Invoice');
+      expect(server.commands.filter((command) => command.startsWith('AUTHENTICATE'))).toHaveLength(
+        2,
+      );
+    });
+
+    it('should connect on first use', async () => {
+      expect(provider.isConnected()).toBe(false);
+      await provider.list();
+      expect(provider.isConnected()).toBe(true);
+    });
+  });
+
+  describe('flags and folders', () => {
+    beforeEach(async () => {
+      await createProvider();
+      server.addMailbox('Archive', ['\\HasNoChildren', '\\Archive']);
+      server.addMailbox('Deleted Items', ['\\HasNoChildren', '\\Trash']);
+      server.addMessage('INBOX', message('Hello'));
+    });
+
+    it('should map read and star state to \\Seen and \\Flagged', async () => {
+      await provider.markAsRead('INBOX:1');
+      await provider.star('INBOX:1');
+      await provider.addLabel('INBOX:1', '$Work');
+
+      expect([...(server.mailboxes.get('INBOX')?.messages[0]?.flags ?? [])]).toEqual([
+        '\\Seen',
+        '\\Flagged',
+        '$Work',
+      ]);
+
+      await provider.markAsUnread('INBOX:1');
+      await provider.unstar('INBOX:1');
+      await provider.removeLabel('INBOX:1', '$Work');
+
+      expect(server.mailboxes.get('INBOX')?.messages[0]?.flags.size).toBe(0);
+    });
+
+    it('should move with UID MOVE, resolving special-use folders', async () => {
+      await provider.move('INBOX:1', 'archive');
+
+      expect(server.commands).toContain('UID MOVE 1 "Archive"');
+      expect(server.mailboxes.get('INBOX')?.messages).toHaveLength(0);
+      expect(server.mailboxes.get('Archive')?.messages).toHaveLength(1);
+    });
+
+    it('should move with COPY, STORE and EXPUNGE without the MOVE extension', async () => {
+      await server.stop();
+      await createProvider({}, { capabilities: ['IMAP4rev1', 'AUTH=PLAIN'] });
+      server.addMailbox('Archive');
+      server.addMessage('INBOX', message('Hello'));
+
+      await provider.move('INBOX:1', 'Archive');
+
+      expect(server.commands).toEqual(
+        expect.arrayContaining([
+          'UID COPY 1 "Archive"',
+          'UID STORE 1 +FLAGS.SILENT (\\Deleted)',
+          'EXPUNGE',
+        ]),
+      );
+      expect(server.mailboxes.get('INBOX')?.messages).toHaveLength(0);
+      expect(server.mailboxes.get('Archive')?.messages).toHaveLength(1);
+    });
+
+    it('should delete by moving to the trash mailbox', async () => {
+      await provider.delete('INBOX:1');
+
+      expect(server.mailboxes.get('INBOX')?.messages).toHaveLength(0);
+      expect(server.mailboxes.get('Deleted Items')?.messages).toHaveLength(1);
+
+      await provider.delete('Deleted Items:1');
+      expect(server.mailboxes.get('Deleted Items')?.messages).toHaveLength(0);
+    });
+
+    it('should list folders with types and counts', async () => {
+      const folders = await provider.listFolders();
+
+      expect(folders).toEqual([
+        { name: 'INBOX', path: 'INBOX', type: 'inbox', totalCount: 1, unreadCount: 1 },
+        { name: 'Archive', path: 'Archive', type: 'archive', totalCount: 0, unreadCount: 0 },
+        {
+          name: 'Deleted Items',
+          path: 'Deleted Items',
+          type: 'trash',
+          totalCount: 0,
+          unreadCount: 0,
+        },
+      ]);
+    });
+
+    it('should create and delete folders with CREATE and DELETE', async () => {
+      const folder = await provider.createFolder('Entwürfe');
+
+      expect(folder).toMatchObject({ name: 'Entwürfe', type: 'custom' });
+      expect(server.commands).toContain('CREATE "Entw&APw-rfe"');
+      expect(server.mailboxes.has('Entw&APw-rfe')).toBe(true);
+      expect((await provider.getFolder('Entwürfe')).totalCount).toBe(0);
+
+      await provider.deleteFolder('Entwürfe');
+      expect(server.mailboxes.has('Entw&APw-rfe')).toBe(false);
+      await expect(provider.deleteFolder('Entwürfe')).rejects.toThrow(NotFoundError);
+      await expect(provider.getFolder('Entwürfe')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should not send email', async () => {
+      await expect(provider.send({ to: 'bob@example.com', subject: 'Hi' })).rejects.toThrow(
+        UnsupportedOperationError,
+      );
+    });
+  });
+});
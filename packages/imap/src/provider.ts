@@ -0,0 +1,579 @@
+import type {
+  CallOptions,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import {
+  AuthenticationError,
+  NotFoundError,
+  UnsupportedOperationError,
+  ValidationError,
+  abortable,
+  decodeCursor,
+  encodeCursor,
+} from '@faktoor/core';
+import type { ImapCommandResult } from './connection';
+import { ImapCommandError, ImapConnection } from './connection';
+import { FULL_ITEMS, METADATA_ITEMS, fetchEmails, mailboxArgument } from './messages';
+import type { ImapMailbox } from './parser';
+import { mailboxToFolder, mailboxType, parseEmailId, parseListResponse } from './parser';
+import { formatSequenceSet, quote, toAttributeMap, valueToString } from './protocol';
+import { buildSearchCriteria, toKeyword } from './search';
+import type { ImapEmail, ImapOptions } from './types';
+import { watchMailbox } from './watch';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * IMAP provider implementation
+ *
+ * Email ids are `<mailbox>:<uid>`, so they stay valid until the message is
+ * moved or the mailbox's UIDVALIDITY changes.
+ */
+export class ImapProvider implements MailProvider {
+  readonly name = 'imap';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: false,
+    drafts: false,
+    send: false,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'folders',
+    // The UID is per mailbox
+    move: 'new-id',
+    serverSearch: true,
+    batch: false,
+  };
+  private connection?: ImapConnection;
+  private connecting?: Promise<ImapConnection>;
+  private selected?: string;
+  private mailboxes?: ImapMailbox[];
+  // Serializes SELECT and the commands that depend on it
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: ImapOptions) {}
+
+  async connect(call: CallOptions = {}): Promise<void> {
+    await abortable(this.session(), call.signal);
+  }
+
+  async disconnect(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    this.selected = undefined;
+    if (!connection?.isOpen) return;
+
+    try {
+      await connection.command('LOGOUT');
+    } catch {
+      // The server may close the socket before answering
+    }
+    connection.close();
+  }
+
+  isConnected(): boolean {
+    return this.connection?.isOpen ?? false;
+  }
+
+  /**
+   * Capabilities advertised by the server, e.g. `MOVE`, `UIDPLUS`
+   */
+  get serverCapabilities(): ReadonlySet<string> {
+    return this.connection?.capabilities ?? new Set();
+  }
+
+  async list(options: ListOptions = {}): Promise<ImapEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage<ImapEmail>> {
+    const mailbox = await this.resolveMailbox(options.folder ?? 'inbox', options.signal);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const uids = await this.search(mailbox, options);
+
+    // Newest first; UIDs grow with arrival order
+    uids.sort((a, b) => b - a);
+
+    const beforeUid = options.cursor
+      ? decodeCursor<{ beforeUid?: number }>(options.cursor).beforeUid
+      : undefined;
+    const remaining =
+      beforeUid !== undefined
+        ? uids.filter((uid) => uid < beforeUid)
+        : uids.slice(options.offset ?? 0);
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      emails: await this.fetchMessages(mailbox, page, FULL_ITEMS, { signal: options.signal }),
+      nextCursor:
+        remaining.length > page.length && last !== undefined
+          ? encodeCursor({ beforeUid: last })
+          : undefined,
+      totalEstimate: uids.length,
+    };
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<Email> {
+    const { mailbox, uid } = this.parseId(id);
+    const items = (options.format ?? 'full') === 'full' ? FULL_ITEMS : METADATA_ITEMS;
+
+    let emails: ImapEmail[];
+    try {
+      emails = await this.fetchMessages(mailbox, [uid], items, options);
+    } catch (error) {
+      // The mailbox in the id no longer exists
+      if (error instanceof NotFoundError) throw new NotFoundError('Email', id);
+      throw error;
+    }
+
+    const [email] = emails;
+    if (!email) {
+      throw new NotFoundError('Email', id);
+    }
+    return email;
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<Email> {
+    const batchSize = options.batchSize ?? DEFAULT_LIMIT;
+    const mailbox = await this.resolveMailbox(options.folder ?? 'inbox', options.signal);
+    const uids = (await this.search(mailbox, options)).sort((a, b) => b - a);
+    const end = options.limit !== undefined ? (options.offset ?? 0) + options.limit : undefined;
+    const selected = uids.slice(options.offset ?? 0, end);
+
+    for (let i = 0; i < selected.length; i += batchSize) {
+      yield* await this.fetchMessages(mailbox, selected.slice(i, i + batchSize), FULL_ITEMS, {
+        signal: options.signal,
+      });
+    }
+  }
+
+  /**
+   * Watch a mailbox for changes on a dedicated connection
+   *
+   * Uses IDLE when the server supports it and NOOP polling every `interval`
+   * otherwise; dropped connections are reopened and resynced.
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    return watchMailbox(
+      () => this.openConnection(),
+      () => this.resolveMailbox(options.folder ?? 'inbox'),
+      options,
+      this.options.reconnectDelay,
+    );
+  }
+
+  async send(_options: SendOptions): Promise<SendResult> {
+    throw new UnsupportedOperationError(
+      'imap',
+      'send',
+      'IMAP cannot send email; configure an SMTP transport from @faktoor/smtp',
+    );
+  }
+
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    const mailboxes = await this.listMailboxes(true, call.signal);
+    const folders: Folder[] = [];
+
+    for (const mailbox of mailboxes) {
+      const flags = mailbox.flags.map((flag) => flag.toLowerCase());
+      if (flags.includes('\\noselect') || flags.includes('\\nonexistent')) continue;
+      folders.push(mailboxToFolder(mailbox, await this.status(mailbox.name, call.signal)));
+    }
+
+    return folders;
+  }
+
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
+    const path = await this.resolveMailbox(name, call.signal);
+    const mailbox = (await this.listMailboxes(false, call.signal)).find(
+      (candidate) => candidate.name === path,
+    );
+
+    let status: { messages?: number; unseen?: number };
+    try {
+      status = await this.status(path, call.signal);
+    } catch (error) {
+      if (error instanceof ImapCommandError && error.status === 'NO') {
+        throw new NotFoundError('Folder', name);
+      }
+      throw error;
+    }
+
+    return mailboxToFolder(mailbox ?? { name: path, flags: [] }, status);
+  }
+
+  async createFolder(name: string, call: CallOptions = {}): Promise<Folder> {
+    await this.exclusive(
+      (connection) => connection.command('CREATE', [mailboxArgument(name)]),
+      call.signal,
+    );
+    this.mailboxes = undefined;
+    return mailboxToFolder({ name, flags: [] });
+  }
+
+  async deleteFolder(name: FolderName | string, call: CallOptions = {}): Promise<void> {
+    const path = await this.resolveMailbox(name, call.signal);
+
+    await this.exclusive(async (connection) => {
+      // Servers refuse to delete the selected mailbox
+      if (this.selected === path) {
+        await connection.command(connection.capabilities.has('UNSELECT') ? 'UNSELECT' : 'CLOSE');
+        this.selected = undefined;
+      }
+      try {
+        await connection.command('DELETE', [mailboxArgument(path)]);
+      } catch (error) {
+        if (error instanceof ImapCommandError && error.responseCode === 'NONEXISTENT') {
+          throw new NotFoundError('Folder', name);
+        }
+        throw error;
+      }
+    }, call.signal);
+    this.mailboxes = undefined;
+  }
+
+  async markAsRead(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '+FLAGS.SILENT', ['\\Seen'], call.signal);
+  }
+
+  async markAsUnread(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '-FLAGS.SILENT', ['\\Seen'], call.signal);
+  }
+
+  async star(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '+FLAGS.SILENT', ['\\Flagged'], call.signal);
+  }
+
+  async unstar(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '-FLAGS.SILENT', ['\\Flagged'], call.signal);
+  }
+
+  async move(
+    id: EmailId | string,
+    folder: FolderName | string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    const { mailbox, uid } = this.parseId(id);
+    const target = await this.resolveMailbox(folder, call.signal);
+    await this.moveMessages(mailbox, [uid], target, call.signal);
+  }
+
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    const { mailbox, uid } = this.parseId(id);
+    const trash = (await this.listMailboxes(false, call.signal)).find(
+      (candidate) => mailboxType(candidate) === 'trash',
+    );
+
+    if (trash && trash.name !== mailbox) {
+      await this.moveMessages(mailbox, [uid], trash.name, call.signal);
+      return;
+    }
+
+    // No trash, or already in it: remove for good
+    await this.exclusive(async (connection) => {
+      await this.select(connection, mailbox);
+      await connection.command('UID STORE', [String(uid), '+FLAGS.SILENT', '(\\Deleted)']);
+      await this.expunge(connection, [uid]);
+    }, call.signal);
+  }
+
+  async addLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '+FLAGS.SILENT', [toKeyword(label)], call.signal);
+  }
+
+  async removeLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.store(id, '-FLAGS.SILENT', [toKeyword(label)], call.signal);
+  }
+
+  /**
+   * Return the open connection, connecting and authenticating first if needed
+   */
+  private async session(): Promise<ImapConnection> {
+    if (this.connection?.isOpen) return this.connection;
+
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<ImapConnection> {
+    const connection = await this.openConnection();
+
+    connection.onClose = () => {
+      if (this.connection === connection) {
+        this.connection = undefined;
+        this.selected = undefined;
+      }
+    };
+    this.connection = connection;
+    this.selected = undefined;
+    this.mailboxes = undefined;
+    return connection;
+  }
+
+  /**
+   * Open and authenticate a new connection
+   */
+  private async openConnection(): Promise<ImapConnection> {
+    const security = this.options.security ?? 'tls';
+    const connection = new ImapConnection({
+      host: this.options.host,
+      port: this.options.port ?? (security === 'tls' ? 993 : 143),
+      security,
+      tls: this.options.tls,
+      connectTimeout: this.options.connectTimeout,
+    });
+
+    const preauthenticated = await connection.open();
+    try {
+      if (!preauthenticated) await this.authenticate(connection);
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+    return connection;
+  }
+
+  private async authenticate(connection: ImapConnection): Promise<void> {
+    const { auth } = this.options;
+    let result: ImapCommandResult;
+
+    try {
+      if ('accessToken' in auth) {
+        const token = `user=${auth.user}\x01auth=Bearer ${auth.accessToken}\x01\x01`;
+        result = await this.saslAuthenticate(connection, 'XOAUTH2', token);
+      } else if (
+        auth.method === 'PLAIN' ||
+        (!auth.method && connection.capabilities.has('AUTH=PLAIN'))
+      ) {
+        result = await this.saslAuthenticate(connection, 'PLAIN', `\0${auth.user}\0${auth.pass}`);
+      } else {
+        if (connection.capabilities.has('LOGINDISABLED')) {
+          throw new AuthenticationError('IMAP server disabled LOGIN on this connection; use TLS');
+        }
+        result = await connection.command('LOGIN', [quote(auth.user), quote(auth.pass)]);
+      }
+    } catch (error) {
+      if (error instanceof ImapCommandError) {
+        throw new AuthenticationError(`IMAP authentication failed: ${error.message}`, error);
+      }
+      throw error;
+    }
+
+    // Capabilities usually change once authenticated
+    await connection.refreshCapabilities(result.code);
+  }
+
+  /**
+   * Run AUTHENTICATE, with the initial response inline when SASL-IR is supported
+   */
+  private saslAuthenticate(
+    connection: ImapConnection,
+    mechanism: string,
+    response: string,
+  ): Promise<ImapCommandResult> {
+    const encoded = Buffer.from(response, 'utf-8').toString('base64');
+
+    if (connection.capabilities.has('SASL-IR')) {
+      // Any challenge is an error report; an empty line ends the exchange
+      return connection.command('AUTHENTICATE', [mechanism, encoded], { onContinuation: () => '' });
+    }
+
+    let sent = false;
+    return connection.command('AUTHENTICATE', [mechanism], {
+      onContinuation: () => {
+        if (sent) return '';
+        sent = true;
+        return encoded;
+      },
+    });
+  }
+
+  /**
+   * Run a task that depends on the selected mailbox without interleaving others
+   *
+   * When `signal` aborts, the connection is dropped, since the command in
+   * flight leaves it in an unknown state; the next task reconnects.
+   */
+  private exclusive<T>(
+    task: (connection: ImapConnection) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const run = this.lock.then(async () => {
+      signal?.throwIfAborted();
+      const connection = await this.session();
+      return abortable(task(connection), signal, () => {
+        if (this.connection === connection) {
+          this.connection = undefined;
+          this.selected = undefined;
+        }
+        connection.close();
+      });
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async select(connection: ImapConnection, mailbox: string): Promise<void> {
+    if (this.selected === mailbox) return;
+    this.selected = undefined;
+
+    try {
+      await connection.command('SELECT', [mailboxArgument(mailbox)]);
+    } catch (error) {
+      if (error instanceof ImapCommandError && error.status === 'NO') {
+        throw new NotFoundError('Folder', mailbox);
+      }
+      throw error;
+    }
+    this.selected = mailbox;
+  }
+
+  private search(mailbox: string, options: ListOptions): Promise<number[]> {
+    return this.exclusive(async (connection) => {
+      await this.select(connection, mailbox);
+      const result = await connection.command('UID SEARCH', buildSearchCriteria(options));
+      return result.responses
+        .filter((response) => response.type === 'SEARCH')
+        .flatMap((response) => response.values.map((value) => Number(valueToString(value))))
+        .filter((uid) => Number.isInteger(uid) && uid > 0);
+    }, options.signal);
+  }
+
+  private async fetchMessages(
+    mailbox: string,
+    uids: number[],
+    items: string,
+    options: { includeRaw?: boolean; signal?: AbortSignal } = {},
+  ): Promise<ImapEmail[]> {
+    if (!uids.length) return [];
+
+    return this.exclusive(async (connection) => {
+      await this.select(connection, mailbox);
+      return fetchEmails(connection, mailbox, uids, items, options.includeRaw ?? false);
+    }, options.signal);
+  }
+
+  private async store(
+    id: EmailId | string,
+    action: string,
+    flags: string[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const { mailbox, uid } = this.parseId(id);
+    await this.exclusive(async (connection) => {
+      await this.select(connection, mailbox);
+      await connection.command('UID STORE', [String(uid), action, `(${flags.join(' ')})`]);
+    }, signal);
+  }
+
+  private async moveMessages(
+    mailbox: string,
+    uids: number[],
+    target: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const set = formatSequenceSet(uids);
+
+    await this.exclusive(async (connection) => {
+      await this.select(connection, mailbox);
+      if (connection.capabilities.has('MOVE')) {
+        await connection.command('UID MOVE', [set, mailboxArgument(target)]);
+        return;
+      }
+
+      await connection.command('UID COPY', [set, mailboxArgument(target)]);
+      await connection.command('UID STORE', [set, '+FLAGS.SILENT', '(\\Deleted)']);
+      await this.expunge(connection, uids);
+    }, signal);
+  }
+
+  /**
+   * Expunge deleted messages, limited to `uids` when the server supports UIDPLUS
+   */
+  private async expunge(connection: ImapConnection, uids: number[]): Promise<void> {
+    if (connection.capabilities.has('UIDPLUS')) {
+      await connection.command('UID EXPUNGE', [formatSequenceSet(uids)]);
+    } else {
+      await connection.command('EXPUNGE');
+    }
+  }
+
+  private async status(
+    mailbox: string,
+    signal?: AbortSignal,
+  ): Promise<{ messages?: number; unseen?: number }> {
+    const result = await this.exclusive(
+      (connection) => connection.command('STATUS', [mailboxArgument(mailbox), '(MESSAGES UNSEEN)']),
+      signal,
+    );
+
+    const response = result.responses.find((candidate) => candidate.type === 'STATUS');
+    const items = Array.isArray(response?.values[1])
+      ? toAttributeMap(response.values[1])
+      : new Map();
+    return {
+      messages: Number(valueToString(items.get('MESSAGES')) ?? 0),
+      unseen: Number(valueToString(items.get('UNSEEN')) ?? 0),
+    };
+  }
+
+  private async listMailboxes(refresh = false, signal?: AbortSignal): Promise<ImapMailbox[]> {
+    if (this.mailboxes && !refresh) return this.mailboxes;
+
+    const result = await this.exclusive(
+      (connection) => connection.command('LIST', ['""', '"*"']),
+      signal,
+    );
+    this.mailboxes = result.responses
+      .filter((response) => response.type === 'LIST')
+      .map(parseListResponse);
+    return this.mailboxes;
+  }
+
+  /**
+   * Map a folder name to a mailbox; `sent`, `trash`, etc. use special-use attributes
+   */
+  private async resolveMailbox(folder: string, signal?: AbortSignal): Promise<string> {
+    const name = folder.toLowerCase();
+    if (name === 'inbox') return 'INBOX';
+    if (!['sent', 'drafts', 'trash', 'spam', 'archive'].includes(name)) return folder;
+
+    const mailboxes = await this.listMailboxes(false, signal);
+    // A mailbox literally named like the alias wins over special-use lookups
+    const exact = mailboxes.find((mailbox) => mailbox.name === folder);
+    const special = mailboxes.find((mailbox) => mailboxType(mailbox) === name);
+    return (exact ?? special)?.name ?? folder;
+  }
+
+  private parseId(id: string): { mailbox: string; uid: number } {
+    const parsed = parseEmailId(id);
+    if (!parsed) {
+      throw new ValidationError(`Invalid IMAP email id: ${id}`, 'id');
+    }
+    return parsed;
+  }
+}
+
+/**
+ * Create IMAP provider
+ */
+export function imap(options: ImapOptions): ImapProvider {
+  return new ImapProvider(options);
+}
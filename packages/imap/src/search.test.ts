@@ -0,0 +1,72 @@
+import { ValidationError } from '@faktoor/core';
+import { describe, expect, it } from 'vitest';
+import { buildSearchCriteria, formatSearchDate, toKeyword } from './search';
+import { decodeMailboxName, encodeMailboxName } from './utf7';
+
+describe('buildSearchCriteria', () => {
+  it('should match everything without filters', () => {
+    expect(buildSearchCriteria({})).toEqual(['ALL']);
+  });
+
+  it('should map list options to search keys', () => {
+    expect(
+      buildSearchCriteria({
+        unreadOnly: true,
+        from: 'alice@example.com',
+        subject: 'Invoice',
+        after: new Date('2024-01-05T12:00:00Z'),
+        before: new Date('2024-02-01T00:00:00Z'),
+        labels: ['$Important'],
+        hasAttachment: true,
+      }),
+    ).toEqual([
+      'UNSEEN',
+      'FROM',
+      '"alice@example.com"',
+      'SUBJECT',
+      '"Invoice"',
+      'SINCE',
+      '5-Jan-2024',
+      'BEFORE',
+      '1-Feb-2024',
+      'HEADER',
+      'Content-Type',
+      '"multipart/mixed"',
+      'KEYWORD',
+      '$Important',
+    ]);
+  });
+
+  it('should declare a charset for non-ASCII text', () => {
+    expect(buildSearchCriteria({ subject: 'Café' })).toEqual([
+      'CHARSET',
+      'UTF-8',
+      'SUBJECT',
+      { literal: new TextEncoder().encode('Café') },
+    ]);
+  });
+});
+
+describe('formatSearchDate', () => {
+  it('should use the UTC day', () => {
+    expect(formatSearchDate(new Date('2024-12-31T23:30:00Z'))).toBe('31-Dec-2024');
+  });
+});
+
+describe('toKeyword', () => {
+  it('should reject labels that are not atoms', () => {
+    expect(toKeyword('$Work')).toBe('$Work');
+    expect(() => toKeyword('two words')).toThrow(ValidationError);
+    expect(() => toKeyword('\\Seen')).toThrow(ValidationError);
+  });
+});
+
+describe('mailbox names', () => {
+  it('should round-trip modified UTF-7', () => {
+    expect(encodeMailboxName('Entwürfe')).toBe('Entw&APw-rfe');
+    expect(encodeMailboxName('R&D')).toBe('R&-D');
+    expect(encodeMailboxName('台北')).toBe('&U,BTFw-');
+    expect(decodeMailboxName('Entw&APw-rfe')).toBe('Entwürfe');
+    expect(decodeMailboxName('&U,BTFw-/R&-D')).toBe('台北/R&D');
+  });
+});
@@ -0,0 +1,53 @@
+import type { ListOptions } from '@faktoor/core';
+import { ValidationError } from '@faktoor/core';
+import type { ImapArgument } from './protocol';
+import { quote } from './protocol';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Format a date for SEARCH, e.g. `1-Feb-2024` (UTC day)
+ */
+export function formatSearchDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+/**
+ * Check that a label can be used as an IMAP keyword
+ */
+export function toKeyword(label: string): string {
+  // Keywords are atoms: no spaces, specials or system flag backslash
+  if (!/^[!-~]+$/.test(label) || /[()"{}%*\\\]]/.test(label)) {
+    throw new ValidationError(`Label cannot be used as an IMAP keyword: ${label}`, 'label');
+  }
+  return label;
+}
+
+/**
+ * Build `UID SEARCH` criteria from list options
+ *
+ * IMAP only searches by day, so `after` and `before` are rounded to UTC days.
+ * `hasAttachment` matches multipart/mixed messages, which is how attachments
+ * are almost always sent.
+ */
+export function buildSearchCriteria(options: ListOptions): ImapArgument[] {
+  const criteria: ImapArgument[] = [];
+
+  if (options.unreadOnly) criteria.push('UNSEEN');
+  if (options.from) criteria.push('FROM', quote(options.from));
+  if (options.to) criteria.push('TO', quote(options.to));
+  if (options.subject) criteria.push('SUBJECT', quote(options.subject));
+  if (options.after) criteria.push('SINCE', formatSearchDate(options.after));
+  if (options.before) criteria.push('BEFORE', formatSearchDate(options.before));
+  if (options.hasAttachment) criteria.push('HEADER', 'Content-Type', quote('multipart/mixed'));
+  for (const label of options.labels ?? []) criteria.push('KEYWORD', toKeyword(label));
+  if (options.query) criteria.push('TEXT', quote(options.query));
+
+  if (!criteria.length) return ['ALL'];
+
+  // Non-ASCII text is sent as literals, which needs a charset
+  if (criteria.some((criterion) => typeof criterion !== 'string')) {
+    return ['CHARSET', 'UTF-8', ...criteria];
+  }
+  return criteria;
+}
@@ -0,0 +1,54 @@
+import type { ConnectionOptions } from 'node:tls';
+import type { Email } from '@faktoor/core';
+
+/**
+ * IMAP-specific email extensions
+ */
+export interface ImapEmail extends Email {
+  /** Mailbox the message lives in, as the server names it */
+  mailbox: string;
+  uid: number;
+  /** Raw IMAP flags and keywords, e.g. `\Seen`, `$Forwarded` */
+  flags: string[];
+  /** Size of the message on the server in bytes */
+  size: number;
+}
+
+/**
+ * Username and password authentication
+ */
+export interface ImapPasswordAuth {
+  user: string;
+  pass: string;
+  /** SASL mechanism, defaults to `PLAIN` when the server offers it, `LOGIN` otherwise */
+  method?: 'PLAIN' | 'LOGIN';
+}
+
+/**
+ * OAuth 2.0 authentication through SASL XOAUTH2
+ */
+export interface ImapOAuthAuth {
+  user: string;
+  accessToken: string;
+}
+
+/**
+ * IMAP provider options
+ */
+export interface ImapOptions {
+  host: string;
+  /** Defaults to 993 for `tls`, 143 otherwise */
+  port?: number;
+  /**
+   * `tls` connects over TLS, `starttls` upgrades a plain connection before
+   * authenticating, `none` never encrypts and is meant for local testing (default: `tls`)
+   */
+  security?: 'tls' | 'starttls' | 'none';
+  auth: ImapPasswordAuth | ImapOAuthAuth;
+  /** Extra options for `tls.connect`, e.g. a custom CA */
+  tls?: ConnectionOptions;
+  /** Milliseconds to wait for the connection and greeting (default: 30000) */
+  connectTimeout?: number;
+  /** Milliseconds before a dropped watch reconnects, doubled per failed attempt (default: 1000) */
+  reconnectDelay?: number;
+}
@@ -0,0 +1,50 @@
+/**
+ * Encode a mailbox name in IMAP modified UTF-7 (RFC 3501 section 5.1.3)
+ */
+export function encodeMailboxName(name: string): string {
+  let encoded = '';
+  let pending = '';
+
+  const flush = () => {
+    if (!pending) return;
+    const bytes: number[] = [];
+    for (let i = 0; i < pending.length; i++) {
+      const unit = pending.charCodeAt(i);
+      bytes.push(unit >> 8, unit & 0xff);
+    }
+    const base64 = btoa(String.fromCharCode(...bytes))
+      .replace(/=+$/, '')
+      .replace(/\//g, ',');
+    encoded += `&${base64}-`;
+    pending = '';
+  };
+
+  for (const char of name) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code <= 0x7e) {
+      flush();
+      encoded += char === '&' ? '&-' : char;
+    } else {
+      pending += char;
+    }
+  }
+  flush();
+
+  return encoded;
+}
+
+/**
+ * Decode an IMAP modified UTF-7 mailbox name
+ */
+export function decodeMailboxName(name: string): string {
+  return name.replace(/&([^-]*)-/g, (_, base64: string) => {
+    if (!base64) return '&';
+
+    const binary = atob(base64.replace(/,/g, '/'));
+    let decoded = '';
+    for (let i = 0; i + 1 < binary.length; i += 2) {
+      decoded += String.fromCharCode((binary.charCodeAt(i) << 8) | binary.charCodeAt(i + 1));
+    }
+    return decoded;
+  });
+}
@@ -0,0 +1,196 @@
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { NetworkError } from '@faktoor/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FakeImapServer } from './__fixtures__/fake-server';
+import { ImapProvider } from './provider';
+
+/**
+ * Build a simple RFC 5322 message
+ */
+function message(subject: string): string {
+  return [
+    'From: Alice <alice@example.com>',
+    'To: bob@example.com',
+    `Subject: ${subject}`,
+    `Message-ID: <${subject.replace(/\W/g, '')}@example.com>`,
+    '',
+    `Body of ${subject}`,
+  ].join('\r\n');
+}
+
+/**
+ * Read the next `count` events from a watch
+ */
+async function take(handle: WatchHandle, count: number): Promise<WatchEvent[]> {
+  const iterator = handle[Symbol.asyncIterator]();
+  const events: WatchEvent[] = [];
+  while (events.length < count) {
+    const result = await iterator.next();
+    if (result.done) break;
+    events.push(result.value);
+  }
+  return events;
+}
+
+/**
+ * Summarize an event as `<type> <id>`
+ */
+function describeEvent(event: WatchEvent): string {
+  if (event.type === 'deleted') return `deleted ${event.id}`;
+  if (event.type === 'error') return `error ${event.error.name}`;
+  return `${event.type} ${event.email.id}`;
+}
+
+describe('ImapProvider.watch', () => {
+  let server: FakeImapServer;
+  let provider: ImapProvider;
+  let handle: WatchHandle | undefined;
+
+  const createProvider = async (capabilities: string[]) => {
+    server = new FakeImapServer({
+      user: 'bob',
+      pass: 'secret',
+      capabilities: ['IMAP4rev1', 'AUTH=PLAIN', 'SASL-IR', 'UIDPLUS', ...capabilities],
+    });
+    const port = await server.start();
+    provider = new ImapProvider({
+      host: '127.0.0.1',
+      port,
+      security: 'none',
+      auth: { user: 'bob', pass: 'secret' },
+      reconnectDelay: 10,
+    });
+  };
+
+  const idling = () =>
+    vi.waitFor(() => expect([...server.sessions].some((session) => session.idling)).toBe(true));
+
+  afterEach(async () => {
+    handle?.stop();
+    handle = undefined;
+    await provider?.disconnect();
+    await server?.stop();
+  });
+
+  it('should push new, updated and deleted messages with IDLE', async () => {
+    await createProvider(['IDLE']);
+    server.addMessage('INBOX', message('Existing'));
+
+    handle = provider.watch();
+    await idling();
+
+    server.addMessage('INBOX', message('Arrived'));
+    const [added] = await take(handle, 1);
+    expect(added).toMatchObject({ type: 'new', email: { id: 'INBOX:2', subject: 'Arrived' } });
+
+    await idling();
+    server.setFlags('INBOX', 1, ['\\Seen']);
+    const [updated] = await take(handle, 1);
+    expect(updated).toMatchObject({ type: 'updated', email: { id: 'INBOX:1', isRead: true } });
+
+    await idling();
+    server.expunge('INBOX', 2);
+    expect((await take(handle, 1)).map(describeEvent)).toEqual(['deleted INBOX:2']);
+
+    expect(server.commands).toEqual(expect.arrayContaining(['IDLE', 'DONE']));
+  });
+
+  it('should report existing messages with includeExisting', async () => {
+    await createProvider(['IDLE']);
+    server.addMessage('INBOX', message('First'));
+    server.addMessage('INBOX', message('Second'));
+
+    handle = provider.watch({ includeExisting: true });
+
+    expect((await take(handle, 2)).map(describeEvent)).toEqual(['new INBOX:1', 'new INBOX:2']);
+  });
+
+  it('should catch up with QRESYNC after the connection drops', async () => {
+    await createProvider(['IDLE', 'ENABLE', 'CONDSTORE', 'QRESYNC']);
+    server.addMessage('INBOX', message('Kept'));
+    server.addMessage('INBOX', message('Removed'));
+
+    handle = provider.watch();
+    await idling();
+
+    server.disconnectAll();
+    server.setFlags('INBOX', 1, ['\\Flagged']);
+    server.expunge('INBOX', 2);
+    server.addMessage('INBOX', message('Missed'));
+
+    const events = await take(handle, 4);
+    expect(events[0]).toMatchObject({ type: 'error', error: expect.any(NetworkError) });
+    expect(events.slice(1).map(describeEvent)).toEqual([
+      'deleted INBOX:2',
+      'updated INBOX:1',
+      'new INBOX:3',
+    ]);
+    expect(server.commands).toContain('ENABLE QRESYNC');
+    expect(server.commands).toContainEqual(
+      expect.stringMatching(/^UID FETCH 1:\* \(UID FLAGS MODSEQ\) \(CHANGEDSINCE \d+ VANISHED\)$/),
+    );
+  });
+
+  it('should find expunged messages with CONDSTORE alone', async () => {
+    await createProvider(['IDLE', 'CONDSTORE']);
+    server.addMessage('INBOX', message('Removed'));
+
+    handle = provider.watch();
+    await idling();
+
+    server.disconnectAll();
+    server.expunge('INBOX', 1);
+
+    const events = await take(handle, 2);
+    expect(events.map(describeEvent)).toEqual(['error NetworkError', 'deleted INBOX:1']);
+    expect(server.commands).toContain('SELECT "INBOX" (CONDSTORE)');
+    expect(server.commands).toContain('UID SEARCH ALL');
+  });
+
+  it('should start over when UIDVALIDITY changes', async () => {
+    await createProvider(['IDLE']);
+    server.addMessage('INBOX', message('Old'));
+
+    handle = provider.watch();
+    await idling();
+
+    server.disconnectAll();
+    const inbox = server.mailboxes.get('INBOX');
+    if (inbox) {
+      inbox.uidValidity = 2;
+      inbox.uidNext = 8;
+      inbox.messages[0] = { ...(inbox.messages[0] as never), uid: 7 };
+    }
+
+    const events = await take(handle, 3);
+    expect(events.map(describeEvent)).toEqual([
+      'error NetworkError',
+      'deleted INBOX:1',
+      'new INBOX:7',
+    ]);
+  });
+
+  it('should poll with NOOP and diff flags without IDLE', async () => {
+    await createProvider([]);
+    server.addMessage('INBOX', message('Existing'));
+
+    handle = provider.watch({ interval: 20 });
+    await vi.waitFor(() => expect(server.commands).toContain('NOOP'));
+
+    server.setFlags('INBOX', 1, ['\\Seen']);
+    server.addMessage('INBOX', message('Arrived'));
+
+    expect((await take(handle, 2)).map(describeEvent)).toEqual(['updated INBOX:1', 'new INBOX:2']);
+    expect(server.commands).not.toContain('IDLE');
+  });
+
+  it('should close its connection when stopped', async () => {
+    await createProvider(['IDLE']);
+
+    handle = provider.watch();
+    await idling();
+    handle.stop();
+
+    await vi.waitFor(() => expect(server.sessions.size).toBe(0));
+  });
+});
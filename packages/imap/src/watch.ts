@@ -0,0 +1,310 @@
+import type { WatchHandle, WatchOptions } from '@faktoor/core';
+import { NotFoundError, createWatchHandle } from '@faktoor/core';
+import type { ImapCommandResult, ImapConnection } from './connection';
+import { ImapCommandError } from './connection';
+import { FULL_ITEMS, fetchEmails, mailboxArgument } from './messages';
+import { toEmailId } from './parser';
+import type { ImapResponse, ImapValue } from './protocol';
+import { parseSequenceSet, toAttributeMap, valueToString } from './protocol';
+
+const DEFAULT_WATCH_INTERVAL = 30_000;
+const DEFAULT_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 60_000;
+// Servers may end IDLE after 30 minutes of silence (RFC 2177)
+const IDLE_RESTART_INTERVAL = 25 * 60 * 1000;
+
+type ModseqMode = 'qresync' | 'condstore' | undefined;
+
+/**
+ * What a watch knows about its mailbox, kept across reconnects
+ */
+interface MailboxState {
+  uidValidity?: string;
+  highestModseq?: bigint;
+  /** Flags of every known message by UID, as a sorted space-separated list */
+  flags: Map<number, string>;
+  synced: boolean;
+}
+
+/**
+ * Messages that changed since the last sync
+ */
+interface MailboxChanges {
+  /** Current flags of new and changed messages */
+  changed: Map<number, string>;
+  vanished: number[];
+  highestModseq?: bigint;
+}
+
+/**
+ * Return the largest MODSEQ, ignoring unknown ones
+ */
+function maxModseq(...values: Array<bigint | undefined>): bigint | undefined {
+  return values.reduce<bigint | undefined>(
+    (max, value) => (value !== undefined && (max === undefined || value > max) ? value : max),
+    undefined,
+  );
+}
+
+/**
+ * Parse a MODSEQ value, e.g. `12` or `(12)`
+ */
+function parseModseq(value: ImapValue | undefined): bigint | undefined {
+  const text = valueToString(Array.isArray(value) ? value[0] : value);
+  return text && /^\d+$/.test(text) ? BigInt(text) : undefined;
+}
+
+/**
+ * Collect response codes of untagged OK responses, e.g. `UIDVALIDITY`
+ */
+function responseCodes(responses: ImapResponse[]): Map<string, string | undefined> {
+  const codes = new Map<string, string | undefined>();
+  for (const response of responses) {
+    const [name, value] = response.code ?? [];
+    if (response.type !== 'OK' || typeof name !== 'string') continue;
+    codes.set(name.toUpperCase(), valueToString(value));
+  }
+  return codes;
+}
+
+/**
+ * Read UIDs and flags that changed since `since`, or all of them without it
+ */
+async function readChanges(
+  connection: ImapConnection,
+  known: Map<number, string>,
+  mode: ModseqMode,
+  since?: bigint,
+): Promise<MailboxChanges> {
+  const args = ['1:*', mode ? '(UID FLAGS MODSEQ)' : '(UID FLAGS)'];
+  if (since !== undefined) {
+    args.push(`(CHANGEDSINCE ${since}${mode === 'qresync' ? ' VANISHED' : ''})`);
+  }
+  const result = await connection.command('UID FETCH', args);
+
+  const changed = new Map<number, string>();
+  const vanished: number[] = [];
+  let highestModseq: bigint | undefined;
+
+  for (const response of result.responses) {
+    if (response.type === 'VANISHED') {
+      const set = valueToString(response.values[response.values.length - 1]);
+      if (set) vanished.push(...parseSequenceSet(set));
+      continue;
+    }
+    if (response.type !== 'FETCH' || !Array.isArray(response.values[0])) continue;
+
+    const attributes = toAttributeMap(response.values[0]);
+    const uid = Number(valueToString(attributes.get('UID')));
+    const flags = attributes.get('FLAGS');
+    if (!Number.isInteger(uid) || !Array.isArray(flags)) continue;
+
+    changed.set(
+      uid,
+      flags
+        .map((flag) => String(flag))
+        .sort()
+        .join(' '),
+    );
+    highestModseq = maxModseq(highestModseq, parseModseq(attributes.get('MODSEQ')));
+  }
+
+  if (since === undefined) {
+    // Full listing: known messages that are missing were removed
+    for (const uid of known.keys()) {
+      if (!changed.has(uid)) vanished.push(uid);
+    }
+  } else if (mode === 'condstore') {
+    // CONDSTORE does not report expunges; compare against the current UIDs
+    const search = await connection.command('UID SEARCH', ['ALL']);
+    const existing = new Set(
+      search.responses
+        .filter((response) => response.type === 'SEARCH')
+        .flatMap((response) => response.values.map((value) => Number(valueToString(value)))),
+    );
+    for (const uid of known.keys()) {
+      if (!existing.has(uid)) vanished.push(uid);
+    }
+  }
+
+  return { changed, vanished, highestModseq };
+}
+
+/**
+ * Watch a mailbox on a dedicated connection
+ *
+ * Changes are pushed with IDLE when the server supports it and polled with
+ * NOOP every `interval` otherwise. With CONDSTORE/QRESYNC each sync reads only
+ * what changed since the last MODSEQ; without them all UIDs and flags are
+ * diffed. A dropped connection is reopened with exponential backoff starting
+ * at `reconnectDelay`, and the first sync after it reports everything that
+ * changed meanwhile.
+ */
+export function watchMailbox(
+  open: () => Promise<ImapConnection>,
+  resolveMailbox: () => Promise<string>,
+  options: WatchOptions = {},
+  reconnectDelay = DEFAULT_RECONNECT_DELAY,
+): WatchHandle {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+
+  return createWatchHandle((emitter) => {
+    const state: MailboxState = { flags: new Map(), synced: false };
+    let connection: ImapConnection | undefined;
+    let failures = 0;
+    // Ends the current wait early
+    let interrupt: (() => void) | undefined;
+
+    const wait = (ms: number): Promise<void> =>
+      new Promise((resolve) => {
+        const done = (): void => {
+          clearTimeout(timer);
+          if (interrupt === done) interrupt = undefined;
+          resolve();
+        };
+        const timer = setTimeout(done, ms);
+        interrupt = done;
+      });
+
+    const sync = async (
+      current: ImapConnection,
+      mailbox: string,
+      mode: ModseqMode,
+      selectedModseq?: bigint,
+    ): Promise<void> => {
+      const since = mode ? state.highestModseq : undefined;
+      const changes = await readChanges(current, state.flags, mode, since);
+      const report = state.synced || (options.includeExisting ?? false);
+
+      const added = new Set<number>();
+      const updated: number[] = [];
+      for (const [uid, flags] of changes.changed) {
+        const previous = state.flags.get(uid);
+        if (previous === undefined) added.add(uid);
+        else if (previous !== flags) updated.push(uid);
+      }
+      const deleted = changes.vanished.filter((uid) => state.flags.has(uid));
+      const uids = [...added, ...updated].sort((a, b) => a - b);
+      const emails = report ? await fetchEmails(current, mailbox, uids, FULL_ITEMS) : [];
+
+      // Update the state only once everything was read, so a failed sync is retried in full
+      for (const [uid, flags] of changes.changed) state.flags.set(uid, flags);
+      for (const uid of deleted) state.flags.delete(uid);
+      state.highestModseq = mode
+        ? maxModseq(since ?? selectedModseq, changes.highestModseq)
+        : undefined;
+      state.synced = true;
+      failures = 0;
+
+      for (const uid of deleted) {
+        emitter.emit({ type: 'deleted', id: toEmailId(mailbox, uid) });
+      }
+      for (const email of emails) {
+        emitter.emit({ type: added.has(email.uid) ? 'new' : 'updated', email });
+      }
+    };
+
+    const follow = async (current: ImapConnection, mailbox: string): Promise<void> => {
+      let pending = false;
+      let idling = false;
+      current.onUntagged = (response) => {
+        // VANISHED (EARLIER) answers our own FETCH; the others announce changes
+        const announced =
+          response.type === 'EXISTS' ||
+          response.type === 'EXPUNGE' ||
+          (response.type === 'VANISHED' && !Array.isArray(response.values[0]));
+        if (announced || (idling && response.type === 'FETCH')) {
+          pending = true;
+          interrupt?.();
+        }
+      };
+
+      let mode: ModseqMode;
+      const args = [mailboxArgument(mailbox)];
+      if (current.capabilities.has('QRESYNC')) {
+        await current.command('ENABLE', ['QRESYNC']);
+        mode = 'qresync';
+      } else if (current.capabilities.has('CONDSTORE')) {
+        args.push('(CONDSTORE)');
+        mode = 'condstore';
+      }
+
+      let selected: ImapCommandResult;
+      try {
+        selected = await current.command('SELECT', args);
+      } catch (error) {
+        if (error instanceof ImapCommandError && error.status === 'NO') {
+          throw new NotFoundError('Folder', mailbox);
+        }
+        throw error;
+      }
+
+      const codes = responseCodes(selected.responses);
+      // Mailboxes may opt out of MODSEQ with NOMODSEQ
+      if (!codes.has('HIGHESTMODSEQ')) mode = undefined;
+
+      const uidValidity = codes.get('UIDVALIDITY');
+      if (state.uidValidity !== undefined && uidValidity !== state.uidValidity) {
+        // UIDs were reassigned: report every known message as gone and start over
+        for (const uid of state.flags.keys()) {
+          emitter.emit({ type: 'deleted', id: toEmailId(mailbox, uid) });
+        }
+        state.flags.clear();
+        state.highestModseq = undefined;
+      }
+      state.uidValidity = uidValidity;
+      if (!mode) state.highestModseq = undefined;
+
+      const selectedModseq = parseModseq(codes.get('HIGHESTMODSEQ'));
+
+      for (;;) {
+        pending = false;
+        await sync(current, mailbox, mode, selectedModseq);
+        if (emitter.stopped) return;
+        // Changes announced while syncing
+        if (pending) continue;
+
+        if (current.capabilities.has('IDLE')) {
+          idling = true;
+          try {
+            await current.idle(wait(IDLE_RESTART_INTERVAL));
+          } finally {
+            idling = false;
+          }
+        } else {
+          await wait(interval);
+          if (emitter.stopped) return;
+          await current.command('NOOP');
+        }
+        if (emitter.stopped) return;
+      }
+    };
+
+    const run = async (): Promise<void> => {
+      let mailbox: string | undefined;
+
+      while (!emitter.stopped) {
+        try {
+          mailbox ??= await resolveMailbox();
+          connection = await open();
+          if (emitter.stopped) break;
+          await follow(connection, mailbox);
+        } catch (error) {
+          if (emitter.stopped) break;
+          emitter.emit({ type: 'error', error: error as Error });
+          connection?.close();
+          await wait(Math.min(reconnectDelay * 2 ** failures, MAX_RECONNECT_DELAY));
+          failures++;
+        }
+      }
+      connection?.close();
+    };
+
+    void run();
+
+    return () => {
+      interrupt?.();
+      connection?.close();
+    };
+  });
+}
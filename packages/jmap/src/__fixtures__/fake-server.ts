@@ -0,0 +1,517 @@
+import type { EventStreamClient, HttpClient, HttpRequest, ServerSentEvent } from '../http';
+import type { Invocation, JmapEmailObject, JmapIdentity, JmapMailbox } from '../types';
+
+export const SERVER_URL = 'https://jmap.example.com';
+export const ACCOUNT_ID = 'u1';
+export const TOKEN = 'secret-token';
+
+type Args = Record<string, unknown>;
+
+/**
+ * Evaluate a result reference path (RFC 8620 §3.7), including `*` for arrays
+ */
+function evaluatePointer(value: unknown, path: string): unknown {
+  const [token, ...rest] = path.split('/').slice(1);
+  if (token === undefined) return value;
+  if (token === '*' && Array.isArray(value)) {
+    return value.flatMap((item) => {
+      const result = evaluatePointer(item, `/${rest.join('/')}`);
+      return Array.isArray(result) ? result : [result];
+    });
+  }
+  const next = (value as Args | undefined)?.[token.replace(/~1/g, '/').replace(/~0/g, '~')];
+  return rest.length ? evaluatePointer(next, `/${rest.join('/')}`) : next;
+}
+
+/**
+ * Apply a JMAP patch object to a record
+ */
+function applyPatch(record: Args, patch: Args): void {
+  for (const [path, value] of Object.entries(patch)) {
+    const [property, key] = path.split('/') as [string, string | undefined];
+    if (key === undefined) {
+      record[property] = value;
+      continue;
+    }
+    const target = { ...(record[property] as Args | undefined) };
+    const name = key.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (value === null) delete target[name];
+    else target[name] = value;
+    record[property] = target;
+  }
+}
+
+/**
+ * In-memory JMAP server speaking through the swappable HTTP layer
+ *
+ * Implements the parts of RFC 8620/8621 the provider uses: the session
+ * resource, batched method calls with back-references, uploads, downloads
+ * and an event source pushing Email state changes.
+ */
+export class FakeJmapServer {
+  readonly requests: HttpRequest[] = [];
+  /** Method calls of every API request, in order */
+  readonly batches: Invocation[][] = [];
+  readonly mailboxes = new Map<string, JmapMailbox>();
+  readonly emails = new Map<string, JmapEmailObject>();
+  readonly blobs = new Map<string, { type: string; content: string }>();
+  identities: JmapIdentity[] = [{ id: 'i1', name: 'Alice', email: 'alice@example.com' }];
+  /** Advertise an event source in the session */
+  eventSource = true;
+  /** Reject email submissions with this error type */
+  rejectSubmissions?: string;
+
+  private state = 1;
+  /** States older than this cannot be synced from */
+  private oldestState = 1;
+  private readonly changes: Array<{ state: number; id: string; type: string }> = [];
+  /** Event source connections; `null` closes one */
+  private readonly listeners = new Set<(event: ServerSentEvent | null) => void>();
+  private nextId = 1;
+
+  constructor() {
+    const mailboxes: JmapMailbox[] = [
+      { id: 'mb-inbox', name: 'Inbox', role: 'inbox', sortOrder: 1 },
+      { id: 'mb-sent', name: 'Sent', role: 'sent', sortOrder: 3 },
+      { id: 'mb-drafts', name: 'Drafts', role: 'drafts', sortOrder: 2 },
+      { id: 'mb-trash', name: 'Trash', role: 'trash', sortOrder: 5 },
+      { id: 'mb-junk', name: 'Spam', role: 'junk', sortOrder: 4 },
+      { id: 'mb-projects', name: 'Projects', sortOrder: 10 },
+      { id: 'mb-acme', name: 'Acme', parentId: 'mb-projects', sortOrder: 10 },
+    ];
+    for (const mailbox of mailboxes) this.mailboxes.set(mailbox.id, mailbox);
+  }
+
+  get currentState(): string {
+    return String(this.state);
+  }
+
+  /**
+   * Store an email, as if it had been delivered
+   */
+  addEmail(email: Partial<JmapEmailObject> & { id: string }): JmapEmailObject {
+    const stored: JmapEmailObject = {
+      blobId: `blob-${email.id}`,
+      threadId: `t-${email.id}`,
+      mailboxIds: { 'mb-inbox': true },
+      keywords: {},
+      size: 1024,
+      receivedAt: '2024-05-01T10:00:00Z',
+      subject: '',
+      from: [{ name: 'Bob', email: 'bob@example.com' }],
+      to: [{ name: 'Alice', email: 'alice@example.com' }],
+      headers: [],
+      preview: '',
+      ...email,
+    };
+    this.emails.set(stored.id, stored);
+    this.blobs.set(stored.blobId as string, {
+      type: 'message/rfc822',
+      content: `Subject: ${stored.subject}\r\n\r\nraw ${stored.id}`,
+    });
+    this.change(stored.id, 'created');
+    return stored;
+  }
+
+  /**
+   * Change an email outside of the provider
+   */
+  updateEmail(id: string, patch: Args): void {
+    applyPatch(this.emails.get(id) as unknown as Args, patch);
+    this.change(id, 'updated');
+  }
+
+  destroyEmail(id: string): void {
+    this.emails.delete(id);
+    this.change(id, 'destroyed');
+  }
+
+  /**
+   * Forget the change log, so older states can no longer be synced from
+   */
+  expireChanges(): void {
+    this.oldestState = this.state;
+    this.changes.length = 0;
+  }
+
+  /**
+   * Method calls sent with `name`, across all requests
+   */
+  callsTo(name: string): Args[] {
+    return this.batches.flatMap((batch) =>
+      batch.filter(([callName]) => callName === name).map(([, args]) => args),
+    );
+  }
+
+  readonly client: HttpClient = async (request) => {
+    this.requests.push(request);
+    const url = new URL(request.url);
+    const json = (status: number, body: unknown) => ({
+      status,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (request.headers.Authorization !== `Bearer ${TOKEN}`) {
+      return json(401, { type: 'about:blank', status: 401, detail: 'Invalid credentials' });
+    }
+
+    if (request.method === 'GET' && url.pathname === '/.well-known/jmap') {
+      return json(200, this.session());
+    }
+    if (request.method === 'POST' && url.pathname === '/api/') {
+      const { methodCalls } = JSON.parse(request.body as string) as { methodCalls: Invocation[] };
+      this.batches.push(methodCalls);
+      return json(200, { methodResponses: this.handle(methodCalls), sessionState: 's1' });
+    }
+    if (request.method === 'POST' && url.pathname === `/upload/${ACCOUNT_ID}/`) {
+      const blobId = `upload-${this.nextId++}`;
+      const content = new TextDecoder().decode(request.body as Uint8Array);
+      const type = request.headers['Content-Type'] ?? 'application/octet-stream';
+      this.blobs.set(blobId, { type, content });
+      return json(201, { accountId: ACCOUNT_ID, blobId, type, size: content.length });
+    }
+    const download = url.pathname.match(/^\/download\/[^/]+\/([^/]+)\//);
+    if (request.method === 'GET' && download) {
+      const blob = this.blobs.get(decodeURIComponent(download[1] as string));
+      return blob
+        ? { status: 200, headers: { 'content-type': blob.type }, body: blob.content }
+        : json(404, { type: 'about:blank', status: 404 });
+    }
+
+    return json(404, { type: 'about:blank', status: 404, detail: `No route ${url.pathname}` });
+  };
+
+  readonly eventStream: EventStreamClient = (request, signal) => {
+    const { listeners } = this;
+    const queue: Array<ServerSentEvent | null> = [];
+    let wake: (() => void) | undefined;
+    const listener = (event: ServerSentEvent | null) => {
+      queue.push(event);
+      wake?.();
+    };
+    this.requests.push(request);
+
+    return (async function* () {
+      listeners.add(listener);
+      signal.addEventListener('abort', () => wake?.());
+      try {
+        while (!signal.aborted) {
+          const event = queue.shift();
+          if (event === null) return;
+          if (event) {
+            yield event;
+            continue;
+          }
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+        }
+      } finally {
+        listeners.delete(listener);
+      }
+    })();
+  };
+
+  /**
+   * Drop every event source connection, as a restarting server would
+   */
+  closeEventSources(): void {
+    for (const listener of this.listeners) listener(null);
+  }
+
+  private session() {
+    return {
+      capabilities: { 'urn:ietf:params:jmap:core': {}, 'urn:ietf:params:jmap:mail': {} },
+      accounts: {
+        [ACCOUNT_ID]: {
+          name: 'alice@example.com',
+          isPersonal: true,
+          isReadOnly: false,
+          accountCapabilities: {},
+        },
+      },
+      primaryAccounts: { 'urn:ietf:params:jmap:mail': ACCOUNT_ID },
+      username: 'alice@example.com',
+      apiUrl: '/api/',
+      uploadUrl: '/upload/{accountId}/',
+      downloadUrl: '/download/{accountId}/{blobId}/{name}?accept={type}',
+      eventSourceUrl: this.eventSource
+        ? '/events/?types={types}&closeafter={closeafter}&ping={ping}'
+        : undefined,
+      state: 's1',
+    };
+  }
+
+  private change(id: string, type: string): void {
+    this.state += 1;
+    this.changes.push({ state: this.state, id, type });
+    const data = JSON.stringify({
+      '@type': 'StateChange',
+      changed: { [ACCOUNT_ID]: { Email: this.currentState } },
+    });
+    for (const listener of this.listeners) listener({ event: 'state', data });
+  }
+
+  private handle(methodCalls: Invocation[]): Invocation[] {
+    const responses: Invocation[] = [];
+    const createdIds = new Map<string, string>();
+
+    for (const [name, rawArgs, callId] of methodCalls) {
+      const args: Args = {};
+      try {
+        for (const [key, value] of Object.entries(rawArgs)) {
+          if (!key.startsWith('#')) {
+            args[key] = value;
+            continue;
+          }
+          const ref = value as { resultOf: string; name: string; path: string };
+          const source = responses.find(([n, , id]) => id === ref.resultOf && n === ref.name);
+          if (!source) throw { type: 'invalidResultReference' };
+          args[key.slice(1)] = evaluatePointer(source[1], ref.path);
+        }
+        if (args.accountId !== ACCOUNT_ID) throw { type: 'accountNotFound' };
+
+        responses.push(...this.dispatch(name, args, callId, createdIds));
+      } catch (error) {
+        responses.push(['error', error as Args, callId]);
+      }
+    }
+
+    return responses;
+  }
+
+  private dispatch(
+    name: string,
+    args: Args,
+    callId: string,
+    createdIds: Map<string, string>,
+  ): Invocation[] {
+    const accountId = ACCOUNT_ID;
+    const state = this.currentState;
+
+    switch (name) {
+      case 'Mailbox/get': {
+        const ids = (args.ids as string[] | null) ?? [...this.mailboxes.keys()];
+        const list = ids.flatMap((id) => {
+          const mailbox = this.mailboxes.get(id);
+          if (!mailbox) return [];
+          const emails = [...this.emails.values()].filter((email) => email.mailboxIds?.[id]);
+          return [
+            {
+              parentId: null,
+              role: null,
+              ...mailbox,
+              totalEmails: emails.length,
+              unreadEmails: emails.filter((email) => !email.keywords?.$seen).length,
+            },
+          ];
+        });
+        const notFound = ids.filter((id) => !this.mailboxes.has(id));
+        return [[name, { accountId, state, list, notFound }, callId]];
+      }
+
+      case 'Mailbox/set': {
+        const created: Args = {};
+        const destroyed: string[] = [];
+        const notDestroyed: Args = {};
+        for (const [key, value] of Object.entries((args.create as Args) ?? {})) {
+          const id = `mb-${this.nextId++}`;
+          this.mailboxes.set(id, { id, ...(value as Omit<JmapMailbox, 'id'>) });
+          created[key] = { id };
+        }
+        for (const id of (args.destroy as string[]) ?? []) {
+          if (!this.mailboxes.has(id)) notDestroyed[id] = { type: 'notFound' };
+          else if ([...this.mailboxes.values()].some((mailbox) => mailbox.parentId === id)) {
+            notDestroyed[id] = { type: 'mailboxHasChild', description: 'Mailbox has children' };
+          } else {
+            this.mailboxes.delete(id);
+            destroyed.push(id);
+          }
+        }
+        return [[name, { accountId, created, destroyed, notDestroyed }, callId]];
+      }
+
+      case 'Email/query': {
+        const filter = args.filter as Args | undefined;
+        const matching = [...this.emails.values()]
+          .filter((email) => !filter || this.matches(email, filter))
+          .sort((a, b) => (b.receivedAt ?? '').localeCompare(a.receivedAt ?? ''));
+        const position = (args.position as number | undefined) ?? 0;
+        const limit = (args.limit as number | undefined) ?? matching.length;
+        const ids = matching.slice(position, position + limit).map((email) => email.id);
+        return [
+          [
+            name,
+            {
+              accountId,
+              queryState: state,
+              position,
+              ids,
+              ...(args.calculateTotal ? { total: matching.length } : {}),
+            },
+            callId,
+          ],
+        ];
+      }
+
+      case 'Email/get': {
+        const ids = (args.ids as string[] | null) ?? [...this.emails.keys()];
+        const properties = args.properties as string[] | undefined;
+        const list = ids.flatMap((id) => {
+          const email = this.emails.get(id);
+          if (!email) return [];
+          if (!properties) return [email];
+          return [
+            Object.fromEntries(
+              Object.entries(email).filter(([key]) => key === 'id' || properties.includes(key)),
+            ),
+          ];
+        });
+        const notFound = ids.filter((id) => !this.emails.has(id));
+        return [[name, { accountId, state, list, notFound }, callId]];
+      }
+
+      case 'Email/set': {
+        const created: Args = {};
+        const updated: Args = {};
+        const destroyed: string[] = [];
+        const notUpdated: Args = {};
+        const notDestroyed: Args = {};
+
+        for (const [key, value] of Object.entries((args.create as Args) ?? {})) {
+          const id = `e-${this.nextId++}`;
+          const email = { ...(value as Args), id, threadId: `t-${id}`, blobId: `blob-${id}` };
+          this.emails.set(id, email as unknown as JmapEmailObject);
+          this.change(id, 'created');
+          createdIds.set(key, id);
+          created[key] = { id, threadId: `t-${id}`, blobId: `blob-${id}` };
+        }
+        for (const [id, patch] of Object.entries((args.update as Args) ?? {})) {
+          if (!this.emails.has(id)) {
+            notUpdated[id] = { type: 'notFound' };
+            continue;
+          }
+          this.updateEmail(id, patch as Args);
+          updated[id] = null;
+        }
+        for (const id of (args.destroy as string[]) ?? []) {
+          if (!this.emails.has(id)) {
+            notDestroyed[id] = { type: 'notFound' };
+            continue;
+          }
+          this.destroyEmail(id);
+          destroyed.push(id);
+        }
+        return [
+          [
+            name,
+            {
+              accountId,
+              newState: this.currentState,
+              created,
+              updated,
+              destroyed,
+              notUpdated,
+              notDestroyed,
+            },
+            callId,
+          ],
+        ];
+      }
+
+      case 'Email/changes': {
+        const since = Number(args.sinceState);
+        if (since < this.oldestState) throw { type: 'cannotCalculateChanges' };
+        const changes = this.changes.filter((change) => change.state > since);
+        const ids = (type: string) => [
+          ...new Set(changes.filter((change) => change.type === type).map((change) => change.id)),
+        ];
+        const destroyed = ids('destroyed');
+        const created = ids('created').filter((id) => !destroyed.includes(id));
+        const updated = ids('updated').filter(
+          (id) => !created.includes(id) && !destroyed.includes(id),
+        );
+        return [
+          [
+            name,
+            {
+              accountId,
+              oldState: args.sinceState,
+              newState: state,
+              hasMoreChanges: false,
+              created,
+              updated,
+              destroyed,
+            },
+            callId,
+          ],
+        ];
+      }
+
+      case 'Identity/get':
+        return [[name, { accountId, state: '1', list: this.identities, notFound: [] }, callId]];
+
+      case 'EmailSubmission/set': {
+        const responses: Invocation[] = [];
+        const created: Args = {};
+        const notCreated: Args = {};
+        const succeeded: string[] = [];
+
+        for (const [key, value] of Object.entries((args.create as Args) ?? {})) {
+          const submission = value as { emailId: string; identityId: string };
+          const emailId = submission.emailId.startsWith('#')
+            ? createdIds.get(submission.emailId.slice(1))
+            : submission.emailId;
+          if (this.rejectSubmissions) {
+            notCreated[key] = { type: this.rejectSubmissions, description: 'Sending refused' };
+          } else if (!emailId || !this.emails.has(emailId)) {
+            notCreated[key] = { type: 'invalidProperties', properties: ['emailId'] };
+          } else {
+            created[key] = { id: `sub-${this.nextId++}` };
+            succeeded.push(key);
+            const patch = (args.onSuccessUpdateEmail as Args | undefined)?.[`#${key}`];
+            if (patch) this.updateEmail(emailId, patch as Args);
+          }
+        }
+
+        responses.push([name, { accountId, created, notCreated }, callId]);
+        if (args.onSuccessUpdateEmail && succeeded.length) {
+          responses.push(['Email/set', { accountId, updated: {} }, callId]);
+        }
+        return responses;
+      }
+
+      default:
+        throw { type: 'unknownMethod' };
+    }
+  }
+
+  private matches(email: JmapEmailObject, filter: Args): boolean {
+    if (filter.operator === 'AND') {
+      return (filter.conditions as Args[]).every((condition) => this.matches(email, condition));
+    }
+
+    const addresses = (list: JmapEmailObject['from']) =>
+      (list ?? []).map((address) => `${address.name ?? ''} ${address.email ?? ''}`).join(' ');
+    const checks: Record<string, (value: never) => boolean> = {
+      inMailbox: (id: string) => !!email.mailboxIds?.[id],
+      hasKeyword: (keyword: string) => !!email.keywords?.[keyword],
+      notKeyword: (keyword: string) => !email.keywords?.[keyword],
+      from: (value: string) => addresses(email.from).includes(value),
+      to: (value: string) => addresses(email.to).includes(value),
+      subject: (value: string) => (email.subject ?? '').includes(value),
+      text: (value: string) =>
+        `${email.subject} ${email.preview} ${addresses(email.from)}`.includes(value),
+      after: (value: string) => (email.receivedAt ?? '') >= value,
+      before: (value: string) => (email.receivedAt ?? '') < value,
+      hasAttachment: (value: boolean) => !!email.hasAttachment === value,
+    };
+
+    return Object.entries(filter).every(([key, value]) => {
+      const check = checks[key];
+      if (!check) throw { type: 'unsupportedFilter', description: key };
+      return check(value as never);
+    });
+  }
+}
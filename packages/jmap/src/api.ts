@@ -0,0 +1,354 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  ProviderError,
+  RateLimitError,
+  ValidationError,
+  parseRetryAfter,
+} from '@faktoor/core';
+import type { EventStreamClient, HttpClient, HttpResponse, ServerSentEvent } from './http';
+import { fetchEventStream, fetchHttpClient } from './http';
+import type { Invocation, JmapOptions, JmapSession, JmapSetError, JmapSetResponse } from './types';
+
+export const CORE_CAPABILITY = 'urn:ietf:params:jmap:core';
+export const MAIL_CAPABILITY = 'urn:ietf:params:jmap:mail';
+export const SUBMISSION_CAPABILITY = 'urn:ietf:params:jmap:submission';
+
+const USING = [CORE_CAPABILITY, MAIL_CAPABILITY, SUBMISSION_CAPABILITY];
+
+/**
+ * Method responses of one JMAP request
+ */
+export class JmapResponse {
+  constructor(readonly methodResponses: Invocation[]) {}
+
+  /**
+   * Arguments of the response to `callId`; `name` picks one of several
+   * responses sharing a call id, e.g. the implicit `Email/set` of an
+   * `EmailSubmission/set`
+   */
+  get<T>(callId: string, name?: string): T {
+    const response = this.methodResponses.find(
+      ([responseName, , id]) => id === callId && (!name || responseName === name),
+    );
+    if (!response) {
+      throw new ProviderError('jmap', `Missing response to method call ${callId}`);
+    }
+    return response[1] as T;
+  }
+}
+
+/**
+ * Replace `{name}` variables in a session URL template (RFC 6570 level 1)
+ */
+export function expandTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? encodeURIComponent(values[name] as string) : match,
+  );
+}
+
+/**
+ * Map a method-level error to a faktoor error (RFC 8620 §3.6.2)
+ */
+export function methodError(
+  error: { type?: string; description?: string },
+  context: string,
+): Error {
+  const message = error.description ? `${error.type}: ${error.description}` : `${error.type}`;
+
+  switch (error.type) {
+    case 'forbidden':
+    case 'accountNotFound':
+    case 'accountReadOnly':
+    case 'accountNotSupportedByMethod':
+      return new AuthenticationError(`Access denied: ${message}`);
+    case 'cannotCalculateChanges':
+      // The state is too old; callers start over
+      return new NotFoundError('JMAP sync state', context);
+    case 'invalidArguments':
+    case 'invalidResultReference':
+    case 'unsupportedFilter':
+    case 'unsupportedSort':
+    case 'anchorNotFound':
+      return new ValidationError(message);
+    case 'serverUnavailable':
+      return new ProviderError('jmap', message, { retryable: true });
+    default:
+      return new ProviderError('jmap', message);
+  }
+}
+
+/**
+ * Map a `/set` error for one record to a faktoor error (RFC 8620 §5.3)
+ */
+export function setError(error: JmapSetError, type: string, id: string): Error {
+  switch (error.type) {
+    case 'notFound':
+      return new NotFoundError(type, id);
+    case 'forbidden':
+      return new AuthenticationError(
+        `Access denied: ${error.description ?? `cannot change ${type} ${id}`}`,
+      );
+    case 'invalidProperties':
+    case 'invalidPatch':
+    case 'tooLarge':
+    case 'overQuota':
+    case 'mailboxHasChild':
+    case 'mailboxHasEmail':
+    case 'invalidEmail':
+    case 'noRecipients':
+    case 'invalidRecipients':
+    case 'forbiddenFrom':
+      return new ValidationError(
+        error.description ?? `${error.type} for ${type} ${id}`,
+        error.properties?.[0],
+      );
+    default:
+      return new ProviderError('jmap', error.description ?? `${error.type} for ${type} ${id}`);
+  }
+}
+
+/**
+ * Throw the first record error of a `/set` response
+ */
+export function assertSet(response: JmapSetResponse<unknown>, type: string): void {
+  for (const errors of [response.notCreated, response.notUpdated, response.notDestroyed]) {
+    const [entry] = Object.entries(errors ?? {});
+    if (entry) throw setError(entry[1], type, entry[0]);
+  }
+}
+
+/**
+ * JMAP API client (RFC 8620)
+ */
+export class JmapApi {
+  private readonly http: HttpClient;
+  private readonly eventStream: EventStreamClient;
+  private readonly sessionUrl: string;
+  private readonly authorization: string;
+  private session?: Promise<JmapSession>;
+
+  constructor(private readonly options: JmapOptions) {
+    if (!options.url || !(options.accessToken || (options.username && options.password))) {
+      throw new Error('Invalid JMAP options');
+    }
+    this.http = options.http ?? fetchHttpClient;
+    this.eventStream = options.eventStream ?? fetchEventStream;
+
+    // Session discovery: a bare origin goes through the well-known URL
+    const url = new URL(options.url);
+    if (url.pathname === '/') url.pathname = '/.well-known/jmap';
+    this.sessionUrl = url.toString();
+
+    this.authorization = options.accessToken
+      ? `Bearer ${options.accessToken}`
+      : `Basic ${btoa(`${options.username}:${options.password}`)}`;
+  }
+
+  /**
+   * Fetch the session resource, once
+   */
+  getSession(): Promise<JmapSession> {
+    if (!this.session) {
+      this.session = this.fetchSession();
+      this.session.catch(() => {
+        this.session = undefined;
+      });
+    }
+    return this.session;
+  }
+
+  /**
+   * Id of the mail account every call is made against
+   */
+  async accountId(): Promise<string> {
+    const session = await this.getSession();
+    const accountId = this.options.accountId ?? session.primaryAccounts[MAIL_CAPABILITY];
+    if (!accountId || !(accountId in session.accounts)) {
+      throw new AuthenticationError(
+        accountId ? `JMAP account not found: ${accountId}` : 'No JMAP mail account in session',
+      );
+    }
+    return accountId;
+  }
+
+  /**
+   * Send method calls in a single request
+   *
+   * Calls without an `accountId` argument are made against the mail account.
+   * Throws the error of the first method that failed.
+   */
+  async call(methodCalls: Invocation[], signal?: AbortSignal): Promise<JmapResponse> {
+    const [session, accountId] = await Promise.all([this.getSession(), this.accountId()]);
+    const response = await this.send('POST', session.apiUrl, {
+      body: JSON.stringify({
+        using: USING,
+        methodCalls: methodCalls.map(([name, args, callId]) => [
+          name,
+          { accountId, ...args },
+          callId,
+        ]),
+      }),
+      contentType: 'application/json',
+      signal,
+    });
+
+    const { methodResponses, sessionState } = this.parse<{
+      methodResponses: Invocation[];
+      sessionState?: string;
+    }>(response);
+
+    // The session changed, e.g. new accounts or URLs: fetch it again next time
+    if (sessionState && sessionState !== session.state) {
+      this.session = undefined;
+    }
+
+    const failed = methodResponses.find(([name]) => name === 'error');
+    if (failed) {
+      const [, error, callId] = failed;
+      const call = methodCalls.find(([, , id]) => id === callId);
+      throw methodError(error, String(call?.[1].sinceState ?? call?.[0] ?? callId));
+    }
+
+    return new JmapResponse(methodResponses);
+  }
+
+  /**
+   * Upload a blob, e.g. an attachment, and return its id
+   */
+  async upload(
+    content: Uint8Array,
+    type: string,
+    signal?: AbortSignal,
+  ): Promise<{ blobId: string; size: number }> {
+    const [session, accountId] = await Promise.all([this.getSession(), this.accountId()]);
+    const response = await this.send('POST', expandTemplate(session.uploadUrl, { accountId }), {
+      body: content,
+      contentType: type,
+      signal,
+    });
+    return this.parse(response);
+  }
+
+  /**
+   * Download a blob as text, e.g. a raw message
+   */
+  async download(
+    blobId: string,
+    type: string,
+    name: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const [session, accountId] = await Promise.all([this.getSession(), this.accountId()]);
+    const url = expandTemplate(session.downloadUrl, { accountId, blobId, type, name });
+    return (await this.send('GET', url, { accept: type, signal })).body;
+  }
+
+  /**
+   * Open the push channel for state changes of `types`, or `undefined` when
+   * the server has none
+   */
+  async openEventSource(
+    types: string[],
+    signal: AbortSignal,
+  ): Promise<AsyncIterable<ServerSentEvent> | undefined> {
+    const session = await this.getSession();
+    if (!session.eventSourceUrl) return undefined;
+
+    const url = expandTemplate(session.eventSourceUrl, {
+      types: types.join(','),
+      closeafter: 'no',
+      ping: '60',
+    });
+    return this.eventStream(
+      {
+        method: 'GET',
+        url,
+        headers: { Authorization: this.authorization, Accept: 'text/event-stream' },
+      },
+      signal,
+    );
+  }
+
+  private async fetchSession(): Promise<JmapSession> {
+    const response = await this.send('GET', this.sessionUrl);
+    const session = this.parse<JmapSession>(response);
+
+    // URLs may be relative to the session resource; keep template braces unescaped
+    const resolve = (url: string) =>
+      /^https?:\/\//i.test(url)
+        ? url
+        : new URL(url, this.sessionUrl).toString().replace(/%7B/g, '{').replace(/%7D/g, '}');
+    return {
+      ...session,
+      apiUrl: resolve(session.apiUrl),
+      uploadUrl: resolve(session.uploadUrl),
+      downloadUrl: resolve(session.downloadUrl),
+      eventSourceUrl: session.eventSourceUrl ? resolve(session.eventSourceUrl) : undefined,
+    };
+  }
+
+  private async send(
+    method: string,
+    url: string,
+    options: {
+      body?: string | Uint8Array;
+      contentType?: string;
+      accept?: string;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<HttpResponse> {
+    const response = await this.http({
+      method,
+      url,
+      headers: {
+        Authorization: this.authorization,
+        Accept: options.accept ?? 'application/json',
+        ...(options.contentType ? { 'Content-Type': options.contentType } : {}),
+      },
+      body: options.body,
+      signal: options.signal,
+    });
+
+    if (response.status >= 400) {
+      this.handleError(response, new URL(url).pathname);
+    }
+    return response;
+  }
+
+  private parse<T>(response: HttpResponse): T {
+    try {
+      return JSON.parse(response.body) as T;
+    } catch (error) {
+      throw new NetworkError('Invalid response from JMAP server', error as Error);
+    }
+  }
+
+  /**
+   * Handle request-level errors (RFC 8620 §3.6.1)
+   */
+  private handleError(response: HttpResponse, path: string): never {
+    let problem: { type?: string; detail?: string; title?: string } = {};
+    try {
+      problem = JSON.parse(response.body);
+    } catch {
+      // Ignore JSON parse errors
+    }
+
+    const message = problem.detail || problem.title || problem.type || `HTTP ${response.status}`;
+
+    switch (response.status) {
+      case 401:
+        throw new AuthenticationError(message);
+      case 403:
+        throw new AuthenticationError(`Access denied: ${message}`);
+      case 404:
+        throw new NotFoundError('JMAP resource', path);
+      case 429:
+        throw new RateLimitError(message, parseRetryAfter(response.headers['retry-after']));
+      default:
+        throw new ProviderError('jmap', message, { retryable: response.status >= 500 });
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseEventStream } from './http';
+
+async function* chunks(...parts: string[]): AsyncGenerator<string> {
+  yield* parts;
+}
+
+describe('parseEventStream', () => {
+  it('should split events across chunk boundaries', async () => {
+    const events = [];
+    for await (const event of parseEventStream(
+      chunks(
+        ': ping\n\nevent: state\ndata: {"changed":',
+        '{}}\n\ndata: one\r\ndata: two\r\n\r\n',
+        'event: state\ndata: incomplete',
+      ),
+    )) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'state', data: '{"changed":{}}' },
+      { event: 'message', data: 'one\ntwo' },
+    ]);
+  });
+});
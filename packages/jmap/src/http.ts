@@ -0,0 +1,143 @@
+import { NetworkError } from '@faktoor/core';
+
+/**
+ * HTTP request sent to the JMAP server
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+  signal?: AbortSignal;
+}
+
+/**
+ * HTTP response, with lower-case header names
+ */
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Sends HTTP requests; swap it to add proxies, logging or a test stub
+ *
+ * Throws `NetworkError` when no response was received, or the signal's reason
+ * when it aborted.
+ */
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Server-sent event
+ */
+export interface ServerSentEvent {
+  /** Event type, `message` when the server names none */
+  event: string;
+  data: string;
+}
+
+/**
+ * Opens a server-sent event stream; the iteration ends when `signal` aborts
+ * or the server closes the connection
+ */
+export type EventStreamClient = (
+  request: HttpRequest,
+  signal: AbortSignal,
+) => AsyncIterable<ServerSentEvent>;
+
+/**
+ * HTTP client backed by the global `fetch`
+ */
+export const fetchHttpClient: HttpClient = async (request) => {
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body as BodyInit | undefined,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return { status: response.status, headers, body: await response.text() };
+  } catch (error) {
+    if (request.signal?.aborted) throw request.signal.reason;
+    throw new NetworkError(`Failed to connect to ${new URL(request.url).host}`, error as Error);
+  }
+};
+
+/**
+ * Split a server-sent event stream into events
+ */
+export async function* parseEventStream(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<ServerSentEvent> {
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    // The last line may be incomplete
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length) yield { event: event || 'message', data: data.join('\n') };
+        event = '';
+        data = [];
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+  }
+}
+
+/**
+ * Event stream client backed by the global `fetch`
+ */
+export const fetchEventStream: EventStreamClient = (request, signal) => {
+  async function* chunks(): AsyncGenerator<string> {
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        signal,
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      throw new NetworkError(`Failed to connect to ${new URL(request.url).host}`, error as Error);
+    }
+    if (!response.ok || !response.body) {
+      throw new NetworkError(`Event stream failed with HTTP ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      throw new NetworkError('Event stream interrupted', error as Error);
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return parseEventStream(chunks());
+};
@@ -0,0 +1,28 @@
+// Provider
+export { jmap, JmapProvider } from './provider';
+
+// HTTP layer
+export { fetchEventStream, fetchHttpClient } from './http';
+export type {
+  EventStreamClient,
+  HttpClient,
+  HttpRequest,
+  HttpResponse,
+  ServerSentEvent,
+} from './http';
+
+// Types
+export type { JmapEmail, JmapOptions } from './types';
+
+// Re-export core types for convenience
+export type {
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  ListOptions,
+  ListPage,
+  SendOptions,
+  GetOptions,
+  MailProvider,
+} from '@faktoor/core';
@@ -0,0 +1,191 @@
+import type {
+  Address,
+  AttachmentMeta,
+  EmailBody,
+  EmailId,
+  Folder,
+  FolderName,
+  Label,
+  ThreadId,
+} from '@faktoor/core';
+import { htmlToText } from '@faktoor/parser';
+import type { JmapAddress, JmapBodyPart, JmapEmail, JmapEmailObject, JmapMailbox } from './types';
+
+/**
+ * JMAP mailbox roles for faktoor.js folder aliases
+ */
+export const MAILBOX_ROLES: Record<string, string> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  drafts: 'drafts',
+  trash: 'trash',
+  spam: 'junk',
+  archive: 'archive',
+};
+
+/**
+ * Email properties requested for `format: 'metadata'` and `'minimal'`
+ */
+export const METADATA_PROPERTIES = [
+  'id',
+  'blobId',
+  'threadId',
+  'mailboxIds',
+  'keywords',
+  'size',
+  'receivedAt',
+  'messageId',
+  'inReplyTo',
+  'references',
+  'sender',
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'replyTo',
+  'subject',
+  'sentAt',
+  'hasAttachment',
+  'preview',
+  'headers',
+  'attachments',
+];
+
+/**
+ * Email properties requested for full messages
+ */
+export const EMAIL_PROPERTIES = [...METADATA_PROPERTIES, 'textBody', 'htmlBody', 'bodyValues'];
+
+/**
+ * Parse a JMAP address into an Address
+ */
+export function parseAddress(address: JmapAddress | undefined): Address {
+  return { email: address?.email ?? '', name: address?.name || undefined };
+}
+
+/**
+ * Parse a list of JMAP addresses, dropping ones without an address (e.g. groups)
+ */
+export function parseAddresses(addresses: JmapAddress[] | null | undefined): Address[] {
+  return (addresses ?? []).map(parseAddress).filter((address) => address.email);
+}
+
+/**
+ * Convert an Address list to JMAP addresses
+ */
+export function toJmapAddresses(addresses: Address[]): JmapAddress[] {
+  return addresses.map(({ email, name }) => (name ? { email, name } : { email }));
+}
+
+/**
+ * Join the fetched values of the body parts of one type
+ */
+function joinParts(email: JmapEmailObject, parts: JmapBodyPart[] | undefined, type: string) {
+  return (parts ?? [])
+    .filter((part) => part.type === type && part.partId)
+    .map((part) => email.bodyValues?.[part.partId as string]?.value)
+    .filter((value) => value !== undefined)
+    .join('\n');
+}
+
+/**
+ * Extract body from a JMAP email
+ *
+ * Only the parts listed in `textBody`/`htmlBody` whose values were fetched
+ * are used; the text of HTML-only emails is derived from the HTML.
+ */
+export function extractBody(email: JmapEmailObject): EmailBody {
+  const html = joinParts(email, email.htmlBody, 'text/html') || null;
+  const text = joinParts(email, email.textBody, 'text/plain');
+
+  if (text) return { html, text };
+  if (html) return { html, text: htmlToText(html) };
+  return { html: null, text: email.bodyValues ? '' : (email.preview ?? '') };
+}
+
+/**
+ * Extract attachment metadata from a JMAP email; ids are blob ids
+ */
+export function extractAttachments(email: JmapEmailObject): AttachmentMeta[] {
+  return (email.attachments ?? [])
+    .filter((part) => part.blobId)
+    .map((part) => ({
+      id: part.blobId as string,
+      filename: part.name ?? 'attachment',
+      mimeType: part.type ?? 'application/octet-stream',
+      size: part.size ?? 0,
+    }));
+}
+
+/**
+ * Parse a JMAP email to Email
+ *
+ * `folderName` names the folder from the ids of the email's mailboxes.
+ * Keywords starting with `$` map to flags; the others become labels.
+ */
+export function parseJmapEmail(
+  email: JmapEmailObject,
+  folderName: (mailboxIds: string[]) => string = (mailboxIds) => mailboxIds[0] ?? '',
+): JmapEmail {
+  const headers = new Map<string, string>();
+  for (const { name, value } of email.headers ?? []) {
+    const key = name.toLowerCase();
+    // Keep the first of repeated headers
+    if (!headers.has(key)) headers.set(key, value.trim());
+  }
+
+  const mailboxIds = Object.keys(email.mailboxIds ?? {}).filter((id) => email.mailboxIds?.[id]);
+  const keywords = Object.keys(email.keywords ?? {}).filter((keyword) => email.keywords?.[keyword]);
+  const labels: Label[] = keywords
+    .filter((keyword) => !keyword.startsWith('$'))
+    .map((keyword) => ({ id: keyword, name: keyword }));
+  const receivedAt = new Date(email.receivedAt ?? Date.now());
+  const [from] = parseAddresses(email.from ?? email.sender);
+  const [replyTo] = parseAddresses(email.replyTo);
+
+  return {
+    id: email.id as EmailId,
+    threadId: (email.threadId ?? email.id) as ThreadId,
+    folder: folderName(mailboxIds) as FolderName,
+    from: from ?? { email: '' },
+    to: parseAddresses(email.to),
+    cc: parseAddresses(email.cc),
+    bcc: parseAddresses(email.bcc),
+    replyTo,
+    subject: email.subject ?? '',
+    body: extractBody(email),
+    date: email.sentAt ? new Date(email.sentAt) : receivedAt,
+    receivedAt,
+    isRead: keywords.includes('$seen'),
+    isStarred: keywords.includes('$flagged'),
+    isDraft: keywords.includes('$draft'),
+    labels,
+    attachments: extractAttachments(email),
+    headers,
+    inReplyTo: email.inReplyTo?.[0] as EmailId | undefined,
+    references: email.references?.length ? (email.references as EmailId[]) : undefined,
+    preview: email.preview ?? '',
+    size: email.size ?? 0,
+    blobId: email.blobId ?? '',
+    mailboxIds,
+    keywords,
+  };
+}
+
+/**
+ * Map a JMAP mailbox to Folder
+ *
+ * `path` holds the mailbox names from the top-level mailbox down, joined with
+ * `/`. Mailboxes with a known role are named after their faktoor.js alias.
+ */
+export function parseMailbox(mailbox: JmapMailbox, path: string, children?: Folder[]): Folder {
+  const alias = Object.keys(MAILBOX_ROLES).find((name) => MAILBOX_ROLES[name] === mailbox.role);
+  return {
+    name: (alias ?? path) as FolderName,
+    path,
+    type: (alias ?? 'custom') as Folder['type'],
+    unreadCount: mailbox.unreadEmails ?? 0,
+    totalCount: mailbox.totalEmails ?? 0,
+    ...(children ? { children } : {}),
+  };
+}
@@ -0,0 +1,385 @@
+import { AuthenticationError, NotFoundError, ProviderError, ValidationError } from '@faktoor/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FakeJmapServer, SERVER_URL, TOKEN } from './__fixtures__/fake-server';
+import { JmapProvider, buildFilter } from './provider';
+import type { JmapEmail } from './types';
+
+describe('JmapProvider', () => {
+  let server: FakeJmapServer;
+  let provider: JmapProvider;
+
+  beforeEach(() => {
+    server = new FakeJmapServer();
+    server.addEmail({
+      id: 'm1',
+      subject: 'Quarterly report',
+      receivedAt: '2024-05-03T09:00:00Z',
+      sentAt: '2024-05-03T08:59:00Z',
+      keywords: { $seen: true, $flagged: true, work: true },
+      messageId: ['report@example.com'],
+      inReplyTo: ['draft@example.com'],
+      references: ['root@example.com', 'draft@example.com'],
+      headers: [
+        { name: 'Subject', value: ' Quarterly report' },
+        { name: 'X-Mailer', value: ' Mailer 1.0' },
+      ],
+      textBody: [{ partId: '1', type: 'text/plain' }],
+      htmlBody: [{ partId: '2', type: 'text/html' }],
+      bodyValues: { '1': { value: 'Numbers inside' }, '2': { value: '<p>Numbers inside</p>' } },
+      attachments: [
+        { partId: '3', blobId: 'b-pdf', name: 'q2.pdf', type: 'application/pdf', size: 2048 },
+      ],
+      hasAttachment: true,
+      preview: 'Numbers inside',
+    });
+    server.addEmail({
+      id: 'm2',
+      subject: 'Lunch?',
+      receivedAt: '2024-05-02T12:00:00Z',
+      htmlBody: [{ partId: '1', type: 'text/html' }],
+      textBody: [{ partId: '1', type: 'text/html' }],
+      bodyValues: { '1': { value: '<p>Noon at <b>the usual</b></p>' } },
+    });
+    server.addEmail({
+      id: 'm3',
+      subject: 'Acme kickoff',
+      receivedAt: '2024-05-01T08:00:00Z',
+      mailboxIds: { 'mb-acme': true },
+    });
+    provider = new JmapProvider({
+      url: SERVER_URL,
+      accessToken: TOKEN,
+      http: server.client,
+      eventStream: server.eventStream,
+    });
+  });
+
+  describe('session', () => {
+    it('should discover the session through the well-known URL', async () => {
+      await provider.connect();
+
+      expect(server.requests[0]?.url).toBe(`${SERVER_URL}/.well-known/jmap`);
+      // API URL in the session is relative
+      expect(server.requests[1]?.url).toBe(`${SERVER_URL}/api/`);
+      expect(provider.isConnected()).toBe(true);
+    });
+
+    it('should throw AuthenticationError for rejected credentials', async () => {
+      const rejected = new JmapProvider({
+        url: SERVER_URL,
+        accessToken: 'wrong',
+        http: server.client,
+      });
+
+      await expect(rejected.connect()).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('listPage', () => {
+    it('should query and fetch emails in a single request', async () => {
+      const page = await provider.listPage({ folder: 'inbox', limit: 10 });
+
+      const [batch] = server.batches.slice(-1);
+      expect(batch?.map(([name]) => name)).toEqual(['Email/query', 'Email/get']);
+      expect(batch?.[1]?.[1]['#ids']).toEqual({
+        resultOf: 'query',
+        name: 'Email/query',
+        path: '/ids',
+      });
+      expect(page.emails.map((email) => email.id)).toEqual(['m1', 'm2']);
+      expect(page.totalEstimate).toBe(2);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it('should page with cursors', async () => {
+      const first = await provider.listPage({ limit: 2 });
+      const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+
+      expect(first.emails.map((email) => email.id)).toEqual(['m1', 'm2']);
+      expect(second.emails.map((email) => email.id)).toEqual(['m3']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should name folders by alias or path', async () => {
+      const emails = await provider.list();
+
+      expect(emails.map((email) => email.folder)).toEqual(['inbox', 'inbox', 'Projects/Acme']);
+    });
+
+    it('should stream every page', async () => {
+      const ids: string[] = [];
+      for await (const email of provider.stream({ batchSize: 2 })) ids.push(email.id);
+
+      expect(ids).toEqual(['m1', 'm2', 'm3']);
+    });
+  });
+
+  describe('buildFilter', () => {
+    it('should map list options to a filter condition', () => {
+      expect(
+        buildFilter(
+          {
+            from: 'bob@example.com',
+            unreadOnly: true,
+            hasAttachment: true,
+            after: new Date('2024-05-01T00:00:00Z'),
+            query: 'report',
+          },
+          'mb-inbox',
+        ),
+      ).toEqual({
+        inMailbox: 'mb-inbox',
+        from: 'bob@example.com',
+        after: '2024-05-01T00:00:00Z',
+        hasAttachment: true,
+        notKeyword: '$seen',
+        text: 'report',
+      });
+    });
+
+    it('should AND extra labels as separate conditions', () => {
+      expect(buildFilter({ labels: ['work', 'urgent'] })).toEqual({
+        operator: 'AND',
+        conditions: [{ hasKeyword: 'work' }, { hasKeyword: 'urgent' }],
+      });
+      expect(buildFilter({})).toBeUndefined();
+    });
+
+    it('should be understood by the server', async () => {
+      const emails = await provider.list({ labels: ['work'], subject: 'report' });
+
+      expect(emails.map((email) => email.id)).toEqual(['m1']);
+    });
+  });
+
+  describe('get', () => {
+    it('should map keywords, bodies and headers', async () => {
+      const email = (await provider.get('m1')) as JmapEmail;
+
+      expect(email).toMatchObject({
+        id: 'm1',
+        threadId: 't-m1',
+        folder: 'inbox',
+        from: { email: 'bob@example.com', name: 'Bob' },
+        subject: 'Quarterly report',
+        body: { text: 'Numbers inside', html: '<p>Numbers inside</p>' },
+        date: new Date('2024-05-03T08:59:00Z'),
+        receivedAt: new Date('2024-05-03T09:00:00Z'),
+        isRead: true,
+        isStarred: true,
+        isDraft: false,
+        labels: [{ id: 'work', name: 'work' }],
+        attachments: [{ id: 'b-pdf', filename: 'q2.pdf', mimeType: 'application/pdf', size: 2048 }],
+        inReplyTo: 'draft@example.com',
+        references: ['root@example.com', 'draft@example.com'],
+        mailboxIds: ['mb-inbox'],
+        keywords: ['$seen', '$flagged', 'work'],
+      });
+      expect(email.headers.get('x-mailer')).toBe('Mailer 1.0');
+    });
+
+    it('should derive the text of HTML-only emails', async () => {
+      const email = await provider.get('m2');
+
+      expect(email.body).toEqual({
+        html: '<p>Noon at <b>the usual</b></p>',
+        text: 'Noon at the usual',
+      });
+      expect(email.isRead).toBe(false);
+    });
+
+    it('should download the raw message', async () => {
+      const email = await provider.get('m1', { includeRaw: true });
+
+      expect(email.raw).toBe('Subject: Quarterly report\r\n\r\nraw m1');
+    });
+
+    it('should pass the call signal to its requests', async () => {
+      await provider.connect();
+      const controller = new AbortController();
+      const start = server.requests.length;
+
+      await provider.get('m1', { includeRaw: true, signal: controller.signal });
+
+      const requests = server.requests.slice(start);
+      expect(requests).toHaveLength(2);
+      expect(requests.map((request) => request.signal)).toEqual([
+        controller.signal,
+        controller.signal,
+      ]);
+    });
+
+    it('should throw NotFoundError for unknown emails', async () => {
+      await expect(provider.get('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('folders', () => {
+    it('should list mailboxes as a tree', async () => {
+      const folders = await provider.listFolders();
+
+      expect(folders.map((folder) => [folder.name, folder.type])).toEqual([
+        ['inbox', 'inbox'],
+        ['drafts', 'drafts'],
+        ['sent', 'sent'],
+        ['spam', 'spam'],
+        ['trash', 'trash'],
+        ['Projects', 'custom'],
+      ]);
+      expect(folders[0]).toMatchObject({ path: 'Inbox', totalCount: 2, unreadCount: 1 });
+      expect(folders[5]?.children).toEqual([
+        {
+          name: 'Projects/Acme',
+          path: 'Projects/Acme',
+          type: 'custom',
+          unreadCount: 1,
+          totalCount: 1,
+        },
+      ]);
+    });
+
+    it('should create nested folders under their parent', async () => {
+      const folder = await provider.createFolder('Projects/Globex');
+
+      expect(folder).toMatchObject({ name: 'Projects/Globex', type: 'custom' });
+      expect(server.callsTo('Mailbox/set')[0]?.create).toEqual({
+        folder: { name: 'Globex', parentId: 'mb-projects' },
+      });
+      await expect(provider.getFolder('projects/globex')).resolves.toMatchObject({
+        path: 'Projects/Globex',
+      });
+    });
+
+    it('should refuse to delete folders with children', async () => {
+      await expect(provider.deleteFolder('Projects')).rejects.toThrow(ValidationError);
+      await provider.deleteFolder('Projects/Acme');
+
+      expect(server.mailboxes.has('mb-acme')).toBe(false);
+    });
+
+    it('should throw NotFoundError for unknown folders', async () => {
+      await expect(provider.list({ folder: 'Nowhere' })).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('mutations', () => {
+    it('should set and clear keywords', async () => {
+      await provider.markAsRead('m2');
+      await provider.star('m2');
+      await provider.addLabel('m2', 'follow/up');
+      await provider.unstar('m1');
+      await provider.removeLabel('m1', 'work');
+
+      expect(server.callsTo('Email/set').map((args) => args.update)).toEqual([
+        { m2: { 'keywords/$seen': true } },
+        { m2: { 'keywords/$flagged': true } },
+        { m2: { 'keywords/follow~1up': true } },
+        { m1: { 'keywords/$flagged': null } },
+        { m1: { 'keywords/work': null } },
+      ]);
+      expect(server.emails.get('m2')?.keywords).toEqual({
+        $seen: true,
+        $flagged: true,
+        'follow/up': true,
+      });
+      expect(server.emails.get('m1')?.keywords).toEqual({ $seen: true });
+    });
+
+    it('should move emails and delete them to the trash', async () => {
+      await provider.move('m1', 'Projects/Acme');
+      expect(server.emails.get('m1')?.mailboxIds).toEqual({ 'mb-acme': true });
+
+      await provider.delete('m1');
+      expect(server.emails.get('m1')?.mailboxIds).toEqual({ 'mb-trash': true });
+    });
+
+    it('should throw NotFoundError when updating unknown emails', async () => {
+      await expect(provider.markAsRead('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('send', () => {
+    it('should create and submit the email in a single request', async () => {
+      const result = await provider.send({
+        to: 'Bob <bob@example.com>',
+        cc: ['carol@example.com'],
+        subject: 'Re: Quarterly report',
+        text: 'Looks good',
+        html: '<p>Looks good</p>',
+        inReplyTo: '<report@example.com>',
+        references: ['<root@example.com>', '<report@example.com>'],
+        headers: { 'X-Priority': '1' },
+      });
+
+      const [batch] = server.batches.slice(-1);
+      expect(batch?.map(([name]) => name)).toEqual(['Email/set', 'EmailSubmission/set']);
+      expect(batch?.[0]?.[1].create).toEqual({
+        draft: {
+          mailboxIds: { 'mb-drafts': true },
+          keywords: { $draft: true, $seen: true },
+          from: [{ email: 'alice@example.com', name: 'Alice' }],
+          to: [{ email: 'bob@example.com', name: 'Bob' }],
+          cc: [{ email: 'carol@example.com' }],
+          subject: 'Re: Quarterly report',
+          inReplyTo: ['report@example.com'],
+          references: ['root@example.com', 'report@example.com'],
+          'header:X-Priority:asText': '1',
+          bodyValues: { text: { value: 'Looks good' }, html: { value: '<p>Looks good</p>' } },
+          textBody: [{ partId: 'text', type: 'text/plain' }],
+          htmlBody: [{ partId: 'html', type: 'text/html' }],
+        },
+      });
+      expect(batch?.[1]?.[1].create).toEqual({
+        submission: { identityId: 'i1', emailId: '#draft' },
+      });
+
+      // Moved from drafts to sent once submitted
+      const sent = server.emails.get(result.id);
+      expect(sent?.mailboxIds).toEqual({ 'mb-sent': true });
+      expect(sent?.keywords).toEqual({ $seen: true });
+      expect(result.threadId).toBe(`t-${result.id}`);
+    });
+
+    it('should upload attachments as blobs', async () => {
+      await provider.send({
+        to: 'bob@example.com',
+        subject: 'Files',
+        text: 'Attached',
+        attachments: [
+          { filename: 'notes.txt', content: 'hello', mimeType: 'text/plain' },
+          { filename: 'logo.png', content: new Uint8Array([1, 2]), contentId: 'logo' },
+        ],
+      });
+
+      const uploads = server.requests.filter((request) => request.url.includes('/upload/'));
+      expect(uploads.map((request) => request.headers['Content-Type'])).toEqual([
+        'text/plain',
+        'image/png',
+      ]);
+      const created = server.callsTo('Email/set')[0]?.create as Record<
+        string,
+        { attachments: unknown }
+      >;
+      expect(created.draft?.attachments).toEqual([
+        { blobId: 'upload-1', type: 'text/plain', name: 'notes.txt', disposition: 'attachment' },
+        {
+          blobId: 'upload-2',
+          type: 'image/png',
+          name: 'logo.png',
+          disposition: 'inline',
+          cid: 'logo',
+        },
+      ]);
+    });
+
+    it('should destroy the draft when the submission is rejected', async () => {
+      server.rejectSubmissions = 'forbiddenToSend';
+      const before = server.emails.size;
+
+      await expect(
+        provider.send({ to: 'bob@example.com', subject: 'Hi', text: 'Hello' }),
+      ).rejects.toThrow(ProviderError);
+      expect(server.emails.size).toBe(before);
+    });
+  });
+});
@@ -0,0 +1,512 @@
+import type {
+  CallOptions,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import {
+  NotFoundError,
+  ValidationError,
+  abortable,
+  decodeCursor,
+  encodeCursor,
+  paginateStream,
+} from '@faktoor/core';
+import { JmapApi, assertSet } from './api';
+import {
+  EMAIL_PROPERTIES,
+  MAILBOX_ROLES,
+  METADATA_PROPERTIES,
+  parseJmapEmail,
+  parseMailbox,
+} from './parser';
+import { sendMessage } from './send';
+import type {
+  JmapEmail,
+  JmapEmailObject,
+  JmapGetResponse,
+  JmapIdentity,
+  JmapMailbox,
+  JmapOptions,
+  JmapQueryResponse,
+  JmapSetResponse,
+} from './types';
+import { watchMailbox } from './watch';
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Mailboxes by id, path and role, loaded once and refreshed by `listFolders()`
+ */
+interface MailboxIndex {
+  /** Mailbox id to its path and, for mailboxes with a known role, its alias */
+  entries: Map<string, { path: string; alias?: string }>;
+  /** Lower-cased path to mailbox id */
+  ids: Map<string, string>;
+  /** Role to mailbox id */
+  roles: Map<string, string>;
+  tree: Folder[];
+}
+
+/**
+ * Escape a key for use in a JMAP patch path (RFC 6901)
+ */
+function pointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Format a date as a JMAP `UTCDate`, which leaves out zero fractional seconds
+ */
+function utcDate(date: Date): string {
+  return date.toISOString().replace(/\.000Z$/, 'Z');
+}
+
+/**
+ * Build a JMAP `FilterCondition` from list options
+ *
+ * A condition holds a single `hasKeyword`, so extra labels are ANDed in as
+ * separate conditions.
+ */
+export function buildFilter(
+  options: ListOptions,
+  mailboxId?: string,
+): Record<string, unknown> | undefined {
+  const [label, ...labels] = options.labels ?? [];
+  const condition: Record<string, unknown> = {};
+
+  if (mailboxId) condition.inMailbox = mailboxId;
+  if (options.from) condition.from = options.from;
+  if (options.to) condition.to = options.to;
+  if (options.subject) condition.subject = options.subject;
+  if (options.after) condition.after = utcDate(options.after);
+  if (options.before) condition.before = utcDate(options.before);
+  if (options.hasAttachment) condition.hasAttachment = true;
+  if (options.unreadOnly) condition.notKeyword = '$seen';
+  if (label) condition.hasKeyword = label;
+  if (options.query) condition.text = options.query;
+
+  if (labels.length) {
+    return {
+      operator: 'AND',
+      conditions: [condition, ...labels.map((keyword) => ({ hasKeyword: keyword }))],
+    };
+  }
+  return Object.keys(condition).length ? condition : undefined;
+}
+
+/**
+ * JMAP provider implementation (RFC 8620/8621)
+ */
+export class JmapProvider implements MailProvider {
+  readonly name = 'jmap';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: false,
+    drafts: false,
+    send: true,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'folders',
+    move: 'same-id',
+    serverSearch: true,
+    batch: true,
+  };
+  private api: JmapApi;
+  private connected = false;
+  private mailboxIndex?: Promise<MailboxIndex>;
+  private identity?: Promise<JmapIdentity>;
+
+  constructor(private readonly options: JmapOptions) {
+    this.api = new JmapApi(options);
+  }
+
+  async connect(call: CallOptions = {}): Promise<void> {
+    await this.mailboxes(call.signal);
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async list(options: ListOptions = {}): Promise<JmapEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  /**
+   * List one page of emails: `Email/query` and `Email/get` in a single request
+   */
+  async listPage(options: ListOptions = {}): Promise<ListPage<JmapEmail>> {
+    const position = options.cursor
+      ? decodeCursor<{ position: number }>(options.cursor).position
+      : (options.offset ?? 0);
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const mailboxId = options.folder
+      ? await this.resolveMailbox(options.folder, options.signal)
+      : undefined;
+
+    const response = await this.api.call(
+      [
+        [
+          'Email/query',
+          {
+            filter: buildFilter(options, mailboxId),
+            sort: [{ property: 'receivedAt', isAscending: false }],
+            position,
+            limit,
+            calculateTotal: true,
+          },
+          'query',
+        ],
+        [
+          'Email/get',
+          {
+            '#ids': { resultOf: 'query', name: 'Email/query', path: '/ids' },
+            properties: EMAIL_PROPERTIES,
+            fetchAllBodyValues: true,
+          },
+          'emails',
+        ],
+      ],
+      options.signal,
+    );
+
+    const query = response.get<JmapQueryResponse>('query');
+    const { list } = response.get<JmapGetResponse<JmapEmailObject>>('emails');
+    const next = query.position + query.ids.length;
+    const more = query.total === undefined ? query.ids.length === limit : next < query.total;
+
+    return {
+      emails: await this.parseEmails(this.inOrder(list, query.ids), options.signal),
+      nextCursor: more && query.ids.length ? encodeCursor({ position: next }) : undefined,
+      totalEstimate: query.total,
+    };
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<Email> {
+    const full = (options.format ?? 'full') === 'full';
+    const response = await this.api.call(
+      [
+        [
+          'Email/get',
+          {
+            ids: [id],
+            properties: full ? EMAIL_PROPERTIES : METADATA_PROPERTIES,
+            fetchAllBodyValues: full,
+          },
+          'get',
+        ],
+      ],
+      options.signal,
+    );
+
+    const [message] = response.get<JmapGetResponse<JmapEmailObject>>('get').list;
+    if (!message) {
+      throw new NotFoundError('Email', id);
+    }
+
+    const [email] = await this.parseEmails([message], options.signal);
+    if (options.includeRaw && message.blobId) {
+      (email as JmapEmail).raw = await this.api.download(
+        message.blobId,
+        'message/rfc822',
+        'message.eml',
+        options.signal,
+      );
+    }
+    return email as JmapEmail;
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<Email> {
+    const limit = options.batchSize ?? DEFAULT_LIMIT;
+    yield* paginateStream((cursor) => this.listPage({ ...options, limit, cursor }));
+  }
+
+  /**
+   * Send an email through `EmailSubmission/set`, from the account's first identity
+   */
+  async send(options: SendOptions, call: CallOptions = {}): Promise<SendResult> {
+    const [identity, index] = await Promise.all([
+      abortable(this.getIdentity(), call.signal),
+      this.mailboxes(call.signal),
+    ]);
+    return sendMessage(
+      this.api,
+      identity,
+      {
+        drafts: index.roles.get('drafts'),
+        sent: index.roles.get('sent'),
+      },
+      options,
+      call.signal,
+    );
+  }
+
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    this.mailboxIndex = undefined;
+    return (await this.mailboxes(call.signal)).tree;
+  }
+
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
+    const id = await this.resolveMailbox(name, call.signal);
+    const response = await this.api.call([['Mailbox/get', { ids: [id] }, 'get']], call.signal);
+    const [mailbox] = response.get<JmapGetResponse<JmapMailbox>>('get').list;
+    if (!mailbox) {
+      throw new NotFoundError('Folder', name);
+    }
+
+    const entry = (await this.mailboxes(call.signal)).entries.get(mailbox.id);
+    return parseMailbox(mailbox, entry?.path ?? mailbox.name);
+  }
+
+  /**
+   * Create a mailbox; `Parent/Child` creates `Child` inside the existing `Parent`
+   */
+  async createFolder(name: string, call: CallOptions = {}): Promise<Folder> {
+    const slash = name.lastIndexOf('/');
+    const parentId =
+      slash === -1 ? null : await this.resolveMailbox(name.slice(0, slash), call.signal);
+    const mailbox = { name: name.slice(slash + 1), parentId };
+
+    const response = await this.api.call(
+      [['Mailbox/set', { create: { folder: mailbox } }, 'create']],
+      call.signal,
+    );
+    const result = response.get<JmapSetResponse<{ id: string }>>('create');
+    assertSet(result, 'Folder');
+    this.mailboxIndex = undefined;
+
+    return parseMailbox({ ...mailbox, ...result.created?.folder } as JmapMailbox, name);
+  }
+
+  /**
+   * Delete an empty mailbox; mailboxes with emails or children are refused
+   */
+  async deleteFolder(name: FolderName | string, call: CallOptions = {}): Promise<void> {
+    const id = await this.resolveMailbox(name, call.signal);
+    const response = await this.api.call(
+      [['Mailbox/set', { destroy: [id], onDestroyRemoveEmails: false }, 'destroy']],
+      call.signal,
+    );
+    assertSet(response.get<JmapSetResponse>('destroy'), 'Folder');
+    this.mailboxIndex = undefined;
+  }
+
+  async markAsRead(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { 'keywords/$seen': true }, call.signal);
+  }
+
+  async markAsUnread(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { 'keywords/$seen': null }, call.signal);
+  }
+
+  async star(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { 'keywords/$flagged': true }, call.signal);
+  }
+
+  async unstar(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { 'keywords/$flagged': null }, call.signal);
+  }
+
+  async move(
+    id: EmailId | string,
+    folder: FolderName | string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    const mailboxId = await this.resolveMailbox(folder, call.signal);
+    await this.update(id, { mailboxIds: { [mailboxId]: true } }, call.signal);
+  }
+
+  /**
+   * Move an email to the trash, or destroy it when the account has no trash
+   */
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    const trash = (await this.mailboxes(call.signal)).roles.get('trash');
+    if (trash) {
+      await this.update(id, { mailboxIds: { [trash]: true } }, call.signal);
+      return;
+    }
+
+    const response = await this.api.call(
+      [['Email/set', { destroy: [id] }, 'destroy']],
+      call.signal,
+    );
+    assertSet(response.get<JmapSetResponse>('destroy'), 'Email');
+  }
+
+  /**
+   * Add a keyword to an email; labels are keywords without a `$` prefix
+   */
+  async addLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { [`keywords/${pointer(label)}`]: true }, call.signal);
+  }
+
+  async removeLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    await this.update(id, { [`keywords/${pointer(label)}`]: null }, call.signal);
+  }
+
+  /**
+   * Watch a mailbox (default: inbox) through `Email/changes`, woken up by the
+   * server's event source or polled every `interval`
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    return watchMailbox(
+      this.api,
+      () => this.resolveMailbox(options.folder ?? 'inbox'),
+      (emails) => this.parseEmails(emails),
+      { ...options, push: this.options.push },
+    );
+  }
+
+  /**
+   * Apply a patch to an email
+   */
+  private async update(
+    id: string,
+    patch: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const response = await this.api.call(
+      [['Email/set', { update: { [id]: patch } }, 'update']],
+      signal,
+    );
+    assertSet(response.get<JmapSetResponse>('update'), 'Email');
+  }
+
+  /**
+   * Resolve a folder alias, path or mailbox id to a mailbox id
+   */
+  private async resolveMailbox(name: string, signal?: AbortSignal): Promise<string> {
+    const lookup = (index: MailboxIndex): string | undefined => {
+      const role = MAILBOX_ROLES[name.toLowerCase()];
+      const byRole = role ? index.roles.get(role) : undefined;
+      return (
+        byRole ?? index.ids.get(name.toLowerCase()) ?? (index.entries.has(name) ? name : undefined)
+      );
+    };
+
+    let id = lookup(await this.mailboxes(signal));
+    if (id === undefined) {
+      // Created since the mailboxes were loaded
+      this.mailboxIndex = undefined;
+      id = lookup(await this.mailboxes(signal));
+    }
+    if (id === undefined) {
+      throw new NotFoundError('Folder', name);
+    }
+    return id;
+  }
+
+  /**
+   * Load the mailbox tree, once
+   *
+   * The load is shared between callers, so `signal` only stops waiting for it.
+   */
+  private mailboxes(signal?: AbortSignal): Promise<MailboxIndex> {
+    if (!this.mailboxIndex) {
+      this.mailboxIndex = this.loadMailboxes();
+      this.mailboxIndex.catch(() => {
+        this.mailboxIndex = undefined;
+      });
+    }
+    return abortable(this.mailboxIndex, signal);
+  }
+
+  private async loadMailboxes(): Promise<MailboxIndex> {
+    const response = await this.api.call([['Mailbox/get', { ids: null }, 'mailboxes']]);
+    const { list } = response.get<JmapGetResponse<JmapMailbox>>('mailboxes');
+
+    const byParent = new Map<string | null, JmapMailbox[]>();
+    for (const mailbox of list) {
+      const parentId = mailbox.parentId ?? null;
+      byParent.set(parentId, [...(byParent.get(parentId) ?? []), mailbox]);
+    }
+
+    const index: MailboxIndex = { entries: new Map(), ids: new Map(), roles: new Map(), tree: [] };
+    const visit = (parentId: string | null, parentPath?: string): Folder[] =>
+      (byParent.get(parentId) ?? [])
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.name.localeCompare(b.name))
+        .map((mailbox) => {
+          const path = parentPath ? `${parentPath}/${mailbox.name}` : mailbox.name;
+          const folder = parseMailbox(mailbox, path);
+          const children = visit(mailbox.id, path);
+
+          index.entries.set(mailbox.id, {
+            path,
+            alias: folder.type === 'custom' ? undefined : folder.name,
+          });
+          index.ids.set(path.toLowerCase(), mailbox.id);
+          if (mailbox.role) index.roles.set(mailbox.role, mailbox.id);
+          return children.length ? { ...folder, children } : folder;
+        });
+
+    index.tree = visit(null);
+    return index;
+  }
+
+  /**
+   * The identity emails are sent from, fetched once
+   */
+  private getIdentity(): Promise<JmapIdentity> {
+    if (!this.identity) {
+      this.identity = (async () => {
+        const response = await this.api.call([['Identity/get', { ids: null }, 'identities']]);
+        const [identity] = response.get<JmapGetResponse<JmapIdentity>>('identities').list;
+        if (!identity) {
+          throw new ValidationError('The JMAP account has no identity to send from');
+        }
+        return identity;
+      })();
+      this.identity.catch(() => {
+        this.identity = undefined;
+      });
+    }
+    return this.identity;
+  }
+
+  /**
+   * Put `Email/get` results, which come in no particular order, in query order
+   */
+  private inOrder(emails: JmapEmailObject[], ids: string[]): JmapEmailObject[] {
+    const byId = new Map(emails.map((email) => [email.id, email]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  /**
+   * Parse emails, naming their folders from the mailbox index
+   */
+  private async parseEmails(emails: JmapEmailObject[], signal?: AbortSignal): Promise<JmapEmail[]> {
+    const { entries } = await this.mailboxes(signal);
+    return emails.map((email) =>
+      parseJmapEmail(email, (mailboxIds) => {
+        const id = mailboxIds.find((candidate) => entries.has(candidate)) ?? mailboxIds[0];
+        const entry = id ? entries.get(id) : undefined;
+        return entry ? (entry.alias ?? entry.path) : (id ?? '');
+      }),
+    );
+  }
+}
+
+/**
+ * Create JMAP provider
+ */
+export function jmap(options: JmapOptions): JmapProvider {
+  return new JmapProvider(options);
+}
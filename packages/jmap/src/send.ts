@@ -0,0 +1,161 @@
+import type { Address, EmailId, SendOptions, SendResult, ThreadId } from '@faktoor/core';
+import { ValidationError } from '@faktoor/core';
+import { parseAddressList, resolveAttachment } from '@faktoor/parser';
+import type { JmapApi } from './api';
+import { assertSet } from './api';
+import { toJmapAddresses } from './parser';
+import type { JmapIdentity, JmapSetResponse } from './types';
+
+/**
+ * Mailboxes a sent email goes through
+ */
+export interface SendMailboxes {
+  drafts?: string;
+  sent?: string;
+}
+
+function parseAddresses(value: string | string[] | undefined): Address[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).flatMap((item) => parseAddressList(item));
+}
+
+/**
+ * Strip the angle brackets JMAP leaves out of message ids
+ */
+function messageId(id: string): string {
+  return id.trim().replace(/^<|>$/g, '');
+}
+
+/**
+ * Build the JMAP email to create for send options
+ *
+ * Attachments must already be uploaded; `attachments` holds their blob ids.
+ */
+export function toJmapEmail(
+  options: SendOptions,
+  identity: JmapIdentity,
+  mailboxId: string,
+  attachments: Array<{ blobId: string; type: string; name: string; cid?: string }> = [],
+): Record<string, unknown> {
+  const email: Record<string, unknown> = {
+    mailboxIds: { [mailboxId]: true },
+    keywords: { $draft: true, $seen: true },
+    from: toJmapAddresses([{ email: identity.email, name: identity.name || undefined }]),
+    to: toJmapAddresses(parseAddresses(options.to)),
+    subject: options.subject,
+    bodyValues: {},
+  };
+
+  const cc = parseAddresses(options.cc);
+  const bcc = parseAddresses(options.bcc);
+  const replyTo = parseAddresses(options.replyTo);
+  if (cc.length) email.cc = toJmapAddresses(cc);
+  if (bcc.length) email.bcc = toJmapAddresses(bcc);
+  if (replyTo.length) email.replyTo = toJmapAddresses(replyTo);
+  if (options.inReplyTo) email.inReplyTo = [messageId(options.inReplyTo)];
+  if (options.references?.length) email.references = options.references.map(messageId);
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    email[`header:${name}:asText`] = value;
+  }
+
+  const bodyValues = email.bodyValues as Record<string, { value: string }>;
+  if (options.text !== undefined || !options.html) {
+    bodyValues.text = { value: options.text ?? '' };
+    email.textBody = [{ partId: 'text', type: 'text/plain' }];
+  }
+  if (options.html) {
+    bodyValues.html = { value: options.html };
+    email.htmlBody = [{ partId: 'html', type: 'text/html' }];
+  }
+
+  if (attachments.length) {
+    email.attachments = attachments.map(({ blobId, type, name, cid }) => ({
+      blobId,
+      type,
+      name,
+      disposition: cid ? 'inline' : 'attachment',
+      ...(cid ? { cid } : {}),
+    }));
+  }
+
+  return email;
+}
+
+/**
+ * Send an email: upload its attachments, then create it and submit it in a
+ * single request
+ *
+ * The email is created in the drafts mailbox and moved to the sent mailbox
+ * once the submission succeeds. A draft left behind by a failed submission
+ * is destroyed.
+ */
+export async function sendMessage(
+  api: JmapApi,
+  identity: JmapIdentity,
+  mailboxes: SendMailboxes,
+  options: SendOptions,
+  signal?: AbortSignal,
+): Promise<SendResult> {
+  const mailboxId = mailboxes.drafts ?? mailboxes.sent;
+  if (!mailboxId) {
+    throw new ValidationError('No drafts or sent mailbox to store the email in', 'folder');
+  }
+
+  const attachments = [];
+  for (const input of options.attachments ?? []) {
+    const attachment = await resolveAttachment(input);
+    const { blobId } = await api.upload(attachment.content, attachment.mimeType, signal);
+    attachments.push({
+      blobId,
+      type: attachment.mimeType,
+      name: attachment.filename,
+      cid: attachment.contentId,
+    });
+  }
+
+  const onSuccess: Record<string, unknown> = { 'keywords/$draft': null };
+  if (mailboxes.drafts && mailboxes.sent) {
+    onSuccess[`mailboxIds/${mailboxes.drafts}`] = null;
+    onSuccess[`mailboxIds/${mailboxes.sent}`] = true;
+  }
+
+  const response = await api.call(
+    [
+      [
+        'Email/set',
+        { create: { draft: toJmapEmail(options, identity, mailboxId, attachments) } },
+        'draft',
+      ],
+      [
+        'EmailSubmission/set',
+        {
+          create: { submission: { identityId: identity.id, emailId: '#draft' } },
+          onSuccessUpdateEmail: { '#submission': onSuccess },
+        },
+        'submission',
+      ],
+    ],
+    signal,
+  );
+
+  const created = response.get<JmapSetResponse<{ id: string; threadId?: string }>>(
+    'draft',
+    'Email/set',
+  );
+  assertSet(created, 'Email');
+  const email = created.created?.draft as { id: string; threadId?: string };
+
+  const submission = response.get<JmapSetResponse>('submission', 'EmailSubmission/set');
+  try {
+    assertSet(submission, 'EmailSubmission');
+  } catch (error) {
+    await api.call([['Email/set', { destroy: [email.id] }, 'cleanup']]).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    id: email.id as EmailId,
+    threadId: email.threadId as ThreadId | undefined,
+    timestamp: new Date(),
+  };
+}
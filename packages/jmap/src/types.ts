@@ -0,0 +1,194 @@
+import type { Email } from '@faktoor/core';
+import type { EventStreamClient, HttpClient } from './http';
+
+/**
+ * JMAP-specific email extensions
+ */
+export interface JmapEmail extends Email {
+  /** Plain-text preview of the start of the body */
+  preview: string;
+  /** Size of the raw message in octets */
+  size: number;
+  /** Blob id of the raw RFC 5322 message */
+  blobId: string;
+  /** Ids of every mailbox the email is in; `folder` names the first one */
+  mailboxIds: string[];
+  /** Keywords set on the email, e.g. `$seen` or `$flagged` */
+  keywords: string[];
+}
+
+/**
+ * JMAP provider options
+ */
+export interface JmapOptions {
+  /**
+   * JMAP server, e.g. `https://api.fastmail.com`, or the URL of its session
+   * resource; a bare origin is resolved through `/.well-known/jmap`
+   */
+  url: string;
+  /** Bearer token, e.g. a Fastmail API token */
+  accessToken?: string;
+  /** Basic authentication, for servers without token support */
+  username?: string;
+  password?: string;
+  /** Account to use (default: the primary mail account of the session) */
+  accountId?: string;
+  /** HTTP layer every request goes through (default: `fetch`) */
+  http?: HttpClient;
+  /** Wake `watch()` up through the server's event source (default: true) */
+  push?: boolean;
+  /** Opens the event source used by `watch()` (default: `fetch`) */
+  eventStream?: EventStreamClient;
+}
+
+/**
+ * JMAP method call or response: name, arguments and call id
+ */
+export type Invocation = [name: string, args: Record<string, unknown>, callId: string];
+
+/**
+ * JMAP session resource (RFC 8620 §2)
+ */
+export interface JmapSession {
+  capabilities: Record<string, unknown>;
+  accounts: Record<
+    string,
+    { name: string; isPersonal: boolean; isReadOnly: boolean; accountCapabilities: object }
+  >;
+  primaryAccounts: Record<string, string>;
+  username: string;
+  apiUrl: string;
+  downloadUrl: string;
+  uploadUrl: string;
+  eventSourceUrl?: string;
+  state: string;
+}
+
+/**
+ * JMAP email address
+ */
+export interface JmapAddress {
+  name?: string | null;
+  email?: string | null;
+}
+
+/**
+ * JMAP body part (RFC 8621 §4.1.4)
+ */
+export interface JmapBodyPart {
+  partId?: string | null;
+  blobId?: string | null;
+  size?: number;
+  name?: string | null;
+  type?: string;
+  charset?: string | null;
+  disposition?: string | null;
+  cid?: string | null;
+}
+
+/**
+ * JMAP email object (RFC 8621 §4.1)
+ */
+export interface JmapEmailObject {
+  id: string;
+  blobId?: string;
+  threadId?: string;
+  mailboxIds?: Record<string, boolean>;
+  keywords?: Record<string, boolean>;
+  size?: number;
+  receivedAt?: string;
+  messageId?: string[] | null;
+  inReplyTo?: string[] | null;
+  references?: string[] | null;
+  sender?: JmapAddress[] | null;
+  from?: JmapAddress[] | null;
+  to?: JmapAddress[] | null;
+  cc?: JmapAddress[] | null;
+  bcc?: JmapAddress[] | null;
+  replyTo?: JmapAddress[] | null;
+  subject?: string | null;
+  sentAt?: string | null;
+  hasAttachment?: boolean;
+  preview?: string;
+  headers?: Array<{ name: string; value: string }>;
+  textBody?: JmapBodyPart[];
+  htmlBody?: JmapBodyPart[];
+  attachments?: JmapBodyPart[];
+  bodyValues?: Record<string, { value: string; isTruncated?: boolean }>;
+}
+
+/**
+ * JMAP mailbox object (RFC 8621 §2)
+ */
+export interface JmapMailbox {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  role?: string | null;
+  sortOrder?: number;
+  totalEmails?: number;
+  unreadEmails?: number;
+}
+
+/**
+ * JMAP identity object (RFC 8621 §6)
+ */
+export interface JmapIdentity {
+  id: string;
+  name?: string;
+  email: string;
+  replyTo?: JmapAddress[] | null;
+}
+
+/**
+ * Error reported for one record of a `/set` call (RFC 8620 §5.3)
+ */
+export interface JmapSetError {
+  type: string;
+  description?: string;
+  properties?: string[];
+}
+
+/**
+ * Response of a `/set` call
+ */
+export interface JmapSetResponse<T = { id: string }> {
+  newState?: string;
+  created?: Record<string, T> | null;
+  updated?: Record<string, unknown> | null;
+  destroyed?: string[] | null;
+  notCreated?: Record<string, JmapSetError> | null;
+  notUpdated?: Record<string, JmapSetError> | null;
+  notDestroyed?: Record<string, JmapSetError> | null;
+}
+
+/**
+ * Response of a `/get` call
+ */
+export interface JmapGetResponse<T> {
+  state: string;
+  list: T[];
+  notFound: string[];
+}
+
+/**
+ * Response of `Email/query`
+ */
+export interface JmapQueryResponse {
+  queryState: string;
+  position: number;
+  ids: string[];
+  total?: number;
+}
+
+/**
+ * Response of a `/changes` call
+ */
+export interface JmapChangesResponse {
+  oldState: string;
+  newState: string;
+  hasMoreChanges: boolean;
+  created: string[];
+  updated: string[];
+  destroyed: string[];
+}
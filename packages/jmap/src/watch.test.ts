@@ -0,0 +1,135 @@
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeJmapServer, SERVER_URL, TOKEN } from './__fixtures__/fake-server';
+import { JmapProvider } from './provider';
+
+const summarize = (events: WatchEvent[]) =>
+  events.map((event) => {
+    if (event.type === 'deleted') return [event.type, event.id];
+    if (event.type === 'error') return [event.type, event.error.message];
+    return [event.type, event.email.id];
+  });
+
+describe('watch', () => {
+  let server: FakeJmapServer;
+  let provider: JmapProvider;
+  let handle: WatchHandle | undefined;
+  let events: WatchEvent[];
+
+  const collect = (watch: WatchHandle) => {
+    handle = watch;
+    void (async () => {
+      for await (const event of watch) events.push(event);
+    })();
+  };
+
+  // Wait until the watcher listens to the event source
+  const listening = () =>
+    vi.waitFor(() => {
+      expect(server.requests.some((request) => request.url.includes('/events/'))).toBe(true);
+    });
+
+  beforeEach(() => {
+    events = [];
+    server = new FakeJmapServer();
+    server.addEmail({ id: 'm1', subject: 'First' });
+    server.addEmail({ id: 'm2', subject: 'Second' });
+    provider = new JmapProvider({
+      url: SERVER_URL,
+      accessToken: TOKEN,
+      http: server.client,
+      eventStream: server.eventStream,
+    });
+  });
+
+  afterEach(() => {
+    handle?.stop();
+    vi.useRealTimers();
+  });
+
+  it('should report changes pushed over the event source', async () => {
+    collect(provider.watch());
+    await listening();
+    expect(events).toEqual([]);
+
+    server.addEmail({ id: 'm3', subject: 'Third' });
+    await vi.waitFor(() => expect(summarize(events)).toEqual([['new', 'm3']]));
+
+    server.updateEmail('m1', { 'keywords/$seen': true });
+    server.updateEmail('m2', { mailboxIds: { 'mb-trash': true } });
+    server.destroyEmail('m3');
+    await vi.waitFor(() =>
+      expect(summarize(events)).toEqual([
+        ['new', 'm3'],
+        ['deleted', 'm3'],
+        ['updated', 'm1'],
+        // Moved out of the inbox
+        ['deleted', 'm2'],
+      ]),
+    );
+    expect(events[2]).toMatchObject({ email: { isRead: true } });
+  });
+
+  it('should fetch changed emails in the same request as the changes', async () => {
+    collect(provider.watch());
+    await listening();
+
+    server.addEmail({ id: 'm3', subject: 'Third' });
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+
+    const [batch] = server.batches.slice(-1);
+    expect(batch?.map(([name, args]) => [name, args.sinceState ?? args['#ids']])).toEqual([
+      ['Email/changes', '3'],
+      ['Email/get', { resultOf: 'changes', name: 'Email/changes', path: '/created' }],
+      ['Email/get', { resultOf: 'changes', name: 'Email/changes', path: '/updated' }],
+    ]);
+  });
+
+  it('should poll when the server has no event source', async () => {
+    server.eventSource = false;
+    vi.useFakeTimers();
+    collect(provider.watch({ interval: 1000, includeExisting: true }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(summarize(events)).toEqual([
+      ['new', 'm1'],
+      ['new', 'm2'],
+    ]);
+
+    server.addEmail({ id: 'm3', subject: 'Third' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(summarize(events).slice(2)).toEqual([['new', 'm3']]);
+  });
+
+  it('should catch up and reconnect when the event source closes', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    collect(provider.watch({ interval: 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.closeEventSources();
+    server.addEmail({ id: 'm3', subject: 'Missed while disconnected' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(summarize(events)).toEqual([['new', 'm3']]);
+    const connections = server.requests.filter((request) => request.url.includes('/events/'));
+    expect(connections).toHaveLength(2);
+    expect(connections[0]?.url).toBe(`${SERVER_URL}/events/?types=Email&closeafter=no&ping=60`);
+  });
+
+  it('should resync when the state is too old to compute changes', async () => {
+    server.eventSource = false;
+    vi.useFakeTimers();
+    collect(provider.watch({ interval: 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.destroyEmail('m1');
+    server.addEmail({ id: 'm3', subject: 'Third' });
+    server.expireChanges();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(summarize(events)).toEqual([
+      ['new', 'm3'],
+      ['deleted', 'm1'],
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { EmailId, WatchHandle, WatchOptions } from '@faktoor/core';
+import { NotFoundError, createWatchHandle } from '@faktoor/core';
+import type { JmapApi } from './api';
+import { EMAIL_PROPERTIES } from './parser';
+import type {
+  JmapChangesResponse,
+  JmapEmail,
+  JmapEmailObject,
+  JmapGetResponse,
+  JmapQueryResponse,
+} from './types';
+
+const DEFAULT_WATCH_INTERVAL = 30_000;
+
+// Changes read per request; servers may return fewer
+const MAX_CHANGES = 256;
+
+// Ids listed per Email/query page when resyncing
+const QUERY_PAGE_SIZE = 256;
+
+/**
+ * List every email in a mailbox, with the Email state the listing matches
+ */
+export async function queryMailbox(
+  api: JmapApi,
+  mailboxId: string,
+): Promise<{ ids: Set<string>; state: string }> {
+  const ids = new Set<string>();
+  let state = '';
+
+  while (true) {
+    const query: [string, Record<string, unknown>, string][] = [
+      [
+        'Email/query',
+        { filter: { inMailbox: mailboxId }, position: ids.size, limit: QUERY_PAGE_SIZE },
+        'query',
+      ],
+    ];
+    // An empty Email/get in the same request reports the state to sync from
+    if (!state) query.push(['Email/get', { ids: [], properties: ['id'] }, 'state']);
+
+    const response = await api.call(query);
+    const page = response.get<JmapQueryResponse>('query');
+    if (!state) state = response.get<JmapGetResponse<unknown>>('state').state;
+
+    for (const id of page.ids) ids.add(id);
+    if (page.ids.length < QUERY_PAGE_SIZE) return { ids, state };
+  }
+}
+
+/**
+ * Watch a mailbox through `Email/changes`
+ *
+ * Changes are read whenever the server pushes a new Email state over its
+ * event source; without one, or while it is disconnected, every `interval`.
+ * `Email/changes` reports changes to the whole account, so emails moved in
+ * or out of the mailbox surface as `new` and `deleted`. When the state is too
+ * old to compute changes from, the mailbox is listed again and diffed
+ * against the known emails.
+ */
+export function watchMailbox(
+  api: JmapApi,
+  resolveMailbox: () => Promise<string>,
+  parseEmails: (emails: JmapEmailObject[]) => Promise<JmapEmail[]>,
+  options: WatchOptions & { push?: boolean } = {},
+): WatchHandle {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+
+  return createWatchHandle((emitter) => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let mailboxId: string | undefined;
+    let state: string | undefined;
+    let known = new Set<string>();
+    let syncing: Promise<void> | undefined;
+    let again = false;
+
+    const fetchEmails = async (ids: string[]): Promise<JmapEmail[]> => {
+      if (!ids.length) return [];
+      const response = await api.call([
+        ['Email/get', { ids, properties: EMAIL_PROPERTIES, fetchAllBodyValues: true }, 'get'],
+      ]);
+      return parseEmails(response.get<JmapGetResponse<JmapEmailObject>>('get').list);
+    };
+
+    // List the mailbox from scratch and diff it against the emails we know about
+    const resync = async (emitNew: boolean): Promise<void> => {
+      const listing = await queryMailbox(api, mailboxId as string);
+      state = listing.state;
+
+      if (emitNew) {
+        const added = await fetchEmails([...listing.ids].filter((id) => !known.has(id)));
+        for (const email of added) emitter.emit({ type: 'new', email });
+      }
+      for (const id of known) {
+        if (!listing.ids.has(id)) emitter.emit({ type: 'deleted', id: id as EmailId });
+      }
+      known = listing.ids;
+    };
+
+    const readChanges = async (): Promise<void> => {
+      let hasMoreChanges = true;
+
+      while (hasMoreChanges && !emitter.stopped) {
+        // Changed emails are fetched in the same request through back-references
+        const fetchChanged = (path: string) => ({
+          '#ids': { resultOf: 'changes', name: 'Email/changes', path },
+          properties: EMAIL_PROPERTIES,
+          fetchAllBodyValues: true,
+        });
+        const response = await api.call([
+          ['Email/changes', { sinceState: state, maxChanges: MAX_CHANGES }, 'changes'],
+          ['Email/get', fetchChanged('/created'), 'created'],
+          ['Email/get', fetchChanged('/updated'), 'updated'],
+        ]);
+
+        const changes = response.get<JmapChangesResponse>('changes');
+        for (const id of changes.destroyed) {
+          if (known.delete(id)) emitter.emit({ type: 'deleted', id: id as EmailId });
+        }
+
+        const changed = await parseEmails([
+          ...response.get<JmapGetResponse<JmapEmailObject>>('created').list,
+          ...response.get<JmapGetResponse<JmapEmailObject>>('updated').list,
+        ]);
+        for (const email of changed) {
+          const inMailbox = email.mailboxIds.includes(mailboxId as string);
+          if (inMailbox) {
+            emitter.emit({ type: known.has(email.id) ? 'updated' : 'new', email });
+            known.add(email.id);
+          } else if (known.delete(email.id)) {
+            // Moved out of the mailbox
+            emitter.emit({ type: 'deleted', id: email.id });
+          }
+        }
+
+        state = changes.newState;
+        hasMoreChanges = changes.hasMoreChanges;
+      }
+    };
+
+    const syncOnce = async (): Promise<void> => {
+      try {
+        mailboxId ??= await resolveMailbox();
+        if (state === undefined) {
+          await resync(options.includeExisting ?? false);
+        } else {
+          await readChanges();
+        }
+      } catch (error) {
+        if (error instanceof NotFoundError && state !== undefined) {
+          // State too old to compute changes from: fall back to a full resync
+          try {
+            await resync(true);
+          } catch (resyncError) {
+            emitter.emit({ type: 'error', error: resyncError as Error });
+          }
+        } else {
+          emitter.emit({ type: 'error', error: error as Error });
+        }
+      }
+    };
+
+    // Run one sync at a time; requests made meanwhile are folded into one more run
+    const sync = (): Promise<void> => {
+      if (syncing) {
+        again = true;
+        return syncing;
+      }
+      syncing = (async () => {
+        do {
+          again = false;
+          await syncOnce();
+        } while (again && !emitter.stopped);
+      })().finally(() => {
+        syncing = undefined;
+      });
+      return syncing;
+    };
+
+    /**
+     * Sync on every pushed Email state change until the event source closes
+     *
+     * Returns false when the server has no event source.
+     */
+    const listen = async (): Promise<boolean> => {
+      try {
+        const [events, accountId] = await Promise.all([
+          api.openEventSource(['Email'], controller.signal),
+          api.accountId(),
+        ]);
+        if (!events) return false;
+
+        for await (const event of events) {
+          if (emitter.stopped) break;
+          if (event.event !== 'state') continue;
+
+          const change = JSON.parse(event.data) as {
+            changed?: Record<string, Record<string, string>>;
+          };
+          const pushed = change.changed?.[accountId]?.Email;
+          if (pushed && pushed !== state) await sync();
+        }
+      } catch (error) {
+        if (!emitter.stopped) emitter.emit({ type: 'error', error: error as Error });
+      }
+      return true;
+    };
+
+    const wait = () =>
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, interval);
+      });
+
+    const run = async (): Promise<void> => {
+      await sync();
+      let push = options.push ?? true;
+
+      while (!emitter.stopped) {
+        if (push) push = await listen();
+        if (emitter.stopped) return;
+
+        // Polling, or catching up before reconnecting the event source
+        await wait();
+        await sync();
+      }
+    };
+
+    void run();
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  });
+}
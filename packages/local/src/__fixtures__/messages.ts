@@ -0,0 +1,38 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Build a raw message
+ */
+export function message(
+  options: {
+    subject?: string;
+    from?: string;
+    to?: string;
+    messageId?: string;
+    date?: string;
+    body?: string;
+    headers?: string[];
+  } = {},
+): string {
+  return [
+    `From: ${options.from ?? 'Alice <alice@example.com>'}`,
+    `To: ${options.to ?? 'me@example.com'}`,
+    `Subject: ${options.subject ?? 'Hello'}`,
+    `Date: ${options.date ?? 'Mon, 1 Jan 2024 10:00:00 +0000'}`,
+    `Message-ID: <${options.messageId ?? `${options.subject ?? 'hello'}@example.com`}>`,
+    ...(options.headers ?? []),
+    '',
+    options.body ?? 'Hi there',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Create a temporary directory and a function removing it
+ */
+export async function tempDir(): Promise<{ dir: string; cleanup: () => Promise<void> }> {
+  const dir = await mkdtemp(join(tmpdir(), 'faktoor-local-'));
+  return { dir, cleanup: () => rm(dir, { recursive: true, force: true }) };
+}
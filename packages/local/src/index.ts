@@ -0,0 +1,21 @@
+// Providers
+export { maildir, MaildirProvider } from './maildir';
+export { mbox, MboxProvider } from './mbox';
+
+// mboxrd framing
+export { quoteFromLines, unquoteFromLines } from './mboxrd';
+
+// Types
+export type { MaildirEmail, MaildirOptions, MboxEmail, MboxOptions } from './types';
+
+// Re-export core types for convenience
+export type {
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  ListOptions,
+  ListPage,
+  GetOptions,
+  MailProvider,
+} from '@faktoor/core';
@@ -0,0 +1,288 @@
+import { mkdir, readFile, readdir, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { NotFoundError, UnsupportedOperationError, ValidationError } from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { message, tempDir } from './__fixtures__/messages';
+import { type MaildirProvider, formatFilename, maildir, parseFilename } from './maildir';
+
+describe('Maildir filenames', () => {
+  it('should split and build the info part', () => {
+    expect(parseFilename('1704103200.M1P1.host:2,FSa')).toEqual({
+      unique: '1704103200.M1P1.host',
+      flags: 'FSa',
+    });
+    expect(parseFilename('1704103200.M1P1.host')).toEqual({
+      unique: '1704103200.M1P1.host',
+      flags: '',
+    });
+    expect(formatFilename('1.M1.host', ['b', 'S', 'F', 'S'])).toBe('1.M1.host:2,FSb');
+  });
+});
+
+describe('MaildirProvider', () => {
+  let root: string;
+  let cleanup: () => Promise<void>;
+  let provider: MaildirProvider;
+
+  const deliver = async (
+    folderDir: string,
+    subdir: 'new' | 'cur',
+    filename: string,
+    raw: string,
+    received: string,
+  ) => {
+    const path = join(root, folderDir, subdir, filename);
+    await writeFile(path, raw);
+    const time = new Date(received);
+    await utimes(path, time, time);
+  };
+
+  const files = async (folderDir: string) => ({
+    new: (await readdir(join(root, folderDir, 'new'))).sort(),
+    cur: (await readdir(join(root, folderDir, 'cur'))).sort(),
+  });
+
+  beforeEach(async () => {
+    ({ dir: root, cleanup } = await tempDir());
+    for (const folder of ['', '.Trash', '.Archive', '.Archive.2024']) {
+      for (const subdir of ['cur', 'new', 'tmp']) {
+        await mkdir(join(root, folder, subdir), { recursive: true });
+      }
+    }
+    await writeFile(join(root, 'dovecot-keywords'), '0 work\n');
+
+    await deliver(
+      '',
+      'new',
+      '1704276000.M1P1.host',
+      message({ subject: 'Fresh', from: 'Bob <bob@example.com>' }),
+      '2024-01-03T10:00:00Z',
+    );
+    await deliver(
+      '',
+      'cur',
+      '1704189600.M2P1.host:2,S',
+      message({ subject: 'Already read', body: 'Minutes of the meeting' }),
+      '2024-01-02T10:00:00Z',
+    );
+    await deliver(
+      '',
+      'cur',
+      '1704103200.M3P1.host:2,Fa',
+      message({ subject: 'Starred work' }),
+      '2024-01-01T10:00:00Z',
+    );
+
+    provider = maildir({ path: root });
+    await provider.connect();
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should list folders with their types and counts', async () => {
+    const folders = await provider.listFolders();
+
+    expect(
+      folders.map(({ name, type, totalCount, unreadCount }) => ({
+        name,
+        type,
+        totalCount,
+        unreadCount,
+      })),
+    ).toEqual([
+      { name: 'INBOX', type: 'inbox', totalCount: 3, unreadCount: 2 },
+      { name: 'Archive', type: 'archive', totalCount: 0, unreadCount: 0 },
+      { name: 'Archive/2024', type: 'custom', totalCount: 0, unreadCount: 0 },
+      { name: 'Trash', type: 'trash', totalCount: 0, unreadCount: 0 },
+    ]);
+  });
+
+  it('should list the inbox newest first with flags from the filenames', async () => {
+    const emails = await provider.list();
+
+    expect(
+      emails.map(({ id, subject, isRead, isStarred, labels }) => ({
+        id,
+        subject,
+        isRead,
+        isStarred,
+        labels: labels.map((label) => label.name),
+      })),
+    ).toEqual([
+      {
+        id: 'INBOX:1704276000.M1P1.host',
+        subject: 'Fresh',
+        isRead: false,
+        isStarred: false,
+        labels: [],
+      },
+      {
+        id: 'INBOX:1704189600.M2P1.host',
+        subject: 'Already read',
+        isRead: true,
+        isStarred: false,
+        labels: [],
+      },
+      {
+        id: 'INBOX:1704103200.M3P1.host',
+        subject: 'Starred work',
+        isRead: false,
+        isStarred: true,
+        labels: ['work'],
+      },
+    ]);
+    expect(emails[0]?.receivedAt).toEqual(new Date('2024-01-03T10:00:00Z'));
+    expect(emails[2]).toMatchObject({ flags: 'Fa', folder: 'INBOX' });
+  });
+
+  it('should honor list filters and pages', async () => {
+    const subjects = async (options: Parameters<MaildirProvider['list']>[0]) =>
+      (await provider.list(options)).map((email) => email.subject);
+
+    expect(await subjects({ unreadOnly: true })).toEqual(['Fresh', 'Starred work']);
+    expect(await subjects({ labels: ['work'] })).toEqual(['Starred work']);
+    expect(await subjects({ from: 'bob' })).toEqual(['Fresh']);
+    expect(await subjects({ query: 'meeting' })).toEqual(['Already read']);
+    expect(await subjects({ after: new Date('2024-01-02T00:00:00Z') })).toEqual([
+      'Fresh',
+      'Already read',
+    ]);
+
+    const first = await provider.listPage({ limit: 2 });
+    const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+    expect(first.totalEstimate).toBe(3);
+    expect(second.emails.map((email) => email.subject)).toEqual(['Starred work']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should get a message with its raw source', async () => {
+    const email = await provider.get('INBOX:1704189600.M2P1.host', { includeRaw: true });
+
+    expect(email.body.text).toBe('Minutes of the meeting\n');
+    expect(email.raw).toContain('Subject: Already read');
+    await expect(provider.get('INBOX:missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(provider.get('Nope:1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should rename files to change flags, moving new messages to cur', async () => {
+    await provider.markAsRead('INBOX:1704276000.M1P1.host');
+    await provider.star('INBOX:1704276000.M1P1.host');
+    await provider.unstar('INBOX:1704103200.M3P1.host');
+
+    expect(await files('')).toEqual({
+      new: [],
+      cur: ['1704103200.M3P1.host:2,a', '1704189600.M2P1.host:2,S', '1704276000.M1P1.host:2,FS'],
+    });
+  });
+
+  it('should store labels as Dovecot keywords', async () => {
+    await provider.addLabel('INBOX:1704189600.M2P1.host', 'follow-up');
+    await provider.addLabel('INBOX:1704189600.M2P1.host', 'work');
+    await provider.removeLabel('INBOX:1704103200.M3P1.host', 'work');
+
+    expect(await readFile(join(root, 'dovecot-keywords'), 'utf8')).toBe('0 work\n1 follow-up\n');
+    expect((await provider.get('INBOX:1704189600.M2P1.host')).labels).toEqual([
+      { id: 'work', name: 'work' },
+      { id: 'follow-up', name: 'follow-up' },
+    ]);
+    expect((await files('')).cur).toContain('1704103200.M3P1.host:2,F');
+  });
+
+  it('should move messages with their flags and keywords', async () => {
+    await provider.move('INBOX:1704103200.M3P1.host', 'Archive/2024');
+
+    expect((await files('.Archive.2024')).cur).toEqual(['1704103200.M3P1.host:2,Fa']);
+    const moved = await provider.get('Archive/2024:1704103200.M3P1.host');
+    expect(moved).toMatchObject({ folder: 'Archive/2024', isStarred: true });
+    expect(moved.labels).toEqual([{ id: 'work', name: 'work' }]);
+  });
+
+  it('should move deleted messages to the trash, then remove them', async () => {
+    await provider.delete('INBOX:1704189600.M2P1.host');
+    expect((await provider.list({ folder: 'trash' })).map((email) => email.id)).toEqual([
+      'Trash:1704189600.M2P1.host',
+    ]);
+
+    await provider.delete('Trash:1704189600.M2P1.host');
+    expect(await files('.Trash')).toEqual({ new: [], cur: [] });
+  });
+
+  it('should create and delete folders', async () => {
+    const folder = await provider.createFolder('Projects/Faktoor');
+    expect(folder).toMatchObject({ name: 'Projects/Faktoor', type: 'custom', totalCount: 0 });
+    expect((await readdir(join(root, '.Projects.Faktoor'))).sort()).toEqual([
+      'cur',
+      'maildirfolder',
+      'new',
+      'tmp',
+    ]);
+
+    await expect(provider.createFolder('Projects/Faktoor')).rejects.toBeInstanceOf(ValidationError);
+    await expect(provider.createFolder('v1.0')).rejects.toBeInstanceOf(ValidationError);
+    await expect(provider.deleteFolder('inbox')).rejects.toBeInstanceOf(ValidationError);
+
+    await provider.deleteFolder('Archive');
+    expect((await provider.listFolders()).map((entry) => entry.name)).toEqual([
+      'INBOX',
+      'Projects/Faktoor',
+      'Trash',
+    ]);
+  });
+
+  it('should check the maildir on connect, creating it when asked', async () => {
+    const missing = join(root, 'missing');
+    await expect(maildir({ path: missing }).connect()).rejects.toBeInstanceOf(NotFoundError);
+
+    const created = maildir({ path: missing, create: true });
+    await created.connect();
+    expect(created.isConnected()).toBe(true);
+    expect((await readdir(missing)).sort()).toEqual(['cur', 'new', 'tmp']);
+  });
+
+  it('should not send', async () => {
+    await expect(provider.send({ to: 'bob@example.com', subject: 'Hi' })).rejects.toBeInstanceOf(
+      UnsupportedOperationError,
+    );
+  });
+
+  describe('watch', () => {
+    let handle: WatchHandle | undefined;
+
+    afterEach(() => {
+      handle?.stop();
+    });
+
+    it('should report deliveries, flag changes and removals', async () => {
+      const events: WatchEvent[] = [];
+      handle = provider.watch({ interval: 20 });
+      void (async () => {
+        for await (const event of handle as WatchHandle) events.push(event);
+      })();
+
+      // Let the first scan record what is there
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await deliver(
+        '',
+        'new',
+        '1704362400.M4P1.host',
+        message({ subject: 'Newest' }),
+        '2024-01-04',
+      );
+      await provider.markAsRead('INBOX:1704276000.M1P1.host');
+      await provider.move('INBOX:1704103200.M3P1.host', 'Archive');
+
+      await vi.waitFor(() =>
+        expect(
+          events.map((event) =>
+            event.type === 'deleted' || event.type === 'error'
+              ? event.type
+              : [event.type, event.email.subject],
+          ),
+        ).toEqual(['deleted', ['updated', 'Fresh'], ['new', 'Newest']]),
+      );
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { mkdir, readFile, readdir, rename, rm, stat, unlink, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type {
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import {
+  NotFoundError,
+  ProviderError,
+  UnsupportedOperationError,
+  ValidationError,
+} from '@faktoor/core';
+import type { MessageState } from './message';
+import { folderType, pageMessages, parseEmailId, toEmail, toEmailId } from './message';
+import type { MaildirEmail, MaildirOptions } from './types';
+import { watchFolder } from './watch';
+
+const INBOX = 'INBOX';
+
+// Info of messages that went through `cur`, flags follow
+const INFO_PREFIX = ':2,';
+
+// Dovecot stores keywords as the letters a-z, indexes into this file
+const KEYWORDS_FILE = 'dovecot-keywords';
+const MAX_KEYWORDS = 26;
+
+interface MaildirState extends MessageState {
+  /** `new` or `cur` */
+  subdir: string;
+  filename: string;
+  unique: string;
+  flags: string;
+  size: number;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+/**
+ * Split a message filename into its unique name and flag letters
+ */
+export function parseFilename(filename: string): { unique: string; flags: string } {
+  const separator = filename.indexOf(INFO_PREFIX);
+  if (separator === -1) return { unique: filename, flags: '' };
+  return { unique: filename.slice(0, separator), flags: filename.slice(separator + 3) };
+}
+
+/**
+ * Build a message filename; flags are sorted in ASCII order as the spec requires
+ */
+export function formatFilename(unique: string, flags: Iterable<string>): string {
+  return `${unique}${INFO_PREFIX}${[...new Set(flags)].sort().join('')}`;
+}
+
+/**
+ * Maildir provider implementation
+ *
+ * Reads Maildir++ layouts: the root is the inbox and `.Name` directories next
+ * to its `cur`, `new` and `tmp` are folders, with `.` separating nested ones
+ * (`.Archive.2024` is `Archive/2024`). Email ids are `<folder>:<unique name>`,
+ * so they survive flag changes but not moves.
+ */
+export class MaildirProvider implements MailProvider {
+  readonly name = 'maildir';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: false,
+    drafts: false,
+    send: false,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'folders',
+    move: 'new-id',
+    serverSearch: false,
+    batch: false,
+  };
+  private readonly root: string;
+  private connected = false;
+
+  constructor(private readonly options: MaildirOptions) {
+    this.root = resolve(options.path);
+  }
+
+  async connect(): Promise<void> {
+    if (this.options.create) {
+      await this.createMaildir(this.root);
+    } else {
+      try {
+        await stat(join(this.root, 'cur'));
+      } catch (error) {
+        if (isMissing(error)) throw new NotFoundError('Maildir', this.root);
+        throw error;
+      }
+    }
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async list(options: ListOptions = {}): Promise<MaildirEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage<MaildirEmail>> {
+    const folder = await this.resolveFolder(options.folder ?? 'inbox');
+    return pageMessages(await this.readFolder(folder), options, (state) => this.load(state));
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<MaildirEmail> {
+    return this.load(await this.find(id), options);
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<MaildirEmail> {
+    const limit = options.batchSize ?? 50;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage({ ...options, limit, cursor });
+      cursor = page.nextCursor;
+      yield* page.emails;
+    } while (cursor);
+  }
+
+  /**
+   * Watch a folder by rescanning it every `interval`
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    return watchFolder(
+      async () => this.readFolder(await this.resolveFolder(options.folder ?? 'inbox')),
+      (state) => this.load(state),
+      options,
+    );
+  }
+
+  async send(_options: SendOptions): Promise<SendResult> {
+    throw new UnsupportedOperationError(
+      'maildir',
+      'send',
+      'Maildir cannot send email; configure an SMTP transport from @faktoor/smtp',
+    );
+  }
+
+  async listFolders(): Promise<Folder[]> {
+    const folders = [await this.toFolder(INBOX)];
+    for (const path of await this.folderPaths()) {
+      folders.push(await this.toFolder(path));
+    }
+    return folders;
+  }
+
+  async getFolder(name: FolderName | string): Promise<Folder> {
+    return this.toFolder(await this.resolveFolder(name));
+  }
+
+  /**
+   * Create a folder; `Parent/Child` is stored as `.Parent.Child`
+   */
+  async createFolder(name: string): Promise<Folder> {
+    const segments = name.split('/');
+    if (segments.some((segment) => !segment || segment.includes('.'))) {
+      throw new ValidationError(`Invalid Maildir folder name: ${name}`, 'name');
+    }
+    if ((await this.folderPaths()).some((path) => path.toLowerCase() === name.toLowerCase())) {
+      throw new ValidationError(`Folder already exists: ${name}`, 'name');
+    }
+
+    const dir = this.folderDir(name);
+    await this.createMaildir(dir);
+    await writeFile(join(dir, 'maildirfolder'), '');
+    return this.toFolder(name);
+  }
+
+  /**
+   * Delete a folder with its subfolders and messages
+   */
+  async deleteFolder(name: FolderName | string): Promise<void> {
+    const path = await this.resolveFolder(name);
+    if (path === INBOX) {
+      throw new ValidationError('Cannot delete the inbox', 'name');
+    }
+
+    for (const candidate of await this.folderPaths()) {
+      if (candidate === path || candidate.startsWith(`${path}/`)) {
+        await rm(this.folderDir(candidate), { recursive: true, force: true });
+      }
+    }
+  }
+
+  async markAsRead(id: EmailId | string): Promise<void> {
+    await this.updateFlags(id, (flags) => flags.add('S'));
+  }
+
+  async markAsUnread(id: EmailId | string): Promise<void> {
+    await this.updateFlags(id, (flags) => flags.delete('S'));
+  }
+
+  async star(id: EmailId | string): Promise<void> {
+    await this.updateFlags(id, (flags) => flags.add('F'));
+  }
+
+  async unstar(id: EmailId | string): Promise<void> {
+    await this.updateFlags(id, (flags) => flags.delete('F'));
+  }
+
+  /**
+   * Move a message into another folder's `cur`, keeping its flags and labels
+   */
+  async move(id: EmailId | string, folder: FolderName | string): Promise<void> {
+    const state = await this.find(id);
+    const target = await this.resolveFolder(folder);
+    if (target === state.folder) return;
+
+    const letters = await this.keywordLetters(target, state.labels);
+    const flags = [...state.flags.replace(/[a-z]/g, ''), ...letters];
+    await rename(
+      join(this.folderDir(state.folder), state.subdir, state.filename),
+      join(this.folderDir(target), 'cur', formatFilename(state.unique, flags)),
+    );
+  }
+
+  /**
+   * Move a message to the trash folder, or remove it when it is already
+   * there or there is no trash folder
+   */
+  async delete(id: EmailId | string): Promise<void> {
+    const state = await this.find(id);
+    const trash = (await this.folderPaths()).find((path) => folderType(path) === 'trash');
+
+    if (trash && trash !== state.folder) {
+      await this.move(id, trash);
+      return;
+    }
+    await unlink(join(this.folderDir(state.folder), state.subdir, state.filename));
+  }
+
+  /**
+   * Add a keyword, registered in the folder's `dovecot-keywords` file
+   */
+  async addLabel(id: EmailId | string, label: string): Promise<void> {
+    const state = await this.find(id);
+    const [letter] = await this.keywordLetters(state.folder, [label]);
+    await this.updateFlags(state, (flags) => flags.add(letter as string));
+  }
+
+  async removeLabel(id: EmailId | string, label: string): Promise<void> {
+    const state = await this.find(id);
+    const index = (await this.readKeywords(state.folder)).indexOf(label);
+    if (index === -1) return;
+    await this.updateFlags(state, (flags) => flags.delete(String.fromCharCode(97 + index)));
+  }
+
+  /**
+   * Rename a message file to carry new flags; messages in `new` move to `cur`
+   */
+  private async updateFlags(
+    target: EmailId | string | MaildirState,
+    change: (flags: Set<string>) => void,
+  ): Promise<void> {
+    const state = typeof target === 'string' ? await this.find(target) : target;
+    const flags = new Set(state.flags);
+    change(flags);
+
+    const dir = this.folderDir(state.folder);
+    const filename = formatFilename(state.unique, flags);
+    if (state.subdir === 'cur' && filename === state.filename) return;
+    await rename(join(dir, state.subdir, state.filename), join(dir, 'cur', filename));
+  }
+
+  private async load(state: MaildirState, options: GetOptions = {}): Promise<MaildirEmail> {
+    const path = join(this.folderDir(state.folder), state.subdir, state.filename);
+    let raw: Uint8Array;
+    try {
+      raw = await readFile(path);
+    } catch (error) {
+      // Renamed or removed since the folder was read
+      if (isMissing(error)) throw new NotFoundError('Email', state.id);
+      throw error;
+    }
+
+    return { ...toEmail(raw, state, options), path, flags: state.flags, size: state.size };
+  }
+
+  private async find(id: EmailId | string): Promise<MaildirState> {
+    const parsed = parseEmailId(id);
+    const folder = parsed && (await this.folderPaths(true)).includes(parsed.folder);
+    const state =
+      parsed && folder
+        ? (await this.readFolder(parsed.folder)).find(({ unique }) => unique === parsed.key)
+        : undefined;
+    if (!state) {
+      throw new NotFoundError('Email', id);
+    }
+    return state;
+  }
+
+  /**
+   * Read the state of every message in a folder from its filenames
+   */
+  private async readFolder(folder: string): Promise<MaildirState[]> {
+    const dir = this.folderDir(folder);
+    const keywords = await this.readKeywords(folder);
+    const states: MaildirState[] = [];
+
+    for (const subdir of ['new', 'cur']) {
+      let filenames: string[];
+      try {
+        filenames = await readdir(join(dir, subdir));
+      } catch (error) {
+        if (isMissing(error)) throw new NotFoundError('Folder', folder);
+        throw error;
+      }
+
+      for (const filename of filenames) {
+        if (filename.startsWith('.')) continue;
+        let info: Awaited<ReturnType<typeof stat>>;
+        try {
+          info = await stat(join(dir, subdir, filename));
+        } catch (error) {
+          // Another client moved it in the meantime
+          if (isMissing(error)) continue;
+          throw error;
+        }
+
+        const { unique, flags } = parseFilename(filename);
+        states.push({
+          id: toEmailId(folder, unique),
+          folder,
+          receivedAt: info.mtime,
+          isRead: flags.includes('S'),
+          isStarred: flags.includes('F'),
+          isDraft: flags.includes('D'),
+          labels: [...flags]
+            .filter((letter) => letter >= 'a' && letter <= 'z')
+            .map((letter) => keywords[letter.charCodeAt(0) - 97])
+            .filter((keyword): keyword is string => Boolean(keyword)),
+          subdir,
+          filename,
+          unique,
+          flags,
+          size: Number(info.size),
+        });
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Keywords of a folder by letter index
+   */
+  private async readKeywords(folder: string): Promise<string[]> {
+    let content: string;
+    try {
+      content = await readFile(join(this.folderDir(folder), KEYWORDS_FILE), 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const keywords: string[] = [];
+    for (const line of content.split('\n')) {
+      const match = line.match(/^(\d+)\s+(\S+)/);
+      if (match) keywords[Number(match[1])] = match[2] as string;
+    }
+    return keywords;
+  }
+
+  /**
+   * Letters of keywords in a folder, registering the ones it does not have yet
+   */
+  private async keywordLetters(folder: string, labels: string[]): Promise<string[]> {
+    const keywords = await this.readKeywords(folder);
+    let changed = false;
+
+    const letters = labels.map((label) => {
+      let index = keywords.indexOf(label);
+      if (index === -1) {
+        index = keywords.findIndex((keyword) => keyword === undefined);
+        if (index === -1) index = keywords.length;
+        if (index >= MAX_KEYWORDS) {
+          throw new ProviderError(
+            'maildir',
+            `Folder ${folder} already has ${MAX_KEYWORDS} keywords`,
+          );
+        }
+        keywords[index] = label;
+        changed = true;
+      }
+      return String.fromCharCode(97 + index);
+    });
+
+    if (changed) {
+      const dir = this.folderDir(folder);
+      const content = keywords.map((keyword, index) => `${index} ${keyword}\n`).join('');
+      // Write and rename, so readers never see half a file
+      await writeFile(join(dir, 'tmp', KEYWORDS_FILE), content);
+      await rename(join(dir, 'tmp', KEYWORDS_FILE), join(dir, KEYWORDS_FILE));
+    }
+    return letters;
+  }
+
+  private async toFolder(path: string): Promise<Folder> {
+    const states = await this.readFolder(path);
+    return {
+      name: path as FolderName,
+      path,
+      type: path === INBOX ? 'inbox' : folderType(path),
+      totalCount: states.length,
+      unreadCount: states.filter((state) => !state.isRead).length,
+    };
+  }
+
+  /**
+   * Find a folder by path, or by type for the special folders (`sent`, `trash`, ...)
+   */
+  private async resolveFolder(name: string): Promise<string> {
+    if (name.toLowerCase() === 'inbox') return INBOX;
+
+    const paths = await this.folderPaths();
+    const match =
+      paths.find((path) => path === name) ??
+      paths.find((path) => path.toLowerCase() === name.toLowerCase()) ??
+      paths.find((path) => folderType(path) === name);
+    if (!match) {
+      throw new NotFoundError('Folder', name);
+    }
+    return match;
+  }
+
+  /**
+   * Paths of the folders below the root, sorted
+   */
+  private async folderPaths(includeInbox = false): Promise<string[]> {
+    const entries = await readdir(this.root, { withFileTypes: true });
+    const paths = entries
+      .filter((entry) => entry.isDirectory() && entry.name.startsWith('.'))
+      .map((entry) => entry.name.slice(1).split('.').join('/'))
+      .sort();
+    return includeInbox ? [INBOX, ...paths] : paths;
+  }
+
+  private folderDir(path: string): string {
+    return path === INBOX ? this.root : join(this.root, `.${path.split('/').join('.')}`);
+  }
+
+  private async createMaildir(dir: string): Promise<void> {
+    for (const subdir of ['cur', 'new', 'tmp']) {
+      await mkdir(join(dir, subdir), { recursive: true });
+    }
+  }
+}
+
+/**
+ * Create a Maildir provider
+ */
+export function maildir(options: MaildirOptions): MaildirProvider {
+  return new MaildirProvider(options);
+}
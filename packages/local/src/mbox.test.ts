@@ -0,0 +1,236 @@
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { NotFoundError, UnsupportedOperationError, ValidationError } from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { message, tempDir } from './__fixtures__/messages';
+import { type MboxProvider, mbox } from './mbox';
+import { quoteFromLines } from './mboxrd';
+
+const entry = (fromLine: string, raw: string) => `${fromLine}\n${quoteFromLines(raw)}\n`;
+
+const INBOX = [
+  entry(
+    'From alice@example.com Mon Jan  1 10:00:00 2024',
+    message({ subject: 'First', body: 'From the start\n>From quoted' }),
+  ),
+  entry(
+    'From bob@example.com Tue Jan  2 10:00:00 2024',
+    message({
+      subject: 'Second',
+      from: 'Bob <bob@example.com>',
+      headers: ['Status: RO', 'X-Status: F', 'X-Keywords: work'],
+    }),
+  ),
+  entry(
+    'From carol@example.com Wed Jan  3 10:00:00 2024',
+    message({ subject: 'Third', messageId: 'third@example.com' }),
+  ),
+].join('');
+
+describe('MboxProvider', () => {
+  let root: string;
+  let cleanup: () => Promise<void>;
+  let provider: MboxProvider;
+
+  beforeEach(async () => {
+    ({ dir: root, cleanup } = await tempDir());
+    await writeFile(join(root, 'INBOX'), INBOX);
+    await writeFile(join(root, 'Trash'), '');
+    await mkdir(join(root, 'Archive.sbd'));
+    await writeFile(join(root, 'Archive'), '');
+    await writeFile(join(root, 'Archive.sbd', '2024'), '');
+    await writeFile(join(root, 'INBOX.msf'), 'Thunderbird index');
+
+    provider = mbox({ path: root });
+    await provider.connect();
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should list the files of a directory as folders', async () => {
+    const folders = await provider.listFolders();
+
+    expect(
+      folders.map(({ name, type, totalCount, unreadCount }) => [
+        name,
+        type,
+        totalCount,
+        unreadCount,
+      ]),
+    ).toEqual([
+      ['Archive', 'archive', 0, 0],
+      ['Archive/2024', 'custom', 0, 0],
+      ['INBOX', 'inbox', 3, 2],
+      ['Trash', 'trash', 0, 0],
+    ]);
+  });
+
+  it('should list messages newest first with flags from the status headers', async () => {
+    const emails = await provider.list();
+
+    expect(
+      emails.map(({ subject, isRead, isStarred, labels, receivedAt }) => ({
+        subject,
+        isRead,
+        isStarred,
+        labels: labels.map((label) => label.name),
+        receivedAt: receivedAt.toISOString(),
+      })),
+    ).toEqual([
+      {
+        subject: 'Third',
+        isRead: false,
+        isStarred: false,
+        labels: [],
+        receivedAt: '2024-01-03T10:00:00.000Z',
+      },
+      {
+        subject: 'Second',
+        isRead: true,
+        isStarred: true,
+        labels: ['work'],
+        receivedAt: '2024-01-02T10:00:00.000Z',
+      },
+      {
+        subject: 'First',
+        isRead: false,
+        isStarred: false,
+        labels: [],
+        receivedAt: '2024-01-01T10:00:00.000Z',
+      },
+    ]);
+    expect(emails[0]?.id).toMatch(/^INBOX:[0-9a-f]{16}$/);
+    expect(emails[2]?.offset).toBe(0);
+  });
+
+  it('should unquote From lines in bodies', async () => {
+    const [first] = await provider.list({ subject: 'first' });
+
+    expect(first?.body.text).toBe('From the start\n>From quoted\n');
+  });
+
+  it('should honor list filters', async () => {
+    const subjects = async (options: Parameters<MboxProvider['list']>[0]) =>
+      (await provider.list(options)).map((email) => email.subject);
+
+    expect(await subjects({ unreadOnly: true })).toEqual(['Third', 'First']);
+    expect(await subjects({ labels: ['work'] })).toEqual(['Second']);
+    expect(await subjects({ from: 'bob@' })).toEqual(['Second']);
+    expect(await subjects({ before: new Date('2024-01-02T00:00:00Z') })).toEqual(['First']);
+    expect(await subjects({ limit: 1, offset: 1 })).toEqual(['Second']);
+  });
+
+  it('should read only the message at its offset on get', async () => {
+    const [third] = await provider.list();
+    const email = await provider.get(third?.id as string, { includeRaw: true });
+
+    expect(email.subject).toBe('Third');
+    expect(email.raw?.startsWith('From: Alice')).toBe(true);
+    expect(email.length).toBe(third?.length);
+    await expect(provider.get('INBOX:0000000000000000')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should rewrite status headers, keeping ids stable', async () => {
+    const [third, second] = await provider.list();
+    await provider.markAsRead(third?.id as string);
+    await provider.star(third?.id as string);
+    await provider.addLabel(third?.id as string, 'later');
+    await provider.markAsUnread(second?.id as string);
+    await provider.removeLabel(second?.id as string, 'work');
+
+    const data = await readFile(join(root, 'INBOX'), 'latin1');
+    expect(data).toContain(
+      'Message-ID: <third@example.com>\nStatus: RO\nX-Status: F\nX-Keywords: later\n\n',
+    );
+    expect(data).toContain('Message-ID: <Second@example.com>\nStatus: O\nX-Status: F\n\n');
+    expect(data).toContain('\n>From the start\n>>From quoted\n');
+
+    expect(await provider.get(third?.id as string)).toMatchObject({
+      isRead: true,
+      isStarred: true,
+      labels: [{ id: 'later', name: 'later' }],
+    });
+    expect((await provider.get(second?.id as string)).isRead).toBe(false);
+  });
+
+  it('should move messages between files and delete through the trash', async () => {
+    const [, second] = await provider.list();
+    await provider.move(second?.id as string, 'Archive/2024');
+
+    expect((await provider.list()).map((email) => email.subject)).toEqual(['Third', 'First']);
+    const [archived] = await provider.list({ folder: 'Archive/2024' });
+    expect(archived).toMatchObject({ subject: 'Second', isStarred: true, folder: 'Archive/2024' });
+
+    await provider.delete(archived?.id as string);
+    const [trashed] = await provider.list({ folder: 'trash' });
+    expect(trashed?.subject).toBe('Second');
+
+    await provider.delete(trashed?.id as string);
+    expect(await readFile(join(root, 'Trash'), 'latin1')).toBe('');
+  });
+
+  it('should create and delete folders', async () => {
+    await provider.createFolder('Projects/Faktoor');
+    expect(await readFile(join(root, 'Projects', 'Faktoor'), 'latin1')).toBe('');
+    await expect(provider.createFolder('projects/faktoor')).rejects.toBeInstanceOf(ValidationError);
+
+    await provider.deleteFolder('Archive');
+    expect((await provider.listFolders()).map((folder) => folder.name)).toEqual([
+      'INBOX',
+      'Projects/Faktoor',
+      'Trash',
+    ]);
+  });
+
+  it('should read a single file as the inbox', async () => {
+    const single = mbox({ path: join(root, 'INBOX') });
+
+    expect((await single.listFolders()).map((folder) => folder.name)).toEqual(['INBOX']);
+    expect(await single.list({ folder: 'inbox' })).toHaveLength(3);
+    await expect(single.createFolder('Other')).rejects.toBeInstanceOf(UnsupportedOperationError);
+    expect(single.capabilities.folders).toBe(false);
+    await expect(mbox({ path: join(root, 'missing') }).connect()).rejects.toBeInstanceOf(
+      NotFoundError,
+    );
+  });
+
+  describe('watch', () => {
+    let handle: WatchHandle | undefined;
+
+    afterEach(() => {
+      handle?.stop();
+    });
+
+    it('should report appended and changed messages', async () => {
+      const events: WatchEvent[] = [];
+      handle = provider.watch({ interval: 20 });
+      void (async () => {
+        for await (const event of handle as WatchHandle) events.push(event);
+      })();
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const [, second] = await provider.list();
+      await provider.markAsUnread(second?.id as string);
+      await appendFile(
+        join(root, 'INBOX'),
+        entry('From dave@example.com Thu Jan  4 10:00:00 2024', message({ subject: 'Fourth' })),
+      );
+
+      await vi.waitFor(() =>
+        expect(
+          events.map((event) =>
+            event.type === 'deleted' || event.type === 'error'
+              ? event.type
+              : [event.type, event.email.subject],
+          ),
+        ).toEqual([
+          ['updated', 'Second'],
+          ['new', 'Fourth'],
+        ]),
+      );
+    });
+  });
+});
@@ -0,0 +1,513 @@
+import { createHash } from 'node:crypto';
+import { mkdir, open, readFile, readdir, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import type {
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import { NotFoundError, UnsupportedOperationError, ValidationError } from '@faktoor/core';
+import { parseEmailDate } from '@faktoor/parser';
+import { frameMessage, parseFromLine, splitMbox, unquoteFromLines } from './mboxrd';
+import type { MessageState } from './message';
+import { folderType, pageMessages, parseEmailId, toEmail, toEmailId } from './message';
+import type { MboxEmail, MboxOptions } from './types';
+import { watchFolder } from './watch';
+
+const INBOX = 'INBOX';
+
+// Files next to mbox files that are not mailboxes
+const IGNORED_FILES = /\.(msf|lock|tmp)$/;
+
+interface MboxState extends MessageState {
+  offset: number;
+  length: number;
+  /** `Status` letters, e.g. `RO` */
+  status: string;
+  /** `X-Status` letters, e.g. `AF` */
+  xStatus: string;
+}
+
+interface MboxIndex {
+  mtimeMs: number;
+  size: number;
+  states: MboxState[];
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+/**
+ * Split a message into its header block and the rest, at the first blank line
+ */
+function splitHeaders(content: string): [string, string] {
+  const match = content.match(/\r?\n\r?\n/);
+  if (match?.index === undefined) return [content, ''];
+  return [content.slice(0, match.index + 1), content.slice(match.index + 1)];
+}
+
+/**
+ * Unfolded header values by lower-cased name
+ */
+function readHeaders(block: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(separator + 1).trim());
+  }
+  return headers;
+}
+
+/**
+ * Replace the status headers of a message as stored
+ */
+function writeStatus(content: string, status: string, xStatus: string, labels: string[]): string {
+  const [block, rest] = splitHeaders(content);
+  const kept = block
+    .replace(/^(?:status|x-status|x-keywords):.*\r?\n(?:[ \t].*\r?\n)*/gim, '')
+    .replace(/\r?\n$/, '');
+  const lines = [kept, `Status: ${status}`];
+  if (xStatus) lines.push(`X-Status: ${xStatus}`);
+  if (labels.length) lines.push(`X-Keywords: ${labels.join(', ')}`);
+  return `${lines.filter(Boolean).join('\n')}\n${rest}`;
+}
+
+/**
+ * Index the messages of an mbox file
+ *
+ * Ids hash the `From ` line with the Message-ID, or the headers when there is
+ * none, so they survive status changes and rewrites of the file.
+ */
+function indexMbox(folder: string, data: string, fallbackDate: Date): MboxState[] {
+  const seen = new Map<string, number>();
+
+  return splitMbox(data).map((frame) => {
+    const [block] = splitHeaders(frame.content);
+    const headers = readHeaders(block);
+    const status = headers.get('status') ?? '';
+    const xStatus = headers.get('x-status') ?? '';
+
+    const identity =
+      headers.get('message-id') ??
+      block.replace(/^(?:status|x-status|x-keywords):.*\r?\n(?:[ \t].*\r?\n)*/gim, '');
+    const hash = createHash('sha1')
+      .update(`${frame.fromLine}\n${identity}`, 'latin1')
+      .digest('hex')
+      .slice(0, 16);
+    const count = seen.get(hash) ?? 0;
+    seen.set(hash, count + 1);
+
+    const date = headers.get('date');
+    return {
+      id: toEmailId(folder, count ? `${hash}-${count}` : hash),
+      folder,
+      receivedAt: parseFromLine(frame.fromLine) ?? (date ? parseEmailDate(date) : fallbackDate),
+      isRead: status.includes('R'),
+      isStarred: xStatus.includes('F'),
+      isDraft: xStatus.includes('T'),
+      labels: (headers.get('x-keywords') ?? '').split(/[\s,]+/).filter(Boolean),
+      offset: frame.offset,
+      length: frame.length,
+      status,
+      xStatus,
+    };
+  });
+}
+
+/**
+ * mbox provider implementation
+ *
+ * Reads mboxrd files, indexed by byte offset so `get()` reads a single
+ * message. Flags live in the `Status`, `X-Status` and `X-Keywords` headers;
+ * changing them, moving or deleting rewrites the file. Files are not locked,
+ * so other programs should not write to them at the same time.
+ */
+export class MboxProvider implements MailProvider {
+  readonly name = 'mbox';
+  private readonly root: string;
+  private readonly indexes = new Map<string, MboxIndex>();
+  private single = false;
+  private connected = false;
+
+  constructor(options: MboxOptions) {
+    this.root = resolve(options.path);
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.single = (await stat(this.root)).isFile();
+    } catch (error) {
+      if (isMissing(error)) throw new NotFoundError('mbox', this.root);
+      throw error;
+    }
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.indexes.clear();
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * A single mbox file, rather than a directory, has no folders besides the inbox
+   */
+  get capabilities(): ProviderCapabilities {
+    return {
+      watch: true,
+      threads: false,
+      drafts: false,
+      send: false,
+      folders: !this.single,
+      labels: true,
+      flags: true,
+      organization: 'folders',
+      move: 'new-id',
+      serverSearch: false,
+      batch: false,
+    };
+  }
+
+  async list(options: ListOptions = {}): Promise<MboxEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage<MboxEmail>> {
+    const folder = await this.resolveFolder(options.folder ?? 'inbox');
+    return pageMessages(await this.index(folder), options, (state) => this.load(state));
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<MboxEmail> {
+    return this.load(await this.find(id), options);
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<MboxEmail> {
+    const limit = options.batchSize ?? 50;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage({ ...options, limit, cursor });
+      cursor = page.nextCursor;
+      yield* page.emails;
+    } while (cursor);
+  }
+
+  /**
+   * Watch a folder by checking its file every `interval`
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    return watchFolder(
+      async () => this.index(await this.resolveFolder(options.folder ?? 'inbox')),
+      (state) => this.load(state),
+      options,
+    );
+  }
+
+  async send(_options: SendOptions): Promise<SendResult> {
+    throw new UnsupportedOperationError(
+      'mbox',
+      'send',
+      'mbox cannot send email; configure an SMTP transport from @faktoor/smtp',
+    );
+  }
+
+  async listFolders(): Promise<Folder[]> {
+    const folders: Folder[] = [];
+    for (const path of (await this.folderFiles()).keys()) {
+      folders.push(await this.toFolder(path));
+    }
+    return folders;
+  }
+
+  async getFolder(name: FolderName | string): Promise<Folder> {
+    return this.toFolder(await this.resolveFolder(name));
+  }
+
+  /**
+   * Create an empty mbox file; `Parent/Child` goes in a `Parent` directory
+   */
+  async createFolder(name: string): Promise<Folder> {
+    const paths = [...(await this.folderFiles()).keys()];
+    this.assertDirectory('createFolder');
+    if (name.split('/').some((segment) => !segment || segment.startsWith('.'))) {
+      throw new ValidationError(`Invalid mbox folder name: ${name}`, 'name');
+    }
+    if (paths.some((path) => path.toLowerCase() === name.toLowerCase())) {
+      throw new ValidationError(`Folder already exists: ${name}`, 'name');
+    }
+
+    const file = join(this.root, ...name.split('/'));
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, '', { flag: 'wx' });
+    return this.toFolder(name);
+  }
+
+  /**
+   * Delete an mbox file, with the directory of its subfolders
+   */
+  async deleteFolder(name: FolderName | string): Promise<void> {
+    const files = await this.folderFiles();
+    this.assertDirectory('deleteFolder');
+    const file = files.get(await this.resolveFolder(name)) as string;
+
+    await rm(file, { force: true });
+    await rm(`${file}.sbd`, { recursive: true, force: true });
+    this.indexes.delete(file);
+  }
+
+  async markAsRead(id: EmailId | string): Promise<void> {
+    await this.updateStatus(id, () => ({ isRead: true }));
+  }
+
+  async markAsUnread(id: EmailId | string): Promise<void> {
+    await this.updateStatus(id, () => ({ isRead: false }));
+  }
+
+  async star(id: EmailId | string): Promise<void> {
+    await this.updateStatus(id, () => ({ isStarred: true }));
+  }
+
+  async unstar(id: EmailId | string): Promise<void> {
+    await this.updateStatus(id, () => ({ isStarred: false }));
+  }
+
+  async addLabel(id: EmailId | string, label: string): Promise<void> {
+    await this.updateStatus(id, (state) => ({ labels: [...new Set([...state.labels, label])] }));
+  }
+
+  async removeLabel(id: EmailId | string, label: string): Promise<void> {
+    await this.updateStatus(id, (state) => ({
+      labels: state.labels.filter((existing) => existing !== label),
+    }));
+  }
+
+  /**
+   * Append a message to another folder's file and remove it from its own
+   */
+  async move(id: EmailId | string, folder: FolderName | string): Promise<void> {
+    const state = await this.find(id);
+    const target = await this.resolveFolder(folder);
+    if (target === state.folder) return;
+
+    const files = await this.folderFiles();
+    const source = files.get(state.folder) as string;
+    const data = await readFile(source, 'latin1');
+    const [frame] = splitMbox(data.slice(state.offset, state.offset + state.length));
+    if (!frame) {
+      throw new NotFoundError('Email', state.id);
+    }
+
+    const destination = files.get(target) as string;
+    const existing = await readFile(destination, 'latin1');
+    const separator =
+      !existing || existing.endsWith('\n\n') ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+    await this.write(
+      destination,
+      existing + separator + frameMessage(frame.fromLine, frame.content),
+    );
+    await this.rewrite(state, null);
+  }
+
+  /**
+   * Move a message to the trash folder, or remove it when it is already
+   * there or there is no trash folder
+   */
+  async delete(id: EmailId | string): Promise<void> {
+    const state = await this.find(id);
+    const trash = [...(await this.folderFiles()).keys()].find(
+      (path) => folderType(path) === 'trash',
+    );
+
+    if (trash && trash !== state.folder) {
+      await this.move(id, trash);
+      return;
+    }
+    await this.rewrite(state, null);
+  }
+
+  /**
+   * Rewrite the status headers of a message
+   */
+  private async updateStatus(
+    id: EmailId | string,
+    change: (state: MboxState) => Partial<MboxState>,
+  ): Promise<void> {
+    const state = await this.find(id);
+    const updated = { ...state, ...change(state) };
+
+    // `O` marks messages a client has seen arrive, which is now the case
+    const status = `${updated.isRead ? 'R' : ''}O`;
+    const xStatus = [...updated.xStatus.replace(/[FT]/g, '')]
+      .concat(updated.isStarred ? ['F'] : [], updated.isDraft ? ['T'] : [])
+      .join('');
+
+    await this.rewrite(state, (content) => writeStatus(content, status, xStatus, updated.labels));
+  }
+
+  /**
+   * Rewrite the file of a message, replacing or, with `null`, removing it
+   */
+  private async rewrite(
+    state: MboxState,
+    change: ((content: string) => string) | null,
+  ): Promise<void> {
+    const file = (await this.folderFiles()).get(state.folder) as string;
+    const data = await readFile(file, 'latin1');
+    const frames = splitMbox(data);
+    const frame = frames.find((candidate) => candidate.offset === state.offset);
+    if (!frame || frame.length !== state.length) {
+      throw new NotFoundError('Email', state.id);
+    }
+
+    const replacement = change ? frameMessage(frame.fromLine, change(frame.content)) : '';
+    await this.write(
+      file,
+      data.slice(0, frame.offset) + replacement + data.slice(frame.offset + frame.length),
+    );
+  }
+
+  /**
+   * Write a whole file through a temporary one, so readers never see half of it
+   */
+  private async write(file: string, content: string): Promise<void> {
+    await writeFile(`${file}.tmp`, content, 'latin1');
+    await rename(`${file}.tmp`, file);
+    this.indexes.delete(file);
+  }
+
+  private async load(state: MboxState, options: GetOptions = {}): Promise<MboxEmail> {
+    const path = (await this.folderFiles()).get(state.folder) as string;
+    const buffer = Buffer.alloc(state.length);
+    const handle = await open(path, 'r');
+    try {
+      await handle.read(buffer, 0, state.length, state.offset);
+    } finally {
+      await handle.close();
+    }
+
+    const [frame] = splitMbox(buffer.toString('latin1'));
+    if (!frame || !frame.fromLine) {
+      // The file changed since it was indexed
+      throw new NotFoundError('Email', state.id);
+    }
+    const raw = Buffer.from(unquoteFromLines(frame.content), 'latin1');
+
+    return {
+      ...toEmail(raw, state, options),
+      path,
+      offset: state.offset,
+      length: state.length,
+    };
+  }
+
+  private async find(id: EmailId | string): Promise<MboxState> {
+    const parsed = parseEmailId(id);
+    const folder = parsed && (await this.folderFiles()).has(parsed.folder);
+    const state =
+      parsed && folder ? (await this.index(parsed.folder)).find((s) => s.id === id) : undefined;
+    if (!state) {
+      throw new NotFoundError('Email', id);
+    }
+    return state;
+  }
+
+  /**
+   * Messages of a folder, indexed again only when its file changed
+   */
+  private async index(folder: string): Promise<MboxState[]> {
+    const file = (await this.folderFiles()).get(folder) as string;
+    const info = await stat(file);
+    const cached = this.indexes.get(file);
+    if (cached && cached.mtimeMs === info.mtimeMs && cached.size === info.size) {
+      return cached.states;
+    }
+
+    const states = indexMbox(folder, await readFile(file, 'latin1'), info.mtime);
+    this.indexes.set(file, { mtimeMs: info.mtimeMs, size: info.size, states });
+    return states;
+  }
+
+  private async toFolder(path: string): Promise<Folder> {
+    const states = await this.index(path);
+    return {
+      name: path as FolderName,
+      path,
+      type: folderType(path),
+      totalCount: states.length,
+      unreadCount: states.filter((state) => !state.isRead).length,
+    };
+  }
+
+  /**
+   * Find a folder by path, or by type for the special folders (`sent`, `trash`, ...)
+   */
+  private async resolveFolder(name: string): Promise<string> {
+    const paths = [...(await this.folderFiles()).keys()];
+    const match =
+      paths.find((path) => path === name) ??
+      paths.find((path) => path.toLowerCase() === name.toLowerCase()) ??
+      paths.find((path) => folderType(path) === name);
+    if (!match) {
+      throw new NotFoundError('Folder', name);
+    }
+    return match;
+  }
+
+  /**
+   * Files by folder path; a single mbox file is the inbox
+   */
+  private async folderFiles(): Promise<Map<string, string>> {
+    if (!this.connected) await this.connect();
+    if (this.single) return new Map([[INBOX, this.root]]);
+
+    const files = new Map<string, string>();
+    const walk = async (dir: string, prefix: string): Promise<void> => {
+      const entries = await readdir(dir, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (entry.name.startsWith('.') || IGNORED_FILES.test(entry.name)) continue;
+        if (entry.isDirectory()) {
+          // Thunderbird keeps the subfolders of `Name` in `Name.sbd`
+          const segment = entry.name.replace(/\.sbd$/, '');
+          await walk(join(dir, entry.name), `${prefix}${segment}/`);
+        } else if (entry.isFile()) {
+          files.set(`${prefix}${entry.name}`, join(dir, entry.name));
+        }
+      }
+    };
+    await walk(this.root, '');
+    return files;
+  }
+
+  private assertDirectory(operation: string): void {
+    if (this.single) {
+      throw new UnsupportedOperationError(
+        'mbox',
+        operation,
+        'A single mbox file has no folders; pass a directory',
+      );
+    }
+  }
+}
+
+/**
+ * Create an mbox provider
+ */
+export function mbox(options: MboxOptions): MboxProvider {
+  return new MboxProvider(options);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { frameMessage, parseFromLine, quoteFromLines, splitMbox, unquoteFromLines } from './mboxrd';
+
+describe('mboxrd', () => {
+  it('should split messages at From lines and drop the separating blank line', () => {
+    const data =
+      'From a@example.com Mon Jan  1 10:00:00 2024\nSubject: One\n\n>From here\n\n' +
+      'From b@example.com Tue Jan  2 10:00:00 2024\nSubject: Two\n\nLast';
+
+    const second = data.indexOf('From b@');
+    const frames = splitMbox(data);
+
+    expect(frames).toEqual([
+      {
+        offset: 0,
+        length: second,
+        fromLine: 'From a@example.com Mon Jan  1 10:00:00 2024',
+        content: 'Subject: One\n\n>From here\n',
+      },
+      {
+        offset: second,
+        length: data.length - second,
+        fromLine: 'From b@example.com Tue Jan  2 10:00:00 2024',
+        content: 'Subject: Two\n\nLast',
+      },
+    ]);
+  });
+
+  it('should quote and unquote From lines reversibly', () => {
+    const body = 'From me\n>From you\nNot From here\n>>From them';
+
+    expect(quoteFromLines(body)).toBe('>From me\n>>From you\nNot From here\n>>>From them');
+    expect(unquoteFromLines(quoteFromLines(body))).toBe(body);
+  });
+
+  it('should read asctime dates from From lines as UTC', () => {
+    expect(parseFromLine('From a@example.com Mon Jan  1 10:00:00 2024')).toEqual(
+      new Date('2024-01-01T10:00:00Z'),
+    );
+    expect(parseFromLine('From MAILER-DAEMON Fri Dec 13 23:59 2024')).toEqual(
+      new Date('2024-12-13T23:59:00Z'),
+    );
+    expect(parseFromLine('From a@example.com')).toBeUndefined();
+  });
+
+  it('should frame messages with a trailing blank line', () => {
+    expect(frameMessage('From a Mon Jan  1 10:00:00 2024', 'Subject: A\n\nBody')).toBe(
+      'From a Mon Jan  1 10:00:00 2024\nSubject: A\n\nBody\n\n',
+    );
+  });
+});
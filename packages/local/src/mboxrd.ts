@@ -0,0 +1,95 @@
+/**
+ * mboxrd framing
+ *
+ * Messages start with a `From ` line and end with a blank line. Body lines
+ * that would read as `From ` lines are quoted with `>`, and so are lines that
+ * are already quoted that way, so unquoting is always reversible. Content is
+ * handled as latin1 strings: one character per byte, so string offsets are
+ * file offsets.
+ */
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Message located in an mbox file
+ */
+export interface MboxFrame {
+  /** Offset of the `From ` line */
+  offset: number;
+  /** Bytes up to the next `From ` line or the end of the file */
+  length: number;
+  /** The `From ` line, without its line break */
+  fromLine: string;
+  /** The message as stored, quoting included, without the trailing blank line */
+  content: string;
+}
+
+/**
+ * Find the messages of an mbox file
+ */
+export function splitMbox(data: string): MboxFrame[] {
+  const starts: number[] = [];
+  const pattern = /^From /gm;
+  for (let match = pattern.exec(data); match; match = pattern.exec(data)) {
+    starts.push(match.index);
+  }
+
+  return starts.map((offset, index) => {
+    const end = starts[index + 1] ?? data.length;
+    const lineEnd = data.indexOf('\n', offset);
+    const bodyStart = lineEnd === -1 || lineEnd > end ? end : lineEnd + 1;
+
+    return {
+      offset,
+      length: end - offset,
+      fromLine: data.slice(offset, bodyStart).replace(/\r?\n$/, ''),
+      // The blank line before the next `From ` line belongs to the framing
+      content: data.slice(bodyStart, end).replace(/\r?\n$/, ''),
+    };
+  });
+}
+
+/**
+ * Remove one level of `>` quoting from `From ` lines
+ */
+export function unquoteFromLines(content: string): string {
+  return content.replace(/^>(>*From )/gm, '$1');
+}
+
+/**
+ * Quote `From ` lines, including already quoted ones
+ */
+export function quoteFromLines(content: string): string {
+  return content.replace(/^(>*From )/gm, '>$1');
+}
+
+/**
+ * Read the delivery date of a `From ` line, taken as UTC
+ */
+export function parseFromLine(line: string): Date | undefined {
+  const match = line.match(
+    /(\w{3})\s+(\d{1,2})\s+(\d{2}):(\d{2})(?::(\d{2}))?\s+(?:[A-Z]{3,4}\s+)?(\d{4})/,
+  );
+  if (!match) return undefined;
+
+  const [, month, day, hours, minutes, seconds, year] = match;
+  const monthIndex = MONTHS.indexOf(month as string);
+  if (monthIndex === -1) return undefined;
+  return new Date(
+    Date.UTC(
+      Number(year),
+      monthIndex,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds ?? 0),
+    ),
+  );
+}
+
+/**
+ * Frame a message for writing: `From ` line, content as stored and a blank line
+ */
+export function frameMessage(fromLine: string, content: string): string {
+  return `${fromLine}\n${content}${content.endsWith('\n') ? '' : '\n'}\n`;
+}
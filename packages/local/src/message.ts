@@ -0,0 +1,202 @@
+import type {
+  Address,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  ThreadId,
+} from '@faktoor/core';
+import { decodeCursor, encodeCursor } from '@faktoor/core';
+import { parseMimeMessage } from '@faktoor/parser';
+
+const DEFAULT_LIMIT = 50;
+
+type FolderType = Folder['type'];
+
+// Folder names mail clients commonly use for special folders
+const COMMON_NAMES: Record<string, FolderType> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  'sent items': 'sent',
+  'sent messages': 'sent',
+  'sent mail': 'sent',
+  drafts: 'drafts',
+  trash: 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  junk: 'spam',
+  spam: 'spam',
+  'junk e-mail': 'spam',
+  archive: 'archive',
+};
+
+/**
+ * What is known about a message without parsing it
+ */
+export interface MessageState {
+  id: EmailId;
+  folder: string;
+  receivedAt: Date;
+  isRead: boolean;
+  isStarred: boolean;
+  isDraft: boolean;
+  labels: string[];
+}
+
+/**
+ * Work out the folder type from its name; nested folders go by their last segment
+ */
+export function folderType(path: string): FolderType {
+  const leaf = path.split('/').pop() ?? path;
+  if (path.includes('/') && leaf.toLowerCase() === 'inbox') return 'custom';
+  return COMMON_NAMES[leaf.toLowerCase()] ?? 'custom';
+}
+
+/**
+ * Build the email id for a message: `<folder>:<key>`
+ */
+export function toEmailId(folder: string, key: string): EmailId {
+  return `${folder}:${key}` as EmailId;
+}
+
+/**
+ * Split an email id into its folder and key
+ */
+export function parseEmailId(id: string): { folder: string; key: string } | undefined {
+  const separator = id.lastIndexOf(':');
+  if (separator <= 0 || separator === id.length - 1) return undefined;
+  return { folder: id.slice(0, separator), key: id.slice(separator + 1) };
+}
+
+/**
+ * Parse a raw message into an email
+ */
+export function toEmail(raw: Uint8Array, state: MessageState, options: GetOptions = {}): Email {
+  const message = parseMimeMessage(raw);
+  const full = (options.format ?? 'full') === 'full';
+
+  return {
+    id: state.id,
+    // No thread ids on disk: group by the first message of the reference chain
+    threadId: (message.references[0] ??
+      message.inReplyTo ??
+      message.messageId ??
+      state.id) as ThreadId,
+    folder: state.folder as FolderName,
+    from: message.from ?? { email: '' },
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    body: full ? { text: message.text, html: message.html } : { text: '', html: null },
+    date: message.date ?? state.receivedAt,
+    receivedAt: state.receivedAt,
+    isRead: state.isRead,
+    isStarred: state.isStarred,
+    isDraft: state.isDraft,
+    labels: state.labels.map((label) => ({ id: label, name: label })),
+    attachments: message.attachments.map(({ partId, filename, mimeType, size }) => ({
+      id: partId,
+      filename,
+      mimeType,
+      size,
+    })),
+    headers: message.headers,
+    inReplyTo: message.inReplyTo as EmailId | undefined,
+    references: message.references as EmailId[],
+    raw: options.includeRaw ? new TextDecoder().decode(raw) : undefined,
+  };
+}
+
+function includes(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchesAddress(addresses: Address[], needle: string): boolean {
+  return addresses.some(
+    (address) => includes(address.email, needle) || includes(address.name, needle),
+  );
+}
+
+/**
+ * Whether the options filter on anything that needs the message parsed
+ */
+function needsContent(options: ListOptions): boolean {
+  return Boolean(
+    options.from || options.to || options.subject || options.hasAttachment || options.query,
+  );
+}
+
+/**
+ * Filters that only need the message state
+ */
+function matchesState(state: MessageState, options: ListOptions): boolean {
+  if (options.unreadOnly && state.isRead) return false;
+  if (options.after && state.receivedAt < options.after) return false;
+  if (options.before && state.receivedAt >= options.before) return false;
+  return !options.labels?.some((label) => !state.labels.includes(label));
+}
+
+/**
+ * Filters that need the parsed message
+ */
+function matchesContent(email: Email, options: ListOptions): boolean {
+  if (options.from && !matchesAddress([email.from], options.from)) return false;
+  if (options.to && !matchesAddress([...email.to, ...email.cc, ...email.bcc], options.to)) {
+    return false;
+  }
+  if (options.subject && !includes(email.subject, options.subject)) return false;
+  if (options.hasAttachment && !email.attachments.length) return false;
+  return (
+    !options.query ||
+    includes(email.subject, options.query) ||
+    includes(email.body.text, options.query) ||
+    matchesAddress([email.from, ...email.to], options.query)
+  );
+}
+
+/**
+ * Filter and page messages, newest first
+ *
+ * Only the messages on the page are read, unless the options filter on
+ * headers or content, in which case every candidate is.
+ */
+export async function pageMessages<T extends MessageState, E extends Email>(
+  states: T[],
+  options: ListOptions,
+  load: (state: T) => Promise<E>,
+): Promise<ListPage<E>> {
+  const candidates = states
+    .filter((state) => matchesState(state, options))
+    .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime());
+  const offset = options.cursor
+    ? decodeCursor<{ offset: number }>(options.cursor).offset
+    : (options.offset ?? 0);
+  const end = offset + (options.limit ?? DEFAULT_LIMIT);
+
+  let emails: E[];
+  let total: number;
+  if (needsContent(options)) {
+    const matching: E[] = [];
+    for (const state of candidates) {
+      const email = await load(state);
+      if (matchesContent(email, options)) matching.push(email);
+    }
+    emails = matching.slice(offset, end);
+    total = matching.length;
+  } else {
+    emails = [];
+    for (const state of candidates.slice(offset, end)) emails.push(await load(state));
+    total = candidates.length;
+  }
+
+  return {
+    emails,
+    nextCursor: end < total ? encodeCursor({ offset: end }) : undefined,
+    totalEstimate: total,
+  };
+}
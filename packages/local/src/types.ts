@@ -0,0 +1,46 @@
+import type { Email } from '@faktoor/core';
+
+/**
+ * Maildir-specific email extensions
+ */
+export interface MaildirEmail extends Email {
+  /** Absolute path of the message file */
+  path: string;
+  /** Flag letters from the filename info, e.g. `RS` for `:2,RS` */
+  flags: string;
+  /** Size of the message file in bytes */
+  size: number;
+}
+
+/**
+ * mbox-specific email extensions
+ */
+export interface MboxEmail extends Email {
+  /** Absolute path of the mbox file */
+  path: string;
+  /** Byte offset of the message's `From ` line in the file */
+  offset: number;
+  /** Length of the message in bytes, from its `From ` line to the next one */
+  length: number;
+}
+
+/**
+ * Maildir provider options
+ */
+export interface MaildirOptions {
+  /** Maildir root, the directory holding `cur`, `new` and `tmp` of the inbox */
+  path: string;
+  /** Create the maildir on connect when it does not exist (default: false) */
+  create?: boolean;
+}
+
+/**
+ * mbox provider options
+ */
+export interface MboxOptions {
+  /**
+   * An mbox file, read as the inbox, or a directory whose files are folders;
+   * nested directories become nested folders
+   */
+  path: string;
+}
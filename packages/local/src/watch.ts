@@ -0,0 +1,76 @@
+import type { Email, EmailId, WatchEvent, WatchHandle, WatchOptions } from '@faktoor/core';
+import { createWatchHandle } from '@faktoor/core';
+import type { MessageState } from './message';
+
+const DEFAULT_WATCH_INTERVAL = 30_000;
+
+function fingerprint(state: MessageState): string {
+  return [state.isRead, state.isStarred, state.isDraft, ...[...state.labels].sort()].join(' ');
+}
+
+/**
+ * Watch a folder by reading its messages every `interval`
+ *
+ * Each read is diffed against the previous one: unknown messages are new,
+ * missing ones deleted and changed flags or labels updates. A failed read is
+ * reported as an error and retried on the next tick.
+ */
+export function watchFolder<T extends MessageState>(
+  read: () => Promise<T[]>,
+  load: (state: T) => Promise<Email>,
+  options: WatchOptions = {},
+): WatchHandle {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+
+  return createWatchHandle((emitter) => {
+    let known: Map<string, string> | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const sync = async (): Promise<void> => {
+      const states = await read();
+      const report = known !== undefined || (options.includeExisting ?? false);
+      const previous = known ?? new Map<string, string>();
+      const current = new Map<string, string>(
+        states.map((state) => [state.id, fingerprint(state)]),
+      );
+
+      const changed: Array<{ state: T; isNew: boolean }> = [];
+      // Oldest first, the order messages arrived in
+      const ordered = [...states].sort((x, y) => x.receivedAt.getTime() - y.receivedAt.getTime());
+      for (const state of ordered) {
+        const before = previous.get(state.id);
+        if (before === undefined) changed.push({ state, isNew: true });
+        else if (before !== current.get(state.id)) changed.push({ state, isNew: false });
+      }
+
+      const events: WatchEvent[] = [];
+      if (report) {
+        for (const id of previous.keys()) {
+          if (!current.has(id)) events.push({ type: 'deleted', id: id as EmailId });
+        }
+        for (const { state, isNew } of changed) {
+          events.push({ type: isNew ? 'new' : 'updated', email: await load(state) });
+        }
+      }
+
+      // Only move on once everything was read, so a failed sync is retried in full
+      known = current;
+      for (const event of events) emitter.emit(event);
+    };
+
+    const tick = async (): Promise<void> => {
+      try {
+        await sync();
+      } catch (error) {
+        emitter.emit({
+          type: 'error',
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+      if (!emitter.stopped) timer = setTimeout(tick, interval);
+    };
+
+    void tick();
+    return () => clearTimeout(timer);
+  });
+}
@@ -0,0 +1,95 @@
+import type { HttpClient, HttpRequest } from '../http';
+
+/**
+ * Recorded Graph exchange
+ */
+export interface Recording {
+  method: string;
+  /** Path below the API version, e.g. `/me/messages` */
+  path: string;
+  /** Query parameters the request must carry */
+  query?: Record<string, string>;
+  status?: number;
+  headers?: Record<string, string>;
+  /** Response body, serialized to JSON unless it is a string */
+  body?: unknown;
+  /** Answer only the first matching request */
+  once?: boolean;
+}
+
+/**
+ * Replays recorded Graph responses through the swappable HTTP layer
+ *
+ * Requests are matched on method, path and the recorded query parameters;
+ * recordings added later take precedence. Unmatched requests get a 501 so
+ * tests fail loudly instead of talking to the network.
+ */
+export class GraphStub {
+  readonly requests: HttpRequest[] = [];
+  private readonly recordings: Recording[];
+
+  constructor(recordings: Recording[] = []) {
+    this.recordings = [...recordings];
+  }
+
+  record(...recordings: Recording[]): this {
+    this.recordings.unshift(...recordings.reverse());
+    return this;
+  }
+
+  /**
+   * Requests sent to `path`, in order
+   */
+  calls(method: string, path: string): HttpRequest[] {
+    return this.requests.filter(
+      (request) => request.method === method && pathOf(new URL(request.url)) === path,
+    );
+  }
+
+  readonly client: HttpClient = async (request) => {
+    this.requests.push(request);
+    const url = new URL(request.url);
+    const path = pathOf(url);
+
+    const recording = this.recordings.find(
+      (candidate) =>
+        candidate.method === request.method &&
+        candidate.path === path &&
+        Object.entries(candidate.query ?? {}).every(
+          ([name, value]) => url.searchParams.get(name) === value,
+        ),
+    );
+
+    if (recording?.once) {
+      this.recordings.splice(this.recordings.indexOf(recording), 1);
+    }
+
+    if (!recording) {
+      return {
+        status: 501,
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          error: {
+            code: 'NoRecording',
+            message: `No recording for ${request.method} ${path}${url.search}`,
+          },
+        }),
+      };
+    }
+
+    return {
+      status: recording.status ?? 200,
+      headers: recording.headers ?? { 'content-type': 'application/json' },
+      body:
+        recording.body === undefined
+          ? ''
+          : typeof recording.body === 'string'
+            ? recording.body
+            : JSON.stringify(recording.body),
+    };
+  };
+}
+
+function pathOf(url: URL): string {
+  return decodeURIComponent(url.pathname.replace(/^\/v1\.0/, ''));
+}
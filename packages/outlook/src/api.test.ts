@@ -0,0 +1,116 @@
+import { AuthenticationError, ProviderError, RateLimitError } from '@faktoor/core';
+import { describe, expect, it, vi } from 'vitest';
+import { GraphStub } from './__fixtures__/graph-stub';
+import { GraphApi } from './api';
+
+const TOKEN_PATH = '/contoso.onmicrosoft.com/oauth2/v2.0/token';
+
+describe('GraphApi', () => {
+  describe('token refresh', () => {
+    it('should refresh on 401 and retry with the new token', async () => {
+      const stub = new GraphStub([
+        {
+          method: 'POST',
+          path: TOKEN_PATH,
+          body: { access_token: 'fresh', expires_in: 3600, refresh_token: 'rotated' },
+        },
+        { method: 'GET', path: '/me/mailFolders/inbox', body: { id: 'AAMkAD-inbox' } },
+      ]).record({
+        method: 'GET',
+        path: '/me/mailFolders/inbox',
+        status: 401,
+        body: { error: { code: 'InvalidAuthenticationToken', message: 'Token expired' } },
+        once: true,
+      });
+      const onTokenRefresh = vi.fn();
+      const api = new GraphApi({
+        accessToken: 'stale',
+        refreshToken: 'refresh',
+        clientId: 'client-id',
+        tenant: 'contoso.onmicrosoft.com',
+        onTokenRefresh,
+        http: stub.client,
+      });
+
+      await expect(api.mailFolders.get('inbox')).resolves.toEqual({ id: 'AAMkAD-inbox' });
+
+      const [tokenRequest] = stub.calls('POST', TOKEN_PATH);
+      expect(new URL(tokenRequest?.url as string).host).toBe('login.microsoftonline.com');
+      expect(Object.fromEntries(new URLSearchParams(tokenRequest?.body as string))).toEqual({
+        grant_type: 'refresh_token',
+        refresh_token: 'refresh',
+        client_id: 'client-id',
+        scope: 'https://graph.microsoft.com/.default offline_access',
+      });
+      expect(stub.requests.at(-1)?.headers.Authorization).toBe('Bearer fresh');
+      expect(onTokenRefresh).toHaveBeenCalledWith({
+        accessToken: 'fresh',
+        expiresAt: expect.any(Date),
+        refreshToken: 'rotated',
+      });
+    });
+
+    it('should refresh expired tokens before the request', async () => {
+      const stub = new GraphStub([
+        { method: 'POST', path: '/common/oauth2/v2.0/token', body: { access_token: 'fresh' } },
+        { method: 'GET', path: '/me/mailFolders/inbox', body: { id: 'AAMkAD-inbox' } },
+      ]);
+      const api = new GraphApi({
+        accessToken: 'stale',
+        refreshToken: 'refresh',
+        clientId: 'client-id',
+        expiresAt: new Date(Date.now() - 1000),
+        http: stub.client,
+      });
+
+      await api.mailFolders.get('inbox');
+
+      expect(stub.requests.map((request) => request.method)).toEqual(['POST', 'GET']);
+      expect(stub.requests[1]?.headers.Authorization).toBe('Bearer fresh');
+    });
+
+    it('should throw AuthenticationError for expired tokens without a way to refresh', async () => {
+      const api = new GraphApi({
+        accessToken: 'stale',
+        expiresAt: new Date(Date.now() - 1000),
+        http: new GraphStub().client,
+      });
+
+      await expect(api.mailFolders.get('inbox')).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('errors', () => {
+    const failWith = (status: number, headers: Record<string, string> = {}) =>
+      new GraphApi({
+        accessToken: 'token',
+        http: new GraphStub([
+          {
+            method: 'GET',
+            path: '/me/messages/m1',
+            status,
+            headers,
+            body: { error: { code: 'Error', message: `Failed with ${status}` } },
+          },
+        ]).client,
+      }).messages.get('m1');
+
+    it('should map 429 to RateLimitError with Retry-After', async () => {
+      const error = await failWith(429, { 'retry-after': '7' }).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ retryAfter: 7000, retryable: true });
+    });
+
+    it('should map 403 to AuthenticationError', async () => {
+      await expect(failWith(403)).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should mark server errors as retryable', async () => {
+      const error = await failWith(503).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(error).toMatchObject({ message: 'Failed with 503', retryable: true });
+    });
+  });
+});
@@ -0,0 +1,541 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  ProviderError,
+  RateLimitError,
+  ValidationError,
+  parseRetryAfter,
+} from '@faktoor/core';
+import { MICROSOFT_LOGIN_URL, requestToken, tokenExpiry } from './auth';
+import type { HttpClient, HttpResponse } from './http';
+import { fetchHttpClient } from './http';
+import type {
+  GraphCategory,
+  GraphMailFolder,
+  GraphMessage,
+  GraphPage,
+  OutlookOptions,
+} from './types';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+
+// Refresh tokens slightly before they expire to absorb clock skew
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+const DEFAULT_SCOPES = ['https://graph.microsoft.com/.default', 'offline_access'];
+
+// Immutable ids survive moves between folders, including a draft being sent
+const PREFER_IMMUTABLE_IDS = 'IdType="ImmutableId"';
+
+const HEADER_FIELDS = [
+  'id',
+  'conversationId',
+  'parentFolderId',
+  'subject',
+  'bodyPreview',
+  'from',
+  'sender',
+  'toRecipients',
+  'ccRecipients',
+  'bccRecipients',
+  'replyTo',
+  'receivedDateTime',
+  'sentDateTime',
+  'isRead',
+  'isDraft',
+  'importance',
+  'flag',
+  'categories',
+  'hasAttachments',
+  'internetMessageId',
+  'internetMessageHeaders',
+  'webLink',
+];
+
+/**
+ * Message properties requested for `format: 'metadata'` and `'minimal'`
+ */
+export const METADATA_FIELDS = HEADER_FIELDS.join(',');
+
+/**
+ * Message properties requested for full messages
+ */
+export const MESSAGE_FIELDS = [...HEADER_FIELDS, 'body'].join(',');
+
+// Changed messages are fetched in full afterwards; these only make the changes visible
+const DELTA_FIELDS = 'id,isRead,flag,categories,parentFolderId';
+
+export const ATTACHMENT_EXPAND = 'attachments($select=id,name,contentType,size,isInline)';
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Graph message as written on create or update
+ */
+export type GraphMessageInput = Partial<
+  Omit<GraphMessage, 'id' | 'attachments' | '@removed' | 'body'>
+> & {
+  body?: { contentType: 'text' | 'html'; content: string };
+  attachments?: GraphFileAttachmentInput[];
+};
+
+/**
+ * File attachment sent inline with a message, at most 3 MB
+ */
+export interface GraphFileAttachmentInput {
+  '@odata.type': '#microsoft.graph.fileAttachment';
+  name: string;
+  contentType: string;
+  contentBytes: string;
+  contentId?: string;
+  isInline?: boolean;
+}
+
+/**
+ * Encode an id for use as a single path segment
+ */
+function segment(id: string): string {
+  return encodeURIComponent(id);
+}
+
+/**
+ * Microsoft Graph API client
+ */
+export class GraphApi {
+  private accessToken: string;
+  private refreshToken?: string;
+  private expiresAt?: Date;
+  private refreshing?: Promise<void>;
+  private readonly http: HttpClient;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OutlookOptions) {
+    if (!options.accessToken) {
+      throw new Error('Invalid Outlook options');
+    }
+    this.accessToken = options.accessToken;
+    this.refreshToken = options.refreshToken;
+    this.expiresAt = options.expiresAt;
+    this.http = options.http ?? fetchHttpClient;
+    this.baseUrl = (options.baseUrl ?? GRAPH_API_BASE).replace(/\/+$/, '');
+  }
+
+  /**
+   * Build a Graph URL; absolute `nextLink`/`deltaLink` URLs are used as is
+   *
+   * Those links come back to us inside cursors, so one pointing at another
+   * origin is refused rather than sent the access token.
+   */
+  private buildUrl(path: string, params?: QueryParams): URL {
+    const url = new URL(/^https?:\/\//i.test(path) ? path : `${this.baseUrl}${path}`);
+    const { origin } = new URL(this.baseUrl);
+    if (url.origin !== origin) {
+      throw new ValidationError(`Link outside ${origin}: ${url.origin}`, 'cursor');
+    }
+    if (params) {
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) {
+          url.searchParams.set(key, String(value));
+        }
+      }
+    }
+    return url;
+  }
+
+  /**
+   * Make authenticated request to Microsoft Graph
+   */
+  async request<T>(
+    method: string,
+    path: string,
+    options?: {
+      body?: unknown;
+      /** Sent verbatim instead of `body`; set its Content-Type in `headers` */
+      raw?: string;
+      params?: QueryParams;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+    },
+  ): Promise<T> {
+    const response = await this.authorizedFetch(method, path, options);
+
+    // Handle empty responses, e.g. 202 from send and 204 from delete
+    if (response.status === 202 || response.status === 204 || !response.body) {
+      return undefined as T;
+    }
+
+    try {
+      return JSON.parse(response.body) as T;
+    } catch (error) {
+      throw new NetworkError('Invalid response from Microsoft Graph', error as Error);
+    }
+  }
+
+  /**
+   * Make authenticated request and return the body as text
+   */
+  async requestText(path: string, signal?: AbortSignal): Promise<string> {
+    return (await this.authorizedFetch('GET', path, { signal })).body;
+  }
+
+  /**
+   * Follow `@odata.nextLink` and return every item of a collection
+   */
+  async collect<T>(path: string, params?: QueryParams, signal?: AbortSignal): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = path;
+    let query = params;
+
+    while (next) {
+      const page: GraphPage<T> = await this.request<GraphPage<T>>('GET', next, {
+        params: query,
+        signal,
+      });
+      items.push(...page.value);
+      next = page['@odata.nextLink'];
+      // Next links already carry the query
+      query = undefined;
+    }
+
+    return items;
+  }
+
+  /**
+   * Upload one range of a large attachment to an upload session
+   *
+   * Upload URLs are pre-authorized, so no access token is sent.
+   */
+  async upload(
+    uploadUrl: string,
+    content: Uint8Array,
+    start: number,
+    total: number,
+    signal?: AbortSignal,
+  ): Promise<HttpResponse> {
+    const response = await this.http({
+      method: 'PUT',
+      url: uploadUrl,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${start}-${start + content.length - 1}/${total}`,
+      },
+      body: content,
+      signal,
+    });
+
+    if (response.status >= 400) {
+      await this.handleError(response, 'upload session');
+    }
+    return response;
+  }
+
+  /**
+   * Send a request with the current access token, refreshing it once on 401
+   */
+  private async authorizedFetch(
+    method: string,
+    path: string,
+    options?: {
+      body?: unknown;
+      /** Sent verbatim instead of `body`; set its Content-Type in `headers` */
+      raw?: string;
+      params?: QueryParams;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+    },
+  ): Promise<HttpResponse> {
+    const url = this.buildUrl(path, options?.params).toString();
+    await this.ensureValidToken();
+
+    const body =
+      options?.raw ?? (options?.body === undefined ? undefined : JSON.stringify(options.body));
+    const send = () =>
+      this.http({
+        method,
+        url,
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          Accept: 'application/json',
+          Prefer: PREFER_IMMUTABLE_IDS,
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...options?.headers,
+        },
+        body,
+        signal: options?.signal,
+      });
+
+    const usedToken = this.accessToken;
+    let response = await send();
+
+    // Access token revoked or expired early: refresh once and retry
+    if (response.status === 401 && this.canRefresh()) {
+      if (this.accessToken === usedToken) {
+        await this.refreshAccessToken();
+      }
+      response = await send();
+    }
+
+    if (response.status >= 400) {
+      await this.handleError(response, path);
+    }
+
+    return response;
+  }
+
+  /**
+   * Whether a new access token can be obtained without user interaction
+   */
+  private canRefresh(): boolean {
+    return !!this.refreshToken && !!this.options.clientId;
+  }
+
+  /**
+   * Refresh the access token ahead of a request if it has expired
+   */
+  private async ensureValidToken(): Promise<void> {
+    const expired =
+      !!this.expiresAt && this.expiresAt.getTime() - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
+    if (!expired) return;
+
+    if (this.canRefresh()) {
+      await this.refreshAccessToken();
+      return;
+    }
+
+    if (this.expiresAt && this.expiresAt < new Date()) {
+      throw new AuthenticationError(
+        this.refreshToken
+          ? 'Token expired. Provide clientId to enable token refresh.'
+          : 'Token expired',
+      );
+    }
+  }
+
+  /**
+   * Refresh the access token, sharing a single in-flight refresh between callers
+   */
+  private refreshAccessToken(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.performTokenRefresh().finally(() => {
+        this.refreshing = undefined;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Obtain a new access token from the refresh token
+   */
+  private async performTokenRefresh(): Promise<void> {
+    const { options } = this;
+    const params: Record<string, string> = {
+      grant_type: 'refresh_token',
+      refresh_token: this.refreshToken as string,
+      client_id: options.clientId as string,
+      scope: (options.scopes ?? DEFAULT_SCOPES).join(' '),
+    };
+    if (options.clientSecret) {
+      params.client_secret = options.clientSecret;
+    }
+
+    const token = await requestToken(
+      this.http,
+      options.loginUrl ?? MICROSOFT_LOGIN_URL,
+      options.tenant ?? 'common',
+      params,
+    );
+    this.accessToken = token.access_token;
+    this.expiresAt = tokenExpiry(token);
+    // Microsoft rotates refresh tokens on every use
+    if (token.refresh_token) {
+      this.refreshToken = token.refresh_token;
+    }
+
+    await options.onTokenRefresh?.({
+      accessToken: this.accessToken,
+      expiresAt: this.expiresAt,
+      refreshToken: token.refresh_token,
+    });
+  }
+
+  /**
+   * Handle API errors
+   */
+  private async handleError(response: HttpResponse, path: string): Promise<never> {
+    let errorData: { error?: { message?: string; code?: string } } = {};
+    try {
+      errorData = JSON.parse(response.body);
+    } catch {
+      // Ignore JSON parse errors
+    }
+
+    const message = errorData.error?.message || errorData.error?.code || `HTTP ${response.status}`;
+
+    switch (response.status) {
+      case 401:
+        throw new AuthenticationError(message);
+      case 403:
+        throw new AuthenticationError(`Access denied: ${message}`);
+      case 404:
+        throw new NotFoundError('Outlook resource', path);
+      case 410:
+        // Delta and skip tokens expire; callers start over
+        throw new NotFoundError('Outlook sync state', path);
+      case 429:
+        throw new RateLimitError(message, parseRetryAfter(response.headers['retry-after']));
+      default:
+        throw new ProviderError('outlook', message, { retryable: response.status >= 500 });
+    }
+  }
+
+  // Messages API
+  messages = {
+    list: (
+      folderId: string | undefined,
+      params: {
+        $select?: string;
+        $filter?: string;
+        $search?: string;
+        $orderby?: string;
+        $expand?: string;
+        $top?: number;
+        $skip?: number;
+        $count?: boolean;
+      },
+      signal?: AbortSignal,
+    ) =>
+      this.request<GraphPage<GraphMessage>>(
+        'GET',
+        folderId ? `/me/mailFolders/${segment(folderId)}/messages` : '/me/messages',
+        {
+          params,
+          // Required for $count, and for $search combined with other options
+          headers: params.$count || params.$search ? { ConsistencyLevel: 'eventual' } : undefined,
+          signal,
+        },
+      ),
+
+    /**
+     * Fetch the next page of a listing from its `@odata.nextLink`
+     */
+    next: (nextLink: string, signal?: AbortSignal) =>
+      this.request<GraphPage<GraphMessage>>('GET', nextLink, {
+        headers: { ConsistencyLevel: 'eventual' },
+        signal,
+      }),
+
+    get: (id: string, params?: { $select?: string; $expand?: string }, signal?: AbortSignal) =>
+      this.request<GraphMessage>('GET', `/me/messages/${segment(id)}`, { params, signal }),
+
+    /**
+     * Fetch the message as RFC 822 MIME
+     */
+    getMime: (id: string, signal?: AbortSignal) =>
+      this.requestText(`/me/messages/${segment(id)}/$value`, signal),
+
+    update: (id: string, changes: GraphMessageInput, signal?: AbortSignal) =>
+      this.request<GraphMessage>('PATCH', `/me/messages/${segment(id)}`, {
+        body: changes,
+        signal,
+      }),
+
+    move: (id: string, destinationId: string, signal?: AbortSignal) =>
+      this.request<GraphMessage>('POST', `/me/messages/${segment(id)}/move`, {
+        body: { destinationId },
+        signal,
+      }),
+
+    delete: (id: string, signal?: AbortSignal) =>
+      this.request<void>('DELETE', `/me/messages/${segment(id)}`, { signal }),
+
+    /**
+     * Create a draft in the drafts folder
+     */
+    create: (message: GraphMessageInput, signal?: AbortSignal) =>
+      this.request<GraphMessage>('POST', '/me/messages', { body: message, signal }),
+
+    /**
+     * Create a draft from a base64-encoded MIME message
+     */
+    createMime: (mime: string, signal?: AbortSignal) =>
+      this.request<GraphMessage>('POST', '/me/messages', {
+        raw: mime,
+        headers: { 'Content-Type': 'text/plain' },
+        signal,
+      }),
+
+    /**
+     * Send an existing draft
+     */
+    send: (id: string, signal?: AbortSignal) =>
+      this.request<void>('POST', `/me/messages/${segment(id)}/send`, { signal }),
+
+    addAttachment: (id: string, attachment: GraphFileAttachmentInput, signal?: AbortSignal) =>
+      this.request<{ id: string }>('POST', `/me/messages/${segment(id)}/attachments`, {
+        body: attachment,
+        signal,
+      }),
+
+    /**
+     * Start an upload session for an attachment over 3 MB
+     */
+    createUploadSession: (
+      id: string,
+      item: {
+        name: string;
+        size: number;
+        contentType: string;
+        contentId?: string;
+        isInline?: boolean;
+      },
+      signal?: AbortSignal,
+    ) =>
+      this.request<{ uploadUrl: string; expirationDateTime?: string }>(
+        'POST',
+        `/me/messages/${segment(id)}/attachments/createUploadSession`,
+        { body: { AttachmentItem: { attachmentType: 'file', ...item } }, signal },
+      ),
+
+    /**
+     * Read changes to a folder, starting over without `link` or resuming from
+     * a previous `@odata.nextLink`/`@odata.deltaLink`
+     */
+    delta: (folderId: string, link?: string) =>
+      this.request<GraphPage<GraphMessage>>(
+        'GET',
+        link ?? `/me/mailFolders/${segment(folderId)}/messages/delta`,
+        {
+          params: link ? undefined : { $select: DELTA_FIELDS },
+          headers: { Prefer: `${PREFER_IMMUTABLE_IDS}, odata.maxpagesize=100` },
+        },
+      ),
+  };
+
+  // Mail folders API
+  mailFolders = {
+    list: () => this.collect<GraphMailFolder>('/me/mailFolders', { $top: 100 }),
+
+    children: (id: string) =>
+      this.collect<GraphMailFolder>(`/me/mailFolders/${segment(id)}/childFolders`, { $top: 100 }),
+
+    get: (id: string, signal?: AbortSignal) =>
+      this.request<GraphMailFolder>('GET', `/me/mailFolders/${segment(id)}`, { signal }),
+
+    create: (displayName: string, parentId?: string, signal?: AbortSignal) =>
+      this.request<GraphMailFolder>(
+        'POST',
+        parentId ? `/me/mailFolders/${segment(parentId)}/childFolders` : '/me/mailFolders',
+        { body: { displayName }, signal },
+      ),
+
+    delete: (id: string, signal?: AbortSignal) =>
+      this.request<void>('DELETE', `/me/mailFolders/${segment(id)}`, { signal }),
+  };
+
+  // Categories API
+  categories = {
+    list: (signal?: AbortSignal) =>
+      this.collect<GraphCategory>('/me/outlook/masterCategories', undefined, signal),
+  };
+}
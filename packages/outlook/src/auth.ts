@@ -0,0 +1,53 @@
+import { AuthenticationError } from '@faktoor/core';
+import type { HttpClient } from './http';
+
+export const MICROSOFT_LOGIN_URL = 'https://login.microsoftonline.com';
+
+/**
+ * Token endpoint response
+ */
+export interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  token_type?: string;
+  scope?: string;
+  refresh_token?: string;
+}
+
+/**
+ * Exchange a grant at the Microsoft identity platform token endpoint
+ */
+export async function requestToken(
+  http: HttpClient,
+  loginUrl: string,
+  tenant: string,
+  params: Record<string, string>,
+): Promise<TokenResponse> {
+  const response = await http({
+    method: 'POST',
+    url: `${loginUrl}/${encodeURIComponent(tenant)}/oauth2/v2.0/token`,
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  let data: Partial<TokenResponse> & { error?: string; error_description?: string } = {};
+  try {
+    data = JSON.parse(response.body);
+  } catch {
+    // Ignore JSON parse errors
+  }
+
+  if (response.status >= 400 || !data.access_token) {
+    const message = data.error_description || data.error || `HTTP ${response.status}`;
+    throw new AuthenticationError(`Token request failed: ${message}`);
+  }
+
+  return data as TokenResponse;
+}
+
+/**
+ * Compute the expiry date of a token response
+ */
+export function tokenExpiry(token: TokenResponse, now = Date.now()): Date | undefined {
+  return token.expires_in ? new Date(now + token.expires_in * 1000) : undefined;
+}
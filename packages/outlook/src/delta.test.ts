@@ -0,0 +1,138 @@
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Recording } from './__fixtures__/graph-stub';
+import { GraphStub } from './__fixtures__/graph-stub';
+import recordings from './__fixtures__/recordings.json';
+import { OutlookProvider } from './provider';
+
+const DELTA_PATH = '/me/mailFolders/inbox/messages/delta';
+const deltaLink = (token: string) =>
+  `https://graph.microsoft.com/v1.0${DELTA_PATH}?%24deltatoken=${token}`;
+// Only rounds started from scratch carry $select; links already hold the query
+const FROM_SCRATCH = { $select: 'id,isRead,flag,categories,parentFolderId' };
+
+const summarize = (events: WatchEvent[]) =>
+  events.map((event) => {
+    if (event.type === 'deleted') return [event.type, event.id];
+    if (event.type === 'error') return [event.type, event.error.message];
+    return [event.type, event.email.id];
+  });
+
+describe('watch', () => {
+  let stub: GraphStub;
+  let provider: OutlookProvider;
+  let handle: WatchHandle | undefined;
+  let events: WatchEvent[];
+
+  const collect = (watch: WatchHandle) => {
+    handle = watch;
+    void (async () => {
+      for await (const event of watch) events.push(event);
+    })();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    events = [];
+    stub = new GraphStub(recordings as Recording[]).record(
+      // Initial round, split over two pages
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: FROM_SCRATCH,
+        body: {
+          value: [{ id: 'AAMkAD-msg1' }],
+          '@odata.nextLink': `https://graph.microsoft.com/v1.0${DELTA_PATH}?%24skiptoken=p2`,
+        },
+      },
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: { $skiptoken: 'p2' },
+        body: { value: [{ id: 'AAMkAD-msg2' }], '@odata.deltaLink': deltaLink('d1') },
+      },
+    );
+    provider = new OutlookProvider({ accessToken: 'token', http: stub.client });
+  });
+
+  afterEach(() => {
+    handle?.stop();
+    vi.useRealTimers();
+  });
+
+  it('should track the folder silently, then report updated and deleted messages', async () => {
+    stub.record(
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: { $deltatoken: 'd1' },
+        body: {
+          value: [
+            { id: 'AAMkAD-msg1', isRead: true },
+            { id: 'AAMkAD-msg2', '@removed': { reason: 'deleted' } },
+            { id: 'AAMkAD-msg9', '@removed': { reason: 'deleted' } },
+          ],
+          '@odata.deltaLink': deltaLink('d2'),
+        },
+      },
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: { $deltatoken: 'd2' },
+        body: { value: [], '@odata.deltaLink': deltaLink('d2') },
+      },
+    );
+
+    collect(provider.watch({ interval: 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(events).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(summarize(events)).toEqual([
+      ['deleted', 'AAMkAD-msg2'],
+      ['updated', 'AAMkAD-msg1'],
+    ]);
+  });
+
+  it('should report existing messages as new with includeExisting', async () => {
+    collect(provider.watch({ includeExisting: true }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(summarize(events)).toEqual([
+      ['new', 'AAMkAD-msg1'],
+      ['new', 'AAMkAD-msg2'],
+    ]);
+  });
+
+  it('should resync when the delta link has expired', async () => {
+    stub.record(
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: { $deltatoken: 'd1' },
+        status: 410,
+        body: { error: { code: 'SyncStateNotFound', message: 'Sync state expired' } },
+      },
+      {
+        method: 'GET',
+        path: DELTA_PATH,
+        query: { $deltatoken: 'd3' },
+        body: { value: [], '@odata.deltaLink': deltaLink('d3') },
+      },
+    );
+
+    collect(provider.watch({ interval: 1000 }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // The folder now holds msg1 only
+    stub.record({
+      method: 'GET',
+      path: DELTA_PATH,
+      query: FROM_SCRATCH,
+      body: { value: [{ id: 'AAMkAD-msg1' }], '@odata.deltaLink': deltaLink('d3') },
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(events).toEqual([{ type: 'deleted', id: 'AAMkAD-msg2' }]);
+  });
+});
@@ -0,0 +1,138 @@
+import type { Email, EmailId, WatchHandle, WatchOptions } from '@faktoor/core';
+import { NotFoundError, ProviderError, createWatchHandle } from '@faktoor/core';
+import type { GraphApi } from './api';
+
+const DEFAULT_WATCH_INTERVAL = 30_000;
+
+/**
+ * Changes reported by one delta round
+ */
+export interface DeltaChanges {
+  /** Ids of messages added or changed */
+  changed: Set<string>;
+  /** Ids of messages deleted or moved out of the folder */
+  removed: Set<string>;
+  /** Link that returns the changes after this round */
+  deltaLink: string;
+}
+
+/**
+ * Page through a delta round, from scratch or from a previous `deltaLink`
+ *
+ * Without a link every message in the folder is reported as changed.
+ */
+export async function readDelta(
+  api: GraphApi,
+  folderId: string,
+  deltaLink?: string,
+): Promise<DeltaChanges> {
+  const changed = new Set<string>();
+  const removed = new Set<string>();
+  let link = deltaLink;
+
+  while (true) {
+    const page = await api.messages.delta(folderId, link);
+
+    for (const item of page.value) {
+      if (item['@removed']) {
+        changed.delete(item.id);
+        removed.add(item.id);
+      } else {
+        removed.delete(item.id);
+        changed.add(item.id);
+      }
+    }
+
+    const next = page['@odata.deltaLink'];
+    if (next) return { changed, removed, deltaLink: next };
+
+    link = page['@odata.nextLink'];
+    if (!link) {
+      throw new ProviderError('outlook', 'Delta response has neither a next nor a delta link', {
+        retryable: true,
+      });
+    }
+  }
+}
+
+/**
+ * Watch a folder by polling Graph delta queries every `interval`
+ *
+ * Changed messages are fetched in full through `getEmail`, which returns
+ * `undefined` for messages deleted in the meantime. When the delta link
+ * expires the folder is listed again and diffed against the known messages.
+ */
+export function watchFolder(
+  api: GraphApi,
+  resolveFolder: () => Promise<string>,
+  getEmail: (id: string) => Promise<Email | undefined>,
+  options: WatchOptions = {},
+): WatchHandle {
+  const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+
+  return createWatchHandle((emitter) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let folderId: string | undefined;
+    let deltaLink: string | undefined;
+    let known = new Set<string>();
+
+    const emitChanged = async (ids: Iterable<string>): Promise<void> => {
+      for (const id of ids) {
+        const email = await getEmail(id);
+        if (!email || emitter.stopped) continue;
+        emitter.emit({ type: known.has(id) ? 'updated' : 'new', email });
+        known.add(id);
+      }
+    };
+
+    // List the folder from scratch and diff it against the messages we know about
+    const resync = async (emitNew: boolean): Promise<void> => {
+      const delta = await readDelta(api, folderId as string);
+      deltaLink = delta.deltaLink;
+
+      if (emitNew) {
+        await emitChanged([...delta.changed].filter((id) => !known.has(id)));
+      }
+      for (const id of known) {
+        if (!delta.changed.has(id)) emitter.emit({ type: 'deleted', id: id as EmailId });
+      }
+      known = delta.changed;
+    };
+
+    const poll = async (): Promise<void> => {
+      try {
+        folderId ??= await resolveFolder();
+
+        if (deltaLink === undefined) {
+          await resync(options.includeExisting ?? false);
+        } else {
+          const delta = await readDelta(api, folderId, deltaLink);
+          deltaLink = delta.deltaLink;
+          for (const id of delta.removed) {
+            if (known.delete(id)) emitter.emit({ type: 'deleted', id: id as EmailId });
+          }
+          await emitChanged(delta.changed);
+        }
+      } catch (error) {
+        if (error instanceof NotFoundError && deltaLink !== undefined) {
+          // Delta link expired: fall back to a full resync
+          try {
+            await resync(true);
+          } catch (resyncError) {
+            emitter.emit({ type: 'error', error: resyncError as Error });
+          }
+        } else {
+          emitter.emit({ type: 'error', error: error as Error });
+        }
+      }
+
+      if (!emitter.stopped) {
+        timer = setTimeout(poll, interval);
+      }
+    };
+
+    void poll();
+
+    return () => clearTimeout(timer);
+  });
+}
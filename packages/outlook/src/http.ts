@@ -0,0 +1,53 @@
+import { NetworkError } from '@faktoor/core';
+
+/**
+ * HTTP request sent to Microsoft Graph or the identity platform
+ */
+export interface HttpRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string | Uint8Array;
+  signal?: AbortSignal;
+}
+
+/**
+ * HTTP response, with lower-case header names
+ */
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Sends HTTP requests; swap it to add proxies, logging or a test stub
+ *
+ * Throws `NetworkError` when no response was received, or the signal's reason
+ * when it aborted.
+ */
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * HTTP client backed by the global `fetch`
+ */
+export const fetchHttpClient: HttpClient = async (request) => {
+  try {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body as BodyInit | undefined,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return { status: response.status, headers, body: await response.text() };
+  } catch (error) {
+    if (request.signal?.aborted) throw request.signal.reason;
+    throw new NetworkError(`Failed to connect to ${new URL(request.url).host}`, error as Error);
+  }
+};
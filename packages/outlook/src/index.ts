@@ -0,0 +1,22 @@
+// Provider
+export { outlook, OutlookProvider } from './provider';
+
+// HTTP layer
+export { fetchHttpClient } from './http';
+export type { HttpClient, HttpRequest, HttpResponse } from './http';
+
+// Types
+export type { OutlookEmail, OutlookLabel, OutlookOptions } from './types';
+
+// Re-export core types for convenience
+export type {
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  ListOptions,
+  ListPage,
+  SendOptions,
+  GetOptions,
+  MailProvider,
+} from '@faktoor/core';
@@ -0,0 +1,160 @@
+import type {
+  Address,
+  AttachmentMeta,
+  EmailBody,
+  EmailId,
+  Folder,
+  FolderName,
+  ThreadId,
+} from '@faktoor/core';
+import { htmlToText } from '@faktoor/parser';
+import type {
+  GraphMailFolder,
+  GraphMessage,
+  GraphRecipient,
+  OutlookEmail,
+  OutlookLabel,
+} from './types';
+
+/**
+ * Graph well-known folder names for faktoor.js folder aliases
+ */
+export const WELL_KNOWN_FOLDERS: Record<string, string> = {
+  inbox: 'inbox',
+  sent: 'sentitems',
+  drafts: 'drafts',
+  trash: 'deleteditems',
+  spam: 'junkemail',
+  archive: 'archive',
+};
+
+/**
+ * Parse a Graph recipient into an Address
+ */
+export function parseRecipient(recipient: GraphRecipient | undefined): Address {
+  return {
+    email: recipient?.emailAddress.address ?? '',
+    name: recipient?.emailAddress.name || undefined,
+  };
+}
+
+/**
+ * Parse a list of Graph recipients, dropping ones without an address
+ */
+export function parseRecipients(recipients: GraphRecipient[] | undefined): Address[] {
+  return (recipients ?? []).map(parseRecipient).filter((address) => address.email);
+}
+
+/**
+ * Convert an Address list to Graph recipients
+ */
+export function toRecipients(addresses: Address[]): GraphRecipient[] {
+  return addresses.map(({ email, name }) => ({
+    emailAddress: name ? { address: email, name } : { address: email },
+  }));
+}
+
+/**
+ * Extract body from a Graph message
+ *
+ * Graph returns a single body; the text version of HTML bodies is derived from it.
+ */
+export function extractBody(message: GraphMessage): EmailBody {
+  if (!message.body) {
+    return { html: null, text: message.bodyPreview ?? '' };
+  }
+  if (message.body.contentType === 'html') {
+    return { html: message.body.content, text: htmlToText(message.body.content) };
+  }
+  return { html: null, text: message.body.content };
+}
+
+/**
+ * Extract attachment metadata from a Graph message
+ */
+export function extractAttachments(message: GraphMessage): AttachmentMeta[] {
+  return (message.attachments ?? []).map((attachment) => ({
+    id: attachment.id,
+    filename: attachment.name,
+    mimeType: attachment.contentType ?? 'application/octet-stream',
+    size: attachment.size ?? 0,
+  }));
+}
+
+/**
+ * Split a References header into message ids
+ */
+function parseReferences(value: string | undefined): EmailId[] | undefined {
+  const ids = value?.match(/<[^>]+>/g);
+  return ids?.length ? ([...ids] as EmailId[]) : undefined;
+}
+
+/**
+ * Parse Graph API message to Email
+ *
+ * `folderName` maps the parent folder id to a folder name. Categories become
+ * labels named after the category; colors come from `listCategories()`.
+ */
+export function parseGraphMessage(
+  message: GraphMessage,
+  folderName: (folderId: string) => string = (folderId) => folderId,
+): OutlookEmail {
+  const headers = new Map<string, string>();
+  for (const { name, value } of message.internetMessageHeaders ?? []) {
+    headers.set(name.toLowerCase(), value);
+  }
+
+  const receivedAt = new Date(message.receivedDateTime ?? Date.now());
+  const labels: OutlookLabel[] = (message.categories ?? []).map((name) => ({ id: name, name }));
+  const [replyTo] = parseRecipients(message.replyTo);
+
+  return {
+    id: message.id as EmailId,
+    threadId: (message.conversationId ?? message.id) as ThreadId,
+    folder: folderName(message.parentFolderId ?? '') as FolderName,
+    from: parseRecipient(message.from ?? message.sender),
+    to: parseRecipients(message.toRecipients),
+    cc: parseRecipients(message.ccRecipients),
+    bcc: parseRecipients(message.bccRecipients),
+    replyTo,
+    subject: message.subject ?? '',
+    body: extractBody(message),
+    date: message.sentDateTime ? new Date(message.sentDateTime) : receivedAt,
+    receivedAt,
+    isRead: message.isRead ?? false,
+    isStarred: message.flag?.flagStatus === 'flagged',
+    isDraft: message.isDraft ?? false,
+    labels,
+    attachments: extractAttachments(message),
+    headers,
+    inReplyTo: headers.get('in-reply-to') as EmailId | undefined,
+    references: parseReferences(headers.get('references')),
+    preview: message.bodyPreview ?? '',
+    importance: message.importance ?? 'normal',
+    internetMessageId: message.internetMessageId,
+    webLink: message.webLink,
+  };
+}
+
+/**
+ * Map a Graph mail folder to Folder
+ *
+ * `alias` is the faktoor.js name of well-known folders, `path` the display
+ * names from the top-level folder down, joined with `/`.
+ */
+export function parseMailFolder(
+  folder: GraphMailFolder,
+  path: string,
+  alias?: string,
+  children?: Folder[],
+): Folder {
+  const type = (alias && alias in WELL_KNOWN_FOLDERS ? alias : 'custom') as Folder['type'];
+  return {
+    name: (alias ?? path) as FolderName,
+    path,
+    type,
+    unreadCount: folder.unreadItemCount ?? 0,
+    totalCount: folder.totalItemCount ?? 0,
+    ...(children ? { children } : {}),
+  };
+}
@@ -0,0 +1,390 @@
+import { NotFoundError, ValidationError, encodeCursor } from '@faktoor/core';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Recording } from './__fixtures__/graph-stub';
+import { GraphStub } from './__fixtures__/graph-stub';
+import recordings from './__fixtures__/recordings.json';
+import { OutlookProvider, buildQuery } from './provider';
+import { INLINE_ATTACHMENT_LIMIT, UPLOAD_CHUNK_SIZE } from './send';
+import type { OutlookEmail } from './types';
+
+const decodeBase64 = (data: string) => Buffer.from(data, 'base64').toString('utf-8');
+
+describe('OutlookProvider', () => {
+  let stub: GraphStub;
+  let provider: OutlookProvider;
+
+  beforeEach(() => {
+    stub = new GraphStub(recordings as Recording[]);
+    provider = new OutlookProvider({ accessToken: 'token', http: stub.client });
+  });
+
+  describe('listPage', () => {
+    it('should list a folder newest first and parse Graph messages', async () => {
+      const page = await provider.listPage({ folder: 'inbox', limit: 2 });
+
+      const [request] = stub.calls('GET', '/me/mailFolders/inbox/messages');
+      const url = new URL(request?.url as string);
+      expect(url.searchParams.get('$top')).toBe('2');
+      expect(url.searchParams.get('$orderby')).toBe('receivedDateTime desc');
+      expect(url.searchParams.get('$count')).toBe('true');
+      expect(url.searchParams.get('$expand')).toMatch(/^attachments/);
+      expect(request?.headers).toMatchObject({
+        Authorization: 'Bearer token',
+        Prefer: 'IdType="ImmutableId"',
+        ConsistencyLevel: 'eventual',
+      });
+
+      expect(page.totalEstimate).toBe(3);
+      expect(page.nextCursor).toBeDefined();
+
+      const [report, lunch] = page.emails;
+      expect(report).toMatchObject({
+        id: 'AAMkAD-msg1',
+        threadId: 'AAQkAD-conv1',
+        folder: 'inbox',
+        from: { email: 'alice@contoso.com', name: 'Alice Smith' },
+        to: [{ email: 'bob@contoso.com', name: 'Bob' }],
+        cc: [{ email: 'carol@contoso.com' }],
+        replyTo: { email: 'reports@contoso.com' },
+        subject: 'Quarterly report',
+        isRead: false,
+        isStarred: true,
+        labels: [{ id: 'Work', name: 'Work' }],
+        attachments: [
+          { id: 'AAMkAD-att1', filename: 'report.pdf', mimeType: 'application/pdf', size: 48213 },
+        ],
+        inReplyTo: '<request-q1@contoso.com>',
+        references: ['<kickoff@contoso.com>', '<request-q1@contoso.com>'],
+        importance: 'high',
+        internetMessageId: '<report-q1@contoso.com>',
+      });
+      expect(report?.body.html).toContain('<b>attached</b>');
+      expect(report?.body.text).toBe('Hi Bob,\n\nthe report is attached.');
+      expect(report?.date).toEqual(new Date('2024-03-14T09:30:05Z'));
+      expect(report?.receivedAt).toEqual(new Date('2024-03-14T09:30:12Z'));
+      expect(lunch?.body).toEqual({ html: null, text: 'Noon at the usual place?' });
+    });
+
+    it('should follow the next link from the cursor and name nested folders by path', async () => {
+      const first = await provider.listPage({ folder: 'inbox', limit: 2 });
+      const second = await provider.listPage({ cursor: first.nextCursor });
+
+      expect(second.emails.map((email) => [email.id, email.folder])).toEqual([
+        ['AAMkAD-msg3', 'Projects/Acme'],
+      ]);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should refuse a cursor linking to another origin without sending a request', async () => {
+      const cursor = encodeCursor({ nextLink: 'https://attacker.example/v1.0/me/messages' });
+
+      await expect(provider.listPage({ cursor })).rejects.toThrow(ValidationError);
+      expect(stub.requests).toHaveLength(0);
+    });
+
+    it('should skip with $skip, or drop skipped results when searching', async () => {
+      await provider.listPage({ folder: 'inbox', offset: 10, limit: 5 });
+      const page = await provider.listPage({ folder: 'inbox', query: 'report', offset: 1 });
+
+      const [filtered, searched] = stub
+        .calls('GET', '/me/mailFolders/inbox/messages')
+        .map((request) => new URL(request.url).searchParams);
+      expect(filtered?.get('$skip')).toBe('10');
+      expect(filtered?.get('$top')).toBe('5');
+      expect(searched?.get('$skip')).toBeNull();
+      expect(searched?.get('$top')).toBe('51');
+      expect(searched?.get('$orderby')).toBeNull();
+      expect(page.emails.map((email) => email.id)).toEqual(['AAMkAD-msg2']);
+    });
+  });
+
+  describe('buildQuery', () => {
+    it('should filter on received date first so Graph accepts the ordering', () => {
+      expect(
+        buildQuery({ from: "o'brien@contoso.com", unreadOnly: true, labels: ['Work'] }),
+      ).toEqual({
+        $filter:
+          "receivedDateTime ge 1900-01-01T00:00:00Z and from/emailAddress/address eq 'o''brien@contoso.com' and isRead eq false and categories/any(c: c eq 'Work')",
+        $orderby: 'receivedDateTime desc',
+      });
+      expect(buildQuery({ after: new Date('2024-03-01T00:00:00Z'), hasAttachment: true })).toEqual({
+        $filter: 'receivedDateTime ge 2024-03-01T00:00:00.000Z and hasAttachments eq true',
+        $orderby: 'receivedDateTime desc',
+      });
+      expect(buildQuery({})).toEqual({ $filter: undefined, $orderby: 'receivedDateTime desc' });
+    });
+
+    it('should switch to $search for recipients and free text', () => {
+      expect(
+        buildQuery({
+          to: 'bob@contoso.com',
+          subject: 'Q1 "final"',
+          before: new Date('2024-04-01'),
+        }),
+      ).toEqual({
+        $search: String.raw`"to:\"bob@contoso.com\" AND subject:\"Q1 \\\"final\\\"\" AND received<2024-04-01"`,
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('should attach the MIME source when includeRaw is set', async () => {
+      const email = (await provider.get('AAMkAD-msg1', { includeRaw: true })) as OutlookEmail;
+
+      expect(email.subject).toBe('Quarterly report');
+      expect(email.raw).toContain('Message-ID: <report-q1@contoso.com>');
+    });
+
+    it('should throw NotFoundError for unknown messages', async () => {
+      stub.record({
+        method: 'GET',
+        path: '/me/messages/missing',
+        status: 404,
+        body: { error: { code: 'ErrorItemNotFound', message: 'Not found' } },
+      });
+
+      await expect(provider.get('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('folders', () => {
+    it('should return the folder tree with well-known folders recognized by id', async () => {
+      const folders = await provider.listFolders();
+
+      expect(folders.map((folder) => [folder.name, folder.type, folder.path])).toEqual([
+        ['inbox', 'inbox', 'Inbox'],
+        ['sent', 'sent', 'Sent Items'],
+        ['drafts', 'drafts', 'Drafts'],
+        ['trash', 'trash', 'Deleted Items'],
+        ['spam', 'spam', 'Junk Email'],
+        ['Projects', 'custom', 'Projects'],
+      ]);
+      expect(folders[0]).toMatchObject({ unreadCount: 1, totalCount: 2 });
+      expect(folders[5]?.children).toEqual([
+        {
+          name: 'Projects/Acme',
+          path: 'Projects/Acme',
+          type: 'custom',
+          unreadCount: 0,
+          totalCount: 1,
+        },
+      ]);
+    });
+
+    it('should create nested folders under their parent', async () => {
+      stub.record({
+        method: 'POST',
+        path: '/me/mailFolders/AAMkAD-projects/childFolders',
+        status: 201,
+        body: { id: 'AAMkAD-globex', displayName: 'Globex', parentFolderId: 'AAMkAD-projects' },
+      });
+
+      const folder = await provider.createFolder('Projects/Globex');
+
+      expect(folder).toMatchObject({ name: 'Projects/Globex', type: 'custom' });
+      const [request] = stub.calls('POST', '/me/mailFolders/AAMkAD-projects/childFolders');
+      expect(JSON.parse(request?.body as string)).toEqual({ displayName: 'Globex' });
+    });
+  });
+
+  describe('mutations', () => {
+    beforeEach(() => {
+      stub.record(
+        { method: 'PATCH', path: '/me/messages/AAMkAD-msg1', body: { id: 'AAMkAD-msg1' } },
+        {
+          method: 'POST',
+          path: '/me/messages/AAMkAD-msg1/move',
+          status: 201,
+          body: { id: 'AAMkAD-msg1' },
+        },
+      );
+    });
+
+    const patches = () =>
+      stub
+        .calls('PATCH', '/me/messages/AAMkAD-msg1')
+        .map((request) => JSON.parse(request.body as string));
+    const moves = () =>
+      stub
+        .calls('POST', '/me/messages/AAMkAD-msg1/move')
+        .map((request) => JSON.parse(request.body as string).destinationId);
+
+    it('should map read state and stars to isRead and flags', async () => {
+      await provider.markAsRead('AAMkAD-msg1');
+      await provider.unstar('AAMkAD-msg1');
+
+      expect(patches()).toEqual([{ isRead: true }, { flag: { flagStatus: 'notFlagged' } }]);
+    });
+
+    it('should pass the call signal to every request', async () => {
+      const controller = new AbortController();
+
+      await provider.get('AAMkAD-msg1', { includeRaw: true, signal: controller.signal });
+      await provider.markAsRead('AAMkAD-msg1', { signal: controller.signal });
+
+      const requests = stub.requests.filter((request) => request.url.includes('AAMkAD-msg1'));
+      expect(requests).toHaveLength(3);
+      expect(requests.map((request) => request.signal)).toEqual([
+        controller.signal,
+        controller.signal,
+        controller.signal,
+      ]);
+    });
+
+    it('should move to folders by path and delete into Deleted Items', async () => {
+      await provider.move('AAMkAD-msg1', 'Projects/Acme');
+      await provider.move('AAMkAD-msg1', 'archive');
+      await provider.delete('AAMkAD-msg1');
+
+      expect(moves()).toEqual(['AAMkAD-acme', 'archive', 'deleteditems']);
+    });
+
+    it('should add and remove categories as labels', async () => {
+      await provider.addLabel('AAMkAD-msg1', 'Urgent');
+      await provider.addLabel('AAMkAD-msg1', 'Work');
+      await provider.removeLabel('AAMkAD-msg1', 'Work');
+
+      expect(patches()).toEqual([{ categories: ['Work', 'Urgent'] }, { categories: [] }]);
+    });
+
+    it('should list categories with their color presets', async () => {
+      expect(await provider.listCategories()).toEqual([
+        { id: 'Work', name: 'Work', color: 'preset0' },
+        { id: 'Personal', name: 'Personal', color: undefined },
+      ]);
+    });
+  });
+
+  describe('send', () => {
+    beforeEach(() => {
+      stub.record(
+        {
+          method: 'POST',
+          path: '/me/messages',
+          status: 201,
+          body: { id: 'AAMkAD-sent1', conversationId: 'AAQkAD-conv1' },
+        },
+        { method: 'POST', path: '/me/messages/AAMkAD-sent1/send', status: 202 },
+      );
+    });
+
+    it('should send a draft with attachments inline and return its id', async () => {
+      const result = await provider.send({
+        to: ['Alice <alice@contoso.com>', 'dave@fabrikam.com'],
+        bcc: 'audit@contoso.com',
+        subject: 'Report',
+        html: '<p>Attached</p>',
+        attachments: [{ filename: 'notes.txt', content: 'hello' }],
+        headers: { 'X-Campaign': 'q1' },
+      });
+
+      const [request] = stub.calls('POST', '/me/messages');
+      const message = JSON.parse(request?.body as string);
+      expect(message).toMatchObject({
+        subject: 'Report',
+        body: { contentType: 'html', content: '<p>Attached</p>' },
+        toRecipients: [
+          { emailAddress: { address: 'alice@contoso.com', name: 'Alice' } },
+          { emailAddress: { address: 'dave@fabrikam.com' } },
+        ],
+        bccRecipients: [{ emailAddress: { address: 'audit@contoso.com' } }],
+        internetMessageHeaders: [{ name: 'X-Campaign', value: 'q1' }],
+        attachments: [
+          {
+            '@odata.type': '#microsoft.graph.fileAttachment',
+            name: 'notes.txt',
+            contentType: 'text/plain',
+            contentBytes: 'aGVsbG8=',
+          },
+        ],
+      });
+      expect(message.internetMessageId).toMatch(/^<.+@faktoor>$/);
+      expect(stub.calls('POST', '/me/messages/AAMkAD-sent1/send')).toHaveLength(1);
+      expect(result).toMatchObject({ id: 'AAMkAD-sent1', threadId: 'AAQkAD-conv1' });
+    });
+
+    it('should upload large attachments through an upload session on a draft', async () => {
+      const size = UPLOAD_CHUNK_SIZE + 1024;
+      const uploadUrl =
+        'https://outlook.office.com/api/v2.0/Users/me/Messages/AAMkAD-draft/AttachmentSessions/s1?authtoken=abc';
+      stub.record(
+        {
+          method: 'POST',
+          path: '/me/messages',
+          status: 201,
+          body: { id: 'AAMkAD-draft', conversationId: 'AAQkAD-conv9' },
+        },
+        {
+          method: 'POST',
+          path: '/me/messages/AAMkAD-draft/attachments/createUploadSession',
+          body: { uploadUrl },
+        },
+        {
+          method: 'PUT',
+          path: '/api/v2.0/Users/me/Messages/AAMkAD-draft/AttachmentSessions/s1',
+          body: { nextExpectedRanges: [] },
+        },
+        { method: 'POST', path: '/me/messages/AAMkAD-draft/send', status: 202 },
+      );
+
+      const result = await provider.send({
+        to: 'alice@contoso.com',
+        subject: 'Video',
+        attachments: [{ filename: 'clip.mp4', content: new Uint8Array(size) }],
+      });
+
+      expect(result).toMatchObject({ id: 'AAMkAD-draft', threadId: 'AAQkAD-conv9' });
+      expect(JSON.parse(stub.calls('POST', '/me/messages')[0]?.body as string)).not.toHaveProperty(
+        'attachments',
+      );
+
+      const [session] = stub.calls(
+        'POST',
+        '/me/messages/AAMkAD-draft/attachments/createUploadSession',
+      );
+      expect(JSON.parse(session?.body as string)).toEqual({
+        AttachmentItem: {
+          attachmentType: 'file',
+          name: 'clip.mp4',
+          size,
+          contentType: 'video/mp4',
+        },
+      });
+
+      const uploads = stub.requests.filter((request) => request.method === 'PUT');
+      expect(uploads.map((request) => request.headers['Content-Range'])).toEqual([
+        `bytes 0-${UPLOAD_CHUNK_SIZE - 1}/${size}`,
+        `bytes ${UPLOAD_CHUNK_SIZE}-${size - 1}/${size}`,
+      ]);
+      expect(uploads[0]?.headers.Authorization).toBeUndefined();
+      expect(stub.calls('POST', '/me/messages/AAMkAD-draft/send')).toHaveLength(1);
+    });
+
+    it('should create replies from MIME to keep threading headers', async () => {
+      const result = await provider.send({
+        to: 'alice@contoso.com',
+        subject: 'Re: Quarterly report',
+        text: 'Thanks!',
+        inReplyTo: 'report-q1@contoso.com',
+      });
+
+      const [request] = stub.calls('POST', '/me/messages');
+      expect(request?.headers['Content-Type']).toBe('text/plain');
+      const mime = decodeBase64(request?.body as string);
+      expect(mime).toContain('In-Reply-To: <report-q1@contoso.com>');
+      expect(mime).toContain('Subject: Re: Quarterly report');
+      expect(result.id).toBe('AAMkAD-sent1');
+    });
+
+    it('should refuse oversized MIME messages', async () => {
+      await expect(
+        provider.send({
+          to: 'alice@contoso.com',
+          subject: 'Re: Video',
+          inReplyTo: 'clip@contoso.com',
+          attachments: [{ filename: 'clip.mp4', content: new Uint8Array(INLINE_ATTACHMENT_LIMIT) }],
+        }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,468 @@
+import type {
+  CallOptions,
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import {
+  NotFoundError,
+  abortable,
+  decodeCursor,
+  encodeCursor,
+  paginateStream,
+} from '@faktoor/core';
+import { ATTACHMENT_EXPAND, GraphApi, MESSAGE_FIELDS, METADATA_FIELDS } from './api';
+import { watchFolder } from './delta';
+import { WELL_KNOWN_FOLDERS, parseGraphMessage, parseMailFolder } from './parser';
+import { sendMessage } from './send';
+import type {
+  GraphMailFolder,
+  GraphMessage,
+  GraphPage,
+  OutlookEmail,
+  OutlookLabel,
+  OutlookOptions,
+} from './types';
+
+const DEFAULT_LIMIT = 50;
+
+// Properties in $orderby must also appear first in $filter, so filtered
+// listings start with a receivedDateTime condition that matches everything
+const ANY_RECEIVED_DATE = 'receivedDateTime ge 1900-01-01T00:00:00Z';
+
+/**
+ * Folder ids and names, loaded once and refreshed by `listFolders()`
+ */
+interface FolderIndex {
+  /** Folder id to its path and, for well-known folders, its alias */
+  entries: Map<string, { path: string; alias?: string }>;
+  /** Lower-cased path to folder id */
+  ids: Map<string, string>;
+  tree: Folder[];
+}
+
+/**
+ * Quote a string literal for OData
+ */
+function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Escape backslashes and double quotes with a backslash
+ */
+function escapeQuotes(value: string): string {
+  return value.replace(/[\\"]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Quote a value for a KQL search term
+ */
+function kqlValue(value: string): string {
+  return `"${escapeQuotes(value)}"`;
+}
+
+/**
+ * Build Graph query options from list options
+ *
+ * Graph can't filter on recipients or free text, so `to` and `query` switch
+ * the whole listing to `$search`, which has no ordering or offsets.
+ */
+export function buildQuery(options: ListOptions): {
+  $filter?: string;
+  $search?: string;
+  $orderby?: string;
+} {
+  if (options.to || options.query) {
+    const terms: string[] = [];
+    if (options.from) terms.push(`from:${kqlValue(options.from)}`);
+    if (options.to) terms.push(`to:${kqlValue(options.to)}`);
+    if (options.subject) terms.push(`subject:${kqlValue(options.subject)}`);
+    if (options.after) terms.push(`received>=${options.after.toISOString().slice(0, 10)}`);
+    if (options.before) terms.push(`received<${options.before.toISOString().slice(0, 10)}`);
+    if (options.hasAttachment) terms.push('hasattachments:true');
+    if (options.unreadOnly) terms.push('isread:false');
+    for (const label of options.labels ?? []) terms.push(`category:${kqlValue(label)}`);
+    if (options.query) terms.push(options.query);
+    // The expression is itself a quoted string, so its own quotes are escaped
+    return { $search: `"${escapeQuotes(terms.join(' AND '))}"` };
+  }
+
+  const filters: string[] = [];
+  if (options.after) filters.push(`receivedDateTime ge ${options.after.toISOString()}`);
+  if (options.before) filters.push(`receivedDateTime lt ${options.before.toISOString()}`);
+  if (options.from) filters.push(`from/emailAddress/address eq ${odataString(options.from)}`);
+  if (options.subject) filters.push(`contains(subject, ${odataString(options.subject)})`);
+  if (options.unreadOnly) filters.push('isRead eq false');
+  if (options.hasAttachment) filters.push('hasAttachments eq true');
+  for (const label of options.labels ?? []) {
+    filters.push(`categories/any(c: c eq ${odataString(label)})`);
+  }
+
+  if (filters.length && !options.after && !options.before) {
+    filters.unshift(ANY_RECEIVED_DATE);
+  }
+
+  return {
+    $filter: filters.length ? filters.join(' and ') : undefined,
+    $orderby: 'receivedDateTime desc',
+  };
+}
+
+/**
+ * Outlook provider implementation, built on Microsoft Graph
+ */
+export class OutlookProvider implements MailProvider {
+  readonly name = 'outlook';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: false,
+    drafts: false,
+    send: true,
+    folders: true,
+    labels: true,
+    flags: true,
+    organization: 'folders',
+    // Immutable ids are requested, so moving keeps the id
+    move: 'same-id',
+    serverSearch: true,
+    batch: false,
+    // Largest attachment an upload session accepts
+    maxAttachmentSize: 150 * 1024 * 1024,
+  };
+  private api: GraphApi;
+  private connected = false;
+  private folderIndex?: Promise<FolderIndex>;
+
+  constructor(options: OutlookOptions) {
+    this.api = new GraphApi(options);
+  }
+
+  async connect(): Promise<void> {
+    await this.folders();
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async list(options: ListOptions = {}): Promise<OutlookEmail[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  async listPage(options: ListOptions = {}): Promise<ListPage<OutlookEmail>> {
+    let page: GraphPage<GraphMessage>;
+    let skip = 0;
+
+    if (options.cursor) {
+      page = await this.api.messages.next(
+        decodeCursor<{ nextLink: string }>(options.cursor).nextLink,
+        options.signal,
+      );
+    } else {
+      const folderId = options.folder
+        ? await this.resolveFolder(options.folder, options.signal)
+        : undefined;
+      const limit = options.limit ?? DEFAULT_LIMIT;
+      const query = buildQuery(options);
+      const search = query.$search !== undefined;
+      skip = options.offset ?? 0;
+
+      page = await this.api.messages.list(
+        folderId,
+        {
+          ...query,
+          $select: MESSAGE_FIELDS,
+          $expand: ATTACHMENT_EXPAND,
+          // $search has no $skip: fetch the skipped messages and drop them
+          $top: search ? skip + limit : limit,
+          $skip: search || !skip ? undefined : skip,
+          $count: search ? undefined : true,
+        },
+        options.signal,
+      );
+      if (!search) skip = 0;
+    }
+
+    const nextLink = page['@odata.nextLink'];
+    return {
+      emails: await this.parseMessages(page.value.slice(skip), options.signal),
+      nextCursor: nextLink ? encodeCursor({ nextLink }) : undefined,
+      totalEstimate: page['@odata.count'],
+    };
+  }
+
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<Email> {
+    const full = (options.format ?? 'full') === 'full';
+    const message = await this.api.messages.get(
+      id,
+      {
+        $select: full ? MESSAGE_FIELDS : METADATA_FIELDS,
+        $expand: full ? ATTACHMENT_EXPAND : undefined,
+      },
+      options.signal,
+    );
+
+    const [email] = await this.parseMessages([message], options.signal);
+    if (options.includeRaw) {
+      (email as OutlookEmail).raw = await this.api.messages.getMime(id, options.signal);
+    }
+    return email as OutlookEmail;
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<Email> {
+    const { signal } = options;
+    const folderId = options.folder ? await this.resolveFolder(options.folder, signal) : undefined;
+    const query = buildQuery(options);
+
+    const fetchPage = async (nextLink?: string) => {
+      const page = nextLink
+        ? await this.api.messages.next(nextLink, signal)
+        : await this.api.messages.list(
+            folderId,
+            {
+              ...query,
+              $select: MESSAGE_FIELDS,
+              $expand: ATTACHMENT_EXPAND,
+              $top: options.batchSize ?? DEFAULT_LIMIT,
+            },
+            signal,
+          );
+      return {
+        emails: await this.parseMessages(page.value, signal),
+        nextCursor: page.value.length ? page['@odata.nextLink'] : undefined,
+      };
+    };
+
+    yield* paginateStream(fetchPage);
+  }
+
+  async send(options: SendOptions, call: CallOptions = {}): Promise<SendResult> {
+    return sendMessage(this.api, options, call.signal);
+  }
+
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    this.folderIndex = undefined;
+    return (await this.folders(call.signal)).tree;
+  }
+
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
+    const id = await this.resolveFolder(name, call.signal);
+    const [folder, index] = await Promise.all([
+      this.api.mailFolders.get(id, call.signal),
+      this.folders(call.signal),
+    ]);
+    const entry = index.entries.get(folder.id);
+    return parseMailFolder(folder, entry?.path ?? folder.displayName, entry?.alias);
+  }
+
+  /**
+   * Create a folder; `Parent/Child` creates `Child` inside the existing `Parent`
+   */
+  async createFolder(name: string, call: CallOptions = {}): Promise<Folder> {
+    const slash = name.lastIndexOf('/');
+    const parentId =
+      slash === -1 ? undefined : await this.resolveFolder(name.slice(0, slash), call.signal);
+    const folder = await this.api.mailFolders.create(name.slice(slash + 1), parentId, call.signal);
+    this.folderIndex = undefined;
+    return parseMailFolder(folder, name);
+  }
+
+  async deleteFolder(name: FolderName | string, call: CallOptions = {}): Promise<void> {
+    await this.api.mailFolders.delete(await this.resolveFolder(name, call.signal), call.signal);
+    this.folderIndex = undefined;
+  }
+
+  async markAsRead(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.update(id, { isRead: true }, call.signal);
+  }
+
+  async markAsUnread(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.update(id, { isRead: false }, call.signal);
+  }
+
+  async star(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.update(id, { flag: { flagStatus: 'flagged' } }, call.signal);
+  }
+
+  async unstar(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.update(id, { flag: { flagStatus: 'notFlagged' } }, call.signal);
+  }
+
+  async move(
+    id: EmailId | string,
+    folder: FolderName | string,
+    call: CallOptions = {},
+  ): Promise<void> {
+    await this.api.messages.move(id, await this.resolveFolder(folder, call.signal), call.signal);
+  }
+
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.api.messages.move(id, WELL_KNOWN_FOLDERS.trash as string, call.signal);
+  }
+
+  async addLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    const { categories = [] } = await this.api.messages.get(
+      id,
+      { $select: 'categories' },
+      call.signal,
+    );
+    if (categories.includes(label)) return;
+    await this.api.messages.update(id, { categories: [...categories, label] }, call.signal);
+  }
+
+  async removeLabel(id: EmailId | string, label: string, call: CallOptions = {}): Promise<void> {
+    const { categories = [] } = await this.api.messages.get(
+      id,
+      { $select: 'categories' },
+      call.signal,
+    );
+    if (!categories.includes(label)) return;
+    await this.api.messages.update(
+      id,
+      { categories: categories.filter((category) => category !== label) },
+      call.signal,
+    );
+  }
+
+  /**
+   * List the mailbox's categories with their colors
+   */
+  async listCategories(call: CallOptions = {}): Promise<OutlookLabel[]> {
+    const categories = await this.api.categories.list(call.signal);
+    return categories.map((category) => ({
+      id: category.displayName,
+      name: category.displayName,
+      color: category.color === 'none' ? undefined : category.color,
+    }));
+  }
+
+  /**
+   * Watch a folder (default: inbox) through delta queries, polled every `interval`
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    return watchFolder(
+      this.api,
+      () => this.resolveFolder(options.folder ?? 'inbox'),
+      async (id) => {
+        try {
+          return await this.get(id);
+        } catch (error) {
+          if (error instanceof NotFoundError) return undefined;
+          throw error;
+        }
+      },
+      options,
+    );
+  }
+
+  /**
+   * Resolve a folder alias, path or id to something Graph accepts as a folder id
+   *
+   * Aliases map to well-known folder names, paths are looked up in the folder
+   * tree, and anything else is assumed to be a folder id.
+   */
+  private async resolveFolder(name: string, signal?: AbortSignal): Promise<string> {
+    const wellKnown = WELL_KNOWN_FOLDERS[name.toLowerCase()];
+    if (wellKnown) return wellKnown;
+
+    const path = name.toLowerCase();
+    let id = (await this.folders(signal)).ids.get(path);
+    if (id === undefined) {
+      // Created since the folders were loaded
+      this.folderIndex = undefined;
+      id = (await this.folders(signal)).ids.get(path);
+    }
+    return id ?? name;
+  }
+
+  /**
+   * Load the folder tree and the ids of well-known folders, once
+   *
+   * The load is shared between callers, so `signal` only stops waiting for it.
+   */
+  private folders(signal?: AbortSignal): Promise<FolderIndex> {
+    if (!this.folderIndex) {
+      this.folderIndex = this.loadFolders();
+      this.folderIndex.catch(() => {
+        this.folderIndex = undefined;
+      });
+    }
+    return abortable(this.folderIndex, signal);
+  }
+
+  private async loadFolders(): Promise<FolderIndex> {
+    // Folder listings carry localized display names only, so well-known
+    // folders are recognized by id
+    const aliases = new Map<string, string>();
+    await Promise.all(
+      Object.entries(WELL_KNOWN_FOLDERS).map(async ([alias, wellKnown]) => {
+        try {
+          aliases.set((await this.api.mailFolders.get(wellKnown)).id, alias);
+        } catch (error) {
+          // Mailboxes without an archive folder
+          if (!(error instanceof NotFoundError)) throw error;
+        }
+      }),
+    );
+
+    const index: FolderIndex = { entries: new Map(), ids: new Map(), tree: [] };
+    const visit = async (folders: GraphMailFolder[], parentPath?: string): Promise<Folder[]> => {
+      const result: Folder[] = [];
+      for (const folder of folders) {
+        const path = parentPath ? `${parentPath}/${folder.displayName}` : folder.displayName;
+        const alias = aliases.get(folder.id);
+        const children = folder.childFolderCount
+          ? await visit(await this.api.mailFolders.children(folder.id), path)
+          : undefined;
+
+        index.entries.set(folder.id, { path, alias });
+        index.ids.set(path.toLowerCase(), folder.id);
+        result.push(parseMailFolder(folder, path, alias, children));
+      }
+      return result;
+    };
+
+    index.tree = await visit(await this.api.mailFolders.list());
+    return index;
+  }
+
+  /**
+   * Parse messages, naming their folders from the folder index
+   */
+  private async parseMessages(
+    messages: GraphMessage[],
+    signal?: AbortSignal,
+  ): Promise<OutlookEmail[]> {
+    const { entries } = await this.folders(signal);
+    return messages.map((message) =>
+      parseGraphMessage(message, (folderId) => {
+        const entry = entries.get(folderId);
+        return entry ? (entry.alias ?? entry.path) : folderId;
+      }),
+    );
+  }
+}
+
+/**
+ * Create Outlook provider
+ */
+export function outlook(options: OutlookOptions): OutlookProvider {
+  return new OutlookProvider(options);
+}
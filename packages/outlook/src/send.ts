@@ -0,0 +1,175 @@
+import type { Address, EmailId, SendOptions, SendResult, ThreadId } from '@faktoor/core';
+import { ValidationError } from '@faktoor/core';
+import type { ResolvedAttachment } from '@faktoor/parser';
+import { buildMimeMessage, parseAddressList, resolveAttachment } from '@faktoor/parser';
+import type { GraphApi, GraphFileAttachmentInput, GraphMessageInput } from './api';
+import { toRecipients } from './parser';
+import type { GraphMessage } from './types';
+
+// Graph rejects requests over 4 MB, and base64 grows content by a third
+export const INLINE_ATTACHMENT_LIMIT = 3 * 1024 * 1024;
+
+// Upload session ranges must be multiples of 320 KiB
+export const UPLOAD_CHUNK_SIZE = 10 * 320 * 1024;
+
+/**
+ * Encode bytes as standard base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Generate a Message-ID for a new message
+ */
+function createMessageId(): string {
+  return `${Date.now().toString(36)}.${Math.random().toString(36).slice(2)}@faktoor`;
+}
+
+function parseAddresses(value: string | string[] | undefined): Address[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).flatMap((item) => parseAddressList(item));
+}
+
+/**
+ * Build the Graph message for send options, without attachments
+ *
+ * Graph only accepts custom headers starting with `X-`.
+ */
+export function toGraphMessage(options: SendOptions, messageId: string): GraphMessageInput {
+  const headers = Object.entries(options.headers ?? {}).map(([name, value]) => ({ name, value }));
+
+  return {
+    subject: options.subject,
+    body: options.html
+      ? { contentType: 'html', content: options.html }
+      : { contentType: 'text', content: options.text ?? '' },
+    toRecipients: toRecipients(parseAddresses(options.to)),
+    ccRecipients: toRecipients(parseAddresses(options.cc)),
+    bccRecipients: toRecipients(parseAddresses(options.bcc)),
+    replyTo: toRecipients(parseAddresses(options.replyTo)),
+    internetMessageId: `<${messageId}>`,
+    ...(headers.length ? { internetMessageHeaders: headers } : {}),
+  };
+}
+
+/**
+ * Convert a loaded attachment to a Graph file attachment
+ */
+function toFileAttachment(attachment: ResolvedAttachment): GraphFileAttachmentInput {
+  return {
+    '@odata.type': '#microsoft.graph.fileAttachment',
+    name: attachment.filename,
+    contentType: attachment.mimeType,
+    contentBytes: encodeBase64(attachment.content),
+    ...(attachment.contentId ? { contentId: attachment.contentId, isInline: true } : {}),
+  };
+}
+
+/**
+ * Upload an attachment to a draft through an upload session, one range at a time
+ */
+async function uploadAttachment(
+  api: GraphApi,
+  messageId: string,
+  attachment: ResolvedAttachment,
+  signal?: AbortSignal,
+): Promise<void> {
+  const { content } = attachment;
+  const session = await api.messages.createUploadSession(
+    messageId,
+    {
+      name: attachment.filename,
+      size: content.length,
+      contentType: attachment.mimeType,
+      ...(attachment.contentId ? { contentId: attachment.contentId, isInline: true } : {}),
+    },
+    signal,
+  );
+
+  for (let start = 0; start < content.length; start += UPLOAD_CHUNK_SIZE) {
+    await api.upload(
+      session.uploadUrl,
+      content.subarray(start, start + UPLOAD_CHUNK_SIZE),
+      start,
+      content.length,
+      signal,
+    );
+  }
+}
+
+/**
+ * Send an email through Graph
+ *
+ * The message is saved as a draft and the draft is sent, so the result carries
+ * the id of the sent message: immutable ids keep it the same in Sent Items.
+ * Attachments up to 3 MB in total go with the draft; larger ones are uploaded
+ * in ranges. Threading headers and non-`X-` headers can only be set through
+ * MIME, so those drafts are created from MIME.
+ */
+export async function sendMessage(
+  api: GraphApi,
+  options: SendOptions,
+  signal?: AbortSignal,
+): Promise<SendResult> {
+  const messageId = createMessageId();
+
+  const needsMime =
+    !!options.inReplyTo ||
+    !!options.references?.length ||
+    Object.keys(options.headers ?? {}).some((name) => !/^x-/i.test(name));
+
+  let draft: GraphMessage;
+  let uploads: ResolvedAttachment[] = [];
+
+  if (needsMime) {
+    const mime = new TextEncoder().encode(await buildMimeMessage({ ...options, messageId }));
+    if (mime.length > INLINE_ATTACHMENT_LIMIT) {
+      throw new ValidationError(
+        'Replies and messages with custom headers must be under 3 MB when sent through Outlook',
+        'attachments',
+      );
+    }
+    draft = await api.messages.createMime(encodeBase64(mime), signal);
+  } else {
+    const attachments = await Promise.all((options.attachments ?? []).map(resolveAttachment));
+    const message = toGraphMessage(options, messageId);
+    const total = attachments.reduce((sum, attachment) => sum + attachment.content.length, 0);
+
+    if (total <= INLINE_ATTACHMENT_LIMIT) {
+      draft = await api.messages.create(
+        { ...message, attachments: attachments.map(toFileAttachment) },
+        signal,
+      );
+    } else {
+      draft = await api.messages.create(message, signal);
+      uploads = attachments;
+    }
+  }
+
+  try {
+    for (const attachment of uploads) {
+      if (attachment.content.length <= INLINE_ATTACHMENT_LIMIT) {
+        await api.messages.addAttachment(draft.id, toFileAttachment(attachment), signal);
+      } else {
+        await uploadAttachment(api, draft.id, attachment, signal);
+      }
+    }
+    await api.messages.send(draft.id, signal);
+  } catch (error) {
+    // Don't leave a half-built draft behind, even when aborted
+    await api.messages.delete(draft.id).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    id: draft.id as EmailId,
+    threadId: draft.conversationId as ThreadId | undefined,
+    timestamp: new Date(),
+  };
+}
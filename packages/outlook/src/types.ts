@@ -0,0 +1,136 @@
+import type { Email, Label } from '@faktoor/core';
+import type { HttpClient } from './http';
+
+/**
+ * Outlook-specific email extensions
+ */
+export interface OutlookEmail extends Email {
+  /** Plain-text preview of the first 255 characters of the body */
+  preview: string;
+  importance: 'low' | 'normal' | 'high';
+  /** RFC 2822 Message-ID */
+  internetMessageId?: string;
+  /** Link that opens the message in Outlook on the web */
+  webLink?: string;
+}
+
+/**
+ * Outlook category, exposed as a label
+ */
+export interface OutlookLabel extends Label {
+  /** Category color preset, e.g. `preset0` (red) */
+  color?: string;
+}
+
+/**
+ * Outlook provider options
+ */
+export interface OutlookOptions {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+  /** Application (client) ID, required to refresh the access token */
+  clientId?: string;
+  /** Client secret for confidential clients, sent along with the refresh token */
+  clientSecret?: string;
+  /** Directory tenant used to refresh tokens (default: `common`) */
+  tenant?: string;
+  /** Scopes requested when refreshing (default: `https://graph.microsoft.com/.default offline_access`) */
+  scopes?: string[];
+  onTokenRefresh?: (tokens: {
+    accessToken: string;
+    expiresAt?: Date;
+    refreshToken?: string;
+  }) => void | Promise<void>;
+  /** Graph endpoint, e.g. for national clouds (default: `https://graph.microsoft.com/v1.0`) */
+  baseUrl?: string;
+  /** Microsoft identity platform endpoint (default: `https://login.microsoftonline.com`) */
+  loginUrl?: string;
+  /** HTTP layer every request goes through (default: `fetch`) */
+  http?: HttpClient;
+}
+
+/**
+ * Graph recipient
+ */
+export interface GraphRecipient {
+  emailAddress: {
+    name?: string;
+    address?: string;
+  };
+}
+
+/**
+ * Graph attachment metadata
+ */
+export interface GraphAttachment {
+  id: string;
+  name: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  contentId?: string;
+}
+
+/**
+ * Graph message resource
+ */
+export interface GraphMessage {
+  id: string;
+  conversationId?: string;
+  parentFolderId?: string;
+  subject?: string;
+  bodyPreview?: string;
+  body?: { contentType: 'text' | 'html'; content: string };
+  from?: GraphRecipient;
+  sender?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  bccRecipients?: GraphRecipient[];
+  replyTo?: GraphRecipient[];
+  receivedDateTime?: string;
+  sentDateTime?: string;
+  isRead?: boolean;
+  isDraft?: boolean;
+  importance?: 'low' | 'normal' | 'high';
+  flag?: { flagStatus: 'notFlagged' | 'flagged' | 'complete' };
+  categories?: string[];
+  hasAttachments?: boolean;
+  internetMessageId?: string;
+  internetMessageHeaders?: Array<{ name: string; value: string }>;
+  webLink?: string;
+  attachments?: GraphAttachment[];
+  /** Present on delta items for messages that were deleted or moved out */
+  '@removed'?: { reason: string };
+}
+
+/**
+ * Graph mail folder resource
+ */
+export interface GraphMailFolder {
+  id: string;
+  displayName: string;
+  parentFolderId?: string;
+  childFolderCount?: number;
+  unreadItemCount?: number;
+  totalItemCount?: number;
+}
+
+/**
+ * Graph Outlook category
+ */
+export interface GraphCategory {
+  id: string;
+  displayName: string;
+  color: string;
+}
+
+/**
+ * One page of a Graph collection
+ */
+export interface GraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+  '@odata.count'?: number;
+}
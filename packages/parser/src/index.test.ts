@@ -66,6 +66,18 @@ describe('parseAddress', () => {
     });
   });
 
+  it('keeps bare addresses whole', () => {
+    expect(parseAddress('user@localhost')).toEqual({ email: 'user@localhost' });
+    expect(parseAddress('a@b')).toEqual({ email: 'a@b' });
+  });
+
+  it('parses a display name without angle brackets', () => {
+    expect(parseAddress('Jane jane@example.com')).toEqual({
+      email: 'jane@example.com',
+      name: 'Jane',
+    });
+  });
+
   it('handles name with special characters', () => {
     expect(parseAddress('"O\'Connor, John" <john@example.com>')).toEqual({
       email: 'john@example.com',
@@ -6,8 +6,9 @@ import type { Address } from '@faktoor/core';
  */
 export function parseAddress(raw: string): Address {
   const trimmed = raw.trim();
-  // Match "Name <email>" or just "email"
-  const match = trimmed.match(/^(?:"?([^"<]*)"?\s*)?<?([^>@\s]+@[^>@\s]+)>?$/);
+  // Match "Name <email>" or just "email"; the name is lazy so it never eats
+  // the start of a bare address
+  const match = trimmed.match(/^"?([^"<]*?)"?\s*<?\s*([^>@\s]+@[^>@\s]+)\s*>?$/);
 
   if (!match) {
     return { email: trimmed };
@@ -146,3 +147,25 @@ export function parseEmailDate(dateStr: string): Date {
 export function formatEmailDate(date: Date): string {
   return date.toUTCString();
 }
+
+// MIME builder
+export {
+  buildMimeMessage,
+  encodeBase64Lines,
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  foldHeader,
+  guessMimeType,
+  resolveAttachment,
+} from './mime';
+export type { MimeMessageOptions, ResolvedAttachment } from './mime';
+
+// MIME parser
+export {
+  decodeHeaderValue,
+  decodeNodeText,
+  decodeParameters,
+  parseMimeMessage,
+  parseMimeTree,
+} from './parse';
+export type { MimeNode, ParsedAttachment, ParsedMessage } from './parse';
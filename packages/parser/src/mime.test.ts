@@ -0,0 +1,278 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ValidationError } from '@faktoor/core';
+import { describe, expect, it } from 'vitest';
+import {
+  buildMimeMessage,
+  encodeBase64Lines,
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  foldHeader,
+  guessMimeType,
+} from './mime';
+
+/**
+ * Get the boundary declared for a multipart subtype
+ */
+function boundaryOf(message: string, subtype: string): string {
+  const match = message.match(new RegExp(`multipart/${subtype};\\s+boundary="([^"]+)"`));
+  if (!match?.[1]) throw new Error(`No multipart/${subtype} in message`);
+  return match[1];
+}
+
+/**
+ * Get the parts of a multipart entity by boundary
+ */
+function partsOf(message: string, boundary: string): string[] {
+  const body = message.split(`--${boundary}--`)[0] as string;
+  return body.split(`--${boundary}\r\n`).slice(1);
+}
+
+describe('guessMimeType', () => {
+  it('guesses common types from the extension', () => {
+    expect(guessMimeType('invoice.pdf')).toBe('application/pdf');
+    expect(guessMimeType('photo.JPG')).toBe('image/jpeg');
+    expect(guessMimeType('data.csv')).toBe('text/csv');
+  });
+
+  it('falls back to application/octet-stream', () => {
+    expect(guessMimeType('archive.unknown')).toBe('application/octet-stream');
+    expect(guessMimeType('README')).toBe('application/octet-stream');
+  });
+});
+
+describe('encodeBase64Lines', () => {
+  it('wraps lines at 76 characters', () => {
+    const lines = encodeBase64Lines(new Uint8Array(200).fill(65)).split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+    expect(Buffer.from(lines.join(''), 'base64')).toEqual(Buffer.alloc(200, 65));
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('keeps plain ASCII as is', () => {
+    expect(encodeQuotedPrintable('Hello world')).toBe('Hello world');
+  });
+
+  it('encodes UTF-8 bytes and equals signs', () => {
+    expect(encodeQuotedPrintable('café = 1')).toBe('caf=C3=A9 =3D 1');
+  });
+
+  it('encodes trailing whitespace', () => {
+    expect(encodeQuotedPrintable('trailing ')).toBe('trailing=20');
+  });
+
+  it('adds soft line breaks to keep lines under 76 characters', () => {
+    const encoded = encodeQuotedPrintable('é'.repeat(40));
+    const lines = encoded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(76);
+    }
+    expect(lines[0]?.endsWith('=')).toBe(true);
+  });
+
+  it('preserves hard line breaks as CRLF', () => {
+    expect(encodeQuotedPrintable('a\nb\r\nc')).toBe('a\r\nb\r\nc');
+  });
+});
+
+describe('encodeHeaderValue', () => {
+  it('leaves ASCII values untouched', () => {
+    expect(encodeHeaderValue('Monthly report')).toBe('Monthly report');
+  });
+
+  it('encodes non-ASCII values as RFC 2047 encoded-words', () => {
+    expect(encodeHeaderValue('Réunion')).toBe(
+      `=?UTF-8?B?${Buffer.from('Réunion').toString('base64')}?=`,
+    );
+  });
+
+  it('splits long values into several encoded-words', () => {
+    const value = '日本語のテキスト'.repeat(5);
+    const words = encodeHeaderValue(value).split(' ');
+
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    const decoded = words
+      .map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf-8'))
+      .join('');
+    expect(decoded).toBe(value);
+  });
+});
+
+describe('foldHeader', () => {
+  it('does not fold short headers', () => {
+    expect(foldHeader('Subject', 'Hello')).toBe('Subject: Hello');
+  });
+
+  it('folds long headers at whitespace', () => {
+    const folded = foldHeader('Subject', 'word '.repeat(30).trim());
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(78);
+    }
+    for (const line of lines.slice(1)) {
+      expect(line.startsWith(' ')).toBe(true);
+    }
+    expect(folded.replace(/\r\n/g, '')).toBe(`Subject: ${'word '.repeat(30).trim()}`);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('builds a single-part text message', async () => {
+    const message = await buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+    });
+
+    expect(message).toContain('To: a@example.com\r\n');
+    expect(message).toContain('MIME-Version: 1.0\r\n');
+    expect(message).toContain(
+      'Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 7bit\r\n\r\nHello',
+    );
+    expect(message).not.toContain('multipart');
+  });
+
+  it('puts text and html in multipart/alternative', async () => {
+    const message = await buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+      html: '<p>Hello</p>',
+    });
+
+    const parts = partsOf(message, boundaryOf(message, 'alternative'));
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toContain('Content-Type: text/plain');
+    expect(parts[1]).toContain('Content-Type: text/html');
+    expect(message).not.toContain('multipart/mixed');
+  });
+
+  it('nests alternative, related and mixed parts', async () => {
+    const message = await buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Invoice',
+      text: 'See attached',
+      html: '<img src="cid:logo">',
+      attachments: [
+        { filename: 'logo.png', content: new Uint8Array([1, 2, 3]), contentId: 'logo' },
+        { filename: 'invoice.pdf', content: new Uint8Array([0x25, 0x50, 0x44, 0x46]) },
+      ],
+    });
+
+    const mixed = partsOf(message, boundaryOf(message, 'mixed'));
+    expect(mixed).toHaveLength(2);
+    expect(mixed[0]).toContain('multipart/alternative');
+    expect(mixed[1]).toContain('Content-Type: application/pdf; name="invoice.pdf"');
+    expect(mixed[1]).toContain('Content-Disposition: attachment; filename="invoice.pdf"');
+    expect(mixed[1]).toContain('Content-Transfer-Encoding: base64\r\n\r\nJVBERg==');
+
+    const alternative = partsOf(mixed[0] as string, boundaryOf(message, 'alternative'));
+    expect(alternative).toHaveLength(2);
+    expect(alternative[0]).toContain('Content-Type: text/plain');
+    expect(alternative[1]).toContain('multipart/related');
+
+    const related = partsOf(alternative[1] as string, boundaryOf(message, 'related'));
+    expect(related).toHaveLength(2);
+    expect(related[0]).toContain('Content-Type: text/html');
+    expect(related[1]).toContain('Content-Disposition: inline; filename="logo.png"');
+    expect(related[1]).toContain('Content-ID: <logo>');
+  });
+
+  it('uses quoted-printable for non-ASCII bodies', async () => {
+    const message = await buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Hi',
+      text: 'Café crème',
+    });
+
+    expect(message).toContain(
+      'Content-Transfer-Encoding: quoted-printable\r\n\r\nCaf=C3=A9 cr=C3=A8me',
+    );
+  });
+
+  it('encodes non-ASCII subjects and display names', async () => {
+    const message = await buildMimeMessage({
+      to: 'José Núñez <jose@example.com>, "Doe, Jane" <jane@example.com>',
+      subject: 'Réunion demain',
+      text: 'Hello',
+    });
+
+    expect(message).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Réunion demain').toString('base64')}?=`,
+    );
+    expect(message).toContain(
+      `=?UTF-8?B?${Buffer.from('José Núñez').toString('base64')}?= <jose@example.com>`,
+    );
+    expect(message.replace(/\r\n /g, ' ')).toContain('"Doe, Jane" <jane@example.com>');
+  });
+
+  it('produces a pure ASCII message with lines within limits', async () => {
+    const message = await buildMimeMessage({
+      to: Array.from({ length: 10 }, (_, i) => `Recipient ${i} <user${i}@example.com>`),
+      subject: 'Ünïcödé '.repeat(10),
+      text: 'ü'.repeat(200),
+      attachments: [{ filename: 'rapport-été.pdf', content: new Uint8Array(300) }],
+    });
+
+    expect(/^[\r\n\x20-\x7e]*$/.test(message)).toBe(true);
+    for (const line of message.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(78);
+    }
+    expect(message).toContain(`filename*=UTF-8''rapport-%C3%A9t%C3%A9.pdf`);
+  });
+
+  it('adds From, Date and Message-ID when provided', async () => {
+    const message = await buildMimeMessage({
+      from: 'Sender <sender@example.com>',
+      to: 'a@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+      date: new Date('2024-01-02T03:04:05Z'),
+      messageId: 'abc@example.com',
+    });
+
+    expect(message).toContain('From: "Sender" <sender@example.com>\r\n');
+    expect(message).toContain('Date: Tue, 02 Jan 2024 03:04:05 GMT\r\n');
+    expect(message).toContain('Message-ID: <abc@example.com>\r\n');
+  });
+
+  it('loads attachments from disk', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'faktoor-'));
+    const path = join(dir, 'report.csv');
+    writeFileSync(path, 'a,b\n1,2\n');
+
+    const message = await buildMimeMessage({
+      to: 'a@example.com',
+      subject: 'Report',
+      text: 'Report attached',
+      attachments: [{ filename: 'report.csv', path }],
+    });
+
+    expect(message).toContain('Content-Type: text/csv; name="report.csv"');
+    expect(message).toContain(Buffer.from('a,b\n1,2\n').toString('base64'));
+  });
+
+  it('rejects attachments without content or path', async () => {
+    await expect(
+      buildMimeMessage({
+        to: 'a@example.com',
+        subject: 'Broken',
+        text: 'Oops',
+        attachments: [{ filename: 'missing.pdf' }],
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
@@ -0,0 +1,403 @@
+import type { AttachmentInput, SendOptions } from '@faktoor/core';
+import { ValidationError } from '@faktoor/core';
+import { formatEmailDate, parseAddressList } from './index';
+
+/**
+ * Options for building a MIME message
+ */
+export interface MimeMessageOptions extends SendOptions {
+  from?: string;
+  date?: Date;
+  messageId?: string;
+}
+
+/**
+ * Attachment with its content loaded
+ */
+export interface ResolvedAttachment {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+  contentId?: string;
+}
+
+/**
+ * A MIME entity: its headers and body lines
+ */
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const MAX_LINE_LENGTH = 78;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  json: 'application/json',
+  xml: 'application/xml',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  htm: 'text/html',
+  html: 'text/html',
+  ics: 'text/calendar',
+  eml: 'message/rfc822',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  ico: 'image/vnd.microsoft.icon',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+};
+
+/**
+ * Guess the MIME type of a file from its extension
+ */
+export function guessMimeType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Encode bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode bytes as base64, wrapped at 76 characters per line (RFC 2045)
+ */
+export function encodeBase64Lines(bytes: Uint8Array): string {
+  return (
+    toBase64(bytes)
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
+
+/**
+ * Encode text as quoted-printable (RFC 2045), with CRLF line breaks
+ */
+export function encodeQuotedPrintable(text: string): string {
+  const encoder = new TextEncoder();
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const bytes = encoder.encode(line);
+      let output = '';
+      let current = '';
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+        // Soft line break, leaving room for the trailing "="
+        if (current.length + token.length > 75) {
+          output += `${current}=\r\n`;
+          current = '';
+        }
+        current += token;
+      });
+
+      return output + current;
+    })
+    .join('\r\n');
+}
+
+/**
+ * Whether a string only contains printable ASCII
+ */
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded-words when it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  if (isPrintableAscii(value)) return value;
+
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk = '';
+
+  // 45 bytes encode to 60 base64 characters, keeping each word under 75
+  for (const char of value) {
+    if (encoder.encode(chunk + char).length > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map((word) => `=?UTF-8?B?${toBase64(encoder.encode(word))}?=`).join(' ');
+}
+
+/**
+ * Fold a header line at whitespace so lines stay within 78 characters (RFC 5322)
+ */
+export function foldHeader(name: string, value: string): string {
+  const line = `${name}: ${value}`;
+  if (line.length <= MAX_LINE_LENGTH) return line;
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of line.split(' ')) {
+    if (current && current.length + word.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = ` ${word}`;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  lines.push(current);
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Format an address list header value, encoding non-ASCII display names
+ */
+function formatAddressHeader(value: string | string[]): string {
+  const raw = Array.isArray(value) ? value.join(', ') : value;
+  const addresses = parseAddressList(raw);
+  if (!addresses.length) return raw;
+
+  return addresses
+    .map(({ email, name }) => {
+      if (!name) return email;
+      const display = isPrintableAscii(name)
+        ? `"${name.replace(/["\\]/g, '\\$&')}"`
+        : encodeHeaderValue(name);
+      return `${display} <${email}>`;
+    })
+    .join(', ');
+}
+
+/**
+ * Format a header parameter, using RFC 2231 for non-ASCII values
+ */
+function formatParameter(name: string, value: string): string {
+  if (isPrintableAscii(value)) {
+    return `${name}="${value.replace(/["\\]/g, '\\$&')}"`;
+  }
+  return `${name}*=UTF-8''${encodeURIComponent(value).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+/**
+ * Load attachment content from memory or disk
+ */
+export async function resolveAttachment(input: AttachmentInput): Promise<ResolvedAttachment> {
+  let content: Uint8Array;
+
+  if (input.content !== undefined) {
+    if (typeof input.content === 'string') {
+      content = new TextEncoder().encode(input.content);
+    } else if (input.content instanceof Uint8Array) {
+      content = input.content;
+    } else {
+      content = new Uint8Array(input.content);
+    }
+  } else if (input.path) {
+    // Loaded lazily so browser bundles don't pull in node:fs
+    const { readFile } = await import('node:fs/promises');
+    try {
+      content = new Uint8Array(await readFile(input.path));
+    } catch (error) {
+      throw new ValidationError(
+        `Cannot read attachment ${input.filename}: ${(error as Error).message}`,
+        'attachments',
+      );
+    }
+  } else {
+    throw new ValidationError(
+      `Attachment ${input.filename} needs either content or path`,
+      'attachments',
+    );
+  }
+
+  return {
+    filename: input.filename,
+    mimeType: input.mimeType ?? guessMimeType(input.filename),
+    content,
+    contentId: input.contentId,
+  };
+}
+
+/**
+ * Generate a unique multipart boundary
+ */
+function createBoundary(): string {
+  return `----faktoor-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Build a text body part with the lightest suitable transfer encoding
+ */
+function textPart(subtype: 'plain' | 'html', text: string): MimePart {
+  const normalized = text.replace(/\r?\n/g, '\r\n');
+  const is7bit =
+    /^[\t\r\n\x20-\x7e]*$/.test(normalized) &&
+    normalized.split('\r\n').every((l) => l.length <= 998);
+
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${is7bit ? '7bit' : 'quoted-printable'}`,
+    ],
+    body: is7bit ? normalized : encodeQuotedPrintable(text),
+  };
+}
+
+/**
+ * Build an attachment part
+ */
+function attachmentPart(attachment: ResolvedAttachment): MimePart {
+  const disposition = attachment.contentId ? 'inline' : 'attachment';
+  const headers = [
+    foldHeader(
+      'Content-Type',
+      `${attachment.mimeType}; ${formatParameter('name', attachment.filename)}`,
+    ),
+    foldHeader(
+      'Content-Disposition',
+      `${disposition}; ${formatParameter('filename', attachment.filename)}`,
+    ),
+    'Content-Transfer-Encoding: base64',
+  ];
+
+  if (attachment.contentId) {
+    headers.push(`Content-ID: <${attachment.contentId.replace(/^<|>$/g, '')}>`);
+  }
+
+  return { headers, body: encodeBase64Lines(attachment.content) };
+}
+
+/**
+ * Combine parts into a multipart entity
+ */
+function multipart(subtype: 'mixed' | 'alternative' | 'related', parts: MimePart[]): MimePart {
+  const boundary = createBoundary();
+  const lines: string[] = [];
+
+  for (const part of parts) {
+    lines.push(`--${boundary}`, ...part.headers, '', part.body);
+  }
+  lines.push(`--${boundary}--`);
+
+  return {
+    headers: [foldHeader('Content-Type', `multipart/${subtype}; boundary="${boundary}"`)],
+    body: lines.join('\r\n'),
+  };
+}
+
+/**
+ * Build the MIME tree:
+ * mixed(alternative(text, related(html, inline...)), attachments...)
+ */
+function buildBody(options: SendOptions, attachments: ResolvedAttachment[]): MimePart {
+  const inline = attachments.filter((a) => a.contentId);
+  const regular = attachments.filter((a) => !a.contentId);
+
+  const text = options.text !== undefined ? textPart('plain', options.text) : undefined;
+  let html = options.html !== undefined ? textPart('html', options.html) : undefined;
+
+  // Inline images belong with the body that references them
+  if (inline.length) {
+    const target = html ?? text ?? textPart('plain', '');
+    const related = multipart('related', [target, ...inline.map(attachmentPart)]);
+    if (html) {
+      html = related;
+    } else {
+      return regular.length
+        ? multipart('mixed', [related, ...regular.map(attachmentPart)])
+        : related;
+    }
+  }
+
+  let body: MimePart;
+  if (text && html) {
+    body = multipart('alternative', [text, html]);
+  } else {
+    body = html ?? text ?? textPart('plain', '');
+  }
+
+  if (regular.length) {
+    body = multipart('mixed', [body, ...regular.map(attachmentPart)]);
+  }
+
+  return body;
+}
+
+/**
+ * Build an RFC 5322 message with a correct MIME structure
+ */
+export async function buildMimeMessage(options: MimeMessageOptions): Promise<string> {
+  const headers: string[] = [];
+
+  if (options.from) headers.push(foldHeader('From', formatAddressHeader(options.from)));
+  headers.push(foldHeader('To', formatAddressHeader(options.to)));
+  if (options.cc) headers.push(foldHeader('Cc', formatAddressHeader(options.cc)));
+  if (options.bcc) headers.push(foldHeader('Bcc', formatAddressHeader(options.bcc)));
+  if (options.replyTo) headers.push(foldHeader('Reply-To', formatAddressHeader(options.replyTo)));
+
+  headers.push(foldHeader('Subject', encodeHeaderValue(options.subject)));
+  headers.push(`Date: ${formatEmailDate(options.date ?? new Date())}`);
+
+  if (options.messageId) {
+    headers.push(`Message-ID: <${options.messageId.replace(/^<|>$/g, '')}>`);
+  }
+  if (options.inReplyTo) {
+    headers.push(`In-Reply-To: <${options.inReplyTo}>`);
+  }
+  if (options.references?.length) {
+    headers.push(foldHeader('References', options.references.map((r) => `<${r}>`).join(' ')));
+  }
+
+  if (options.headers) {
+    for (const [name, value] of Object.entries(options.headers)) {
+      headers.push(foldHeader(name, encodeHeaderValue(value)));
+    }
+  }
+
+  headers.push('MIME-Version: 1.0');
+
+  const attachments = await Promise.all((options.attachments ?? []).map(resolveAttachment));
+  const body = buildBody(options, attachments);
+
+  return [...headers, ...body.headers, '', body.body].join('\r\n');
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { buildMimeMessage } from './mime';
+import { decodeHeaderValue, decodeParameters, parseMimeMessage, parseMimeTree } from './parse';
+
+const multipart = [
+  'From: =?UTF-8?Q?Ren=C3=A9e?= <renee@example.com>',
+  'To: Bob <bob@example.com>, carol@example.com',
+  'Subject: =?UTF-8?B?Q2Fmw6k=?= =?UTF-8?Q?_menu?=',
+  'Date: Tue, 02 Jan 2024 10:00:00 +0000',
+  'Message-ID: <msg-2@example.com>',
+  'In-Reply-To: <msg-1@example.com>',
+  'References: <msg-0@example.com> <msg-1@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'Preamble is ignored',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Caf=E9 au lait=',
+  ' today',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>Café</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf; name="menu.pdf"',
+  'Content-Disposition: attachment;',
+  " filename*=UTF-8''men%C3%BC.pdf",
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0=',
+  '--outer--',
+  '',
+].join('\r\n');
+
+describe('decodeHeaderValue', () => {
+  it('decodes B and Q encoded-words', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?Q2Fmw6k=?=')).toBe('Café');
+    expect(decodeHeaderValue('=?iso-8859-1?Q?Caf=E9_cr=E8me?=')).toBe('Café crème');
+  });
+
+  it('drops whitespace between adjacent encoded-words only', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?a?= =?UTF-8?Q?b?= c')).toBe('ab c');
+  });
+
+  it('leaves plain text untouched', () => {
+    expect(decodeHeaderValue('Hello =? world')).toBe('Hello =? world');
+  });
+});
+
+describe('decodeParameters', () => {
+  it('merges RFC 2231 continuations', () => {
+    expect(
+      decodeParameters({
+        'filename*0*': "utf-8''r%C3%A9",
+        'filename*1': 'sum',
+        'filename*2': 'e.pdf',
+        Charset: 'utf-8',
+      }),
+    ).toEqual({ filename: 'résume.pdf', charset: 'utf-8' });
+  });
+});
+
+describe('parseMimeTree', () => {
+  it('numbers parts like IMAP', () => {
+    const root = parseMimeTree(multipart);
+
+    expect(root.contentType).toBe('multipart/mixed');
+    expect(root.children.map((child) => child.partId)).toEqual(['1', '2']);
+    expect(root.children[0]?.children.map((child) => child.partId)).toEqual(['1.1', '1.2']);
+  });
+
+  it('treats a message without Content-Type as text/plain', () => {
+    const root = parseMimeTree('Subject: Hi\r\n\r\nHello');
+
+    expect(root.contentType).toBe('text/plain');
+    expect(new TextDecoder().decode(root.body)).toBe('Hello');
+  });
+});
+
+describe('parseMimeMessage', () => {
+  it('parses headers and addresses', () => {
+    const message = parseMimeMessage(multipart);
+
+    expect(message.subject).toBe('Café menu');
+    expect(message.from).toEqual({ email: 'renee@example.com', name: 'Renée' });
+    expect(message.to).toEqual([
+      { email: 'bob@example.com', name: 'Bob' },
+      { email: 'carol@example.com', name: undefined },
+    ]);
+    expect(message.date?.toISOString()).toBe('2024-01-02T10:00:00.000Z');
+    expect(message.messageId).toBe('msg-2@example.com');
+    expect(message.inReplyTo).toBe('msg-1@example.com');
+    expect(message.references).toEqual(['msg-0@example.com', 'msg-1@example.com']);
+  });
+
+  it('decodes text and html bodies in their charset', () => {
+    const message = parseMimeMessage(multipart);
+
+    expect(message.text).toBe('Café au lait today');
+    expect(message.html).toBe('<p>Café</p>');
+  });
+
+  it('extracts attachments', () => {
+    const [attachment] = parseMimeMessage(multipart).attachments;
+
+    expect(attachment).toMatchObject({
+      partId: '2',
+      filename: 'menü.pdf',
+      mimeType: 'application/pdf',
+      disposition: 'attachment',
+      size: 5,
+    });
+    expect(new TextDecoder().decode(attachment?.content)).toBe('%PDF-');
+  });
+
+  it('derives text from html when there is no plain part', () => {
+    const message = parseMimeMessage('Content-Type: text/html\r\n\r\n<p>Hello</p><p>World</p>');
+
+    expect(message.html).toBe('<p>Hello</p><p>World</p>');
+    expect(message.text).toBe('Hello\n\nWorld');
+  });
+
+  it('parses raw bytes', () => {
+    const raw = new TextEncoder().encode(
+      'Subject: Hi\r\nContent-Type: text/plain; charset=utf-8\r\n\r\nÇa va',
+    );
+
+    expect(parseMimeMessage(raw).text).toBe('Ça va');
+  });
+
+  it('round-trips messages built by buildMimeMessage', async () => {
+    const raw = await buildMimeMessage({
+      from: 'Alice <alice@example.com>',
+      to: 'Zoë <zoe@example.com>',
+      subject: 'Réunion',
+      text: 'Bonjour à tous',
+      html: '<p>Bonjour à tous</p>',
+      attachments: [{ filename: 'notes.txt', content: 'hello' }],
+    });
+    const message = parseMimeMessage(raw);
+
+    expect(message.subject).toBe('Réunion');
+    expect(message.to).toEqual([{ email: 'zoe@example.com', name: 'Zoë' }]);
+    expect(message.text).toBe('Bonjour à tous');
+    expect(message.html).toBe('<p>Bonjour à tous</p>');
+    expect(message.attachments).toHaveLength(1);
+    expect(message.attachments[0]).toMatchObject({ filename: 'notes.txt', mimeType: 'text/plain' });
+    expect(new TextDecoder().decode(message.attachments[0]?.content)).toBe('hello');
+  });
+});
@@ -0,0 +1,474 @@
+import type { Address } from '@faktoor/core';
+import { htmlToText, parseAddressList, parseEmailDate } from './index';
+
+/**
+ * A node of the MIME tree
+ */
+export interface MimeNode {
+  /** IMAP-style part number, e.g. `1`, `1.2`; empty for the message itself */
+  partId: string;
+  /** Header names are lower-cased, values unfolded but not decoded */
+  headers: Map<string, string>;
+  /** Lower-cased `type/subtype`, defaults to `text/plain` */
+  contentType: string;
+  /** Decoded Content-Type parameters with lower-cased names */
+  params: Record<string, string>;
+  disposition?: 'inline' | 'attachment';
+  /** Decoded Content-Disposition parameters with lower-cased names */
+  dispositionParams: Record<string, string>;
+  /** Content-Transfer-Encoding, lower-cased */
+  encoding: string;
+  /** Decoded body bytes; empty for multipart nodes */
+  body: Uint8Array;
+  /** Body size in bytes before transfer decoding */
+  size: number;
+  /** Number of lines in the encoded body */
+  lines: number;
+  children: MimeNode[];
+}
+
+/**
+ * Attachment extracted from a parsed message
+ */
+export interface ParsedAttachment {
+  partId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  disposition: 'inline' | 'attachment';
+  content: Uint8Array;
+}
+
+/**
+ * Message parsed from its raw RFC 5322 source
+ */
+export interface ParsedMessage {
+  /** Header names are lower-cased, values unfolded but not decoded */
+  headers: Map<string, string>;
+  subject: string;
+  from?: Address;
+  to: Address[];
+  cc: Address[];
+  bcc: Address[];
+  replyTo?: Address;
+  date?: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  text: string;
+  html: string | null;
+  attachments: ParsedAttachment[];
+}
+
+/**
+ * Convert bytes to a string with one character per byte
+ */
+function bytesToBinary(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+}
+
+/**
+ * Convert a one-character-per-byte string back to bytes
+ */
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Decode bytes in the given charset, falling back to UTF-8
+ */
+function decodeCharset(bytes: Uint8Array, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Decode base64 text, ignoring whitespace and invalid characters
+ */
+function decodeBase64Bytes(data: string): Uint8Array {
+  const clean = data.replace(/[^A-Za-z0-9+/]/g, '');
+  const padded = clean + '='.repeat((4 - (clean.length % 4)) % 4);
+  try {
+    return binaryToBytes(atob(padded));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+/**
+ * Decode quoted-printable text to bytes
+ */
+function decodeQuotedPrintableBytes(data: string): Uint8Array {
+  const binary = data
+    .replace(/[ \t]+(?=\r?\n)/g, '') // Trailing whitespace is not part of the content
+    .replace(/=\r?\n/g, '') // Soft line breaks
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(Number.parseInt(hex, 16)));
+  return binaryToBytes(binary);
+}
+
+/**
+ * Decode RFC 2047 encoded-words in a header value
+ */
+export function decodeHeaderValue(value: string): string {
+  return (
+    value
+      // Whitespace between adjacent encoded-words is not displayed
+      .replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1')
+      .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bBqQ])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? decodeBase64Bytes(text)
+            : decodeQuotedPrintableBytes(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset);
+      })
+  );
+}
+
+/**
+ * Decode an RFC 2231 extended parameter value (`charset'language'%XX...`)
+ */
+function decodeExtendedValue(value: string, charset?: string): string {
+  const bytes = binaryToBytes(
+    value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(Number.parseInt(hex, 16))),
+  );
+  return decodeCharset(bytes, charset || 'utf-8');
+}
+
+/**
+ * Merge RFC 2231 continuations and decode extended or RFC 2047 encoded values
+ *
+ * Takes raw parameters as they appear on the wire (e.g. `filename*0*`,
+ * `filename*1`) and returns them keyed by lower-cased base name.
+ */
+export function decodeParameters(raw: Record<string, string>): Record<string, string> {
+  const plain: Record<string, string> = {};
+  const sections = new Map<string, Array<{ index: number; value: string; extended: boolean }>>();
+
+  for (const [key, value] of Object.entries(raw)) {
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key.toLowerCase());
+    if (!match?.[1]) continue;
+    const [, name, index, extended] = match;
+
+    if (index === undefined && !extended) {
+      plain[name] = decodeHeaderValue(value);
+      continue;
+    }
+    const list = sections.get(name) ?? [];
+    list.push({ index: Number(index ?? 0), value, extended: !!extended });
+    sections.set(name, list);
+  }
+
+  for (const [name, list] of sections) {
+    list.sort((a, b) => a.index - b.index);
+    let charset: string | undefined;
+    let decoded = '';
+
+    for (const [position, section] of list.entries()) {
+      let value = section.value;
+      if (section.extended && position === 0) {
+        // charset'language'value
+        const parts = value.split("'");
+        if (parts.length >= 3) {
+          charset = parts[0];
+          value = parts.slice(2).join("'");
+        }
+      }
+      decoded += section.extended ? decodeExtendedValue(value, charset) : value;
+    }
+    plain[name] = decoded;
+  }
+
+  return plain;
+}
+
+/**
+ * Split a structured header value into its main value and parameters
+ */
+function parseParameterizedHeader(value: string): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const raw: Record<string, string> = {};
+  let main = '';
+  let i = 0;
+
+  // Main value up to the first ';'
+  while (i < value.length && value[i] !== ';') main += value[i++];
+
+  while (i < value.length) {
+    i++; // Skip ';'
+    while (i < value.length && /\s/.test(value[i] as string)) i++;
+
+    let name = '';
+    while (i < value.length && value[i] !== '=' && value[i] !== ';') name += value[i++];
+    if (value[i] !== '=') continue;
+    i++;
+
+    let paramValue = '';
+    if (value[i] === '"') {
+      i++;
+      while (i < value.length && value[i] !== '"') {
+        if (value[i] === '\\') i++;
+        paramValue += value[i++] ?? '';
+      }
+      i++;
+      while (i < value.length && value[i] !== ';') i++;
+    } else {
+      while (i < value.length && value[i] !== ';') paramValue += value[i++];
+      paramValue = paramValue.trim();
+    }
+
+    if (name.trim()) raw[name.trim()] = paramValue;
+  }
+
+  return { value: main.trim().toLowerCase(), params: decodeParameters(raw) };
+}
+
+/**
+ * Split a one-character-per-byte entity into its header block and body
+ */
+function splitEntity(binary: string): { headers: Map<string, string>; body: string } {
+  // Entity without headers
+  if (/^\r?\n/.test(binary)) {
+    return { headers: new Map(), body: binary.replace(/^\r?\n/, '') };
+  }
+
+  const match = /\r?\n\r?\n/.exec(binary);
+  const headerBlock = match ? binary.slice(0, match.index) : binary;
+  const body = match ? binary.slice(match.index + match[0].length) : '';
+
+  const headers = new Map<string, string>();
+  const text = decodeCharset(binaryToBytes(headerBlock));
+  for (const line of text.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // First occurrence wins, like most mail clients
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Split a multipart body into its parts
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let start = -1;
+  let position = 0;
+
+  while (position <= body.length) {
+    const index = body.indexOf(delimiter, position);
+    if (index === -1) break;
+
+    // Delimiters must start a line
+    if (index > 0 && body[index - 1] !== '\n') {
+      position = index + delimiter.length;
+      continue;
+    }
+
+    if (start !== -1) {
+      // The line break before the delimiter belongs to the delimiter
+      const end = body[index - 2] === '\r' ? index - 2 : index - 1;
+      parts.push(body.slice(start, Math.max(start, end)));
+    }
+
+    const isClosing = body.startsWith('--', index + delimiter.length);
+    const lineEnd = body.indexOf('\n', index);
+    if (isClosing || lineEnd === -1) {
+      start = -1;
+      break;
+    }
+    start = lineEnd + 1;
+    position = start;
+  }
+
+  // Unterminated multipart: keep what we have
+  if (start !== -1 && start < body.length) {
+    parts.push(body.slice(start));
+  }
+
+  return parts;
+}
+
+/**
+ * Decode a leaf body according to its transfer encoding
+ */
+function decodeBody(body: string, encoding: string): Uint8Array {
+  switch (encoding) {
+    case 'base64':
+      return decodeBase64Bytes(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintableBytes(body);
+    default:
+      return binaryToBytes(body);
+  }
+}
+
+/**
+ * Parse one entity of the MIME tree
+ */
+function parseNode(binary: string, partId: string, defaultType: string): MimeNode {
+  const { headers, body } = splitEntity(binary);
+  const contentType = parseParameterizedHeader(headers.get('content-type') ?? defaultType);
+  const disposition = headers.has('content-disposition')
+    ? parseParameterizedHeader(headers.get('content-disposition') as string)
+    : undefined;
+  const encoding = (headers.get('content-transfer-encoding') ?? '7bit').trim().toLowerCase();
+  const type = contentType.value.includes('/') ? contentType.value : 'text/plain';
+
+  const node: MimeNode = {
+    partId,
+    headers,
+    contentType: type,
+    params: contentType.params,
+    disposition:
+      disposition?.value === 'attachment' || disposition?.value === 'inline'
+        ? disposition.value
+        : undefined,
+    dispositionParams: disposition?.params ?? {},
+    encoding,
+    body: new Uint8Array(0),
+    size: body.length,
+    lines: body ? body.split('\n').length : 0,
+    children: [],
+  };
+
+  if (type.startsWith('multipart/') && contentType.params.boundary) {
+    const childType = type === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+    node.children = splitMultipart(body, contentType.params.boundary).map((part, index) =>
+      parseNode(part, partId ? `${partId}.${index + 1}` : String(index + 1), childType),
+    );
+  } else {
+    node.body = decodeBody(body, encoding);
+  }
+
+  return node;
+}
+
+/**
+ * Parse a raw message into its MIME tree
+ *
+ * Part numbers follow IMAP BODYSTRUCTURE numbering, so they can be used
+ * to fetch individual parts. The body of a single-part message is part `1`.
+ */
+export function parseMimeTree(raw: string | Uint8Array): MimeNode {
+  const bytes = typeof raw === 'string' ? new TextEncoder().encode(raw) : raw;
+  return parseNode(bytesToBinary(bytes), '', 'text/plain');
+}
+
+/**
+ * Decode the text of a leaf node using its charset
+ */
+export function decodeNodeText(node: MimeNode): string {
+  return decodeCharset(node.body, node.params.charset);
+}
+
+/**
+ * Get the filename of a node, if any
+ */
+function filenameOf(node: MimeNode): string | undefined {
+  return node.dispositionParams.filename ?? node.params.name;
+}
+
+/**
+ * Parse an address header, decoding encoded display names
+ */
+function parseAddressHeader(value: string | undefined): Address[] {
+  if (!value) return [];
+  return parseAddressList(value).map(({ email, name }) =>
+    name ? { email, name: decodeHeaderValue(name) } : { email },
+  );
+}
+
+/**
+ * Strip angle brackets from a message id
+ */
+function parseMessageIds(value: string | undefined): string[] {
+  if (!value) return [];
+  const ids = value.match(/<[^>]+>/g);
+  return ids ? ids.map((id) => id.slice(1, -1).trim()) : [value.trim()];
+}
+
+/**
+ * Parse a raw RFC 5322 message
+ */
+export function parseMimeMessage(raw: string | Uint8Array): ParsedMessage {
+  const root = parseMimeTree(raw);
+  const headers = root.headers;
+
+  let text: string | undefined;
+  let html: string | undefined;
+  const attachments: ParsedAttachment[] = [];
+
+  const toAttachment = (node: MimeNode): ParsedAttachment => {
+    const contentId = node.headers.get('content-id');
+    const fallbackName = node.contentType === 'message/rfc822' ? 'message.eml' : 'attachment';
+    return {
+      partId: node.partId || '1',
+      filename: filenameOf(node) ?? fallbackName,
+      mimeType: node.contentType,
+      size: node.body.length,
+      contentId: contentId ? contentId.replace(/^<|>$/g, '').trim() : undefined,
+      disposition: node.disposition ?? (contentId ? 'inline' : 'attachment'),
+      content: node.body,
+    };
+  };
+
+  const visit = (node: MimeNode): void => {
+    if (node.children.length) {
+      for (const child of node.children) visit(child);
+      return;
+    }
+
+    const isBody =
+      node.disposition !== 'attachment' &&
+      !filenameOf(node) &&
+      (node.contentType === 'text/plain' || node.contentType === 'text/html');
+
+    if (isBody && node.contentType === 'text/plain' && text === undefined) {
+      text = decodeNodeText(node);
+    } else if (isBody && node.contentType === 'text/html' && html === undefined) {
+      html = decodeNodeText(node);
+    } else {
+      // Extra text parts are shown as attachments, like most clients do
+      attachments.push(toAttachment(node));
+    }
+  };
+
+  visit(root);
+
+  const date = headers.get('date');
+  const replyTo = parseAddressHeader(headers.get('reply-to'))[0];
+
+  return {
+    headers,
+    subject: decodeHeaderValue(headers.get('subject') ?? ''),
+    from: parseAddressHeader(headers.get('from'))[0],
+    to: parseAddressHeader(headers.get('to')),
+    cc: parseAddressHeader(headers.get('cc')),
+    bcc: parseAddressHeader(headers.get('bcc')),
+    replyTo,
+    date: date ? parseEmailDate(date) : undefined,
+    messageId: parseMessageIds(headers.get('message-id'))[0],
+    inReplyTo: parseMessageIds(headers.get('in-reply-to'))[0],
+    references: parseMessageIds(headers.get('references')),
+    text: text ?? (html !== undefined ? htmlToText(html) : ''),
+    html: html ?? null,
+    attachments,
+  };
+}
@@ -0,0 +1,319 @@
+import { createHash } from 'node:crypto';
+import { type AddressInfo, type Server, type Socket, createServer } from 'node:net';
+
+/**
+ * Message in the fake maildrop
+ */
+export interface FakePop3Message {
+  uidl: string;
+  /** Message with `\n` line endings */
+  content: string;
+}
+
+/**
+ * Options for the fake server
+ */
+export interface FakePop3ServerOptions {
+  user?: string;
+  pass?: string;
+  accessToken?: string;
+  /** Answer CAPA with -ERR, like servers from before RFC 2449 */
+  capa?: boolean;
+  /** SASL mechanisms announced through CAPA */
+  sasl?: string[];
+  /** Put an APOP timestamp in the greeting */
+  apop?: boolean;
+  uidl?: boolean;
+  top?: boolean;
+  /** Refuse logins with `-ERR [IN-USE]` */
+  locked?: boolean;
+}
+
+interface Session {
+  socket: Socket;
+  timestamp: string;
+  user?: string;
+  /** Pending AUTH exchange waiting for the client's next line */
+  sasl?: { mechanism: string; user?: string; failed?: boolean };
+  /** Messages as they were at login; set once authenticated */
+  maildrop?: FakePop3Message[];
+  deleted: Set<number>;
+}
+
+function decode(value: string): string {
+  return Buffer.from(value, 'base64').toString('utf-8');
+}
+
+/**
+ * Minimal in-process POP3 server for tests
+ *
+ * Speaks CAPA, USER/PASS, APOP, AUTH PLAIN/LOGIN/XOAUTH2, STAT, LIST, UIDL,
+ * TOP, RETR, DELE, RSET, NOOP and QUIT. Like a real server, a session sees
+ * the maildrop as it was at login and deletions only apply on QUIT.
+ */
+export class FakePop3Server {
+  /** Commands received, e.g. `RETR 1` */
+  readonly commands: string[] = [];
+  readonly messages: FakePop3Message[] = [];
+  readonly sessions = new Set<Session>();
+  /** Command left unanswered the next time it arrives, as by a hung server */
+  stall?: string;
+  private server?: Server;
+  private connections = 0;
+
+  constructor(private readonly options: FakePop3ServerOptions = {}) {}
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+    return (this.server?.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const session of this.sessions) session.socket.destroy();
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  /**
+   * Add a message to the maildrop
+   */
+  deliver(uidl: string, content: string): void {
+    this.messages.push({ uidl, content });
+  }
+
+  private accept(socket: Socket): void {
+    this.connections += 1;
+    const session: Session = {
+      socket,
+      timestamp: `<${this.connections}.1704103200@fake.example.com>`,
+      deleted: new Set(),
+    };
+    this.sessions.add(session);
+    socket.on('close', () => this.sessions.delete(session));
+    socket.on('error', () => undefined);
+
+    let buffer = '';
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf-8');
+
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.handle(session, line);
+        end = buffer.indexOf('\r\n');
+      }
+    });
+
+    socket.write(
+      this.options.apop === false
+        ? '+OK Fake POP3 ready\r\n'
+        : `+OK Fake POP3 ready ${session.timestamp}\r\n`,
+    );
+  }
+
+  private handle(session: Session, line: string): void {
+    const { socket } = session;
+    const reply = (text: string): void => {
+      socket.write(`${text}\r\n`);
+    };
+    const multiline = (status: string, lines: string[]): void => {
+      const stuffed = lines.map((text) => (text.startsWith('.') ? `.${text}` : text));
+      socket.write(`${[`+OK ${status}`, ...stuffed, '.'].join('\r\n')}\r\n`);
+    };
+
+    if (session.sasl) {
+      this.continueSasl(session, line);
+      return;
+    }
+
+    this.commands.push(line);
+    const [verb = '', ...args] = line.split(' ');
+    if (verb === this.stall) {
+      this.stall = undefined;
+      return;
+    }
+    const maildrop = session.maildrop;
+
+    // Look up a message by number, answering -ERR when there is none
+    const message = (): FakePop3Message | undefined => {
+      const number = Number(args[0]);
+      const found = maildrop?.[number - 1];
+      if (!found || session.deleted.has(number)) {
+        reply('-ERR No such message');
+        return undefined;
+      }
+      return found;
+    };
+
+    switch (verb.toUpperCase()) {
+      case 'CAPA':
+        if (this.options.capa === false) {
+          reply('-ERR Unknown command');
+          return;
+        }
+        multiline('Capability list follows', [
+          ...(this.options.top === false ? [] : ['TOP']),
+          'USER',
+          ...(this.options.uidl === false ? [] : ['UIDL']),
+          `SASL ${(this.options.sasl ?? ['PLAIN', 'LOGIN', 'XOAUTH2']).join(' ')}`.trim(),
+        ]);
+        return;
+      case 'USER':
+        session.user = args[0];
+        reply('+OK');
+        return;
+      case 'PASS':
+        this.login(session, session.user === this.options.user && args[0] === this.options.pass);
+        return;
+      case 'APOP': {
+        const digest = createHash('md5')
+          .update(`${session.timestamp}${this.options.pass}`)
+          .digest('hex');
+        this.login(session, args[0] === this.options.user && args[1] === digest);
+        return;
+      }
+      case 'AUTH': {
+        const [mechanism = '', initial] = args;
+        session.sasl = { mechanism: mechanism.toUpperCase() };
+        if (initial !== undefined) {
+          this.continueSasl(session, initial);
+        } else {
+          reply(session.sasl.mechanism === 'LOGIN' ? '+ VXNlcm5hbWU6' : '+ ');
+        }
+        return;
+      }
+      case 'QUIT':
+        if (maildrop) {
+          for (const number of session.deleted) {
+            const index = this.messages.indexOf(maildrop[number - 1] as FakePop3Message);
+            if (index !== -1) this.messages.splice(index, 1);
+          }
+        }
+        reply('+OK Bye');
+        socket.end();
+        return;
+    }
+
+    if (!maildrop) {
+      reply('-ERR Not authenticated');
+      return;
+    }
+
+    const listing = (value: (message: FakePop3Message) => string): string[] =>
+      maildrop.flatMap((entry, index) =>
+        session.deleted.has(index + 1) ? [] : [`${index + 1} ${value(entry)}`],
+      );
+
+    switch (verb.toUpperCase()) {
+      case 'STAT':
+        reply(`+OK ${listing(() => '').length} 0`);
+        return;
+      case 'LIST':
+        multiline(
+          'Scan listing follows',
+          listing((entry) => String(size(entry))),
+        );
+        return;
+      case 'UIDL':
+        if (this.options.uidl === false) {
+          reply('-ERR Unknown command');
+          return;
+        }
+        multiline(
+          'Unique-ID listing follows',
+          listing((entry) => entry.uidl),
+        );
+        return;
+      case 'TOP': {
+        if (this.options.top === false) {
+          reply('-ERR Unknown command');
+          return;
+        }
+        const found = message();
+        if (!found) return;
+        const [headers = ''] = found.content.split('\n\n');
+        multiline('Top of message follows', [...headers.split('\n'), '']);
+        return;
+      }
+      case 'RETR': {
+        const found = message();
+        if (found) multiline('Message follows', found.content.replace(/\n$/, '').split('\n'));
+        return;
+      }
+      case 'DELE':
+        if (message()) {
+          session.deleted.add(Number(args[0]));
+          reply('+OK Marked for deletion');
+        }
+        return;
+      case 'RSET':
+        session.deleted.clear();
+        reply('+OK');
+        return;
+      case 'NOOP':
+        reply('+OK');
+        return;
+      default:
+        reply('-ERR Unknown command');
+    }
+  }
+
+  private login(session: Session, valid: boolean): void {
+    session.sasl = undefined;
+    if (!valid) {
+      session.socket.write('-ERR [AUTH] Invalid credentials\r\n');
+      return;
+    }
+    if (this.options.locked) {
+      session.socket.write('-ERR [IN-USE] Mailbox locked by another session\r\n');
+      return;
+    }
+    session.maildrop = [...this.messages];
+    session.socket.write(`+OK ${this.messages.length} messages\r\n`);
+  }
+
+  private continueSasl(session: Session, line: string): void {
+    const sasl = session.sasl as NonNullable<Session['sasl']>;
+    const { socket } = session;
+
+    switch (sasl.mechanism) {
+      case 'PLAIN':
+        this.login(session, decode(line) === `\0${this.options.user}\0${this.options.pass}`);
+        return;
+      case 'LOGIN':
+        if (sasl.user === undefined) {
+          sasl.user = decode(line);
+          socket.write('+ UGFzc3dvcmQ6\r\n');
+          return;
+        }
+        this.login(session, sasl.user === this.options.user && decode(line) === this.options.pass);
+        return;
+      case 'XOAUTH2': {
+        // Client acknowledged the error challenge
+        if (sasl.failed) {
+          this.login(session, false);
+          return;
+        }
+        const expected = `user=${this.options.user}\x01auth=Bearer ${this.options.accessToken}\x01\x01`;
+        if (decode(line) === expected) {
+          this.login(session, true);
+          return;
+        }
+        sasl.failed = true;
+        socket.write(`+ ${Buffer.from('{"status":"401"}').toString('base64')}\r\n`);
+        return;
+      }
+      default:
+        session.sasl = undefined;
+        socket.write('-ERR Unsupported mechanism\r\n');
+    }
+  }
+}
+
+/**
+ * Size of a message as sent, with CRLF line endings
+ */
+function size(message: FakePop3Message): number {
+  return Buffer.byteLength(message.content.replace(/\n/g, '\r\n'));
+}
@@ -0,0 +1,210 @@
+import { type Socket, connect as connectTcp } from 'node:net';
+import { type ConnectionOptions, connect as connectTls } from 'node:tls';
+import { NetworkError, ProviderError } from '@faktoor/core';
+import type { Pop3Response } from './protocol';
+import { Pop3ResponseReader } from './protocol';
+
+const DEFAULT_CONNECT_TIMEOUT = 30_000;
+
+// Response codes for conditions that clear up by themselves
+const TRANSIENT_CODES = new Set(['IN-USE', 'LOGIN-DELAY', 'SYS/TEMP']);
+
+/**
+ * Options for opening a POP3 connection
+ */
+export interface Pop3ConnectionOptions {
+  host: string;
+  port: number;
+  /** Wrap the socket in TLS from the start; STLS upgrades use `upgrade()` */
+  tls: boolean;
+  tlsOptions?: ConnectionOptions;
+  connectTimeout?: number;
+}
+
+/**
+ * Options for a single command
+ */
+export interface Pop3CommandOptions {
+  /** The command answers `+OK` with lines ending in `.`, e.g. RETR, UIDL */
+  multiline?: boolean;
+  /** Answer a `+ ` challenge during AUTH; the text is still base64 encoded */
+  onContinuation?: (text: string) => string;
+}
+
+/**
+ * Server answered a command with `-ERR`
+ */
+export class Pop3CommandError extends ProviderError {
+  readonly command: string;
+  /** Extended response code, e.g. `IN-USE`, `AUTH` */
+  readonly responseCode?: string;
+
+  constructor(command: string, response: Pop3Response) {
+    super('pop3', `${command} failed: ${response.text}`.trim(), {
+      retryable: response.code !== undefined && TRANSIENT_CODES.has(response.code),
+    });
+    this.name = 'Pop3CommandError';
+    this.command = command;
+    this.responseCode = response.code;
+  }
+}
+
+interface PendingResponse {
+  resolve: (response: Pop3Response) => void;
+  reject: (error: Error) => void;
+  onContinuation?: (text: string) => string;
+}
+
+/**
+ * A single POP3 connection
+ *
+ * Responses are matched to commands in order.
+ */
+export class Pop3Connection {
+  /** Called once when the connection closes */
+  onClose?: (error?: Error) => void;
+
+  private socket?: Socket;
+  private reader = new Pop3ResponseReader();
+  private pending: PendingResponse[] = [];
+  private closed = true;
+
+  constructor(private readonly options: Pop3ConnectionOptions) {}
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Connect and return the server's greeting
+   */
+  async open(): Promise<Pop3Response> {
+    const { host, port } = this.options;
+    const timeout = this.options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+
+    const socket = this.options.tls
+      ? connectTls({ host, port, servername: host, ...this.options.tlsOptions })
+      : connectTcp({ host, port });
+    this.attach(socket);
+    this.closed = false;
+
+    const greeting = this.expectResponse('Connect', false);
+    const timer = setTimeout(() => {
+      socket.destroy(new Error(`Timed out connecting to ${host}:${port}`));
+    }, timeout);
+
+    try {
+      return await greeting;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send a command and wait for its response, throwing on `-ERR`
+   */
+  command(line: string, options: Pop3CommandOptions = {}): Promise<Pop3Response> {
+    const socket = this.socket;
+    if (this.closed || !socket) {
+      return Promise.reject(new NetworkError('POP3 connection is closed'));
+    }
+
+    // Name the command without its arguments, which may be credentials
+    const name = line.split(' ')[0]?.toUpperCase() ?? line;
+    const response = this.expectResponse(name, options.multiline ?? false, options.onContinuation);
+    socket.write(`${line}\r\n`);
+    return response;
+  }
+
+  /**
+   * Wrap the plain socket in TLS after a `+OK` to STLS
+   */
+  async upgrade(): Promise<void> {
+    const plain = this.socket as Socket;
+    const { host } = this.options;
+
+    // From here on the TLS socket reads from the plain one
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+
+    try {
+      const secure = await new Promise<Socket>((resolve, reject) => {
+        const socket = connectTls(
+          { socket: plain, servername: host, ...this.options.tlsOptions },
+          () => resolve(socket),
+        );
+        socket.once('error', reject);
+      });
+      this.attach(secure);
+    } catch (error) {
+      this.closed = true;
+      plain.destroy();
+      throw new NetworkError(`STLS negotiation with ${host} failed`, error as Error);
+    }
+  }
+
+  /**
+   * Close the socket without QUIT, which discards messages marked for deletion
+   */
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private expectResponse(
+    command: string,
+    multiline: boolean,
+    onContinuation?: (text: string) => string,
+  ): Promise<Pop3Response> {
+    this.reader.expect(multiline);
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        resolve: (response) =>
+          response.status === 'OK'
+            ? resolve(response)
+            : reject(new Pop3CommandError(command, response)),
+        reject,
+        onContinuation,
+      });
+    });
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    this.reader = new Pop3ResponseReader();
+
+    socket.on('data', (chunk: Uint8Array) => {
+      // Ignore data from a socket replaced by STLS
+      if (this.socket !== socket) return;
+      try {
+        for (const response of this.reader.push(chunk)) {
+          if (response.status === 'CONTINUE') {
+            // `*` cancels an exchange nobody expected
+            const answer = this.pending[0]?.onContinuation?.(response.text) ?? '*';
+            socket.write(`${answer}\r\n`);
+            continue;
+          }
+          this.pending.shift()?.resolve(response);
+        }
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+
+    let cause: Error | undefined;
+    socket.on('error', (error) => {
+      // Reported through 'close'
+      cause = error;
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.closed = true;
+      const error = new NetworkError(
+        cause ? `POP3 connection closed: ${cause.message}` : 'POP3 connection closed',
+        cause,
+      );
+      for (const pending of this.pending.splice(0)) pending.reject(error);
+      this.onClose?.(error);
+    });
+  }
+}
@@ -0,0 +1,21 @@
+// Provider
+export { pop3, Pop3Provider } from './provider';
+
+// Connection
+export { Pop3CommandError } from './connection';
+
+// Types
+export type { Pop3Email, Pop3OAuthAuth, Pop3Options, Pop3PasswordAuth } from './types';
+
+// Re-export core types for convenience
+export type {
+  Email,
+  EmailId,
+  Folder,
+  FolderName,
+  ListOptions,
+  ListPage,
+  SendOptions,
+  GetOptions,
+  MailProvider,
+} from '@faktoor/core';
@@ -0,0 +1,127 @@
+import type { Address, EmailId, FolderName, ListOptions, ThreadId } from '@faktoor/core';
+import { parseMimeMessage } from '@faktoor/parser';
+import type { Pop3Email } from './types';
+
+/**
+ * A message in the maildrop, as listed by UIDL and LIST
+ */
+export interface MaildropEntry {
+  /** Message number, only valid for the session that listed it */
+  number: number;
+  uidl: string;
+  size: number;
+}
+
+/**
+ * When the message reached the mailbox: the date of the newest Received
+ * header, which the receiving server adds on top
+ */
+function receivedDate(headers: Map<string, string>): Date | undefined {
+  const received = headers.get('received');
+  const separator = received?.lastIndexOf(';') ?? -1;
+  if (!received || separator === -1) return undefined;
+
+  const date = new Date(received.slice(separator + 1).trim());
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a message, or only its headers from TOP, into an email
+ *
+ * POP3 has no flags, so every message reads as unread, unstarred and unlabelled.
+ */
+export function toEmail(
+  raw: Uint8Array,
+  entry: MaildropEntry,
+  options: { full: boolean; includeRaw?: boolean },
+): Pop3Email {
+  const message = parseMimeMessage(raw);
+  const date = message.date ?? receivedDate(message.headers) ?? new Date(0);
+
+  return {
+    id: entry.uidl as EmailId,
+    uidl: entry.uidl,
+    size: entry.size,
+    // No thread ids in POP3: group by the first message of the reference chain
+    threadId: (message.references[0] ??
+      message.inReplyTo ??
+      message.messageId ??
+      entry.uidl) as ThreadId,
+    folder: 'INBOX' as FolderName,
+    from: message.from ?? { email: '' },
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    replyTo: message.replyTo,
+    subject: message.subject,
+    body: options.full ? { text: message.text, html: message.html } : { text: '', html: null },
+    date,
+    receivedAt: receivedDate(message.headers) ?? date,
+    isRead: false,
+    isStarred: false,
+    isDraft: false,
+    labels: [],
+    attachments: options.full
+      ? message.attachments.map(({ partId, filename, mimeType, size }) => ({
+          id: partId,
+          filename,
+          mimeType,
+          size,
+        }))
+      : [],
+    headers: message.headers,
+    inReplyTo: message.inReplyTo as EmailId | undefined,
+    references: message.references as EmailId[],
+    raw: options.includeRaw ? new TextDecoder().decode(raw) : undefined,
+  };
+}
+
+function includes(haystack: string | undefined, needle: string): boolean {
+  return (haystack ?? '').toLowerCase().includes(needle.toLowerCase());
+}
+
+function matchesAddress(addresses: Address[], needle: string): boolean {
+  return addresses.some(
+    (address) => includes(address.email, needle) || includes(address.name, needle),
+  );
+}
+
+/**
+ * Whether the options filter on headers, which TOP can answer
+ */
+export function needsHeaders(options: ListOptions): boolean {
+  return Boolean(options.from || options.to || options.subject || options.after || options.before);
+}
+
+/**
+ * Whether the options filter on the body, which needs the whole message
+ */
+export function needsContent(options: ListOptions): boolean {
+  return Boolean(options.query || options.hasAttachment);
+}
+
+/**
+ * Filters answered by the headers
+ */
+export function matchesHeaders(email: Pop3Email, options: ListOptions): boolean {
+  if (options.from && !matchesAddress([email.from], options.from)) return false;
+  if (options.to && !matchesAddress([...email.to, ...email.cc, ...email.bcc], options.to)) {
+    return false;
+  }
+  if (options.subject && !includes(email.subject, options.subject)) return false;
+  if (options.after && email.receivedAt < options.after) return false;
+  return !options.before || email.receivedAt < options.before;
+}
+
+/**
+ * Filters that need the whole message
+ */
+export function matchesContent(email: Pop3Email, options: ListOptions): boolean {
+  if (options.hasAttachment && !email.attachments.length) return false;
+  return (
+    !options.query ||
+    includes(email.subject, options.query) ||
+    includes(email.body.text, options.query) ||
+    matchesAddress([email.from, ...email.to], options.query)
+  );
+}
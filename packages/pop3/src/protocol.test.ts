@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Pop3ResponseReader,
+  apopDigest,
+  apopTimestamp,
+  parseCapabilities,
+  parseListing,
+} from './protocol';
+
+describe('Pop3ResponseReader', () => {
+  it('should collect multi-line responses split across chunks, removing dot-stuffing', () => {
+    const reader = new Pop3ResponseReader();
+    reader.expect(true);
+
+    expect(reader.push('+OK Message follows\r\nSubject: Hi\r\n\r\n..hidden\r')).toEqual([]);
+    expect(reader.push('\n.\r\n')).toEqual([
+      { status: 'OK', text: 'Message follows', lines: ['Subject: Hi', '', '.hidden'] },
+    ]);
+  });
+
+  it('should end a multi-line command at -ERR', () => {
+    const reader = new Pop3ResponseReader();
+    reader.expect(true);
+    reader.expect(false);
+
+    expect(reader.push('-ERR No such message\r\n+OK\r\n')).toEqual([
+      { status: 'ERR', text: 'No such message', lines: [] },
+      { status: 'OK', text: '', lines: [] },
+    ]);
+  });
+
+  it('should split extended response codes from the text', () => {
+    const reader = new Pop3ResponseReader();
+    reader.expect(false);
+
+    expect(reader.push('-ERR [IN-USE] Mailbox locked\r\n')).toEqual([
+      { status: 'ERR', code: 'IN-USE', text: 'Mailbox locked', lines: [] },
+    ]);
+  });
+
+  it('should report AUTH challenges without ending the command', () => {
+    const reader = new Pop3ResponseReader();
+    reader.expect(false);
+
+    expect(reader.push('+ VXNlcm5hbWU6\r\n')).toEqual([
+      { status: 'CONTINUE', text: 'VXNlcm5hbWU6', lines: [] },
+    ]);
+    expect(reader.push('+OK Logged in\r\n')).toEqual([
+      { status: 'OK', text: 'Logged in', lines: [] },
+    ]);
+  });
+
+  it('should keep 8-bit bytes as latin1 characters', () => {
+    const reader = new Pop3ResponseReader();
+    reader.expect(true);
+
+    const [response] = reader.push(Buffer.from('+OK\r\nCaf\xc3\xa9\r\n.\r\n', 'latin1'));
+    expect(Buffer.from(response?.lines[0] ?? '', 'latin1').toString('utf-8')).toBe('Café');
+  });
+
+  it('should reject lines without a status', () => {
+    expect(() => new Pop3ResponseReader().push('hello\r\n')).toThrow(/Malformed POP3 response/);
+  });
+});
+
+describe('parseCapabilities', () => {
+  it('should read capability names and parameters', () => {
+    const capabilities = parseCapabilities([
+      'TOP',
+      'uidl',
+      'SASL PLAIN XOAUTH2',
+      'LOGIN-DELAY 900',
+    ]);
+
+    expect([...capabilities]).toEqual([
+      ['TOP', []],
+      ['UIDL', []],
+      ['SASL', ['PLAIN', 'XOAUTH2']],
+      ['LOGIN-DELAY', ['900']],
+    ]);
+  });
+});
+
+describe('parseListing', () => {
+  it('should read message numbers and values', () => {
+    expect(parseListing(['1 whqtswO00WBw418f9t5JxYwZ', '2 QhdPYR:00WBw1Ph7x7', 'junk'])).toEqual([
+      [1, 'whqtswO00WBw418f9t5JxYwZ'],
+      [2, 'QhdPYR:00WBw1Ph7x7'],
+    ]);
+  });
+});
+
+describe('APOP', () => {
+  it('should digest the greeting timestamp and password (RFC 1939 example)', () => {
+    const timestamp = apopTimestamp('POP3 server ready <1896.697170952@dbc.mtview.ca.us>');
+
+    expect(timestamp).toBe('<1896.697170952@dbc.mtview.ca.us>');
+    expect(apopDigest(timestamp as string, 'tanstaaf')).toBe('c4c9334bac560ecc979e58001b3e22fb');
+    expect(apopTimestamp('POP3 server ready')).toBeUndefined();
+  });
+});
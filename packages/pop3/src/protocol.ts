@@ -0,0 +1,135 @@
+import { createHash } from 'node:crypto';
+import { ProviderError } from '@faktoor/core';
+
+/**
+ * A complete POP3 response
+ */
+export interface Pop3Response {
+  /** `CONTINUE` is a `+ ` challenge during AUTH */
+  status: 'OK' | 'ERR' | 'CONTINUE';
+  /** Extended response code (RFC 2449, RFC 3206), e.g. `IN-USE`, `SYS/TEMP` */
+  code?: string;
+  /** Text of the status line, without the status and response code */
+  text: string;
+  /** Lines of a multi-line response as binary strings, with dot-stuffing removed */
+  lines: string[];
+}
+
+const STATUS_LINE = /^(\+OK|-ERR)(?:\s+(.*))?$/i;
+const RESPONSE_CODE = /^\[([^\]]*)\]\s*/;
+
+/**
+ * Parse a status line, e.g. `-ERR [IN-USE] Mailbox locked`
+ */
+function parseStatusLine(line: string): Pop3Response {
+  if (line === '+' || line.startsWith('+ ')) {
+    return { status: 'CONTINUE', text: line.slice(2), lines: [] };
+  }
+
+  const match = STATUS_LINE.exec(line);
+  if (!match) {
+    throw new ProviderError('pop3', `Malformed POP3 response: ${line}`);
+  }
+
+  const status = match[1]?.toUpperCase() === '+OK' ? 'OK' : 'ERR';
+  const rest = match[2] ?? '';
+  const code = RESPONSE_CODE.exec(rest);
+  return code
+    ? { status, code: code[1]?.toUpperCase(), text: rest.slice(code[0].length), lines: [] }
+    : { status, text: rest, lines: [] };
+}
+
+/**
+ * Splits server output into responses
+ *
+ * Whether a `+OK` starts a multi-line response depends on the command, so
+ * the connection announces each expected response with `expect()`. Data is
+ * read as latin1, keeping message bytes intact.
+ */
+export class Pop3ResponseReader {
+  private buffer = '';
+  private expected: boolean[] = [];
+  private current?: Pop3Response;
+
+  /**
+   * Announce the response to the next command
+   */
+  expect(multiline: boolean): void {
+    this.expected.push(multiline);
+  }
+
+  push(chunk: Uint8Array | string): Pop3Response[] {
+    this.buffer += typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('latin1');
+    const responses: Pop3Response[] = [];
+
+    let start = 0;
+    let end = this.buffer.indexOf('\n');
+    while (end !== -1) {
+      const line = this.buffer.slice(start, end).replace(/\r$/, '');
+      start = end + 1;
+      end = this.buffer.indexOf('\n', start);
+
+      if (this.current) {
+        if (line === '.') {
+          responses.push(this.current);
+          this.current = undefined;
+        } else {
+          this.current.lines.push(line.startsWith('.') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const response = parseStatusLine(line);
+      // A challenge does not end the AUTH command
+      if (response.status === 'CONTINUE') {
+        responses.push(response);
+        continue;
+      }
+
+      const multiline = this.expected.shift() ?? false;
+      if (multiline && response.status === 'OK') this.current = response;
+      else responses.push(response);
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return responses;
+  }
+}
+
+/**
+ * Read a CAPA response, e.g. `SASL PLAIN XOAUTH2` -> `SASL` -> `['PLAIN', 'XOAUTH2']`
+ */
+export function parseCapabilities(lines: string[]): Map<string, string[]> {
+  const capabilities = new Map<string, string[]>();
+  for (const line of lines) {
+    const [name, ...params] = line.trim().split(/\s+/);
+    if (name) capabilities.set(name.toUpperCase(), params);
+  }
+  return capabilities;
+}
+
+/**
+ * Read a LIST or UIDL response into message numbers and values, e.g. `1 120` -> `[1, '120']`
+ */
+export function parseListing(lines: string[]): Array<[number, string]> {
+  const entries: Array<[number, string]> = [];
+  for (const line of lines) {
+    const [number, value] = line.trim().split(/\s+/);
+    if (number && value && /^\d+$/.test(number)) entries.push([Number(number), value]);
+  }
+  return entries;
+}
+
+/**
+ * Find the APOP timestamp in the server's greeting, e.g. `<1896.697170952@dbc.mtview.ca.us>`
+ */
+export function apopTimestamp(greeting: string): string | undefined {
+  return /<[^<>\s]+@[^<>\s]+>/.exec(greeting)?.[0];
+}
+
+/**
+ * Digest sent with APOP instead of the password (RFC 1939 section 7)
+ */
+export function apopDigest(timestamp: string, pass: string): string {
+  return createHash('md5').update(`${timestamp}${pass}`, 'utf8').digest('hex');
+}
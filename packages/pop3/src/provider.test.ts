@@ -0,0 +1,307 @@
+import type { WatchEvent, WatchHandle } from '@faktoor/core';
+import { AuthenticationError, NotFoundError, UnsupportedOperationError } from '@faktoor/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FakePop3ServerOptions } from './__fixtures__/fake-server';
+import { FakePop3Server } from './__fixtures__/fake-server';
+import { Pop3CommandError } from './connection';
+import { Pop3Provider } from './provider';
+import type { Pop3Options } from './types';
+
+const message = (subject: string, from: string, received: string, body = 'Hi there') =>
+  [
+    `Received: from mx.example.com by pop.example.com; ${received}`,
+    `From: ${from}`,
+    'To: bob@example.com',
+    `Subject: ${subject}`,
+    'Date: Mon, 1 Jan 2024 09:00:00 +0000',
+    `Message-ID: <${subject.toLowerCase()}@example.com>`,
+    '',
+    body,
+    '',
+  ].join('\n');
+
+describe('Pop3Provider', () => {
+  let server: FakePop3Server;
+  let provider: Pop3Provider;
+  let port: number;
+
+  const createProvider = async (
+    overrides: Partial<Pop3Options> = {},
+    serverOptions: FakePop3ServerOptions = {},
+  ) => {
+    server = new FakePop3Server({
+      user: 'bob',
+      pass: 'secret',
+      accessToken: 'token',
+      ...serverOptions,
+    });
+    server.deliver('uid-1', message('Invoice', 'Alice <alice@example.com>', 'Mon, 1 Jan 2024'));
+    server.deliver(
+      'uid-2',
+      message('Minutes', 'Carol <carol@example.com>', 'Tue, 2 Jan 2024 10:00:00 +0000', 'Agenda'),
+    );
+    server.deliver(
+      'uid-3',
+      message('Lunch', 'Alice <alice@example.com>', 'Wed, 3 Jan 2024 10:00:00 +0000', '.dot'),
+    );
+    port = await server.start();
+    provider = new Pop3Provider({
+      host: '127.0.0.1',
+      port,
+      security: 'none',
+      auth: { user: 'bob', pass: 'secret' },
+      ...overrides,
+    });
+    return provider;
+  };
+
+  afterEach(async () => {
+    await provider?.disconnect();
+    await server?.stop();
+  });
+
+  describe('authentication', () => {
+    it('should use SASL PLAIN when the server offers it', async () => {
+      await createProvider();
+      await provider.connect();
+
+      expect(server.commands.slice(0, 2)).toEqual(['CAPA', expect.stringMatching(/^AUTH PLAIN /)]);
+      expect(provider.serverCapabilities.get('SASL')).toEqual(['PLAIN', 'LOGIN', 'XOAUTH2']);
+    });
+
+    it('should use APOP when the greeting has a timestamp and SASL is not offered', async () => {
+      await createProvider({}, { sasl: [] });
+      await provider.connect();
+
+      expect(server.commands[1]).toMatch(/^APOP bob [0-9a-f]{32}$/);
+    });
+
+    it('should fall back to USER/PASS for servers without CAPA', async () => {
+      await createProvider({}, { capa: false, apop: false });
+      await provider.connect();
+
+      expect(server.commands.slice(0, 3)).toEqual(['CAPA', 'USER bob', 'PASS secret']);
+    });
+
+    it('should answer AUTH LOGIN and XOAUTH2 challenges', async () => {
+      await createProvider({ auth: { user: 'bob', pass: 'secret', method: 'LOGIN' } });
+      await provider.connect();
+      expect(provider.isConnected()).toBe(true);
+      await provider.disconnect();
+
+      provider = new Pop3Provider({
+        host: '127.0.0.1',
+        port,
+        security: 'none',
+        auth: { user: 'bob', accessToken: 'token' },
+      });
+      await provider.connect();
+      expect(server.commands).toContain(
+        `AUTH XOAUTH2 ${Buffer.from('user=bob\x01auth=Bearer token\x01\x01').toString('base64')}`,
+      );
+    });
+
+    it('should report bad credentials and locked mailboxes differently', async () => {
+      await createProvider({ auth: { user: 'bob', pass: 'wrong' } });
+      await expect(provider.connect()).rejects.toBeInstanceOf(AuthenticationError);
+      await server.stop();
+
+      await createProvider({}, { locked: true });
+      const error = await provider.connect().catch((error: unknown) => error);
+      expect(error).toBeInstanceOf(Pop3CommandError);
+      expect(error).toMatchObject({ responseCode: 'IN-USE', retryable: true });
+    });
+  });
+
+  describe('reading', () => {
+    it('should list messages newest first with UIDL ids', async () => {
+      await createProvider();
+      const emails = await provider.list();
+
+      expect(
+        emails.map(({ id, subject, size, isRead, folder }) => ({
+          id,
+          subject,
+          size,
+          isRead,
+          folder,
+        })),
+      ).toEqual([
+        { id: 'uid-3', subject: 'Lunch', size: expect.any(Number), isRead: false, folder: 'INBOX' },
+        {
+          id: 'uid-2',
+          subject: 'Minutes',
+          size: expect.any(Number),
+          isRead: false,
+          folder: 'INBOX',
+        },
+        {
+          id: 'uid-1',
+          subject: 'Invoice',
+          size: expect.any(Number),
+          isRead: false,
+          folder: 'INBOX',
+        },
+      ]);
+      expect(emails[0]?.body.text).toBe('.dot\r\n');
+      expect(emails[1]?.receivedAt).toEqual(new Date('2024-01-02T10:00:00Z'));
+      expect(emails[1]?.date).toEqual(new Date('2024-01-01T09:00:00Z'));
+    });
+
+    it('should filter on headers with TOP and only download the page', async () => {
+      await createProvider();
+      const emails = await provider.list({ from: 'alice', limit: 1 });
+
+      expect(emails.map((email) => email.subject)).toEqual(['Lunch']);
+      expect(server.commands.filter((command) => /^(TOP|RETR)/.test(command))).toEqual([
+        'TOP 3 0',
+        'TOP 2 0',
+        'TOP 1 0',
+        'RETR 3',
+      ]);
+
+      const page = await provider.listPage({ from: 'alice', limit: 1, offset: 1 });
+      expect(page.emails.map((email) => email.subject)).toEqual(['Invoice']);
+      expect(page.totalEstimate).toBe(2);
+      // Headers are cached by UIDL
+      expect(server.commands.filter((command) => command.startsWith('TOP'))).toHaveLength(3);
+    });
+
+    it('should honor query, date and label filters and pages', async () => {
+      await createProvider();
+      const subjects = async (options: Parameters<Pop3Provider['list']>[0]) =>
+        (await provider.list(options)).map((email) => email.subject);
+
+      expect(await subjects({ query: 'agenda' })).toEqual(['Minutes']);
+      expect(await subjects({ after: new Date('2024-01-02T00:00:00Z') })).toEqual([
+        'Lunch',
+        'Minutes',
+      ]);
+      expect(await subjects({ labels: ['work'] })).toEqual([]);
+
+      const first = await provider.listPage({ limit: 2 });
+      const second = await provider.listPage({ limit: 2, cursor: first.nextCursor });
+      expect(second.emails.map((email) => email.subject)).toEqual(['Invoice']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should get metadata with TOP and full messages with RETR', async () => {
+      await createProvider();
+
+      const metadata = await provider.get('uid-2', { format: 'metadata' });
+      expect(metadata).toMatchObject({ subject: 'Minutes', body: { text: '', html: null } });
+      expect(server.commands).toContain('TOP 2 0');
+
+      const full = await provider.get('uid-2', { includeRaw: true });
+      expect(full.body.text).toBe('Agenda\r\n');
+      expect(full.raw).toContain('Subject: Minutes\r\n');
+      await expect(provider.get('uid-9')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should drop the connection when a call is aborted', async () => {
+      await createProvider();
+      await provider.connect();
+      server.stall = 'RETR';
+      const controller = new AbortController();
+
+      const stuck = provider.get('uid-2', { signal: controller.signal });
+      await vi.waitFor(() => expect(server.stall).toBeUndefined());
+      controller.abort(new Error('Timed out'));
+
+      await expect(stuck).rejects.toThrow('Timed out');
+      expect((await provider.get('uid-2')).subject).toBe('Minutes');
+      expect(server.commands.filter((command) => command.startsWith('AUTH'))).toHaveLength(2);
+    });
+
+    it('should fall back to RETR for servers without TOP', async () => {
+      await createProvider({}, { top: false });
+      await provider.get('uid-1', { format: 'metadata' });
+
+      expect(server.commands).toContain('RETR 1');
+      expect(server.commands.some((command) => command.startsWith('TOP'))).toBe(false);
+    });
+
+    it('should refuse servers without UIDL', async () => {
+      await createProvider({}, { uidl: false });
+
+      await expect(provider.connect()).rejects.toThrow(/does not support UIDL/);
+    });
+  });
+
+  describe('folders and mutations', () => {
+    it('should only have an inbox', async () => {
+      await createProvider();
+
+      expect(await provider.listFolders()).toEqual([
+        { name: 'INBOX', path: 'INBOX', type: 'inbox', unreadCount: 3, totalCount: 3 },
+      ]);
+      await expect(provider.getFolder('Sent')).rejects.toBeInstanceOf(NotFoundError);
+      await expect(provider.list({ folder: 'archive' })).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should delete with DELE and commit with QUIT', async () => {
+      await createProvider();
+      await provider.delete('uid-2');
+
+      expect(server.commands.slice(-2)).toEqual(['DELE 2', 'QUIT']);
+      expect(server.messages.map((entry) => entry.uidl)).toEqual(['uid-1', 'uid-3']);
+      expect((await provider.list()).map((email) => email.id)).toEqual(['uid-3', 'uid-1']);
+    });
+
+    it('should reject what POP3 cannot do', async () => {
+      await createProvider();
+      const operations = [
+        provider.markAsRead('uid-1'),
+        provider.markAsUnread('uid-1'),
+        provider.star('uid-1'),
+        provider.unstar('uid-1'),
+        provider.addLabel('uid-1', 'work'),
+        provider.removeLabel('uid-1', 'work'),
+        provider.move('uid-1', 'archive'),
+        provider.createFolder('Projects'),
+        provider.deleteFolder('Projects'),
+        provider.send({ to: 'alice@example.com', subject: 'Hi' }),
+      ];
+
+      for (const operation of operations) {
+        await expect(operation).rejects.toBeInstanceOf(UnsupportedOperationError);
+      }
+      await expect(provider.star('uid-1')).rejects.toMatchObject({
+        operation: 'star',
+        message: 'Cannot star messages: POP3 does not store flags or labels',
+      });
+      expect(provider.capabilities).toMatchObject({ flags: false, folders: false, move: 'none' });
+    });
+  });
+
+  describe('watch', () => {
+    let handle: WatchHandle | undefined;
+
+    afterEach(() => {
+      handle?.stop();
+    });
+
+    it('should log in again to report new and deleted messages', async () => {
+      await createProvider();
+      const events: WatchEvent[] = [];
+      handle = provider.watch({ interval: 20 });
+      void (async () => {
+        for await (const event of handle as WatchHandle) events.push(event);
+      })();
+
+      // Let the first check record what is there
+      await vi.waitFor(() => expect(server.commands).toContain('LIST'));
+      server.deliver('uid-4', message('Fresh', 'Dave <dave@example.com>', 'Thu, 4 Jan 2024'));
+      server.messages.splice(0, 1);
+
+      await vi.waitFor(() =>
+        expect(
+          events.map((event) =>
+            event.type === 'new' ? [event.type, event.email.subject] : [event.type],
+          ),
+        ).toEqual([['deleted'], ['new', 'Fresh']]),
+      );
+      expect(events[0]).toEqual({ type: 'deleted', id: 'uid-1' });
+    });
+  });
+});
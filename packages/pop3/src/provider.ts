@@ -0,0 +1,596 @@
+import type {
+  CallOptions,
+  EmailId,
+  Folder,
+  FolderName,
+  GetOptions,
+  ListOptions,
+  ListPage,
+  MailProvider,
+  ProviderCapabilities,
+  SendOptions,
+  SendResult,
+  StreamOptions,
+  WatchEvent,
+  WatchHandle,
+  WatchOptions,
+} from '@faktoor/core';
+import {
+  AuthenticationError,
+  NotFoundError,
+  ProviderError,
+  UnsupportedOperationError,
+  abortable,
+  createWatchHandle,
+  decodeCursor,
+  encodeCursor,
+} from '@faktoor/core';
+import { Pop3CommandError, Pop3Connection } from './connection';
+import type { MaildropEntry } from './messages';
+import { matchesContent, matchesHeaders, needsContent, needsHeaders, toEmail } from './messages';
+import type { Pop3Response } from './protocol';
+import { apopDigest, apopTimestamp, parseCapabilities, parseListing } from './protocol';
+import type { Pop3Email, Pop3Options } from './types';
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_WATCH_INTERVAL = 60_000;
+// Longest command line that may carry a SASL initial response (RFC 5034)
+const MAX_INITIAL_RESPONSE_LINE = 255;
+
+const ONLY_INBOX = 'a POP3 mailbox only has an inbox';
+const NO_FLAGS = 'POP3 does not store flags or labels';
+
+function unsupported(operation: string, action: string, reason: string): UnsupportedOperationError {
+  return new UnsupportedOperationError('pop3', operation, `Cannot ${action}: ${reason}`);
+}
+
+function toBase64(value: string): string {
+  return Buffer.from(value, 'utf-8').toString('base64');
+}
+
+/**
+ * Bytes of a message sent by RETR or TOP
+ */
+function messageBytes(response: Pop3Response): Uint8Array {
+  return Buffer.from(`${response.lines.join('\r\n')}\r\n`, 'latin1');
+}
+
+/**
+ * POP3 provider implementation
+ *
+ * Email ids are the server's UIDLs, so they stay valid across sessions. A
+ * session only sees the mailbox as it was at login; `watch()` logs in again
+ * on every check to see new mail.
+ */
+export class Pop3Provider implements MailProvider {
+  readonly name = 'pop3';
+  readonly capabilities: ProviderCapabilities = {
+    watch: true,
+    threads: false,
+    drafts: false,
+    send: false,
+    folders: false,
+    labels: false,
+    flags: false,
+    organization: 'folders',
+    move: 'none',
+    serverSearch: false,
+    batch: false,
+  };
+  private connection?: Pop3Connection;
+  private connecting?: Promise<Pop3Connection>;
+  private extensions = new Map<string, string[]>();
+  // Messages of the current session, newest first
+  private maildrop: MaildropEntry[] = [];
+  // Headers by UIDL; messages on a POP3 server never change
+  private headerCache = new Map<string, Uint8Array>();
+  // Message numbers are only valid within a session, so tasks never interleave
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: Pop3Options) {}
+
+  async connect(call: CallOptions = {}): Promise<void> {
+    await abortable(this.session(), call.signal);
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connection) await this.quit(this.connection);
+  }
+
+  isConnected(): boolean {
+    return this.connection?.isOpen ?? false;
+  }
+
+  /**
+   * Capabilities announced by the server through CAPA, e.g. `TOP`, `SASL` -> `['PLAIN']`
+   */
+  get serverCapabilities(): ReadonlyMap<string, string[]> {
+    return this.extensions;
+  }
+
+  async list(options: ListOptions = {}): Promise<Pop3Email[]> {
+    return (await this.listPage(options)).emails;
+  }
+
+  /**
+   * List messages newest first
+   *
+   * Header and date filters read the headers of every message with TOP, once
+   * per message. `query` and `hasAttachment` download every message.
+   */
+  async listPage(options: ListOptions = {}): Promise<ListPage<Pop3Email>> {
+    this.resolveFolder(options.folder ?? 'inbox');
+
+    return this.exclusive(async (connection) => {
+      // Nothing carries labels, and nothing is ever read
+      let candidates = options.labels?.length ? [] : this.maildrop;
+      const loaded = new Map<string, Pop3Email>();
+
+      if (needsHeaders(options)) {
+        const matching: MaildropEntry[] = [];
+        for (const entry of candidates) {
+          const email = toEmail(await this.top(connection, entry), entry, { full: false });
+          if (matchesHeaders(email, options)) matching.push(entry);
+        }
+        candidates = matching;
+      }
+
+      if (needsContent(options)) {
+        const matching: MaildropEntry[] = [];
+        for (const entry of candidates) {
+          const email = await this.retrieve(connection, entry);
+          if (!matchesContent(email, options)) continue;
+          matching.push(entry);
+          loaded.set(entry.uidl, email);
+        }
+        candidates = matching;
+      }
+
+      const offset = options.cursor
+        ? decodeCursor<{ offset: number }>(options.cursor).offset
+        : (options.offset ?? 0);
+      const end = offset + (options.limit ?? DEFAULT_LIMIT);
+
+      const emails: Pop3Email[] = [];
+      for (const entry of candidates.slice(offset, end)) {
+        emails.push(loaded.get(entry.uidl) ?? (await this.retrieve(connection, entry)));
+      }
+
+      return {
+        emails,
+        nextCursor: end < candidates.length ? encodeCursor({ offset: end }) : undefined,
+        totalEstimate: candidates.length,
+      };
+    }, options.signal);
+  }
+
+  /**
+   * Get a message; `format: 'metadata'` only downloads its headers with TOP
+   */
+  async get(id: EmailId | string, options: GetOptions = {}): Promise<Pop3Email> {
+    return this.exclusive(async (connection) => {
+      const entry = this.find(id);
+      if ((options.format ?? 'full') === 'full') {
+        return this.retrieve(connection, entry, options.includeRaw);
+      }
+      return toEmail(await this.top(connection, entry), entry, {
+        full: false,
+        includeRaw: options.includeRaw,
+      });
+    }, options.signal);
+  }
+
+  async *stream(options: StreamOptions = {}): AsyncIterable<Pop3Email> {
+    const limit = options.batchSize ?? DEFAULT_LIMIT;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage({ ...options, limit, cursor });
+      cursor = page.nextCursor;
+      yield* page.emails;
+    } while (cursor);
+  }
+
+  /**
+   * Watch the mailbox by logging in again every `interval` (default: 1 minute)
+   *
+   * New UIDLs are reported as new messages and missing ones as deleted. The
+   * interval is raised to the server's LOGIN-DELAY when it announces one.
+   */
+  watch(options: WatchOptions = {}): WatchHandle {
+    const interval = options.interval ?? DEFAULT_WATCH_INTERVAL;
+
+    return createWatchHandle((emitter) => {
+      let known: Set<string> | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const sync = async (): Promise<void> => {
+        this.resolveFolder(options.folder ?? 'inbox');
+
+        const events = await this.exclusive(
+          async (connection) => {
+            const report = known !== undefined || (options.includeExisting ?? false);
+            const previous = known ?? new Set<string>();
+            const current = new Set(this.maildrop.map((entry) => entry.uidl));
+
+            const events: WatchEvent[] = [];
+            if (report) {
+              for (const uidl of previous) {
+                if (!current.has(uidl)) events.push({ type: 'deleted', id: uidl as EmailId });
+              }
+              // Oldest first, the order messages arrived in
+              for (const entry of [...this.maildrop].reverse()) {
+                if (previous.has(entry.uidl)) continue;
+                events.push({ type: 'new', email: await this.retrieve(connection, entry) });
+              }
+            }
+
+            // Only move on once everything was read, so a failed sync is retried in full
+            known = current;
+            return events;
+          },
+          undefined,
+          true,
+        );
+
+        for (const event of events) emitter.emit(event);
+      };
+
+      const tick = async (): Promise<void> => {
+        try {
+          await sync();
+        } catch (error) {
+          emitter.emit({
+            type: 'error',
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+        const loginDelay = Number(this.extensions.get('LOGIN-DELAY')?.[0] ?? 0) * 1000;
+        if (!emitter.stopped) timer = setTimeout(tick, Math.max(interval, loginDelay));
+      };
+
+      void tick();
+      return () => clearTimeout(timer);
+    });
+  }
+
+  async send(_options: SendOptions): Promise<SendResult> {
+    throw new UnsupportedOperationError(
+      'pop3',
+      'send',
+      'POP3 cannot send email; configure an SMTP transport from @faktoor/smtp',
+    );
+  }
+
+  async listFolders(call: CallOptions = {}): Promise<Folder[]> {
+    return [await this.getFolder('inbox', call)];
+  }
+
+  async getFolder(name: FolderName | string, call: CallOptions = {}): Promise<Folder> {
+    const folder = this.resolveFolder(name);
+    const total = await this.exclusive(async () => this.maildrop.length, call.signal);
+    return {
+      name: folder as FolderName,
+      path: folder,
+      type: 'inbox',
+      unreadCount: total,
+      totalCount: total,
+    };
+  }
+
+  async createFolder(_name: string): Promise<Folder> {
+    throw unsupported('createFolder', 'create folders', ONLY_INBOX);
+  }
+
+  async deleteFolder(_name: FolderName | string): Promise<void> {
+    throw unsupported('deleteFolder', 'delete folders', ONLY_INBOX);
+  }
+
+  async markAsRead(_id: EmailId | string): Promise<void> {
+    throw unsupported('markAsRead', 'mark messages as read', NO_FLAGS);
+  }
+
+  async markAsUnread(_id: EmailId | string): Promise<void> {
+    throw unsupported('markAsUnread', 'mark messages as unread', NO_FLAGS);
+  }
+
+  async star(_id: EmailId | string): Promise<void> {
+    throw unsupported('star', 'star messages', NO_FLAGS);
+  }
+
+  async unstar(_id: EmailId | string): Promise<void> {
+    throw unsupported('unstar', 'unstar messages', NO_FLAGS);
+  }
+
+  async move(_id: EmailId | string, _folder: FolderName | string): Promise<void> {
+    throw unsupported('move', 'move messages', ONLY_INBOX);
+  }
+
+  /**
+   * Delete a message from the server
+   *
+   * POP3 only removes messages when the session ends, so the session is
+   * closed with QUIT right away and the next call logs in again.
+   */
+  async delete(id: EmailId | string, call: CallOptions = {}): Promise<void> {
+    await this.exclusive(async (connection) => {
+      const entry = this.find(id);
+      await connection.command(`DELE ${entry.number}`);
+
+      if (this.connection === connection) this.connection = undefined;
+      try {
+        await connection.command('QUIT');
+      } finally {
+        connection.close();
+      }
+    }, call.signal);
+  }
+
+  async addLabel(_id: EmailId | string, _label: string): Promise<void> {
+    throw unsupported('addLabel', 'add labels', NO_FLAGS);
+  }
+
+  async removeLabel(_id: EmailId | string, _label: string): Promise<void> {
+    throw unsupported('removeLabel', 'remove labels', NO_FLAGS);
+  }
+
+  /**
+   * Return the open connection, connecting and authenticating first if needed
+   */
+  private async session(): Promise<Pop3Connection> {
+    if (this.connection?.isOpen) return this.connection;
+
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Pop3Connection> {
+    const { host } = this.options;
+    const security = this.options.security ?? 'tls';
+    const connection = new Pop3Connection({
+      host,
+      port: this.options.port ?? (security === 'tls' ? 995 : 110),
+      tls: security === 'tls',
+      tlsOptions: this.options.tls,
+      connectTimeout: this.options.connectTimeout,
+    });
+
+    let extensions: Map<string, string[]>;
+    try {
+      const greeting = await connection.open();
+      extensions = await this.capa(connection);
+
+      if (security === 'starttls') {
+        if (!extensions.has('STLS')) {
+          throw new ProviderError('pop3', `${host} does not support STLS`);
+        }
+        await connection.command('STLS');
+        await connection.upgrade();
+        // Capabilities must be discarded after STLS
+        extensions = await this.capa(connection);
+      }
+
+      await this.authenticate(connection, greeting.text, extensions);
+      // Some capabilities, like LOGIN-DELAY, are only announced once authenticated
+      extensions = await this.capa(connection);
+      this.maildrop = await this.scan(connection);
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+
+    connection.onClose = () => {
+      if (this.connection === connection) this.connection = undefined;
+    };
+    this.connection = connection;
+    this.extensions = extensions;
+    return connection;
+  }
+
+  /**
+   * Ask for capabilities; servers from before RFC 2449 answer CAPA with -ERR
+   */
+  private async capa(connection: Pop3Connection): Promise<Map<string, string[]>> {
+    try {
+      return parseCapabilities((await connection.command('CAPA', { multiline: true })).lines);
+    } catch (error) {
+      if (error instanceof Pop3CommandError) return new Map();
+      throw error;
+    }
+  }
+
+  private async authenticate(
+    connection: Pop3Connection,
+    greeting: string,
+    extensions: Map<string, string[]>,
+  ): Promise<void> {
+    const { auth, host } = this.options;
+    const mechanisms = new Set(extensions.get('SASL')?.map((name) => name.toUpperCase()));
+    const timestamp = apopTimestamp(greeting);
+
+    try {
+      if ('accessToken' in auth) {
+        const token = `user=${auth.user}\x01auth=Bearer ${auth.accessToken}\x01\x01`;
+        await this.saslAuthenticate(connection, 'XOAUTH2', token);
+        return;
+      }
+
+      const method =
+        auth.method ?? (mechanisms.has('PLAIN') ? 'PLAIN' : timestamp ? 'APOP' : 'USER');
+
+      if (method === 'PLAIN') {
+        await this.saslAuthenticate(connection, 'PLAIN', `\0${auth.user}\0${auth.pass}`);
+      } else if (method === 'LOGIN') {
+        const answers = [toBase64(auth.user), toBase64(auth.pass)];
+        await connection.command('AUTH LOGIN', { onContinuation: () => answers.shift() ?? '*' });
+      } else if (method === 'APOP') {
+        if (!timestamp) {
+          throw new AuthenticationError(`POP3 server ${host} does not support APOP`);
+        }
+        await connection.command(`APOP ${auth.user} ${apopDigest(timestamp, auth.pass)}`);
+      } else {
+        // Servers that announce capabilities list USER when they accept it
+        if (extensions.size && !extensions.has('USER')) {
+          throw new AuthenticationError(
+            `POP3 server ${host} does not accept USER/PASS on this connection; use TLS`,
+          );
+        }
+        await connection.command(`USER ${auth.user}`);
+        await connection.command(`PASS ${auth.pass}`);
+      }
+    } catch (error) {
+      // A locked mailbox or a temporary failure is not a credentials problem
+      if (error instanceof Pop3CommandError && !error.retryable) {
+        throw new AuthenticationError(`POP3 authentication failed: ${error.message}`, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run AUTH, with the initial response inline when the line is short enough
+   */
+  private saslAuthenticate(
+    connection: Pop3Connection,
+    mechanism: string,
+    response: string,
+  ): Promise<Pop3Response> {
+    const encoded = toBase64(response);
+    const inline = `AUTH ${mechanism} ${encoded}`;
+
+    if (inline.length <= MAX_INITIAL_RESPONSE_LINE) {
+      // Any challenge is an error report; an empty line ends the exchange
+      return connection.command(inline, { onContinuation: () => '' });
+    }
+
+    let sent = false;
+    return connection.command(`AUTH ${mechanism}`, {
+      onContinuation: () => {
+        if (sent) return '';
+        sent = true;
+        return encoded;
+      },
+    });
+  }
+
+  /**
+   * List the messages of a new session by UIDL and LIST
+   */
+  private async scan(connection: Pop3Connection): Promise<MaildropEntry[]> {
+    let uidls: Array<[number, string]>;
+    try {
+      uidls = parseListing((await connection.command('UIDL', { multiline: true })).lines);
+    } catch (error) {
+      if (error instanceof Pop3CommandError) {
+        throw new ProviderError(
+          'pop3',
+          `${this.options.host} does not support UIDL, which email ids are based on`,
+          { cause: error },
+        );
+      }
+      throw error;
+    }
+
+    const list = await connection.command('LIST', { multiline: true });
+    const sizes = new Map(parseListing(list.lines).map(([number, size]) => [number, Number(size)]));
+    const entries = uidls
+      .map(([number, uidl]) => ({ number, uidl, size: sizes.get(number) ?? 0 }))
+      // Message numbers follow arrival order
+      .sort((a, b) => b.number - a.number);
+
+    const present = new Set(entries.map((entry) => entry.uidl));
+    for (const uidl of this.headerCache.keys()) {
+      if (!present.has(uidl)) this.headerCache.delete(uidl);
+    }
+    return entries;
+  }
+
+  /**
+   * Download the headers of a message, or the whole message from servers without TOP
+   */
+  private async top(connection: Pop3Connection, entry: MaildropEntry): Promise<Uint8Array> {
+    const cached = this.headerCache.get(entry.uidl);
+    if (cached) return cached;
+
+    const command =
+      this.extensions.size && !this.extensions.has('TOP')
+        ? `RETR ${entry.number}`
+        : `TOP ${entry.number} 0`;
+    const headers = messageBytes(await connection.command(command, { multiline: true }));
+    this.headerCache.set(entry.uidl, headers);
+    return headers;
+  }
+
+  private async retrieve(
+    connection: Pop3Connection,
+    entry: MaildropEntry,
+    includeRaw?: boolean,
+  ): Promise<Pop3Email> {
+    const response = await connection.command(`RETR ${entry.number}`, { multiline: true });
+    return toEmail(messageBytes(response), entry, { full: true, includeRaw });
+  }
+
+  /**
+   * End the session with QUIT
+   */
+  private async quit(connection: Pop3Connection): Promise<void> {
+    if (this.connection === connection) this.connection = undefined;
+    if (!connection.isOpen) return;
+
+    try {
+      await connection.command('QUIT');
+    } catch {
+      // The server may close the socket before answering
+    }
+    connection.close();
+  }
+
+  /**
+   * Run a task on the session without interleaving others
+   *
+   * When `signal` aborts, the connection is closed without QUIT, so messages
+   * marked with DELE are kept. `fresh` logs in again first, to see messages
+   * that arrived since login.
+   */
+  private exclusive<T>(
+    task: (connection: Pop3Connection) => Promise<T>,
+    signal?: AbortSignal,
+    fresh = false,
+  ): Promise<T> {
+    const run = this.lock.then(async () => {
+      signal?.throwIfAborted();
+      if (fresh && this.connection) await this.quit(this.connection);
+      const connection = await this.session();
+      return abortable(task(connection), signal, () => {
+        if (this.connection === connection) this.connection = undefined;
+        connection.close();
+      });
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private find(id: EmailId | string): MaildropEntry {
+    const entry = this.maildrop.find((candidate) => candidate.uidl === id);
+    if (!entry) {
+      throw new NotFoundError('Email', id);
+    }
+    return entry;
+  }
+
+  private resolveFolder(name: string): string {
+    if (name.toLowerCase() !== 'inbox') {
+      throw new NotFoundError('Folder', name);
+    }
+    return 'INBOX';
+  }
+}
+
+/**
+ * Create POP3 provider
+ */
+export function pop3(options: Pop3Options): Pop3Provider {
+  return new Pop3Provider(options);
+}
@@ -0,0 +1,53 @@
+import type { ConnectionOptions } from 'node:tls';
+import type { Email } from '@faktoor/core';
+
+/**
+ * POP3-specific email extensions
+ */
+export interface Pop3Email extends Email {
+  /** Unique id the server assigned to the message (UIDL), also used as `id` */
+  uidl: string;
+  /** Size of the message on the server in bytes */
+  size: number;
+}
+
+/**
+ * Username and password authentication
+ */
+export interface Pop3PasswordAuth {
+  user: string;
+  pass: string;
+  /**
+   * `PLAIN` and `LOGIN` use SASL, `APOP` sends a digest instead of the password
+   * and `USER` sends USER/PASS. Defaults to `PLAIN` when the server offers it,
+   * `APOP` when its greeting allows it and `USER` otherwise.
+   */
+  method?: 'PLAIN' | 'LOGIN' | 'APOP' | 'USER';
+}
+
+/**
+ * OAuth 2.0 authentication through SASL XOAUTH2
+ */
+export interface Pop3OAuthAuth {
+  user: string;
+  accessToken: string;
+}
+
+/**
+ * POP3 provider options
+ */
+export interface Pop3Options {
+  host: string;
+  /** Defaults to 995 for `tls`, 110 otherwise */
+  port?: number;
+  /**
+   * `tls` connects over TLS, `starttls` upgrades a plain connection with STLS
+   * before authenticating, `none` never encrypts and is meant for local testing (default: `tls`)
+   */
+  security?: 'tls' | 'starttls' | 'none';
+  auth: Pop3PasswordAuth | Pop3OAuthAuth;
+  /** Extra options for `tls.connect`, e.g. a custom CA */
+  tls?: ConnectionOptions;
+  /** Milliseconds to wait for the connection and greeting (default: 30000) */
+  connectTimeout?: number;
+}
@@ -0,0 +1,279 @@
+import { type AddressInfo, type Server, type Socket, createServer } from 'node:net';
+
+/**
+ * Message accepted by the fake server
+ */
+export interface FakeSmtpMessage {
+  from: string;
+  mailParams: string[];
+  recipients: Array<{ address: string; params: string[] }>;
+  /** Message content with dot-stuffing removed */
+  data: string;
+}
+
+/**
+ * Options for the fake server
+ */
+export interface FakeSmtpServerOptions {
+  /** EHLO keywords; `undefined` uses a typical submission server */
+  extensions?: string[];
+  /** Answer EHLO with 502 so clients fall back to HELO */
+  esmtp?: boolean;
+  user?: string;
+  pass?: string;
+  accessToken?: string;
+  /** Recipients refused with 550 */
+  rejectRecipients?: string[];
+  /** Leave the end of DATA unanswered for this many messages, as a hung server would */
+  stallMessages?: number;
+}
+
+interface Session {
+  socket: Socket;
+  authenticated: boolean;
+  /** Pending AUTH exchange waiting for the client's next line */
+  sasl?: { mechanism: string; user?: string; failed?: boolean };
+  transaction?: Omit<FakeSmtpMessage, 'data'>;
+  /** Lines collected after DATA */
+  data?: string[];
+}
+
+const DEFAULT_EXTENSIONS = [
+  'PIPELINING',
+  'SIZE 1000000',
+  '8BITMIME',
+  'ENHANCEDSTATUSCODES',
+  'DSN',
+  'AUTH PLAIN LOGIN XOAUTH2',
+];
+
+/**
+ * Split `MAIL FROM:<a@b> SIZE=1` into the address and its parameters
+ */
+function parsePath(argument: string): { address: string; params: string[] } {
+  const match = /^<([^>]*)>\s*(.*)$/.exec(argument.trim());
+  return {
+    address: match?.[1] ?? '',
+    params: match?.[2] ? match[2].split(/\s+/) : [],
+  };
+}
+
+function decode(value: string): string {
+  return Buffer.from(value, 'base64').toString('utf-8');
+}
+
+/**
+ * Minimal in-process SMTP server for tests
+ *
+ * Speaks EHLO/HELO, AUTH PLAIN/LOGIN/XOAUTH2, MAIL/RCPT/DATA with SIZE and DSN
+ * parameters, RSET, NOOP and QUIT. Commands are handled in order as they
+ * arrive, so pipelined batches work.
+ */
+export class FakeSmtpServer {
+  /** Commands received, e.g. `MAIL FROM:<a@example.com> SIZE=120` */
+  readonly commands: string[] = [];
+  /** Raw chunks received outside DATA, to see which commands were pipelined */
+  readonly chunks: string[] = [];
+  readonly messages: FakeSmtpMessage[] = [];
+  /** Messages received but left unanswered, see `stallMessages` */
+  stalled = 0;
+  readonly sessions = new Set<Session>();
+  private server?: Server;
+  private readonly extensions: string[];
+
+  constructor(private readonly options: FakeSmtpServerOptions = {}) {
+    this.extensions = options.extensions ?? DEFAULT_EXTENSIONS;
+  }
+
+  async start(): Promise<number> {
+    this.server = createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+    return (this.server?.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    for (const session of this.sessions) session.socket.destroy();
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+  }
+
+  private accept(socket: Socket): void {
+    const session: Session = { socket, authenticated: false };
+    this.sessions.add(session);
+    socket.on('close', () => this.sessions.delete(session));
+    socket.on('error', () => undefined);
+
+    let buffer = '';
+    socket.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf-8');
+      if (!session.data) this.chunks.push(text);
+      buffer += text;
+
+      let end = buffer.indexOf('\r\n');
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.handle(session, line);
+        end = buffer.indexOf('\r\n');
+      }
+    });
+
+    socket.write('220 fake.example.com ESMTP ready\r\n');
+  }
+
+  private handle(session: Session, line: string): void {
+    const { socket } = session;
+    const reply = (text: string): void => {
+      socket.write(`${text}\r\n`);
+    };
+
+    if (session.data) {
+      if (line !== '.') {
+        session.data.push(line.startsWith('.') ? line.slice(1) : line);
+        return;
+      }
+      const transaction = session.transaction as NonNullable<Session['transaction']>;
+      if (this.stalled < (this.options.stallMessages ?? 0)) {
+        this.stalled++;
+        return;
+      }
+      this.messages.push({ ...transaction, data: session.data.join('\r\n') });
+      session.data = undefined;
+      session.transaction = undefined;
+      reply(`250 2.0.0 Ok: queued as Q${this.messages.length}`);
+      return;
+    }
+
+    if (session.sasl) {
+      this.continueSasl(session, line);
+      return;
+    }
+
+    this.commands.push(line);
+    const space = line.indexOf(' ');
+    const verb = (space === -1 ? line : line.slice(0, space)).toUpperCase();
+    const argument = space === -1 ? '' : line.slice(space + 1);
+
+    switch (verb) {
+      case 'EHLO':
+        if (this.options.esmtp === false) {
+          reply('502 5.5.1 Unrecognized command');
+          return;
+        }
+        reply(
+          ['fake.example.com greets you', ...this.extensions]
+            .map((text, index, all) => `250${index === all.length - 1 ? ' ' : '-'}${text}`)
+            .join('\r\n'),
+        );
+        return;
+      case 'HELO':
+        reply('250 fake.example.com');
+        return;
+      case 'AUTH': {
+        const [mechanism = '', initial] = argument.split(' ');
+        session.sasl = { mechanism: mechanism.toUpperCase() };
+        if (initial !== undefined) {
+          this.continueSasl(session, initial);
+        } else {
+          reply(session.sasl.mechanism === 'LOGIN' ? '334 VXNlcm5hbWU6' : '334 ');
+        }
+        return;
+      }
+      case 'MAIL': {
+        if (this.options.user && !session.authenticated) {
+          reply('530 5.7.0 Authentication required');
+          return;
+        }
+        const { address, params } = parsePath(argument.replace(/^FROM:/i, ''));
+        const size = params.find((param) => param.toUpperCase().startsWith('SIZE='));
+        const limit = Number(this.extensions.find((ext) => ext.startsWith('SIZE '))?.slice(5));
+        if (size && limit && Number(size.slice(5)) > limit) {
+          reply('552 5.3.4 Message too big');
+          return;
+        }
+        session.transaction = { from: address, mailParams: params, recipients: [] };
+        reply('250 2.1.0 Ok');
+        return;
+      }
+      case 'RCPT': {
+        if (!session.transaction) {
+          reply('503 5.5.1 Need MAIL first');
+          return;
+        }
+        const recipient = parsePath(argument.replace(/^TO:/i, ''));
+        if (this.options.rejectRecipients?.includes(recipient.address)) {
+          reply('550 5.1.1 No such user');
+          return;
+        }
+        session.transaction.recipients.push(recipient);
+        reply('250 2.1.5 Ok');
+        return;
+      }
+      case 'DATA':
+        if (!session.transaction?.recipients.length) {
+          reply('554 5.5.1 No valid recipients');
+          return;
+        }
+        session.data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        return;
+      case 'RSET':
+        session.transaction = undefined;
+        reply('250 2.0.0 Ok');
+        return;
+      case 'NOOP':
+        reply('250 2.0.0 Ok');
+        return;
+      case 'QUIT':
+        reply('221 2.0.0 Bye');
+        socket.end();
+        return;
+      default:
+        reply('502 5.5.2 Command not recognized');
+    }
+  }
+
+  private continueSasl(session: Session, line: string): void {
+    const sasl = session.sasl as NonNullable<Session['sasl']>;
+    const { socket } = session;
+    const finish = (valid: boolean): void => {
+      session.sasl = undefined;
+      session.authenticated = valid;
+      socket.write(
+        valid ? '235 2.7.0 Authenticated\r\n' : '535 5.7.8 Authentication credentials invalid\r\n',
+      );
+    };
+
+    switch (sasl.mechanism) {
+      case 'PLAIN':
+        finish(decode(line) === `\0${this.options.user}\0${this.options.pass}`);
+        return;
+      case 'LOGIN':
+        if (sasl.user === undefined) {
+          sasl.user = decode(line);
+          socket.write('334 UGFzc3dvcmQ6\r\n');
+          return;
+        }
+        finish(sasl.user === this.options.user && decode(line) === this.options.pass);
+        return;
+      case 'XOAUTH2': {
+        // Client acknowledged the error challenge
+        if (sasl.failed) {
+          finish(false);
+          return;
+        }
+        const expected = `user=${this.options.user}\x01auth=Bearer ${this.options.accessToken}\x01\x01`;
+        if (decode(line) === expected) {
+          finish(true);
+          return;
+        }
+        // XOAUTH2 reports errors as a challenge the client must answer
+        sasl.failed = true;
+        socket.write(`334 ${Buffer.from('{"status":"401"}').toString('base64')}\r\n`);
+        return;
+      }
+      default:
+        session.sasl = undefined;
+        socket.write('504 5.5.4 Unrecognized authentication type\r\n');
+    }
+  }
+}
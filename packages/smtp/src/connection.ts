@@ -0,0 +1,203 @@
+import { type Socket, connect as connectTcp } from 'node:net';
+import { type ConnectionOptions, connect as connectTls } from 'node:tls';
+import { NetworkError, ProviderError } from '@faktoor/core';
+import type { SmtpReply } from './protocol';
+import { SmtpReplyReader, dotStuff, replyText } from './protocol';
+
+const DEFAULT_CONNECT_TIMEOUT = 30_000;
+
+/**
+ * Options for opening an SMTP connection
+ */
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  /** Wrap the socket in TLS from the start; STARTTLS upgrades use `upgrade()` */
+  tls: boolean;
+  tlsOptions?: ConnectionOptions;
+  connectTimeout?: number;
+}
+
+/**
+ * Server answered a command with an unexpected reply
+ */
+export class SmtpCommandError extends ProviderError {
+  readonly command: string;
+  /** Reply code, e.g. `550` */
+  readonly replyCode: number;
+  /** Enhanced status code, e.g. `5.1.1` */
+  readonly enhancedCode?: string;
+
+  constructor(command: string, reply: SmtpReply) {
+    super('smtp', `${command} failed: ${reply.code} ${replyText(reply)}`.trim(), {
+      // 4xx replies are transient
+      retryable: reply.code >= 400 && reply.code < 500,
+    });
+    this.name = 'SmtpCommandError';
+    this.command = command;
+    this.replyCode = reply.code;
+    this.enhancedCode = reply.enhancedCode;
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: SmtpReply) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A single SMTP connection
+ *
+ * Replies are matched to commands in order, so several commands can be sent
+ * at once when the server supports PIPELINING.
+ */
+export class SmtpConnection {
+  /** Called once when the connection closes */
+  onClose?: (error?: Error) => void;
+
+  private socket?: Socket;
+  private reader = new SmtpReplyReader();
+  private pending: PendingReply[] = [];
+  private closed = true;
+
+  constructor(private readonly options: SmtpConnectionOptions) {}
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Connect and return the server's greeting
+   */
+  async open(): Promise<SmtpReply> {
+    const { host, port } = this.options;
+    const timeout = this.options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+
+    const socket = this.options.tls
+      ? connectTls({ host, port, servername: host, ...this.options.tlsOptions })
+      : connectTcp({ host, port });
+    this.attach(socket);
+    this.closed = false;
+
+    const greeting = this.expectReply();
+    const timer = setTimeout(() => {
+      socket.destroy(new Error(`Timed out connecting to ${host}:${port}`));
+    }, timeout);
+
+    try {
+      return await greeting;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async command(line: string): Promise<SmtpReply> {
+    const [reply] = await this.pipeline([line]);
+    return reply as SmtpReply;
+  }
+
+  /**
+   * Send several commands at once and wait for all their replies
+   */
+  pipeline(lines: string[]): Promise<SmtpReply[]> {
+    const socket = this.socket;
+    if (this.closed || !socket) {
+      return Promise.reject(new NetworkError('SMTP connection is closed'));
+    }
+
+    const replies = lines.map(() => this.expectReply());
+    socket.write(lines.map((line) => `${line}\r\n`).join(''));
+    return Promise.all(replies);
+  }
+
+  /**
+   * Send the message after a 354 reply to DATA and wait for the final reply
+   */
+  data(message: string): Promise<SmtpReply> {
+    const socket = this.socket;
+    if (this.closed || !socket) {
+      return Promise.reject(new NetworkError('SMTP connection is closed'));
+    }
+
+    const reply = this.expectReply();
+    socket.write(dotStuff(message));
+    return reply;
+  }
+
+  /**
+   * Wrap the plain socket in TLS after a 220 reply to STARTTLS
+   */
+  async upgrade(): Promise<void> {
+    const plain = this.socket as Socket;
+    const { host } = this.options;
+
+    // From here on the TLS socket reads from the plain one
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('close');
+
+    try {
+      const secure = await new Promise<Socket>((resolve, reject) => {
+        const socket = connectTls(
+          { socket: plain, servername: host, ...this.options.tlsOptions },
+          () => resolve(socket),
+        );
+        socket.once('error', reject);
+      });
+      this.attach(secure);
+    } catch (error) {
+      this.closed = true;
+      plain.destroy();
+      throw new NetworkError(`STARTTLS negotiation with ${host} failed`, error as Error);
+    }
+  }
+
+  /**
+   * Close the socket without QUIT
+   */
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private expectReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+    });
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    this.reader = new SmtpReplyReader();
+
+    socket.on('data', (chunk: Uint8Array) => {
+      // Ignore data from a socket replaced by STARTTLS
+      if (this.socket !== socket) return;
+      try {
+        for (const reply of this.reader.push(chunk)) {
+          this.pending.shift()?.resolve(reply);
+        }
+      } catch (error) {
+        socket.destroy(error as Error);
+      }
+    });
+
+    let cause: Error | undefined;
+    socket.on('error', (error) => {
+      // Reported through 'close'
+      cause = error;
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.closed = true;
+      const error = new NetworkError(
+        cause ? `SMTP connection closed: ${cause.message}` : 'SMTP connection closed',
+        cause,
+      );
+      for (const pending of this.pending.splice(0)) pending.reject(error);
+      this.onClose?.(error);
+    });
+  }
+}
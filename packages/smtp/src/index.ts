@@ -0,0 +1,18 @@
+// Transport
+export { smtp, SmtpTransport } from './transport';
+
+// Connection
+export { SmtpCommandError } from './connection';
+
+// Types
+export type {
+  SmtpDsnOptions,
+  SmtpOAuthAuth,
+  SmtpOptions,
+  SmtpPasswordAuth,
+  SmtpSendOptions,
+  SmtpSendResult,
+} from './types';
+
+// Re-export core types for convenience
+export type { MailTransport, SendOptions, SendResult } from '@faktoor/core';
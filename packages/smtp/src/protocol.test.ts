@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SmtpReplyReader, dotStuff, encodeXtext, parseExtensions } from './protocol';
+
+describe('SmtpReplyReader', () => {
+  it('should join multi-line replies split across chunks', () => {
+    const reader = new SmtpReplyReader();
+
+    expect(reader.push('250-mail.example.com\r\n250-PIPE')).toEqual([]);
+    expect(reader.push('LINING\r\n250 SIZE 1000\r\n')).toEqual([
+      { code: 250, lines: ['mail.example.com', 'PIPELINING', 'SIZE 1000'] },
+    ]);
+  });
+
+  it('should split enhanced status codes from the text', () => {
+    const [reply] = new SmtpReplyReader().push('550 5.1.1 No such user\r\n');
+
+    expect(reply).toEqual({ code: 550, enhancedCode: '5.1.1', lines: ['No such user'] });
+  });
+
+  it('should return several pipelined replies at once', () => {
+    const replies = new SmtpReplyReader().push('250 Ok\r\n250 Ok\r\n354 Go ahead\r\n');
+
+    expect(replies.map((reply) => reply.code)).toEqual([250, 250, 354]);
+  });
+
+  it('should reject lines without a reply code', () => {
+    expect(() => new SmtpReplyReader().push('hello\r\n')).toThrow(/Malformed SMTP reply/);
+  });
+});
+
+describe('parseExtensions', () => {
+  it('should read keywords and parameters, skipping the greeting', () => {
+    const extensions = parseExtensions({
+      code: 250,
+      lines: [
+        'mail.example.com Hello',
+        'SIZE 35882577',
+        'AUTH PLAIN LOGIN',
+        'AUTH=LOGIN',
+        '8bitmime',
+      ],
+    });
+
+    expect(extensions).toEqual(
+      new Map([
+        ['SIZE', ['35882577']],
+        ['AUTH', ['PLAIN', 'LOGIN', 'LOGIN']],
+        ['8BITMIME', []],
+      ]),
+    );
+  });
+});
+
+describe('dotStuff', () => {
+  it('should double leading dots and terminate the message', () => {
+    expect(dotStuff('Subject: Hi\n\n.hidden\r\n..two\r\n')).toBe(
+      'Subject: Hi\r\n\r\n..hidden\r\n...two\r\n.\r\n',
+    );
+  });
+});
+
+describe('encodeXtext', () => {
+  it('should hex-encode plus, equals and non-printable characters', () => {
+    expect(encodeXtext('a+b=c d@é')).toBe('a+2Bb+3Dc+20d@+C3+A9');
+  });
+});
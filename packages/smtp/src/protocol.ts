@@ -0,0 +1,115 @@
+import { ProviderError } from '@faktoor/core';
+
+/**
+ * A complete SMTP reply, possibly spanning several lines
+ */
+export interface SmtpReply {
+  code: number;
+  /** Enhanced status code (RFC 3463), e.g. `5.1.1` */
+  enhancedCode?: string;
+  /** Text of each line, without the reply code */
+  lines: string[];
+}
+
+const REPLY_LINE = /^(\d{3})([ -])(.*)$/;
+const ENHANCED_CODE = /^([245]\.\d{1,3}\.\d{1,3}) /;
+
+/**
+ * Splits server output into replies, joining multi-line replies (`250-...`)
+ */
+export class SmtpReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly decoder = new TextDecoder();
+
+  push(chunk: Uint8Array | string): SmtpReply[] {
+    this.buffer += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    const replies: SmtpReply[] = [];
+
+    let end = this.buffer.indexOf('\n');
+    while (end !== -1) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      end = this.buffer.indexOf('\n');
+
+      const match = REPLY_LINE.exec(line) ?? /^(\d{3})()$/.exec(line);
+      if (!match) {
+        throw new ProviderError('smtp', `Malformed SMTP reply: ${line}`);
+      }
+
+      this.lines.push(match[3] ?? '');
+      if (match[2] === '-') continue;
+
+      const lines = this.lines;
+      this.lines = [];
+      replies.push(createReply(Number(match[1]), lines));
+    }
+
+    return replies;
+  }
+}
+
+/**
+ * Build a reply, moving a leading enhanced status code out of the text
+ */
+function createReply(code: number, lines: string[]): SmtpReply {
+  const enhanced = ENHANCED_CODE.exec(lines[0] ?? '')?.[1];
+  if (!enhanced) return { code, lines };
+
+  return {
+    code,
+    enhancedCode: enhanced,
+    lines: lines.map((line) =>
+      line.startsWith(`${enhanced} `) ? line.slice(enhanced.length + 1) : line,
+    ),
+  };
+}
+
+/**
+ * Text of a reply on one line
+ */
+export function replyText(reply: SmtpReply): string {
+  return reply.lines.join(' ').trim();
+}
+
+/**
+ * Read the extensions from an EHLO reply, e.g. `SIZE` -> `['35882577']`
+ *
+ * The first line is the server's greeting and is skipped.
+ */
+export function parseExtensions(reply: SmtpReply): Map<string, string[]> {
+  const extensions = new Map<string, string[]>();
+  for (const line of reply.lines.slice(1)) {
+    const [keyword, ...params] = line.trim().split(/\s+/);
+    if (!keyword) continue;
+    // Old servers announce AUTH=LOGIN alongside AUTH LOGIN
+    const [name = keyword, inline] = keyword.split('=');
+    const values = inline ? [inline, ...params] : params;
+    const upper = name.toUpperCase();
+    extensions.set(upper, [...(extensions.get(upper) ?? []), ...values]);
+  }
+  return extensions;
+}
+
+/**
+ * Prepare a message for DATA: CRLF line endings, leading dots doubled and the
+ * terminating `.` line appended (RFC 5321 section 4.5.2)
+ */
+export function dotStuff(message: string): string {
+  const lines = message.replace(/\r?\n/g, '\r\n').replace(/\r\n$/, '').split('\r\n');
+  return `${lines.map((line) => (line.startsWith('.') ? `.${line}` : line)).join('\r\n')}\r\n.\r\n`;
+}
+
+/**
+ * Encode a value as xtext for DSN parameters (RFC 3461)
+ */
+export function encodeXtext(value: string): string {
+  let output = '';
+  for (const byte of new TextEncoder().encode(value)) {
+    output +=
+      byte >= 33 && byte <= 126 && byte !== 43 && byte !== 61
+        ? String.fromCharCode(byte)
+        : `+${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  }
+  return output;
+}
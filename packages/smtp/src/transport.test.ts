@@ -0,0 +1,260 @@
+import { AuthenticationError, ValidationError } from '@faktoor/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSmtpServerOptions } from './__fixtures__/fake-server';
+import { FakeSmtpServer } from './__fixtures__/fake-server';
+import { SmtpCommandError } from './connection';
+import { SmtpTransport } from './transport';
+import type { SmtpOptions } from './types';
+
+describe('SmtpTransport', () => {
+  let server: FakeSmtpServer;
+  let transport: SmtpTransport;
+
+  const createTransport = async (
+    overrides: Partial<SmtpOptions> = {},
+    serverOptions: FakeSmtpServerOptions = {},
+  ) => {
+    server = new FakeSmtpServer({
+      user: 'bob@example.com',
+      pass: 'secret',
+      accessToken: 'token',
+      ...serverOptions,
+    });
+    const port = await server.start();
+    transport = new SmtpTransport({
+      host: '127.0.0.1',
+      port,
+      security: 'none',
+      name: 'client.example.com',
+      auth: { user: 'bob@example.com', pass: 'secret' },
+      ...overrides,
+    });
+    return transport;
+  };
+
+  afterEach(async () => {
+    await transport?.close();
+    await server?.stop();
+  });
+
+  describe('sending', () => {
+    it('should pipeline the envelope and keep Bcc out of the message', async () => {
+      await createTransport();
+
+      const result = await transport.send({
+        to: 'Alice <alice@example.com>',
+        cc: ['carol@example.com'],
+        bcc: 'dave@example.com',
+        subject: 'Lunch',
+        text: 'Noon?\n.\nSee you',
+      });
+
+      expect(server.commands.slice(0, 2)).toEqual([
+        'EHLO client.example.com',
+        expect.stringMatching(/^AUTH PLAIN \S+$/),
+      ]);
+      const mailChunk = server.chunks.find((chunk) => chunk.startsWith('MAIL FROM'));
+      expect(mailChunk?.split('\r\n').filter(Boolean)).toEqual([
+        expect.stringMatching(/^MAIL FROM:<bob@example.com> SIZE=\d+$/),
+        'RCPT TO:<alice@example.com>',
+        'RCPT TO:<carol@example.com>',
+        'RCPT TO:<dave@example.com>',
+        'DATA',
+      ]);
+
+      const [message] = server.messages;
+      expect(message?.from).toBe('bob@example.com');
+      expect(message?.data).toContain('Subject: Lunch');
+      expect(message?.data).toContain(`Message-ID: <${result.messageId}>`);
+      expect(message?.data).toContain('Noon?\r\n.\r\nSee you');
+      expect(message?.data).not.toMatch(/^Bcc:/m);
+
+      expect(result).toMatchObject({
+        id: result.messageId,
+        accepted: ['alice@example.com', 'carol@example.com', 'dave@example.com'],
+        rejected: [],
+        response: 'Ok: queued as Q1',
+      });
+      expect(result.messageId).toMatch(/@example\.com$/);
+    });
+
+    it('should send commands one by one without PIPELINING', async () => {
+      await createTransport({}, { extensions: ['AUTH PLAIN'] });
+
+      await transport.send({ to: 'alice@example.com', subject: 'Hi', text: 'Hello' });
+
+      expect(server.commands.slice(2)).toEqual([
+        'MAIL FROM:<bob@example.com>',
+        'RCPT TO:<alice@example.com>',
+        'DATA',
+      ]);
+      expect(server.chunks.some((chunk) => chunk.includes('RCPT TO'))).toBe(true);
+      expect(server.chunks.every((chunk) => chunk.split('\r\n').length <= 2)).toBe(true);
+    });
+
+    it('should report refused recipients when others were accepted', async () => {
+      await createTransport({}, { rejectRecipients: ['ghost@example.com'] });
+
+      const result = await transport.send({
+        to: ['alice@example.com', 'ghost@example.com'],
+        subject: 'Hi',
+      });
+
+      expect(result.accepted).toEqual(['alice@example.com']);
+      expect(result.rejected).toEqual([
+        { address: 'ghost@example.com', reason: '550 No such user' },
+      ]);
+      expect(server.messages[0]?.recipients.map((recipient) => recipient.address)).toEqual([
+        'alice@example.com',
+      ]);
+    });
+
+    it('should fail and reset when every recipient is refused', async () => {
+      await createTransport({}, { rejectRecipients: ['ghost@example.com'] });
+
+      const error = await transport
+        .send({ to: 'ghost@example.com', subject: 'Hi' })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(SmtpCommandError);
+      expect(error).toMatchObject({ replyCode: 550, enhancedCode: '5.1.1', retryable: false });
+      expect(server.commands).toContain('RSET');
+      expect(server.messages).toHaveLength(0);
+
+      // The connection stays usable
+      await transport.send({ to: 'alice@example.com', subject: 'Again' });
+      expect(server.messages).toHaveLength(1);
+      expect(server.commands.filter((command) => command.startsWith('EHLO'))).toHaveLength(1);
+    });
+
+    it('should drop the connection when a send is aborted during DATA', async () => {
+      await createTransport({}, { stallMessages: 1 });
+      const controller = new AbortController();
+
+      const stalled = transport.send(
+        { to: 'alice@example.com', subject: 'Stuck' },
+        { signal: controller.signal },
+      );
+      await vi.waitFor(() => expect(server.stalled).toBe(1));
+      controller.abort(new Error('Timed out'));
+
+      await expect(stalled).rejects.toThrow('Timed out');
+      await transport.send({ to: 'alice@example.com', subject: 'Next' });
+      expect(server.messages.map((message) => message.data)).toEqual([
+        expect.stringContaining('Subject: Next'),
+      ]);
+      expect(server.commands.filter((command) => command.startsWith('EHLO'))).toHaveLength(2);
+    });
+
+    it('should refuse messages over the announced SIZE', async () => {
+      await createTransport({}, { extensions: ['SIZE 100', 'AUTH PLAIN'] });
+
+      await expect(
+        transport.send({ to: 'alice@example.com', subject: 'Big', text: 'x'.repeat(200) }),
+      ).rejects.toThrow(ValidationError);
+      expect(server.commands.some((command) => command.startsWith('MAIL'))).toBe(false);
+    });
+
+    it('should add DSN parameters when the server supports them', async () => {
+      await createTransport({ dsn: { ret: 'HDRS', envelopeId: 'order+42' } });
+
+      await transport.send({
+        to: 'alice@example.com',
+        subject: 'Receipt',
+        dsn: { notify: ['SUCCESS', 'FAILURE'], ret: 'HDRS', envelopeId: 'order+42' },
+      });
+
+      expect(server.messages[0]?.mailParams).toEqual([
+        expect.stringMatching(/^SIZE=\d+$/),
+        'RET=HDRS',
+        'ENVID=order+2B42',
+      ]);
+      expect(server.messages[0]?.recipients[0]?.params).toEqual([
+        'NOTIFY=SUCCESS,FAILURE',
+        'ORCPT=rfc822;alice@example.com',
+      ]);
+    });
+
+    it('should omit DSN parameters otherwise', async () => {
+      await createTransport(
+        { dsn: { notify: 'NEVER' } },
+        { extensions: ['PIPELINING', 'AUTH PLAIN'] },
+      );
+
+      await transport.send({ to: 'alice@example.com', subject: 'Hi' });
+
+      expect(server.messages[0]?.recipients[0]?.params).toEqual([]);
+    });
+
+    it('should require a sender', async () => {
+      await createTransport({ auth: undefined }, { user: undefined });
+
+      await expect(transport.send({ to: 'alice@example.com', subject: 'Hi' })).rejects.toThrow(
+        ValidationError,
+      );
+      await transport.send({ to: 'alice@example.com', subject: 'Hi', from: 'Me <me@example.org>' });
+      expect(server.messages[0]?.from).toBe('me@example.org');
+      expect(server.messages[0]?.data).toContain('From: "Me" <me@example.org>');
+    });
+  });
+
+  describe('connecting', () => {
+    it('should fall back to AUTH LOGIN', async () => {
+      await createTransport({}, { extensions: ['AUTH LOGIN'] });
+      await transport.connect();
+
+      expect(server.commands).toContain('AUTH LOGIN');
+      expect(transport.isConnected()).toBe(true);
+    });
+
+    it('should authenticate with XOAUTH2', async () => {
+      await createTransport({ auth: { user: 'bob@example.com', accessToken: 'token' } });
+      await transport.connect();
+
+      expect(server.commands).toContainEqual(expect.stringMatching(/^AUTH XOAUTH2 \S+$/));
+    });
+
+    it('should throw AuthenticationError for rejected credentials', async () => {
+      await createTransport({ auth: { user: 'bob@example.com', pass: 'wrong' } });
+
+      await expect(transport.connect()).rejects.toThrow(AuthenticationError);
+      expect(transport.isConnected()).toBe(false);
+    });
+
+    it('should answer the XOAUTH2 error challenge and report the failure', async () => {
+      await createTransport({ auth: { user: 'bob@example.com', accessToken: 'expired' } });
+
+      await expect(transport.connect()).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should fall back to HELO for servers without ESMTP', async () => {
+      await createTransport(
+        { auth: undefined, from: 'me@example.com' },
+        { esmtp: false, user: undefined },
+      );
+
+      await transport.send({ to: 'alice@example.com', subject: 'Hi' });
+
+      expect(server.commands.slice(0, 2)).toEqual([
+        'EHLO client.example.com',
+        'HELO client.example.com',
+      ]);
+      expect(transport.capabilities.size).toBe(0);
+    });
+
+    it('should refuse STARTTLS when the server does not offer it', async () => {
+      await createTransport({ security: 'starttls' });
+
+      await expect(transport.connect()).rejects.toThrow(/does not support STARTTLS/);
+    });
+
+    it('should say goodbye with QUIT', async () => {
+      await createTransport();
+      await transport.connect();
+      await transport.close();
+
+      expect(server.commands[server.commands.length - 1]).toBe('QUIT');
+      expect(transport.isConnected()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import type { CallOptions, EmailId, MailTransport } from '@faktoor/core';
+import { AuthenticationError, ProviderError, ValidationError, abortable } from '@faktoor/core';
+import { buildMimeMessage, parseAddressList } from '@faktoor/parser';
+import { SmtpCommandError, SmtpConnection } from './connection';
+import type { SmtpReply } from './protocol';
+import { encodeXtext, parseExtensions, replyText } from './protocol';
+import type { SmtpDsnOptions, SmtpOptions, SmtpSendOptions, SmtpSendResult } from './types';
+
+const DEFAULT_PORTS = { tls: 465, starttls: 587, none: 25 } as const;
+
+type Delivery = Pick<SmtpSendResult, 'accepted' | 'rejected' | 'response'>;
+
+/**
+ * Throw unless the reply has one of the expected codes
+ */
+function expectReply(command: string, reply: SmtpReply, ...codes: number[]): SmtpReply {
+  if (!codes.includes(reply.code)) {
+    throw new SmtpCommandError(command, reply);
+  }
+  return reply;
+}
+
+/**
+ * Collect the bare addresses of address list fields
+ */
+function envelopeAddresses(...values: Array<string | string[] | undefined>): string[] {
+  return values.flatMap((value) =>
+    value === undefined
+      ? []
+      : parseAddressList(Array.isArray(value) ? value.join(', ') : value).map(({ email }) => email),
+  );
+}
+
+function toBase64(value: string): string {
+  return Buffer.from(value, 'utf-8').toString('base64');
+}
+
+/**
+ * SMTP transport
+ *
+ * Sends through any submission server or relay, independently of the provider
+ * used for reading. The connection is opened on first send and reused.
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private connection?: SmtpConnection;
+  private connecting?: Promise<SmtpConnection>;
+  private extensions = new Map<string, string[]>();
+  // One mail transaction at a time
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async connect(): Promise<void> {
+    await this.session();
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    if (!connection?.isOpen) return;
+
+    try {
+      await connection.command('QUIT');
+    } catch {
+      // The server may close the socket before answering
+    }
+    connection.close();
+  }
+
+  isConnected(): boolean {
+    return this.connection?.isOpen ?? false;
+  }
+
+  /**
+   * Extensions announced by the server, e.g. `PIPELINING`, `SIZE` -> `['35882577']`
+   */
+  get capabilities(): ReadonlyMap<string, string[]> {
+    return this.extensions;
+  }
+
+  /**
+   * Send a message
+   *
+   * An aborted `call.signal` closes the connection, ending the transaction
+   * wherever it is, and the next send reconnects.
+   */
+  async send(options: SmtpSendOptions, call: CallOptions = {}): Promise<SmtpSendResult> {
+    const auth = this.options.auth;
+    const from =
+      options.from ?? this.options.from ?? (auth?.user.includes('@') ? auth.user : undefined);
+    const sender = from ? parseAddressList(from)[0]?.email : undefined;
+    if (!from || !sender) {
+      throw new ValidationError('SMTP needs a sender: set `from` on the transport', 'from');
+    }
+
+    const recipients = [...new Set(envelopeAddresses(options.to, options.cc, options.bcc))];
+    if (!recipients.length) {
+      throw new ValidationError('At least one recipient is required', 'to');
+    }
+
+    const messageId = `${randomUUID()}@${sender.split('@')[1] || 'localhost'}`;
+    // Bcc recipients only appear in the envelope
+    const message = await buildMimeMessage({ ...options, from, bcc: undefined, messageId });
+
+    const delivery = await this.exclusive(
+      (connection) =>
+        this.transmit(connection, sender, recipients, message, options.dsn ?? this.options.dsn),
+      call.signal,
+    );
+    return { id: messageId as EmailId, timestamp: new Date(), messageId, ...delivery };
+  }
+
+  /**
+   * Run one mail transaction: MAIL FROM, RCPT TO per recipient, DATA
+   *
+   * With PIPELINING all envelope commands go out at once. The message is sent
+   * when at least one recipient was accepted; the others are reported.
+   */
+  private async transmit(
+    connection: SmtpConnection,
+    sender: string,
+    recipients: string[],
+    message: string,
+    dsn?: SmtpDsnOptions,
+  ): Promise<Delivery> {
+    const size = Buffer.byteLength(message);
+    const limit = Number(this.extensions.get('SIZE')?.[0] ?? 0);
+    if (limit > 0 && size > limit) {
+      throw new ValidationError(
+        `Message is ${size} bytes but the server accepts at most ${limit}`,
+        'attachments',
+      );
+    }
+
+    // The MIME builder encodes to 7-bit, but custom headers may carry raw UTF-8
+    const eightBit = /[\u0080-\uffff]/.test(message);
+    if (eightBit && !this.extensions.has('8BITMIME')) {
+      throw new ProviderError('smtp', 'Message contains 8-bit data but the server lacks 8BITMIME');
+    }
+
+    const useDsn = dsn !== undefined && this.extensions.has('DSN');
+    let mail = `MAIL FROM:<${sender}>`;
+    if (this.extensions.has('SIZE')) mail += ` SIZE=${size}`;
+    if (eightBit) mail += ' BODY=8BITMIME';
+    if (useDsn && dsn.ret) mail += ` RET=${dsn.ret}`;
+    if (useDsn && dsn.envelopeId) mail += ` ENVID=${encodeXtext(dsn.envelopeId)}`;
+
+    const rcpts = recipients.map((address) => {
+      let line = `RCPT TO:<${address}>`;
+      if (useDsn && dsn.notify) {
+        const notify = dsn.notify === 'NEVER' ? 'NEVER' : dsn.notify.join(',');
+        line += ` NOTIFY=${notify} ORCPT=rfc822;${encodeXtext(address)}`;
+      }
+      return line;
+    });
+
+    let mailReply: SmtpReply;
+    let rcptReplies: SmtpReply[] = [];
+    let dataReply: SmtpReply | undefined;
+
+    if (this.extensions.has('PIPELINING')) {
+      const replies = await connection.pipeline([mail, ...rcpts, 'DATA']);
+      mailReply = replies[0] as SmtpReply;
+      rcptReplies = replies.slice(1, -1);
+      dataReply = replies[replies.length - 1];
+    } else {
+      mailReply = await connection.command(mail);
+      if (mailReply.code === 250) {
+        for (const line of rcpts) rcptReplies.push(await connection.command(line));
+      }
+    }
+
+    const accepted: string[] = [];
+    const rejected: Delivery['rejected'] = [];
+
+    try {
+      expectReply('MAIL FROM', mailReply, 250);
+      rcptReplies.forEach((reply, index) => {
+        const address = recipients[index] as string;
+        if (reply.code === 250 || reply.code === 251) accepted.push(address);
+        else rejected.push({ address, reason: `${reply.code} ${replyText(reply)}` });
+      });
+      if (!accepted.length) {
+        throw new SmtpCommandError('RCPT TO', rcptReplies[0] as SmtpReply);
+      }
+
+      dataReply ??= await connection.command('DATA');
+      expectReply('DATA', dataReply, 354);
+    } catch (error) {
+      // A pipelined DATA can be accepted even though every recipient was not
+      if (dataReply?.code === 354) await connection.data('').catch(() => undefined);
+      await this.reset(connection);
+      throw error;
+    }
+
+    const final = expectReply('DATA', await connection.data(message), 250);
+    return { accepted, rejected, response: replyText(final) };
+  }
+
+  /**
+   * Abort the current transaction, keeping the connection usable
+   */
+  private async reset(connection: SmtpConnection): Promise<void> {
+    if (!connection.isOpen) return;
+    try {
+      await connection.command('RSET');
+    } catch {
+      // The next send reconnects
+    }
+  }
+
+  /**
+   * Return the open connection, connecting and authenticating first if needed
+   */
+  private async session(): Promise<SmtpConnection> {
+    if (this.connection?.isOpen) return this.connection;
+
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<SmtpConnection> {
+    const { host } = this.options;
+    const security = this.options.security ?? 'tls';
+    const connection = new SmtpConnection({
+      host,
+      port: this.options.port ?? DEFAULT_PORTS[security],
+      tls: security === 'tls',
+      tlsOptions: this.options.tls,
+      connectTimeout: this.options.connectTimeout,
+    });
+
+    let extensions: Map<string, string[]>;
+    try {
+      expectReply('Connect', await connection.open(), 220);
+      extensions = await this.hello(connection);
+
+      if (security === 'starttls') {
+        if (!extensions.has('STARTTLS')) {
+          throw new ProviderError('smtp', `${host} does not support STARTTLS`);
+        }
+        expectReply('STARTTLS', await connection.command('STARTTLS'), 220);
+        await connection.upgrade();
+        // Extensions must be discarded after STARTTLS
+        extensions = await this.hello(connection);
+      }
+
+      if (this.options.auth) await this.authenticate(connection, extensions);
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+
+    connection.onClose = () => {
+      if (this.connection === connection) this.connection = undefined;
+    };
+    this.connection = connection;
+    this.extensions = extensions;
+    return connection;
+  }
+
+  /**
+   * Greet with EHLO, falling back to HELO for servers without ESMTP
+   */
+  private async hello(connection: SmtpConnection): Promise<Map<string, string[]>> {
+    const name = this.options.name ?? hostname();
+    const reply = await connection.command(`EHLO ${name}`);
+    if (reply.code === 250) return parseExtensions(reply);
+
+    expectReply('HELO', await connection.command(`HELO ${name}`), 250);
+    return new Map();
+  }
+
+  private async authenticate(
+    connection: SmtpConnection,
+    extensions: Map<string, string[]>,
+  ): Promise<void> {
+    const auth = this.options.auth as NonNullable<SmtpOptions['auth']>;
+    const mechanisms = new Set(extensions.get('AUTH')?.map((name) => name.toUpperCase()));
+    if (!mechanisms.size) {
+      throw new AuthenticationError(
+        `SMTP server ${this.options.host} does not offer authentication on this connection`,
+      );
+    }
+
+    try {
+      if ('accessToken' in auth) {
+        const token = toBase64(`user=${auth.user}\x01auth=Bearer ${auth.accessToken}\x01\x01`);
+        let reply = await connection.command(`AUTH XOAUTH2 ${token}`);
+        // Errors arrive as a challenge that must be answered with an empty line
+        if (reply.code === 334) reply = await connection.command('');
+        expectReply('AUTH XOAUTH2', reply, 235);
+      } else if (
+        auth.method === 'LOGIN' ||
+        (!auth.method && !mechanisms.has('PLAIN') && mechanisms.has('LOGIN'))
+      ) {
+        expectReply('AUTH LOGIN', await connection.command('AUTH LOGIN'), 334);
+        expectReply('AUTH LOGIN', await connection.command(toBase64(auth.user)), 334);
+        expectReply('AUTH LOGIN', await connection.command(toBase64(auth.pass)), 235);
+      } else {
+        const response = toBase64(`\0${auth.user}\0${auth.pass}`);
+        expectReply('AUTH PLAIN', await connection.command(`AUTH PLAIN ${response}`), 235);
+      }
+    } catch (error) {
+      if (error instanceof SmtpCommandError) {
+        throw new AuthenticationError(`SMTP authentication failed: ${error.message}`, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a task on the connection without interleaving other transactions
+   *
+   * When `signal` aborts, the connection is dropped so the task cannot hold
+   * up the transactions queued behind it.
+   */
+  private exclusive<T>(
+    task: (connection: SmtpConnection) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const run = this.lock.then(async () => {
+      signal?.throwIfAborted();
+      const connection = await this.session();
+      return abortable(task(connection), signal, () => {
+        if (this.connection === connection) this.connection = undefined;
+        connection.close();
+      });
+    });
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Create SMTP transport
+ */
+export function smtp(options: SmtpOptions): SmtpTransport {
+  return new SmtpTransport(options);
+}
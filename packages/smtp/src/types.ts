@@ -0,0 +1,82 @@
+import type { ConnectionOptions } from 'node:tls';
+import type { SendOptions, SendResult } from '@faktoor/core';
+
+/**
+ * Password authentication
+ */
+export interface SmtpPasswordAuth {
+  user: string;
+  pass: string;
+  /** SASL mechanism; defaults to PLAIN when offered, LOGIN otherwise */
+  method?: 'PLAIN' | 'LOGIN';
+}
+
+/**
+ * OAuth 2.0 authentication through SASL XOAUTH2
+ */
+export interface SmtpOAuthAuth {
+  user: string;
+  accessToken: string;
+}
+
+/**
+ * Delivery status notification request (RFC 3461)
+ *
+ * Ignored by servers that do not announce the DSN extension.
+ */
+export interface SmtpDsnOptions {
+  /** When to notify the sender; `NEVER` suppresses all notifications */
+  notify?: Array<'SUCCESS' | 'FAILURE' | 'DELAY'> | 'NEVER';
+  /** Return the full message or only its headers with a failure notice */
+  ret?: 'FULL' | 'HDRS';
+  /** Envelope id echoed back in notifications */
+  envelopeId?: string;
+}
+
+/**
+ * SMTP transport configuration
+ */
+export interface SmtpOptions {
+  host: string;
+  /** Defaults to 465 for `tls`, 587 for `starttls` and 25 for `none` */
+  port?: number;
+  /**
+   * `tls` connects over TLS (default), `starttls` upgrades a plain connection
+   * before authenticating, `none` never encrypts (local relays only)
+   */
+  security?: 'tls' | 'starttls' | 'none';
+  auth?: SmtpPasswordAuth | SmtpOAuthAuth;
+  /** Default sender; falls back to `auth.user` when it is an address */
+  from?: string;
+  /** Name sent with EHLO (default: the machine's hostname) */
+  name?: string;
+  /** Extra options for `tls.connect`, e.g. a custom CA */
+  tls?: ConnectionOptions;
+  /** Milliseconds to wait for the connection and greeting (default: 30000) */
+  connectTimeout?: number;
+  /** Default DSN request for every message */
+  dsn?: SmtpDsnOptions;
+}
+
+/**
+ * Send options with SMTP envelope extras
+ */
+export interface SmtpSendOptions extends SendOptions {
+  /** Sender for this message, overriding the transport's `from` */
+  from?: string;
+  dsn?: SmtpDsnOptions;
+}
+
+/**
+ * Result of a successful SMTP send
+ */
+export interface SmtpSendResult extends SendResult {
+  /** Message-ID header of the sent message */
+  messageId: string;
+  /** Recipients the server accepted */
+  accepted: string[];
+  /** Recipients the server refused, while others were accepted */
+  rejected: Array<{ address: string; reason: string }>;
+  /** Final reply to the message, usually containing the queue id */
+  response: string;
+}